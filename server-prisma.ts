@@ -3,25 +3,182 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma, Task, Project, Lead, Document as DocumentRecord, SalesEmail, ServiceMaterial, Customer, TimeEntry } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import path from 'path';
+import multer from 'multer';
+import { createStorage, createStorageKey, checksumOf, StorageObjectNotFoundError } from './server/storage';
+import {
+  requireTeamRecord,
+  getTeamRecord,
+  findTeamRecord,
+  requirePermission,
+  stripRevenueFields,
+  REVENUE_FIELDS,
+  toTeamRole,
+  permissionsOf,
+  hasPermission,
+  Permission,
+  pickWritable,
+  TASK_WRITABLE_FIELDS,
+  TASK_SERIES_WRITABLE_FIELDS,
+  PROJECT_WRITABLE_FIELDS,
+  LEAD_WRITABLE_FIELDS
+} from './server/authorization';
+import { createInvitationToken, invitationExpiry, checkInvitation, INVITATION_ERRORS } from './server/teams';
+import {
+  ACCESS_TOKEN_TTL,
+  SESSION_ERRORS,
+  createRefreshToken,
+  parseRefreshToken,
+  sessionExpiry,
+  checkSession,
+  deviceLabelOf,
+  hashToken
+} from './server/sessions';
+import { createMailer } from './server/mailer';
+import { passwordPolicyOf, describePasswordPolicy, validatePassword } from './server/passwordPolicy';
+import {
+  AuthEventType,
+  RateLimiter,
+  createRateLimiters,
+  loginPolicyOf,
+  checkLoginAttempt,
+  lockoutAfter,
+  retryMessageOf,
+  LoginFailureTracker,
+  CLEARED_LOGIN_STATE
+} from './server/loginProtection';
+import {
+  AccountTokenPurpose,
+  ACCOUNT_TOKEN_ERRORS,
+  createAccountToken,
+  accountTokenExpiry,
+  checkAccountToken,
+  accountLinkOf,
+  accountMailOf
+} from './server/accountTokens';
+import { createRealtimeServer, RealtimeDataType } from './server/realtime';
+import { VERSION_CONFLICT_ERROR, Versioned, etagOf, expectedVersionOf, isStaleVersion } from './server/concurrency';
+import { deliverableIdOf, linkIdOf } from './server/taskLinks';
+import {
+  TASK_DEPENDENCY_ERRORS,
+  blockerIdsOf,
+  createsDependencyCycle,
+  isBlockingTransition,
+  openBlockersOf
+} from './server/taskDependencies';
+import { dateStringOf, nextOccurrence, recurrenceRuleOf, recurrenceStartOf, storedRuleOf } from './server/recurrence';
+import { TASK_BOARD_ERRORS, columnKeyOf, isRank, isWipBlocked, parseTaskBoard, taskBoardOf } from './server/taskBoard';
+import { TIME_ENTRY_ERRORS, dateRangeOf, isDateString, minutesBetween, timeEntryInputOf } from './server/timeTracking';
+import { PROFITABILITY_ERRORS, hourlyRateOf, laborCostOf, parseExpenses, serviceCategoryOf } from './server/profitability';
+import { FieldValueError, dateFieldOf, numberFieldOf } from './server/fieldValues';
+import {
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENCY_ERRORS,
+  isValidIdempotencyKey,
+  checkIdempotencyKey,
+  idempotencyKeyCutoff
+} from './server/idempotency';
+import {
+  listQuery,
+  getListQuery,
+  toPage,
+  emptyPage,
+  TASK_LIST,
+  PROJECT_LIST,
+  LEAD_LIST,
+  DOCUMENT_LIST,
+  MEETING_MINUTES_LIST,
+  SALES_EMAIL_LIST,
+  SERVICE_MATERIAL_LIST,
+  CUSTOMER_LIST,
+  ACTIVITY_LIST,
+  AUTH_EVENT_LIST
+} from './server/listQuery';
+import { ActivityAction, ActivityType, FieldChanges, SALES_ACTIVITY_TYPES, diffChanges, labelOfRecord } from './server/activity';
+import {
+  TRASH_TYPES,
+  TrashType,
+  TRASH_PERMISSIONS,
+  SALES_TRASH_TYPES,
+  NOT_DELETED,
+  DeletedRecord,
+  isTrashType,
+  retentionDaysOf,
+  purgeCutoff,
+  toTrashItems,
+  sortTrashItems
+} from './server/trash';
+import {
+  SEARCH_TYPES,
+  SearchType,
+  SALES_SEARCH_TYPES,
+  MAX_INDEXED_LENGTH,
+  toSearchDocument,
+  indexTokens,
+  queryTokens,
+  rankResults
+} from './server/search';
+import {
+  IMPORT_ENTITIES,
+  ImportEntity,
+  ImportPayload,
+  ImportRecord,
+  ImportReport,
+  ConflictStrategy,
+  ExistingRecord,
+  PlannedRecord,
+  MAX_IMPORT_RECORDS,
+  planImport,
+  labelOf,
+  parseDataUrl,
+  emptyImportCounts,
+  emptyIdMap
+} from './server/importer';
 
 // 環境変数の読み込み
 dotenv.config({ path: '.env.local' });
 
 const app = express();
 const PORT = process.env.PORT || 5001;
-const prisma = new PrismaClient();
+// サービス資料の旧形式のファイル（fileData）は大きいため、明示的に指定した場合のみ読み込む
+const prisma = new PrismaClient({ omit: { serviceMaterial: { fileData: true } } });
+const fileStorage = createStorage();
+const mailer = createMailer();
+const passwordPolicy = passwordPolicyOf();
+const loginPolicy = loginPolicyOf();
+const rateLimiters = createRateLimiters();
+const unknownEmailFailures = new LoginFailureTracker(loginPolicy);
+// 登録されていないメールアドレスでもパスワードを検証し、応答時間を登録済みの場合とそろえる
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('dummy-password-for-unknown-email', 12);
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: Number(process.env.MAX_UPLOAD_SIZE) || 50 * 1024 * 1024 },
+  // 日本語のファイル名を正しく扱う
+  defParamCharset: 'utf8'
+});
+// 一括インポートはサービス資料のファイル（data URL）を含むため、通常のJSONより大きな本文を受け付ける
+const IMPORT_BODY_LIMIT = process.env.MAX_IMPORT_SIZE || '100mb';
+
+const corsOrigin = process.env.NODE_ENV === 'production' ? process.env.FRONTEND_URL : 'http://localhost:3000';
+// メールに記載するリンクの送信先
+const APP_URL = corsOrigin || 'http://localhost:3000';
 
 // ミドルウェア
+// 本番環境ではリバースプロキシの背後で動くため、X-Forwarded-For から接続元のIPアドレスを取得する
+if (process.env.NODE_ENV === 'production') {
+  app.set('trust proxy', 1);
+}
 app.use(helmet());
 app.use(cors({
-  origin: process.env.NODE_ENV === 'production' ? process.env.FRONTEND_URL : 'http://localhost:3000',
-  credentials: true
+  origin: corsOrigin,
+  credentials: true,
+  exposedHeaders: ['ETag', 'Idempotent-Replayed']
 }));
 app.use(morgan('combined'));
+app.use('/api/import', express.json({ limit: IMPORT_BODY_LIMIT }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
@@ -32,12 +189,177 @@ interface AuthenticatedRequest extends Request {
     email: string;
     name: string;
     role: string;
+    teamId?: string;
     teamName?: string;
+    isTeamOwner?: boolean;
+    permissions: Permission[];
+    emailVerified: boolean;
+  };
+  // アクセストークンを発行したログインセッション
+  sessionId?: string;
+}
+
+type UserWithTeam = Prisma.UserGetPayload<{ include: { team: true } }>;
+
+// チームのオーナーは保存されているroleに関わらず owner として扱う
+const effectiveRole = (user: { id: string; role: string }, ownerId?: string | null) => {
+  if (ownerId && ownerId === user.id) return 'owner';
+  const role = toTeamRole(user.role);
+  return role === 'owner' ? 'member' : role;
+};
+
+// APIレスポンスとreq.userで使うユーザー情報（パスワードなどは含めない）
+const toAuthUser = (user: UserWithTeam): NonNullable<AuthenticatedRequest['user']> => {
+  const role = effectiveRole(user, user.team?.ownerId);
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name ?? '',
+    role,
+    teamId: user.teamId ?? undefined,
+    teamName: user.team?.name,
+    isTeamOwner: role === 'owner',
+    permissions: user.teamId ? permissionsOf(role) : [],
+    emailVerified: !!user.emailVerifiedAt
   };
+};
+
+// トークンの署名鍵（本番環境では必ず NEXTAUTH_SECRET を設定する）
+if (process.env.NODE_ENV === 'production' && !process.env.NEXTAUTH_SECRET) {
+  throw new Error('NEXTAUTH_SECRET must be set in production');
 }
+const JWT_SECRET = process.env.NEXTAUTH_SECRET || 'fallback-secret';
+
+const signAccessToken = (user: { id: string; email: string }, sessionId: string) => jwt.sign(
+  { id: user.id, email: user.email, sid: sessionId },
+  JWT_SECRET,
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// リフレッシュトークンを新しいものに差し替え、アクセストークンと一緒に返す
+const issueTokens = async (user: { id: string; email: string }, sessionId: string) => {
+  const { token: refreshToken, hash } = createRefreshToken(sessionId);
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { refreshTokenHash: hash, lastUsedAt: new Date(), expiresAt: sessionExpiry() }
+  });
+  return { token: signAccessToken(user, sessionId), refreshToken };
+};
+
+// リフレッシュトークンを差し替える（現在のトークンは少しの間だけ差し替える前のトークンとして受け付ける）
+// 同時に差し替えられた場合は、その結果を差し替える前のトークンとしてやり直す
+const rotateTokens = async (user: { id: string; email: string }, sessionId: string, currentHash: string) => {
+  let previousHash = currentHash;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { token: refreshToken, hash } = createRefreshToken(sessionId);
+    const now = new Date();
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, refreshTokenHash: previousHash },
+      data: { refreshTokenHash: hash, previousTokenHash: previousHash, rotatedAt: now, lastUsedAt: now, expiresAt: sessionExpiry(now) }
+    });
+    if (count > 0) return { token: signAccessToken(user, sessionId), refreshToken };
+    const latest = await prisma.session.findUnique({ where: { id: sessionId }, select: { refreshTokenHash: true } });
+    if (!latest) break;
+    previousHash = latest.refreshTokenHash;
+  }
+  throw new Error('Failed to rotate refresh token');
+};
+
+// ログイン・登録時にセッションを作成する（端末とIPアドレスはセッション一覧の表示用）
+const startSession = async (user: { id: string; email: string }, req: Request) => {
+  const session = await prisma.session.create({
+    data: {
+      refreshTokenHash: '',
+      userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+      ipAddress: req.ip ?? null,
+      expiresAt: sessionExpiry(),
+      userId: user.id
+    }
+  });
+  return issueTokens(user, session.id);
+};
+
+// パスワード再設定・メールアドレス確認のリンクをメールで送る（同じ用途の未使用のリンクは無効にする）
+const sendAccountMail = async (user: { id: string; email: string; name: string | null }, purpose: AccountTokenPurpose) => {
+  const { token, hash } = createAccountToken();
+  await prisma.$transaction([
+    prisma.accountToken.deleteMany({ where: { userId: user.id, purpose, usedAt: null } }),
+    prisma.accountToken.create({
+      data: { purpose, tokenHash: hash, expiresAt: accountTokenExpiry(purpose), userId: user.id }
+    })
+  ]);
+  await mailer.send(accountMailOf(purpose, user, accountLinkOf(APP_URL, purpose, token)));
+};
+
+// リンクのトークンを検証する（無効な場合はエラーメッセージを返す）
+const findAccountToken = async (token: unknown, purpose: AccountTokenPurpose) => {
+  const record = typeof token === 'string' && token
+    ? await prisma.accountToken.findUnique({ where: { tokenHash: hashToken(token) } })
+    : null;
+  if (!record || record.purpose !== purpose) {
+    return { error: ACCOUNT_TOKEN_ERRORS.not_found };
+  }
+  const state = checkAccountToken(record);
+  return state === 'valid' ? { record } : { error: ACCOUNT_TOKEN_ERRORS[state] };
+};
+
+// 認証の監査ログを記録する（記録に失敗しても元の操作は続ける）
+const logAuthEvent = async (
+  req: Request,
+  type: AuthEventType,
+  target: { email: string; user?: { id: string; teamId: string | null } | null; reason?: string }
+) => {
+  try {
+    await prisma.authEvent.create({
+      data: {
+        type,
+        email: target.email.slice(0, 320),
+        reason: target.reason ?? null,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent')?.slice(0, 500) ?? null,
+        userId: target.user?.id ?? null,
+        teamId: target.user?.teamId ?? null
+      }
+    });
+  } catch (error) {
+    console.error('Log auth event error:', error);
+  }
+};
+
+// 接続元IPごとの回数制限（超えた場合は429を返す）
+const rateLimit = (limiter: RateLimiter) => async (req: Request, res: Response, next: NextFunction) => {
+  const { allowed, retryAfterMs } = limiter.hit(req.ip ?? 'unknown');
+  if (allowed) return next();
+
+  const email = typeof req.body?.email === 'string' ? req.body.email.toLowerCase() : '';
+  await logAuthEvent(req, 'rate_limited', { email, reason: req.path });
+  res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  res.status(429).json({ error: retryMessageOf('rate_limited', retryAfterMs) });
+};
+
+// アクセストークンを検証し、セッションが無効になっていないことを確認する
+// チームの所属とオーナー権限は承認・除外をすぐ反映するため、トークンではなく毎回DBから読み込む
+const verifyAccessToken = async (token: string) => {
+  let payload: { id: string; sid?: string };
+  try {
+    payload = jwt.verify(token, JWT_SECRET) as { id: string; sid?: string };
+  } catch {
+    return null;
+  }
+  // セッション導入前に発行したトークンは受け付けない
+  if (!payload.sid) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    include: { user: { include: { team: true } } }
+  });
+  if (!session || session.userId !== payload.id || checkSession(session) !== 'valid') return null;
+  return { user: session.user, sessionId: session.id };
+};
 
 // JWT認証ミドルウェア
-const authenticateToken = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+// 期限切れ・無効なトークンは401を返し、クライアントはリフレッシュトークンで更新してから再試行する
+const authenticateToken = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -45,15 +367,247 @@ const authenticateToken = (req: AuthenticatedRequest, res: Response, next: NextF
     return res.status(401).json({ error: 'アクセストークンが必要です' });
   }
 
-  jwt.verify(token, process.env.NEXTAUTH_SECRET || 'fallback-secret', (err: any, user: any) => {
-    if (err) {
-      return res.status(403).json({ error: '無効なトークンです' });
+  try {
+    const verified = await verifyAccessToken(token);
+    if (!verified) {
+      return res.status(401).json({ error: '無効なトークンです' });
     }
-    req.user = user;
+    req.user = toAuthUser(verified.user);
+    req.sessionId = verified.sessionId;
     next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// リアルタイム同期（Socket.IO）。接続時もREST APIと同じトークンで認証し、所属チームはDBから読み込む
+const realtime = createRealtimeServer(async token => {
+  const verified = await verifyAccessToken(token);
+  return verified ? toAuthUser(verified.user) : null;
+}, corsOrigin);
+
+// 旧方式（チーム名の一致だけで所属していた）ユーザーを同名のチームに紐付け直す
+const linkLegacyTeam = async (user: UserWithTeam): Promise<UserWithTeam> => {
+  if (user.teamId || !user.teamName) return user;
+
+  let team = await prisma.team.findFirst({
+    where: { name: user.teamName },
+    orderBy: { createdAt: 'asc' }
+  });
+  if (!team) {
+    team = await prisma.team.create({ data: { name: user.teamName, ownerId: user.id } });
+  } else if (!team.ownerId) {
+    // オーナー不在の既存チームは最初に移行したユーザーをオーナーにする
+    team = await prisma.team.update({ where: { id: team.id }, data: { ownerId: user.id } });
+  }
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: { teamId: team.id, teamName: null },
+    include: { team: true }
   });
 };
 
+// 顧客IDが同じチームの顧客を指している場合のみ紐付ける（未指定はundefined、解除はnull）
+const resolveCustomerId = async (customerId: any, teamId?: string) => {
+  if (customerId === undefined) return undefined;
+  if (!customerId) return null;
+  const customer = await findTeamRecord(
+    where => prisma.customer.findFirst({ where, select: { id: true } }),
+    String(customerId),
+    teamId
+  );
+  return customer?.id ?? null;
+};
+
+// タスクの関連付け（同じチームのゴミ箱にない案件・商談のみ。指定されなかった項目は変更しない）
+// 商談は営業データを閲覧できるメンバーのみ変更できる。納品物は関連付けた案件のものだけを残す
+const resolveTaskLinks = async (req: AuthenticatedRequest, existing?: Task) => {
+  const teamId = req.user?.teamId;
+  const projectId = linkIdOf(req.body.projectId);
+  const leadId = linkIdOf(req.body.leadId);
+  const links: { projectId?: string | null; leadId?: string | null; deliverableId?: number | null } = {};
+
+  if (projectId !== undefined || req.body.deliverableId !== undefined) {
+    const targetProjectId = projectId === undefined ? existing?.projectId : projectId;
+    const project = targetProjectId
+      ? await findTeamRecord(
+          where => prisma.project.findFirst({ where: { ...where, ...NOT_DELETED }, select: { id: true, deliverables: true } }),
+          targetProjectId,
+          teamId
+        )
+      : null;
+    if (projectId !== undefined) links.projectId = project?.id ?? null;
+    const deliverableId = req.body.deliverableId === undefined ? existing?.deliverableId : req.body.deliverableId;
+    links.deliverableId = deliverableIdOf(deliverableId, project?.deliverables);
+  }
+  if (leadId !== undefined && hasPermission(req.user?.role, 'sales:view')) {
+    const lead = leadId
+      ? await findTeamRecord(
+          where => prisma.lead.findFirst({ where: { ...where, ...NOT_DELETED }, select: { id: true } }),
+          leadId,
+          teamId
+        )
+      : null;
+    links.leadId = lead?.id ?? null;
+  }
+  return links;
+};
+
+// 全文検索の索引を更新する（索引の更新に失敗しても元の操作は成功として扱う）
+const indexForSearch = async (type: SearchType, record: { id: string; userId: string }) => {
+  try {
+    const { title, content } = toSearchDocument(type, record);
+    const data = {
+      title: title || '',
+      content: content.slice(0, MAX_INDEXED_LENGTH),
+      tokens: indexTokens(`${title || ''}\n${content}`),
+      userId: record.userId
+    };
+    await prisma.searchEntry.upsert({
+      where: { entityType_entityId: { entityType: type, entityId: record.id } },
+      create: { entityType: type, entityId: record.id, ...data },
+      update: data
+    });
+  } catch (error) {
+    console.error('Update search index error:', error);
+  }
+};
+
+const removeFromSearch = async (type: SearchType, id: string) => {
+  try {
+    await prisma.searchEntry.deleteMany({ where: { entityType: type, entityId: id } });
+  } catch (error) {
+    console.error('Remove search index error:', error);
+  }
+};
+
+const findSearchSources: Record<SearchType, (where: { user?: { teamId: string } }) => Promise<{ id: string; userId: string }[]>> = {
+  tasks: where => prisma.task.findMany({ where: { ...where, ...NOT_DELETED } }),
+  projects: where => prisma.project.findMany({ where: { ...where, ...NOT_DELETED } }),
+  leads: where => prisma.lead.findMany({ where: { ...where, ...NOT_DELETED } }),
+  meetingMinutes: where => prisma.meetingMinutes.findMany({ where: { ...where, ...NOT_DELETED } }),
+  salesEmails: where => prisma.salesEmail.findMany({ where: { ...where, ...NOT_DELETED } }),
+  serviceMaterials: where => prisma.serviceMaterial.findMany({ where: { ...where, ...NOT_DELETED } })
+};
+
+// 索引を作り直す（teamId を省略した場合はすべてのチーム）
+const rebuildSearchIndex = async (teamId?: string) => {
+  const where = teamId ? { user: { teamId } } : {};
+  await prisma.searchEntry.deleteMany({ where });
+  let count = 0;
+  for (const type of SEARCH_TYPES) {
+    for (const record of await findSearchSources[type](where)) {
+      await indexForSearch(type, record);
+      count += 1;
+    }
+  }
+  return count;
+};
+
+// 変更履歴を記録する（記録に失敗しても元の操作は成功として扱う）
+// changes を省略した場合は before と after の差分を記録し、変更のない更新は記録しない
+const logActivity = async (
+  req: AuthenticatedRequest,
+  type: ActivityType,
+  action: ActivityAction,
+  before: { id: string } | null,
+  after: { id: string } | null,
+  changes: FieldChanges = diffChanges(before, after)
+) => {
+  const record = after ?? before;
+  if (!req.user?.teamId || !record) return;
+  if (action === 'updated' && Object.keys(changes).length === 0) return;
+
+  try {
+    await prisma.activityLog.create({
+      data: {
+        action,
+        entityType: type,
+        entityId: record.id,
+        entityLabel: labelOfRecord(record),
+        changes: changes as Prisma.InputJsonValue,
+        actorName: req.user.name || req.user.email,
+        teamId: req.user.teamId,
+        userId: req.user.id
+      }
+    });
+  } catch (error) {
+    console.error('Log activity error:', error);
+  }
+};
+
+// 削除したレコードはゴミ箱に移動し、保持期間を過ぎるまで復元できるようにする
+const trashData = (req: AuthenticatedRequest) => ({ deletedAt: new Date(), deletedById: req.user!.id });
+
+// 同時編集の競合は、最新の内容を付けて409を返す（削除済みの場合は current が null）
+const sendVersionConflict = (res: Response, current: Versioned | null) => {
+  if (current) res.set('ETag', etagOf(current.version));
+  res.status(409).json({ error: VERSION_CONFLICT_ERROR, current });
+};
+
+// 編集を始めたときの version（本文の version または If-Match ヘッダー）が現在と異なる場合は更新しない
+const rejectStaleVersion = (req: Request, res: Response, existing: Versioned): boolean => {
+  if (!isStaleVersion(expectedVersionOf(req.body, req.get('If-Match')), existing)) return false;
+  sendVersionConflict(res, existing);
+  return true;
+};
+
+// 確認してから更新するまでの間に他の更新が入った場合（where の version が一致せず、更新対象が見つからない）
+const isVersionRace = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+
+// 作成APIの冪等キー：同じ Idempotency-Key の再送には最初の応答をそのまま返す（ヘッダーがない場合は通常どおり処理する）
+// 失敗した応答は保存せず、同じキーで送り直せるようにする
+const idempotent = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const key = req.get(IDEMPOTENCY_HEADER);
+  if (!key) return next();
+  if (!isValidIdempotencyKey(key)) {
+    return res.status(400).json({ error: IDEMPOTENCY_ERRORS.invalid });
+  }
+
+  const where = { userId_key: { userId: req.user!.id, key } };
+  const requestPath = `${req.method} ${req.originalUrl.split('?')[0]}`;
+  try {
+    const existing = await prisma.idempotencyKey.findUnique({ where });
+    const state = existing ? checkIdempotencyKey(existing, requestPath) : null;
+    if (existing && state === 'replay') {
+      res.set('Idempotent-Replayed', 'true');
+      return res.status(existing.statusCode!).json(existing.response);
+    }
+    if (state === 'mismatch') {
+      return res.status(422).json({ error: IDEMPOTENCY_ERRORS.mismatch });
+    }
+    if (state === 'in_progress') {
+      return res.status(409).json({ error: IDEMPOTENCY_ERRORS.in_progress });
+    }
+    if (state === 'abandoned') {
+      await prisma.idempotencyKey.delete({ where });
+    }
+    await prisma.idempotencyKey.create({ data: { key, requestPath, userId: req.user!.id } });
+  } catch (error) {
+    // 同じキーのリクエストが同時に届いた場合（一意制約の違反）
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return res.status(409).json({ error: IDEMPOTENCY_ERRORS.in_progress });
+    }
+    console.error('Idempotency key error:', error);
+    return res.status(500).json({ error: 'サーバーエラーが発生しました' });
+  }
+
+  const json = res.json.bind(res);
+  res.json = (body?: unknown) => {
+    const saved = res.statusCode < 400
+      ? prisma.idempotencyKey.update({
+          where,
+          data: { statusCode: res.statusCode, response: JSON.parse(JSON.stringify(body ?? null)) as Prisma.InputJsonValue }
+        })
+      : prisma.idempotencyKey.delete({ where });
+    saved.catch(error => console.error('Save idempotency key error:', error));
+    return json(body);
+  };
+  next();
+};
+
 // ヘルスチェック
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
@@ -72,11 +626,12 @@ app.get('*', (req, res) => {
 });
 
 // ユーザー登録
-app.post('/api/auth/register', async (req, res) => {
+// 招待トークンがある場合はそのチームへの参加申請を作成し、ない場合は新しいチームを作成してオーナーになる
+app.post('/api/auth/register', rateLimit(rateLimiters.account), async (req, res) => {
   try {
-    const { email, password, name, teamName } = req.body;
+    const { email, password, name, teamName, inviteToken } = req.body;
 
-    console.log('📝 登録リクエスト受信:', { email, name, teamName });
+    console.log('📝 登録リクエスト受信:', { email, name, teamName, invited: !!inviteToken });
 
     // バリデーション
     if (!email || !password) {
@@ -84,60 +639,81 @@ app.post('/api/auth/register', async (req, res) => {
       return res.status(400).json({ error: 'メールアドレスとパスワードは必須です' });
     }
 
-    // 既存ユーザーチェック
     const normalizedEmail = email.toLowerCase();
+    const passwordError = validatePassword(password, passwordPolicy, normalizedEmail);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+
+    // 既存ユーザーチェック
     const existingUser = await prisma.user.findUnique({ where: { email: normalizedEmail } });
     if (existingUser) {
       console.log('❌ 既に登録されているメールアドレス:', normalizedEmail);
       return res.status(400).json({ error: 'このメールアドレスは既に登録されています' });
     }
 
-    // パスワードのハッシュ化
-    const hashedPassword = await bcrypt.hash(password, 12);
-
-    // チームの作成または取得
-    const finalTeamName = teamName || 'デフォルトチーム';
-    let team = await prisma.team.findUnique({ where: { name: finalTeamName } });
-    if (!team) {
-      team = await prisma.team.create({ data: { name: finalTeamName } });
+    // 招待の検証
+    const invitation = inviteToken
+      ? await prisma.teamInvitation.findUnique({ where: { token: String(inviteToken) }, include: { team: true } })
+      : null;
+    if (inviteToken) {
+      if (!invitation) {
+        return res.status(400).json({ error: '招待リンクが見つかりません' });
+      }
+      const state = checkInvitation(invitation, normalizedEmail);
+      if (state !== 'valid') {
+        return res.status(400).json({ error: INVITATION_ERRORS[state] });
+      }
     }
 
-    // ユーザー作成
-    const user = await prisma.user.create({
-      data: {
-        email: normalizedEmail,
-        password: hashedPassword,
-        name: name || email.split('@')[0],
-        teamName: finalTeamName,
-        role: 'user',
+    // パスワードのハッシュ化
+    const hashedPassword = await bcrypt.hash(password, 12);
+    const displayName = name || email.split('@')[0];
+
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email: normalizedEmail,
+          password: hashedPassword,
+          name: displayName,
+          role: invitation ? 'member' : 'owner',
+        }
+      });
+
+      if (invitation) {
+        await tx.teamJoinRequest.create({
+          data: { teamId: invitation.teamId, userId: created.id, invitationId: invitation.id }
+        });
+        await tx.teamInvitation.update({
+          where: { id: invitation.id },
+          data: { useCount: { increment: 1 } }
+        });
+        return tx.user.findUniqueOrThrow({ where: { id: created.id }, include: { team: true } });
       }
+
+      const team = await tx.team.create({
+        data: { name: teamName?.trim() || `${displayName}のチーム`, ownerId: created.id }
+      });
+      return tx.user.update({
+        where: { id: created.id },
+        data: { teamId: team.id },
+        include: { team: true }
+      });
     });
 
     console.log('✅ 新規ユーザー登録完了:', user.email);
+    await logAuthEvent(req, 'registered', { email: user.email, user });
 
-    // JWTトークン生成
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        email: user.email, 
-        name: user.name,
-        role: user.role,
-        teamName: user.teamName
-      },
-      process.env.NEXTAUTH_SECRET || 'fallback-secret',
-      { expiresIn: '30d' }
-    );
+    // 確認メールの送信に失敗しても登録は完了させ、アカウント画面から再送できるようにする
+    await sendAccountMail(user, 'emailVerification')
+      .catch(error => console.error('Send verification mail error:', error));
 
     res.status(201).json({
-      message: '登録が完了しました',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        teamName: user.teamName
-      },
-      token
+      message: invitation
+        ? `登録が完了しました。確認メールのリンクを開いてメールアドレスを確認すると、「${invitation.team.name}」のオーナーが参加を承認できるようになります`
+        : '登録が完了しました。確認メールのリンクを開いてメールアドレスを確認してください',
+      user: toAuthUser(user),
+      ...(await startSession(user, req))
     });
 
   } catch (error) {
@@ -146,8 +722,23 @@ app.post('/api/auth/register', async (req, res) => {
   }
 });
 
+// ログインの失敗を数える（同時に送られた失敗もそれぞれ数えるよう、DBで加算した回数でロックを判断する）
+// ロックした場合は true
+const recordUserLoginFailure = async (userId: string) => {
+  const now = new Date();
+  const failed = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: now },
+    select: { failedLoginCount: true }
+  });
+  const locked = lockoutAfter(failed.failedLoginCount, loginPolicy, now);
+  if (!locked) return false;
+  await prisma.user.update({ where: { id: userId }, data: locked });
+  return true;
+};
+
 // ユーザーログイン
-app.post('/api/auth/login', async (req, res) => {
+app.post('/api/auth/login', rateLimit(rateLimiters.login), async (req, res) => {
   try {
     const { email, password } = req.body;
 
@@ -160,47 +751,48 @@ app.post('/api/auth/login', async (req, res) => {
 
     // ユーザー検索
     const normalizedEmail = email.toLowerCase();
-    const user = await prisma.user.findUnique({ where: { email: normalizedEmail } });
+    const user = await prisma.user.findUnique({ where: { email: normalizedEmail }, include: { team: true } });
 
     console.log('🔍 検索結果:', user ? 'ユーザーが見つかりました' : 'ユーザーが見つかりませんでした');
 
-    if (!user) {
-      console.log('❌ ユーザーが見つかりません');
-      return res.status(401).json({ error: 'メールアドレスまたはパスワードが正しくありません' });
+    // 失敗が続いている場合は、待ち時間が過ぎるかロックが解除されるまでパスワードを検証しない
+    // 登録されていないメールアドレスも同じように数え、アカウントの有無で応答を変えない
+    const attempt = user ? checkLoginAttempt(user, loginPolicy) : unknownEmailFailures.check(normalizedEmail);
+    if (!attempt.allowed) {
+      await logAuthEvent(req, attempt.reason === 'locked' ? 'login_locked' : 'login_throttled', { email: normalizedEmail, user });
+      res.set('Retry-After', String(Math.ceil(attempt.retryAfterMs / 1000)));
+      return res.status(429).json({ error: retryMessageOf(attempt.reason, attempt.retryAfterMs) });
     }
 
     // パスワード検証
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-
-    console.log('🔑 パスワード検証結果:', isPasswordValid ? 'パスワードが正しい' : 'パスワードが間違っています');
-
-    if (!isPasswordValid) {
+    const isPasswordValid = await bcrypt.compare(password, user?.password ?? DUMMY_PASSWORD_HASH);
+
+    console.log('🔑 パスワード検証結果:', user && isPasswordValid ? 'パスワードが正しい' : 'パスワードが間違っています');
+
+    if (!user || !isPasswordValid) {
+      const locked = user ? await recordUserLoginFailure(user.id) : !!unknownEmailFailures.fail(normalizedEmail).lockedUntil;
+      const reason = user ? 'wrong_password' : 'unknown_email';
+      if (locked) {
+        console.log('🔒 ログインの失敗が続いたためロックしました:', normalizedEmail);
+        await logAuthEvent(req, 'login_failed', { email: normalizedEmail, user, reason: 'locked' });
+        res.set('Retry-After', String(Math.ceil(loginPolicy.lockoutMs / 1000)));
+        return res.status(429).json({ error: retryMessageOf('locked', loginPolicy.lockoutMs) });
+      }
+      await logAuthEvent(req, 'login_failed', { email: normalizedEmail, user, reason });
       return res.status(401).json({ error: 'メールアドレスまたはパスワードが正しくありません' });
     }
 
-    // JWTトークン生成
-    const token = jwt.sign(
-      { 
-        id: user.id, 
-        email: user.email, 
-        name: user.name,
-        role: user.role,
-        teamName: user.teamName
-      },
-      process.env.NEXTAUTH_SECRET || 'fallback-secret',
-      { expiresIn: '30d' }
-    );
+    if (user.failedLoginCount > 0 || user.lockedUntil) {
+      await prisma.user.update({ where: { id: user.id }, data: CLEARED_LOGIN_STATE });
+    }
+
+    const linkedUser = await linkLegacyTeam(user);
+    await logAuthEvent(req, 'login_succeeded', { email: normalizedEmail, user: linkedUser });
 
     res.json({
       message: 'ログインに成功しました',
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        teamName: user.teamName
-      },
-      token
+      user: toAuthUser(linkedUser),
+      ...(await startSession(linkedUser, req))
     });
 
   } catch (error) {
@@ -216,247 +808,2720 @@ app.get('/api/auth/me', authenticateToken, (req: AuthenticatedRequest, res) => {
   });
 });
 
-// チームメンバー取得
-app.get('/api/team/members', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// パスワードの条件（登録・変更画面での表示用）
+app.get('/api/auth/password-policy', (req, res) => {
+  res.json({ ...passwordPolicy, description: describePasswordPolicy(passwordPolicy) });
+});
+
+// アクセストークンの更新（リフレッシュトークンも新しいものに差し替える）
+app.post('/api/auth/refresh', async (req, res) => {
   try {
-    if (!req.user?.teamName) {
-      return res.json([]);
+    const parsed = parseRefreshToken(req.body.refreshToken);
+    const session = parsed
+      ? await prisma.session.findUnique({
+        where: { id: parsed.sessionId },
+        include: { user: { include: { team: true } } }
+      })
+      : null;
+    if (!parsed || !session) {
+      return res.status(401).json({ error: SESSION_ERRORS.revoked });
     }
 
-    const teamMembers = await prisma.user.findMany({
-      where: { teamName: req.user.teamName },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        teamName: true,
-        createdAt: true
+    const state = checkSession(session, parsed.secret);
+    if (state !== 'valid') {
+      // 差し替え済みのトークンが使われた場合は、正規の利用者も含めてこのセッションを無効にする
+      if (state === 'reused') {
+        await prisma.session.update({ where: { id: session.id }, data: { revokedAt: new Date() } });
+        console.log('⚠️ 差し替え済みのリフレッシュトークンが使用されました:', session.user.email);
+        await logAuthEvent(req, 'refresh_token_reused', { email: session.user.email, user: session.user });
       }
+      return res.status(401).json({ error: SESSION_ERRORS[state] });
+    }
+
+    res.json({
+      user: toAuthUser(session.user),
+      ...(await rotateTokens(session.user, session.id, session.refreshTokenHash))
     });
-    
-    res.json(teamMembers);
   } catch (error) {
-    console.error('Get team members error:', error);
-    res.status(500).json({ error: 'チームメンバーの取得に失敗しました' });
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'ログイン状態の更新に失敗しました' });
   }
 });
 
-// タスク関連API（チーム共有）
-app.get('/api/tasks', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// ログアウト（この端末のセッションを無効にする）
+// アクセストークンの期限が切れていてもログアウトできるよう、リフレッシュトークンで対象を特定する
+app.post('/api/auth/logout', async (req, res) => {
   try {
-    if (!req.user?.teamName) {
-      return res.json([]);
+    const parsed = parseRefreshToken(req.body.refreshToken);
+    const session = parsed
+      ? await prisma.session.findUnique({ where: { id: parsed.sessionId }, include: { user: true } })
+      : null;
+    if (parsed && session && checkSession(session, parsed.secret) === 'valid') {
+      await prisma.session.update({ where: { id: session.id }, data: { revokedAt: new Date() } });
+      await logAuthEvent(req, 'logged_out', { email: session.user.email, user: session.user });
     }
-
-    const tasks = await prisma.task.findMany({
-      where: { 
-        user: {
-          teamName: req.user.teamName
-        }
-      },
-      orderBy: { createdAt: 'desc' }
-    });
-
-    res.json(tasks);
+    res.status(204).send();
   } catch (error) {
-    console.error('Get tasks error:', error);
-    res.status(500).json({ error: 'タスクの取得に失敗しました' });
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'ログアウトに失敗しました' });
   }
 });
 
-app.post('/api/tasks', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// ログイン中の端末の一覧
+app.get('/api/auth/sessions', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    const task = await prisma.task.create({
-      data: {
-        title: req.body.title,
-        description: req.body.description || '',
-        status: req.body.status || 'pending',
-        priority: req.body.priority || 'medium',
-        assignee: req.body.assignee || req.user?.name || 'Unknown',
-        dueDate: req.body.dueDate ? new Date(req.body.dueDate) : null,
-        userId: req.user!.id
-      }
+    const sessions = await prisma.session.findMany({
+      where: { userId: req.user!.id, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: 'desc' }
     });
 
-    res.status(201).json(task);
+    res.json(sessions.map(session => ({
+      id: session.id,
+      device: deviceLabelOf(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === req.sessionId
+    })));
   } catch (error) {
-    console.error('Create task error:', error);
-    res.status(500).json({ error: 'タスクの作成に失敗しました' });
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'ログイン中の端末の取得に失敗しました' });
   }
 });
 
-app.put('/api/tasks/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// 指定した端末からログアウトする（自分のセッションのみ）
+app.delete('/api/auth/sessions/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    const task = await prisma.task.update({
-      where: { id: req.params.id },
-      data: req.body
+    const { count } = await prisma.session.updateMany({
+      where: { id: String(req.params.id), userId: req.user!.id, revokedAt: null },
+      data: { revokedAt: new Date() }
     });
-
-    res.json(task);
+    if (count === 0) {
+      return res.status(404).json({ error: 'ログイン中の端末が見つかりません' });
+    }
+    res.status(204).send();
   } catch (error) {
-    console.error('Update task error:', error);
-    res.status(500).json({ error: 'タスクの更新に失敗しました' });
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: '端末のログアウトに失敗しました' });
   }
 });
 
-app.delete('/api/tasks/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// すべての端末からログアウトする（この端末を含む）
+app.post('/api/auth/logout-all', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    await prisma.task.delete({
-      where: { id: req.params.id }
+    await prisma.session.updateMany({
+      where: { userId: req.user!.id, revokedAt: null },
+      data: { revokedAt: new Date() }
     });
-
+    await logAuthEvent(req, 'logged_out_everywhere', { email: req.user!.email, user: { id: req.user!.id, teamId: req.user!.teamId ?? null } });
     res.status(204).send();
   } catch (error) {
-    console.error('Delete task error:', error);
-    res.status(500).json({ error: 'タスクの削除に失敗しました' });
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'すべての端末からのログアウトに失敗しました' });
   }
 });
 
-// プロジェクト関連API（チーム共有）
-app.get('/api/projects', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// パスワードの変更（この端末以外のログインはすべて無効にする）
+app.put('/api/auth/password', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    if (!req.user?.teamName) {
-      return res.json([]);
+    const { currentPassword, newPassword } = req.body;
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ error: '現在のパスワードと新しいパスワードは必須です' });
+    }
+    const passwordError = validatePassword(newPassword, passwordPolicy, req.user!.email);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
     }
 
-    const projects = await prisma.project.findMany({
-      where: { 
-        user: {
-          teamName: req.user.teamName
-        }
-      },
-      orderBy: { createdAt: 'desc' }
-    });
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: req.user!.id } });
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      return res.status(400).json({ error: '現在のパスワードが正しくありません' });
+    }
 
-    res.json(projects);
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+    await prisma.$transaction([
+      prisma.user.update({ where: { id: user.id }, data: { password: hashedPassword } }),
+      prisma.session.updateMany({
+        where: { userId: user.id, revokedAt: null, id: { not: req.sessionId } },
+        data: { revokedAt: new Date() }
+      })
+    ]);
+
+    await logAuthEvent(req, 'password_changed', { email: user.email, user });
+    res.json({ message: 'パスワードを変更しました。ほかの端末ではログアウトされます' });
   } catch (error) {
-    console.error('Get projects error:', error);
-    res.status(500).json({ error: 'プロジェクトの取得に失敗しました' });
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'パスワードの変更に失敗しました' });
   }
 });
 
-app.post('/api/projects', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// パスワード再設定メールの送信
+// 登録されていないメールアドレスかどうかがわからないよう、結果にかかわらず同じ応答を返す
+app.post('/api/auth/forgot-password', rateLimit(rateLimiters.account), async (req, res) => {
   try {
-    const project = await prisma.project.create({
-      data: {
-        name: req.body.name,
-        description: req.body.description || '',
-        client: req.body.client || '',
-        status: req.body.status || 'planning',
-        priority: req.body.priority || 'medium',
-        progress: req.body.progress || 0,
-        userId: req.user!.id
-      }
-    });
+    const email = typeof req.body.email === 'string' ? req.body.email.toLowerCase() : '';
+    if (!email) {
+      return res.status(400).json({ error: 'メールアドレスは必須です' });
+    }
 
-    res.status(201).json(project);
+    // 登録されているかどうかを応答の内容や時間から推測されないよう、送信は待たずに同じ応答を返す（送信の失敗はログに残す）
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (user) {
+      sendAccountMail(user, 'passwordReset')
+        .catch(error => console.error('Send password reset mail error:', error));
+    }
+    await logAuthEvent(req, 'password_reset_requested', { email, user, reason: user ? undefined : 'unknown_email' });
+
+    res.json({ message: 'パスワード再設定用のリンクをメールで送信しました。メールが届かない場合は、入力したメールアドレスを確認してください' });
   } catch (error) {
-    console.error('Create project error:', error);
-    res.status(500).json({ error: 'プロジェクトの作成に失敗しました' });
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'パスワード再設定メールの送信に失敗しました' });
   }
 });
 
-app.put('/api/projects/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// パスワードの再設定（すべての端末のログインを無効にする）
+// メールのリンクを開けたことでメールアドレスの確認も済んだものとして扱う
+app.post('/api/auth/reset-password', rateLimit(rateLimiters.account), async (req, res) => {
   try {
-    const project = await prisma.project.update({
-      where: { id: req.params.id },
-      data: req.body
-    });
+    const { token, password } = req.body;
+    const found = await findAccountToken(token, 'passwordReset');
+    if (!found.record) {
+      return res.status(400).json({ error: found.error });
+    }
 
-    res.json(project);
+    const { record } = found;
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: record.userId } });
+    const passwordError = validatePassword(password, passwordPolicy, user.email);
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
+    }
+    const hashedPassword = await bcrypt.hash(password, 12);
+    await prisma.$transaction([
+      prisma.user.update({
+        where: { id: user.id },
+        // 再設定できた場合はログインのロックも解除する
+        data: { password: hashedPassword, emailVerifiedAt: user.emailVerifiedAt ?? new Date(), ...CLEARED_LOGIN_STATE }
+      }),
+      prisma.accountToken.update({ where: { id: record.id }, data: { usedAt: new Date() } }),
+      prisma.session.updateMany({ where: { userId: user.id, revokedAt: null }, data: { revokedAt: new Date() } })
+    ]);
+
+    console.log('🔑 パスワードを再設定しました:', user.email);
+    await logAuthEvent(req, 'password_reset', { email: user.email, user });
+    res.json({ message: 'パスワードを再設定しました。新しいパスワードでログインしてください' });
   } catch (error) {
-    console.error('Update project error:', error);
-    res.status(500).json({ error: 'プロジェクトの更新に失敗しました' });
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'パスワードの再設定に失敗しました' });
   }
 });
 
-app.delete('/api/projects/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// メールアドレスの確認（ログインしていない端末でリンクを開いても確認できるよう認証不要）
+app.post('/api/auth/verify-email', rateLimit(rateLimiters.account), async (req, res) => {
   try {
-    await prisma.project.delete({
-      where: { id: req.params.id }
-    });
+    const found = await findAccountToken(req.body.token, 'emailVerification');
+    if (!found.record) {
+      return res.status(400).json({ error: found.error });
+    }
 
-    res.status(204).send();
+    const { record } = found;
+    const [user] = await prisma.$transaction([
+      prisma.user.update({ where: { id: record.userId }, data: { emailVerifiedAt: new Date() } }),
+      prisma.accountToken.update({ where: { id: record.id }, data: { usedAt: new Date() } })
+    ]);
+    await logAuthEvent(req, 'email_verified', { email: user.email, user });
+
+    res.json({ message: 'メールアドレスを確認しました' });
   } catch (error) {
-    console.error('Delete project error:', error);
-    res.status(500).json({ error: 'プロジェクトの削除に失敗しました' });
+    console.error('Verify email error:', error);
+    res.status(500).json({ error: 'メールアドレスの確認に失敗しました' });
   }
 });
 
-// リード関連API（チーム共有）
-app.get('/api/leads', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// 確認メールの再送
+app.post('/api/auth/verify-email/resend', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    if (!req.user?.teamName) {
-      return res.json([]);
+    if (req.user!.emailVerified) {
+      return res.status(400).json({ error: 'メールアドレスはすでに確認済みです' });
     }
+    await sendAccountMail({ id: req.user!.id, email: req.user!.email, name: req.user!.name }, 'emailVerification');
+    res.json({ message: `${req.user!.email} に確認メールを送信しました` });
+  } catch (error) {
+    console.error('Resend verification mail error:', error);
+    res.status(500).json({ error: '確認メールの送信に失敗しました' });
+  }
+});
 
-    const leads = await prisma.lead.findMany({
-      where: { 
-        user: {
-          teamName: req.user.teamName
-        }
-      },
+// チーム関連API
+// 所属チームの情報と、チーム未所属の場合は承認待ちの参加申請を返す
+app.get('/api/team', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const team = req.user?.teamId
+      ? await prisma.team.findUnique({
+          where: { id: req.user.teamId },
+          include: { _count: { select: { members: true } } }
+        })
+      : null;
+
+    const pendingRequests = await prisma.teamJoinRequest.findMany({
+      where: { userId: req.user!.id, status: 'pending' },
+      include: { team: { select: { name: true } } },
       orderBy: { createdAt: 'desc' }
     });
 
-    res.json(leads);
+    res.json({ team, pendingRequests });
   } catch (error) {
-    console.error('Get leads error:', error);
-    res.status(500).json({ error: 'リードの取得に失敗しました' });
+    console.error('Get team error:', error);
+    res.status(500).json({ error: 'チーム情報の取得に失敗しました' });
   }
 });
 
-app.post('/api/leads', authenticateToken, async (req: AuthenticatedRequest, res) => {
+app.put('/api/team', authenticateToken, requirePermission('team:manage'), async (req: AuthenticatedRequest, res) => {
   try {
-    const lead = await prisma.lead.create({
-      data: {
-        company: req.body.company,
-        contact: req.body.contact,
-        contactEmail: req.body.contactEmail || '',
-        status: req.body.status || 'リード',
-        value: req.body.value || 0,
-        probability: req.body.probability || 0,
-        userId: req.user!.id
-      }
+    if (!req.body.name || !String(req.body.name).trim()) {
+      return res.status(400).json({ error: 'チーム名は必須です' });
+    }
+
+    const team = await prisma.team.update({
+      where: { id: req.user!.teamId },
+      data: { name: String(req.body.name).trim() }
     });
 
-    res.status(201).json(lead);
+    res.json(team);
   } catch (error) {
-    console.error('Create lead error:', error);
-    res.status(500).json({ error: 'リードの作成に失敗しました' });
+    console.error('Update team error:', error);
+    res.status(500).json({ error: 'チーム情報の更新に失敗しました' });
   }
 });
 
-app.put('/api/leads/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// タスクのかんばんの列とWIP制限（未設定の場合は標準の列）
+app.get('/api/team/task-board', authenticateToken, async (req: AuthenticatedRequest, res) => {
   try {
-    const lead = await prisma.lead.update({
-      where: { id: req.params.id },
-      data: req.body
-    });
-
-    res.json(lead);
+    const team = req.user?.teamId
+      ? await prisma.team.findUnique({ where: { id: req.user.teamId }, select: { taskBoard: true } })
+      : null;
+    res.json(taskBoardOf(team?.taskBoard));
   } catch (error) {
-    console.error('Update lead error:', error);
-    res.status(500).json({ error: 'リードの更新に失敗しました' });
+    console.error('Get task board error:', error);
+    res.status(500).json({ error: 'かんばんの設定の取得に失敗しました' });
   }
 });
 
-app.delete('/api/leads/:id', authenticateToken, async (req: AuthenticatedRequest, res) => {
+// 列を削除しても、その列のタスクはステータスの列に表示される
+app.put('/api/team/task-board', authenticateToken, requirePermission('board:manage'), async (req: AuthenticatedRequest, res) => {
   try {
-    await prisma.lead.delete({
-      where: { id: req.params.id }
-    });
+    const parsed = parseTaskBoard(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    await prisma.team.update({
+      where: { id: req.user!.teamId },
+      data: { taskBoard: parsed.board as unknown as Prisma.InputJsonValue }
+    });
+    res.json(parsed.board);
+  } catch (error) {
+    console.error('Update task board error:', error);
+    res.status(500).json({ error: 'かんばんの設定の更新に失敗しました' });
+  }
+});
+
+// チームメンバー取得
+app.get('/api/team/members', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user?.teamId) {
+      return res.json([]);
+    }
+
+    const team = await prisma.team.findUnique({
+      where: { id: req.user.teamId },
+      select: { name: true, ownerId: true }
+    });
+    // 時間単価は売上を編集できるユーザーにのみ返す
+    const canViewRates = hasPermission(req.user.role, 'revenue:edit');
+    const teamMembers = await prisma.user.findMany({
+      where: { teamId: req.user.teamId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        hourlyRate: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+    
+    res.json(teamMembers.map(({ hourlyRate, ...member }) => ({
+      ...member,
+      ...(canViewRates ? { hourlyRate } : {}),
+      role: effectiveRole(member, team?.ownerId),
+      teamName: team?.name,
+      isOwner: member.id === team?.ownerId
+    })));
+  } catch (error) {
+    console.error('Get team members error:', error);
+    res.status(500).json({ error: 'チームメンバーの取得に失敗しました' });
+  }
+});
+
+// 操作対象のメンバーを取得し、ロールを変更・除外してよいか確認する
+// オーナーは変更・除外できず、管理者を変更・除外できるのはオーナーのみ
+const findManageableMember = async (req: AuthenticatedRequest, res: Response) => {
+  if (req.params.id === req.user!.id) {
+    res.status(400).json({ error: '自分自身のロールの変更やチームからの除外はできません' });
+    return null;
+  }
+
+  const member = await prisma.user.findFirst({
+    where: { id: req.params.id, teamId: req.user!.teamId },
+    include: { team: true }
+  });
+  if (!member) {
+    res.status(404).json({ error: 'メンバーが見つかりません' });
+    return null;
+  }
+
+  const memberRole = effectiveRole(member, member.team?.ownerId);
+  if (memberRole === 'owner' || (memberRole === 'admin' && req.user!.role !== 'owner')) {
+    res.status(403).json({ error: 'このメンバーを変更する権限がありません' });
+    return null;
+  }
+  return member;
+};
+
+// メンバーのロール変更
+app.put('/api/team/members/:id/role', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const role = req.body.role;
+    if (!['admin', 'member', 'viewer'].includes(role)) {
+      return res.status(400).json({ error: 'ロールが正しくありません' });
+    }
+    if (role === 'admin' && req.user!.role !== 'owner') {
+      return res.status(403).json({ error: '管理者を任命できるのはオーナーのみです' });
+    }
+
+    const member = await findManageableMember(req, res);
+    if (!member) return;
+
+    const updated = await prisma.user.update({
+      where: { id: member.id },
+      data: { role },
+      select: { id: true, email: true, name: true, role: true, createdAt: true }
+    });
+
+    realtime.reconnectUser(member.id);
+    res.json({ ...updated, isOwner: false });
+  } catch (error) {
+    console.error('Update member role error:', error);
+    res.status(500).json({ error: 'ロールの変更に失敗しました' });
+  }
+});
+
+// メンバーの時間単価（オーナー・自分自身を含め、売上を編集できるユーザーが設定する）
+app.put('/api/team/members/:id/rate', authenticateToken, requirePermission('revenue:edit'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const hourlyRate = hourlyRateOf(req.body.hourlyRate);
+    if (hourlyRate === undefined) {
+      return res.status(400).json({ error: PROFITABILITY_ERRORS.hourlyRate });
+    }
+    const member = await prisma.user.findFirst({ where: { id: String(req.params.id), teamId: req.user!.teamId } });
+    if (!member) {
+      return res.status(404).json({ error: 'メンバーが見つかりません' });
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: member.id },
+      data: { hourlyRate },
+      select: { id: true, hourlyRate: true }
+    });
+    res.json(updated);
+  } catch (error) {
+    console.error('Update member rate error:', error);
+    res.status(500).json({ error: '時間単価の変更に失敗しました' });
+  }
+});
+
+// メンバーの除外
+app.delete('/api/team/members/:id', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const member = await findManageableMember(req, res);
+    if (!member) return;
+
+    await prisma.user.update({
+      where: { id: member.id },
+      data: { teamId: null, role: 'member' }
+    });
+
+    realtime.reconnectUser(member.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Remove team member error:', error);
+    res.status(500).json({ error: 'メンバーの除外に失敗しました' });
+  }
+});
+
+// 招待リンクの発行・一覧・無効化（メンバー管理権限が必要）
+app.get('/api/team/invitations', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const invitations = await prisma.teamInvitation.findMany({
+      where: { teamId: req.user!.teamId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(invitations);
+  } catch (error) {
+    console.error('Get team invitations error:', error);
+    res.status(500).json({ error: '招待の取得に失敗しました' });
+  }
+});
+
+app.post('/api/team/invitations', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const maxUses = req.body.maxUses ? Math.floor(Number(req.body.maxUses)) : null;
+    if (maxUses !== null && !(maxUses > 0)) {
+      return res.status(400).json({ error: '利用回数の上限は1以上で指定してください' });
+    }
+    const role = req.body.role || 'member';
+    if (!['admin', 'member', 'viewer'].includes(role)) {
+      return res.status(400).json({ error: 'ロールが正しくありません' });
+    }
+    if (role === 'admin' && req.user!.role !== 'owner') {
+      return res.status(403).json({ error: '管理者として招待できるのはオーナーのみです' });
+    }
+
+    const invitation = await prisma.teamInvitation.create({
+      data: {
+        token: createInvitationToken(),
+        email: req.body.email ? String(req.body.email).toLowerCase() : null,
+        expiresAt: invitationExpiry(req.body.expiresInDays),
+        maxUses,
+        role,
+        teamId: req.user!.teamId!,
+        invitedById: req.user!.id
+      }
+    });
+
+    res.status(201).json(invitation);
+  } catch (error) {
+    console.error('Create team invitation error:', error);
+    res.status(500).json({ error: '招待の作成に失敗しました' });
+  }
+});
+
+app.delete('/api/team/invitations/:id', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const result = await prisma.teamInvitation.updateMany({
+      where: { id: req.params.id, teamId: req.user!.teamId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    if (result.count === 0) {
+      return res.status(404).json({ error: '招待が見つかりません' });
+    }
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Revoke team invitation error:', error);
+    res.status(500).json({ error: '招待の無効化に失敗しました' });
+  }
+});
+
+// 招待内容の確認（登録画面でチーム名を表示するため認証不要）
+app.get('/api/invitations/:token', async (req, res) => {
+  try {
+    const invitation = await prisma.teamInvitation.findUnique({
+      where: { token: req.params.token },
+      include: { team: { select: { name: true } } }
+    });
+    if (!invitation) {
+      return res.status(404).json({ error: '招待リンクが見つかりません' });
+    }
+    const state = checkInvitation(invitation);
+    if (state !== 'valid') {
+      return res.status(400).json({ error: INVITATION_ERRORS[state] });
+    }
+
+    res.json({
+      teamName: invitation.team.name,
+      email: invitation.email,
+      expiresAt: invitation.expiresAt
+    });
+  } catch (error) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({ error: '招待の取得に失敗しました' });
+  }
+});
+
+// 登録済みユーザーが招待リンクから参加申請する
+app.post('/api/team/join', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const invitation = req.body.token
+      ? await prisma.teamInvitation.findUnique({ where: { token: String(req.body.token) } })
+      : null;
+    if (!invitation) {
+      return res.status(404).json({ error: '招待リンクが見つかりません' });
+    }
+    const state = checkInvitation(invitation, req.user!.email);
+    if (state !== 'valid') {
+      return res.status(400).json({ error: INVITATION_ERRORS[state] });
+    }
+    if (!req.user!.emailVerified) {
+      return res.status(403).json({ error: 'メールアドレスの確認が済むまでチームには参加できません' });
+    }
+    if (invitation.teamId === req.user!.teamId) {
+      return res.status(400).json({ error: 'すでにこのチームのメンバーです' });
+    }
+
+    // 却下済みの申請も新しい招待で再申請できる
+    const joinRequest = await prisma.$transaction(async (tx) => {
+      const request = await tx.teamJoinRequest.upsert({
+        where: { teamId_userId: { teamId: invitation.teamId, userId: req.user!.id } },
+        create: { teamId: invitation.teamId, userId: req.user!.id, invitationId: invitation.id, message: req.body.message || null },
+        update: { status: 'pending', invitationId: invitation.id, message: req.body.message || null, reviewedAt: null, reviewedById: null },
+        include: { team: { select: { name: true } } }
+      });
+      await tx.teamInvitation.update({
+        where: { id: invitation.id },
+        data: { useCount: { increment: 1 } }
+      });
+      return request;
+    });
+
+    res.status(201).json(joinRequest);
+  } catch (error) {
+    console.error('Join team error:', error);
+    res.status(500).json({ error: '参加申請に失敗しました' });
+  }
+});
+
+// 参加申請の一覧・承認・却下（メンバー管理権限が必要）
+app.get('/api/team/join-requests', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const requests = await prisma.teamJoinRequest.findMany({
+      where: { teamId: req.user!.teamId, status: 'pending' },
+      include: {
+        user: { select: { id: true, name: true, email: true, emailVerifiedAt: true } },
+        invitation: { select: { role: true } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    res.json(requests);
+  } catch (error) {
+    console.error('Get join requests error:', error);
+    res.status(500).json({ error: '参加申請の取得に失敗しました' });
+  }
+});
+
+app.post('/api/team/join-requests/:id/:decision', authenticateToken, requirePermission('members:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const decision = req.params.decision;
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(404).json({ error: 'API endpoint not found' });
+    }
+
+    const joinRequest = await prisma.teamJoinRequest.findFirst({
+      where: { id: req.params.id, teamId: req.user!.teamId, status: 'pending' },
+      include: { invitation: { select: { role: true } }, user: { select: { emailVerifiedAt: true } } }
+    });
+    if (!joinRequest) {
+      return res.status(404).json({ error: '参加申請が見つかりません' });
+    }
+    // メールアドレスを確認していないユーザーはチームに参加させない
+    if (decision === 'approve' && !joinRequest.user.emailVerifiedAt) {
+      return res.status(400).json({ error: 'メールアドレスの確認が済んでいないため、まだ承認できません' });
+    }
+
+    const reviewed = await prisma.$transaction(async (tx) => {
+      if (decision === 'approve') {
+        await tx.user.update({
+          where: { id: joinRequest.userId },
+          data: { teamId: joinRequest.teamId, teamName: null, role: toTeamRole(joinRequest.invitation?.role) }
+        });
+      }
+      return tx.teamJoinRequest.update({
+        where: { id: joinRequest.id },
+        data: {
+          status: decision === 'approve' ? 'approved' : 'rejected',
+          reviewedAt: new Date(),
+          reviewedById: req.user!.id
+        },
+        include: { user: { select: { id: true, name: true, email: true } } }
+      });
+    });
+
+    res.json(reviewed);
+  } catch (error) {
+    console.error('Review join request error:', error);
+    res.status(500).json({ error: '参加申請の処理に失敗しました' });
+  }
+});
+
+// 認証の監査ログ（チームのメンバーのログイン履歴など、メンバー管理権限が必要）
+app.get('/api/team/auth-events', authenticateToken, requirePermission('members:manage'), listQuery(AUTH_EVENT_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    const where: Prisma.AuthEventWhereInput = { ...list.where, teamId: req.user!.teamId };
+    const [events, total] = await Promise.all([
+      prisma.authEvent.findMany({ where, ...list.args }),
+      prisma.authEvent.count({ where })
+    ]);
+
+    res.json(toPage(events, total, list));
+  } catch (error) {
+    console.error('Get auth events error:', error);
+    res.status(500).json({ error: 'ログイン履歴の取得に失敗しました' });
+  }
+});
+
+// タスク関連API（チーム共有）
+const requireTeamTask = requireTeamRecord(where => prisma.task.findFirst({ where: { ...where, ...NOT_DELETED } }), 'タスクが見つかりません');
+
+// 親タスクと依存タスクの指定を確認する（問題がある場合は応答を返してnull）
+// 同じチームのゴミ箱にないタスクのみ指定できる。依存タスクが未完了の間は、overrideBlockers を指定しない限り進行中・完了にしない
+const resolveTaskStructure = async (req: AuthenticatedRequest, res: Response, existing?: Task) => {
+  const teamId = req.user!.teamId!;
+  const data: { parentId?: string | null; blockedByIds?: string[] } = {};
+
+  const parentId = linkIdOf(req.body.parentId);
+  if (parentId !== undefined) {
+    const parent = parentId && parentId !== existing?.id
+      ? await findTeamRecord(
+          where => prisma.task.findFirst({ where: { ...where, ...NOT_DELETED }, select: { id: true, parentId: true } }),
+          parentId,
+          teamId
+        )
+      : null;
+    if (parent?.parentId) {
+      res.status(400).json({ error: TASK_DEPENDENCY_ERRORS.nestedSubtask });
+      return null;
+    }
+    if (parent && existing && await prisma.task.count({ where: { parentId: existing.id, ...NOT_DELETED } }) > 0) {
+      res.status(400).json({ error: TASK_DEPENDENCY_ERRORS.hasSubtasks });
+      return null;
+    }
+    data.parentId = parent?.id ?? null;
+  }
+
+  const blockerIds = blockerIdsOf(req.body.blockedByIds, existing?.id);
+  const status = req.body.status ?? existing?.status ?? 'pending';
+  const checksBlockers = isBlockingTransition(existing?.status, status) && !req.body.overrideBlockers;
+  const currentBlockerIds = blockerIds ?? existing?.blockedByIds ?? [];
+  if (blockerIds === undefined && !(checksBlockers && currentBlockerIds.length > 0)) return data;
+
+  const teamTasks = await prisma.task.findMany({
+    where: { ...NOT_DELETED, user: { teamId } },
+    select: { id: true, title: true, status: true, blockedByIds: true }
+  });
+  const tasksById = new Map(teamTasks.map(task => [task.id, task]));
+  if (blockerIds !== undefined) {
+    data.blockedByIds = blockerIds.filter(id => tasksById.has(id));
+    const blockedByOf = new Map(teamTasks.map(task => [task.id, task.blockedByIds]));
+    if (existing && createsDependencyCycle(existing.id, data.blockedByIds, blockedByOf)) {
+      res.status(400).json({ error: TASK_DEPENDENCY_ERRORS.cycle });
+      return null;
+    }
+  }
+  if (checksBlockers) {
+    const blockers = openBlockersOf(data.blockedByIds ?? currentBlockerIds, tasksById);
+    if (blockers.length > 0) {
+      res.status(422).json({
+        error: TASK_DEPENDENCY_ERRORS.blocked,
+        blockers: blockers.map(({ id, title, status }) => ({ id, title, status }))
+      });
+      return null;
+    }
+  }
+  return data;
+};
+
+// かんばんの列と並び順の指定を確認する（問題がある場合は応答を返してnull）
+// 追加した列に移動する場合はステータスを列のステータスにそろえ、ステータスだけを変更した場合は追加した列から外す
+// 上限で止める列（block）が上限に達している場合は移動させない
+const resolveBoardPlacement = async (req: AuthenticatedRequest, res: Response, existing?: Task) => {
+  const teamId = req.user!.teamId!;
+  const data: { rank?: string | null; boardColumn?: string | null } = {};
+
+  if (req.body.rank !== undefined) {
+    if (req.body.rank !== null && !isRank(req.body.rank)) {
+      res.status(400).json({ error: TASK_BOARD_ERRORS.rank });
+      return null;
+    }
+    data.rank = req.body.rank;
+  }
+
+  const boardColumn = linkIdOf(req.body.boardColumn);
+  const statusChanged = req.body.status !== undefined && req.body.status !== existing?.status;
+  if (existing && boardColumn === undefined && !statusChanged) return data;
+
+  const team = await prisma.team.findUnique({ where: { id: teamId }, select: { taskBoard: true } });
+  const board = taskBoardOf(team?.taskBoard);
+  if (boardColumn) {
+    const column = board.columns.find(({ key, custom }) => custom && key === boardColumn);
+    if (!column) {
+      res.status(400).json({ error: TASK_BOARD_ERRORS.column });
+      return null;
+    }
+    req.body.status = column.status;
+  }
+  data.boardColumn = boardColumn || null;
+
+  const status = req.body.status ?? existing?.status ?? 'pending';
+  const target = board.columns.find(({ key }) => key === columnKeyOf({ status, boardColumn: data.boardColumn }, board));
+  if (!target?.wipLimit || target.wipMode !== 'block' || (existing && columnKeyOf(existing, board) === target.key)) return data;
+
+  const columnTasks = await prisma.task.findMany({
+    where: { ...NOT_DELETED, user: { teamId }, status: target.status, ...(existing ? { id: { not: existing.id } } : {}) },
+    select: { status: true, boardColumn: true }
+  });
+  const count = columnTasks.filter(task => columnKeyOf(task, board) === target.key).length;
+  if (isWipBlocked(target, count)) {
+    res.status(422).json({
+      error: TASK_BOARD_ERRORS.wipLimit(target.label, target.wipLimit),
+      wipLimit: { column: target.key, limit: target.wipLimit }
+    });
+    return null;
+  }
+  return data;
+};
+
+// 繰り返しの指定（解除は null。問題がある場合は応答を返してnull）。規則の起点はこの回の期限
+const resolveRecurrence = (req: AuthenticatedRequest, res: Response, existing?: Task) => {
+  if (req.body.recurrence === undefined) return {};
+  const dueDate = dateStringOf(req.body.dueDate === undefined ? existing?.dueDate : req.body.dueDate);
+  const parsed = recurrenceRuleOf(req.body.recurrence, recurrenceStartOf(existing, dueDate));
+  if ('error' in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return null;
+  }
+  return { recurrence: parsed.rule ? (parsed.rule as unknown as Prisma.InputJsonValue) : Prisma.DbNull };
+};
+
+// 繰り返しタスクの次の回を作成する（各回から作成するのは1回だけ）
+// 次の回の期限は今日以降にする（サーバーの停止中などで過ぎた回は作成しない）
+const createNextOccurrence = async (task: Task, teamId: string | null | undefined, actorId: string) => {
+  const rule = storedRuleOf(task.recurrence);
+  const dueDate = dateStringOf(task.dueDate);
+  if (!rule || !dueDate || task.nextOccurrenceCreated || task.deletedAt) return null;
+
+  const next = await prisma.$transaction(async (tx) => {
+    // 同時に処理された場合に重複して作成しない
+    const { count } = await tx.task.updateMany({
+      where: { id: task.id, nextOccurrenceCreated: false },
+      data: { nextOccurrenceCreated: true }
+    });
+    if (count === 0) return null;
+
+    const seriesId = task.seriesId ?? task.id;
+    const generated = await tx.task.count({ where: { OR: [{ id: seriesId }, { seriesId }] } });
+    const nextDueDate = nextOccurrence(rule, dueDate, { notBefore: dateStringOf(new Date())!, generated });
+    if (!nextDueDate) return null;
+
+    return tx.task.create({
+      data: {
+        title: task.title,
+        description: task.description,
+        priority: task.priority,
+        assignee: task.assignee,
+        meetingLink: task.meetingLink,
+        notes: task.notes,
+        projectId: task.projectId,
+        deliverableId: task.deliverableId,
+        leadId: task.leadId,
+        status: 'pending',
+        dueDate: new Date(nextDueDate),
+        recurrence: rule as unknown as Prisma.InputJsonValue,
+        seriesId,
+        userId: task.userId
+      }
+    });
+  });
+  if (!next) return null;
+  await indexForSearch('tasks', next);
+  realtime.dataUpdated(teamId ?? undefined, 'tasks', 'created', next, actorId);
+  return next;
+};
+
+app.get('/api/tasks', authenticateToken, listQuery(TASK_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.TaskWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [tasks, total] = await Promise.all([
+      prisma.task.findMany({ where, ...list.args }),
+      prisma.task.count({ where })
+    ]);
+
+    res.json(toPage(tasks, total, list));
+  } catch (error) {
+    console.error('Get tasks error:', error);
+    res.status(500).json({ error: 'タスクの取得に失敗しました' });
+  }
+});
+
+app.post('/api/tasks', authenticateToken, requirePermission('records:write'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.title) {
+      return res.status(400).json({ error: 'タイトルは必須です' });
+    }
+    const placement = await resolveBoardPlacement(req, res);
+    if (!placement) return;
+    const structure = await resolveTaskStructure(req, res);
+    if (!structure) return;
+    const recurrence = resolveRecurrence(req, res);
+    if (!recurrence) return;
+
+    const task = await prisma.task.create({
+      data: {
+        ...pickWritable(req.body, TASK_WRITABLE_FIELDS),
+        ...(await resolveTaskLinks(req)),
+        ...placement,
+        ...structure,
+        ...recurrence,
+        title: req.body.title,
+        description: req.body.description || '',
+        status: req.body.status || 'pending',
+        priority: req.body.priority || 'medium',
+        assignee: req.body.assignee || req.user?.name || 'Unknown',
+        userId: req.user!.id
+      }
+    });
+
+    await indexForSearch('tasks', task);
+    await logActivity(req, 'tasks', 'created', null, task);
+    realtime.dataUpdated(req.user!.teamId, 'tasks', 'created', task, req.user!.id);
+    res.status(201).json(task);
+  } catch (error) {
+    console.error('Create task error:', error);
+    res.status(500).json({ error: 'タスクの作成に失敗しました' });
+  }
+});
+
+app.put('/api/tasks/:id', authenticateToken, requirePermission('records:write'), requireTeamTask, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Task>(res);
+    if (rejectStaleVersion(req, res, existing)) return;
+    const placement = await resolveBoardPlacement(req, res, existing);
+    if (!placement) return;
+    const structure = await resolveTaskStructure(req, res, existing);
+    if (!structure) return;
+    const recurrence = resolveRecurrence(req, res, existing);
+    if (!recurrence) return;
+    const task = await prisma.task.update({
+      where: { id: existing.id, version: existing.version },
+      data: {
+        ...pickWritable(req.body, TASK_WRITABLE_FIELDS),
+        ...(await resolveTaskLinks(req, existing)),
+        ...placement,
+        ...structure,
+        ...recurrence,
+        version: { increment: 1 }
+      }
+    });
+
+    await indexForSearch('tasks', task);
+    await logActivity(req, 'tasks', 'updated', existing, task);
+    realtime.dataUpdated(req.user!.teamId, 'tasks', 'updated', task, req.user!.id);
+    // 繰り返しタスクを完了したら次の回を作成する（作成できなくても更新は成功として扱い、期限の日の定期処理で作成し直す）
+    if (task.status === 'completed' && existing.status !== 'completed') {
+      try {
+        const next = await createNextOccurrence(task, req.user!.teamId, req.user!.id);
+        if (next) await logActivity(req, 'tasks', 'created', null, next);
+      } catch (error) {
+        console.error('Create next occurrence error:', error);
+      }
+    }
+    res.set('ETag', etagOf(task.version)).json(task);
+  } catch (error) {
+    if (isVersionRace(error)) {
+      return sendVersionConflict(res, await prisma.task.findFirst({ where: { id: String(req.params.id), ...NOT_DELETED } }));
+    }
+    console.error('Update task error:', error);
+    res.status(500).json({ error: 'タスクの更新に失敗しました' });
+  }
+});
+
+// 繰り返しタスクの「この回以降のすべて」を変更する（この回と、これより後の未完了の回。ステータスと期限は回ごとに変えない）
+app.put('/api/tasks/:id/series', authenticateToken, requirePermission('records:write'), requireTeamTask, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Task>(res);
+    if (rejectStaleVersion(req, res, existing)) return;
+    const recurrence = resolveRecurrence(req, res, existing);
+    if (!recurrence) return;
+    const data = {
+      ...pickWritable(req.body, TASK_SERIES_WRITABLE_FIELDS),
+      ...(await resolveTaskLinks(req, existing)),
+      ...recurrence
+    };
+
+    const seriesId = existing.seriesId ?? existing.id;
+    const targets = await prisma.task.findMany({
+      where: {
+        ...NOT_DELETED,
+        user: { teamId: req.user!.teamId },
+        OR: [
+          { id: existing.id },
+          { OR: [{ id: seriesId }, { seriesId }], status: { not: 'completed' }, dueDate: { gt: existing.dueDate ?? new Date(0) } }
+        ]
+      }
+    });
+    // 編集したタスクは編集を始めたときの version、ほかの回は読み込んだときの version のまま更新する
+    // どれか1件でも他の更新が入っていればまとめて取り消し、409 を返す
+    const updated = await prisma.$transaction(
+      targets.map(target => prisma.task.update({
+        where: { id: target.id, version: target.id === existing.id ? existing.version : target.version },
+        data: { ...data, version: { increment: 1 } }
+      }))
+    );
+
+    for (const task of updated) {
+      await indexForSearch('tasks', task);
+      await logActivity(req, 'tasks', 'updated', targets.find(target => target.id === task.id) ?? null, task);
+      realtime.dataUpdated(req.user!.teamId, 'tasks', 'updated', task, req.user!.id);
+    }
+    res.json({ items: updated });
+  } catch (error) {
+    if (isVersionRace(error)) {
+      return sendVersionConflict(res, await prisma.task.findFirst({
+        where: { id: String(req.params.id), ...NOT_DELETED, user: { teamId: req.user!.teamId } }
+      }));
+    }
+    console.error('Update task series error:', error);
+    res.status(500).json({ error: 'タスクの更新に失敗しました' });
+  }
+});
+
+app.delete('/api/tasks/:id', authenticateToken, requirePermission('records:write'), requireTeamTask, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Task>(res);
+    await prisma.task.update({
+      where: { id: existing.id },
+      data: trashData(req)
+    });
+
+    await removeFromSearch('tasks', existing.id);
+    await logActivity(req, 'tasks', 'deleted', existing, null);
+    realtime.dataDeleted(req.user!.teamId, 'tasks', existing.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete task error:', error);
+    res.status(500).json({ error: 'タスクの削除に失敗しました' });
+  }
+});
+
+// 作業時間API（メンバーごと。ゴミ箱にあるタスクの作業時間は含めない）
+const TIME_ENTRY_INCLUDE = {
+  task: { select: { id: true, title: true, projectId: true } },
+  user: { select: { id: true, name: true } }
+} as const;
+
+const requireTeamTimeEntry = requireTeamRecord(where => prisma.timeEntry.findFirst({ where }), '作業時間が見つかりません');
+
+// requireTeamTimeEntry の後に置く。変更・削除できるのは自分の作業時間のみ
+const requireOwnTimeEntry = (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  if (getTeamRecord<TimeEntry>(res).userId !== req.user!.id) {
+    return res.status(403).json({ error: TIME_ENTRY_ERRORS.notOwner });
+  }
+  next();
+};
+
+// taskId を指定した場合はそのタスクの全員分、それ以外は期間（from・to）内のタイムシート
+// 他のメンバーのタイムシートはメンバーを管理できるユーザーのみ取得できる（userId を省略すると全員分）
+app.get('/api/time-entries', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user?.teamId) {
+      return res.json({ items: [] });
+    }
+    const taskId = typeof req.query.taskId === 'string' ? req.query.taskId : undefined;
+    const range = dateRangeOf(req.query.from, req.query.to);
+    if (!taskId && !range) {
+      return res.status(400).json({ error: TIME_ENTRY_ERRORS.range });
+    }
+    let userId = typeof req.query.userId === 'string' ? req.query.userId : undefined;
+    if (!taskId && !hasPermission(req.user.role, 'members:manage')) {
+      if (userId && userId !== req.user.id) {
+        return res.status(403).json({ error: 'この操作を行う権限がありません' });
+      }
+      userId = req.user.id;
+    }
+
+    const items = await prisma.timeEntry.findMany({
+      where: {
+        task: { ...NOT_DELETED, user: { teamId: req.user.teamId } },
+        user: { teamId: req.user.teamId },
+        ...(taskId ? { taskId } : {}),
+        ...(userId ? { userId } : {}),
+        ...(range ? { date: { gte: range.from, lte: range.to } } : {})
+      },
+      include: TIME_ENTRY_INCLUDE,
+      orderBy: [{ date: 'asc' }, { createdAt: 'asc' }]
+    });
+    res.json({ items });
+  } catch (error) {
+    console.error('Get time entries error:', error);
+    res.status(500).json({ error: '作業時間の取得に失敗しました' });
+  }
+});
+
+// 案件ごとの作業時間の合計（関連付けたタスクの作業時間）
+// 人件費（メンバーの現在の時間単価で計算）は売上を編集できるメンバー（オーナー・管理者）にのみ返す
+app.get('/api/time-entries/projects', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user?.teamId) {
+      return res.json([]);
+    }
+    const entries = await prisma.timeEntry.findMany({
+      where: { task: { ...NOT_DELETED, user: { teamId: req.user.teamId }, projectId: { not: null } } },
+      select: { minutes: true, task: { select: { projectId: true } }, user: { select: { hourlyRate: true } } }
+    });
+    const entriesByProject = new Map<string, { minutes: number; hourlyRate: number | null }[]>();
+    for (const entry of entries) {
+      const projectId = entry.task.projectId!;
+      entriesByProject.set(projectId, [...(entriesByProject.get(projectId) ?? []), { minutes: entry.minutes, hourlyRate: entry.user.hourlyRate }]);
+    }
+    // 人件費からメンバーの時間単価がわかるため、時間単価を閲覧できる（売上を編集できる）場合のみ返す
+    const canViewCost = hasPermission(req.user.role, 'revenue:edit');
+    res.json(Array.from(entriesByProject, ([projectId, projectEntries]) => ({
+      projectId,
+      minutes: projectEntries.reduce((sum, entry) => sum + entry.minutes, 0),
+      ...(canViewCost ? { laborCost: laborCostOf(projectEntries) } : {})
+    })));
+  } catch (error) {
+    console.error('Get project time error:', error);
+    res.status(500).json({ error: '作業時間の取得に失敗しました' });
+  }
+});
+
+// 自分の計測中のタイマー（ない場合は null）
+app.get('/api/time-entries/timer', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const timer = await prisma.timeEntry.findFirst({
+      where: { userId: req.user!.id, startedAt: { not: null }, endedAt: null },
+      include: TIME_ENTRY_INCLUDE
+    });
+    res.json({ timer });
+  } catch (error) {
+    console.error('Get timer error:', error);
+    res.status(500).json({ error: 'タイマーの取得に失敗しました' });
+  }
+});
+
+// 計測中のタイマーを停止する（タイマーは1人1つ）
+const stopRunningTimer = async (tx: Prisma.TransactionClient, userId: string, now: Date) => {
+  const running = await tx.timeEntry.findFirst({ where: { userId, startedAt: { not: null }, endedAt: null } });
+  if (!running) return null;
+  return tx.timeEntry.update({
+    where: { id: running.id },
+    data: { endedAt: now, minutes: minutesBetween(running.startedAt!, now) },
+    include: TIME_ENTRY_INCLUDE
+  });
+};
+
+// タイマーを開始する（計測中の別のタイマーは停止する）。date は画面の今日の日付
+app.post('/api/tasks/:id/timer', authenticateToken, requirePermission('records:write'), requireTeamTask, idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    const task = getTeamRecord<Task>(res);
+    const now = new Date();
+    const date = isDateString(req.body?.date) ? req.body.date : now.toISOString().slice(0, 10);
+    const result = await prisma.$transaction(async (tx) => ({
+      stopped: await stopRunningTimer(tx, req.user!.id, now),
+      timer: await tx.timeEntry.create({
+        data: { date, startedAt: now, taskId: task.id, userId: req.user!.id },
+        include: TIME_ENTRY_INCLUDE
+      })
+    }));
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Start timer error:', error);
+    res.status(500).json({ error: 'タイマーの開始に失敗しました' });
+  }
+});
+
+app.post('/api/time-entries/timer/stop', authenticateToken, requirePermission('records:write'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const stopped = await prisma.$transaction(tx => stopRunningTimer(tx, req.user!.id, new Date()));
+    if (!stopped) {
+      return res.status(404).json({ error: TIME_ENTRY_ERRORS.notRunning });
+    }
+    res.json(stopped);
+  } catch (error) {
+    console.error('Stop timer error:', error);
+    res.status(500).json({ error: 'タイマーの停止に失敗しました' });
+  }
+});
+
+// 作業時間を手入力する
+app.post('/api/tasks/:id/time-entries', authenticateToken, requirePermission('records:write'), requireTeamTask, idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    const input = timeEntryInputOf(req.body);
+    if ('error' in input) {
+      return res.status(400).json({ error: input.error });
+    }
+
+    const entry = await prisma.timeEntry.create({
+      data: { date: input.date!, minutes: input.minutes!, note: input.note, taskId: getTeamRecord<Task>(res).id, userId: req.user!.id },
+      include: TIME_ENTRY_INCLUDE
+    });
+    res.status(201).json(entry);
+  } catch (error) {
+    console.error('Create time entry error:', error);
+    res.status(500).json({ error: '作業時間の登録に失敗しました' });
+  }
+});
+
+// 計測中のタイマーの作業時間は停止したときに計算し直す
+app.put('/api/time-entries/:id', authenticateToken, requirePermission('records:write'), requireTeamTimeEntry, requireOwnTimeEntry, async (req: AuthenticatedRequest, res) => {
+  try {
+    const input = timeEntryInputOf(req.body, { partial: true });
+    if ('error' in input) {
+      return res.status(400).json({ error: input.error });
+    }
+
+    const entry = await prisma.timeEntry.update({
+      where: { id: getTeamRecord<TimeEntry>(res).id },
+      data: input,
+      include: TIME_ENTRY_INCLUDE
+    });
+    res.json(entry);
+  } catch (error) {
+    console.error('Update time entry error:', error);
+    res.status(500).json({ error: '作業時間の更新に失敗しました' });
+  }
+});
+
+app.delete('/api/time-entries/:id', authenticateToken, requirePermission('records:write'), requireTeamTimeEntry, requireOwnTimeEntry, async (req: AuthenticatedRequest, res) => {
+  try {
+    await prisma.timeEntry.delete({ where: { id: getTeamRecord<TimeEntry>(res).id } });
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete time entry error:', error);
+    res.status(500).json({ error: '作業時間の削除に失敗しました' });
+  }
+});
+
+// プロジェクト関連API（チーム共有）
+const requireTeamProject = requireTeamRecord(where => prisma.project.findFirst({ where: { ...where, ...NOT_DELETED } }), 'プロジェクトが見つかりません');
+
+// サービス区分と経費（指定されなかった項目は変更しない）。正しくない場合は400を返して null
+const resolveProjectCosts = (req: AuthenticatedRequest, res: Response) => {
+  const data: { serviceCategory?: string | null; expenses?: Prisma.InputJsonValue } = {};
+
+  if (req.body.serviceCategory !== undefined) {
+    const serviceCategory = serviceCategoryOf(req.body.serviceCategory);
+    if (serviceCategory === undefined) {
+      res.status(400).json({ error: PROFITABILITY_ERRORS.serviceCategory });
+      return null;
+    }
+    data.serviceCategory = serviceCategory;
+  }
+
+  if (req.body.expenses !== undefined) {
+    const expenses = parseExpenses(req.body.expenses);
+    if (!expenses) {
+      res.status(400).json({ error: PROFITABILITY_ERRORS.expenses });
+      return null;
+    }
+    data.expenses = expenses as unknown as Prisma.InputJsonValue;
+  }
+  return data;
+};
+
+app.get('/api/projects', authenticateToken, listQuery(PROJECT_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.ProjectWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [projects, total] = await Promise.all([
+      prisma.project.findMany({ where, ...list.args }),
+      prisma.project.count({ where })
+    ]);
+
+    res.json(toPage(projects, total, list));
+  } catch (error) {
+    console.error('Get projects error:', error);
+    res.status(500).json({ error: 'プロジェクトの取得に失敗しました' });
+  }
+});
+
+app.post('/api/projects', authenticateToken, requirePermission('records:write'), stripRevenueFields, idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.name) {
+      return res.status(400).json({ error: '案件名は必須です' });
+    }
+    const costs = resolveProjectCosts(req, res);
+    if (!costs) return;
+
+    const project = await prisma.project.create({
+      data: {
+        ...pickWritable(req.body, PROJECT_WRITABLE_FIELDS),
+        ...costs,
+        name: req.body.name,
+        description: req.body.description || '',
+        client: req.body.client || '',
+        status: req.body.status || 'planning',
+        priority: req.body.priority || 'medium',
+        progress: req.body.progress || 0,
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId),
+        userId: req.user!.id
+      }
+    });
+
+    await indexForSearch('projects', project);
+    await logActivity(req, 'projects', 'created', null, project);
+    realtime.dataUpdated(req.user!.teamId, 'projects', 'created', project, req.user!.id);
+    res.status(201).json(project);
+  } catch (error) {
+    console.error('Create project error:', error);
+    res.status(500).json({ error: 'プロジェクトの作成に失敗しました' });
+  }
+});
+
+app.put('/api/projects/:id', authenticateToken, requirePermission('records:write'), stripRevenueFields, requireTeamProject, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Project>(res);
+    if (rejectStaleVersion(req, res, existing)) return;
+    const costs = resolveProjectCosts(req, res);
+    if (!costs) return;
+    const project = await prisma.project.update({
+      where: { id: existing.id, version: existing.version },
+      data: {
+        ...pickWritable(req.body, PROJECT_WRITABLE_FIELDS),
+        ...costs,
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId),
+        version: { increment: 1 }
+      }
+    });
+
+    await indexForSearch('projects', project);
+    await logActivity(req, 'projects', 'updated', existing, project);
+    realtime.dataUpdated(req.user!.teamId, 'projects', 'updated', project, req.user!.id);
+    res.set('ETag', etagOf(project.version)).json(project);
+  } catch (error) {
+    if (isVersionRace(error)) {
+      return sendVersionConflict(res, await prisma.project.findFirst({ where: { id: String(req.params.id), ...NOT_DELETED } }));
+    }
+    console.error('Update project error:', error);
+    res.status(500).json({ error: 'プロジェクトの更新に失敗しました' });
+  }
+});
+
+app.delete('/api/projects/:id', authenticateToken, requirePermission('projects:delete'), requireTeamProject, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Project>(res);
+    await prisma.project.update({
+      where: { id: existing.id },
+      data: trashData(req)
+    });
+
+    await removeFromSearch('projects', existing.id);
+    await logActivity(req, 'projects', 'deleted', existing, null);
+    realtime.dataDeleted(req.user!.teamId, 'projects', existing.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete project error:', error);
+    res.status(500).json({ error: 'プロジェクトの削除に失敗しました' });
+  }
+});
+
+// リード関連API（チーム共有）
+const requireTeamLead = requireTeamRecord(where => prisma.lead.findFirst({ where: { ...where, ...NOT_DELETED } }), 'リードが見つかりません');
+
+app.get('/api/leads', authenticateToken, requirePermission('sales:view'), listQuery(LEAD_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.LeadWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [leads, total] = await Promise.all([
+      prisma.lead.findMany({ where, ...list.args }),
+      prisma.lead.count({ where })
+    ]);
+
+    res.json(toPage(leads, total, list));
+  } catch (error) {
+    console.error('Get leads error:', error);
+    res.status(500).json({ error: 'リードの取得に失敗しました' });
+  }
+});
+
+app.post('/api/leads', authenticateToken, requirePermission('sales:view', 'records:write'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.company || !req.body.contact) {
+      return res.status(400).json({ error: '会社名と担当者は必須です' });
+    }
+
+    const lead = await prisma.lead.create({
+      data: {
+        ...pickWritable(req.body, LEAD_WRITABLE_FIELDS),
+        company: req.body.company,
+        contact: req.body.contact,
+        contactEmail: req.body.contactEmail || '',
+        status: req.body.status || 'リード',
+        value: req.body.value || 0,
+        probability: req.body.probability || 0,
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId),
+        userId: req.user!.id
+      }
+    });
+
+    await indexForSearch('leads', lead);
+    await logActivity(req, 'leads', 'created', null, lead);
+    realtime.dataUpdated(req.user!.teamId, 'leads', 'created', lead, req.user!.id);
+    res.status(201).json(lead);
+  } catch (error) {
+    console.error('Create lead error:', error);
+    res.status(500).json({ error: 'リードの作成に失敗しました' });
+  }
+});
+
+app.put('/api/leads/:id', authenticateToken, requirePermission('sales:view', 'records:write'), requireTeamLead, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Lead>(res);
+    if (rejectStaleVersion(req, res, existing)) return;
+    const lead = await prisma.lead.update({
+      where: { id: existing.id, version: existing.version },
+      data: {
+        ...pickWritable(req.body, LEAD_WRITABLE_FIELDS),
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId),
+        version: { increment: 1 }
+      }
+    });
+
+    await indexForSearch('leads', lead);
+    await logActivity(req, 'leads', 'updated', existing, lead);
+    realtime.dataUpdated(req.user!.teamId, 'leads', 'updated', lead, req.user!.id);
+    res.set('ETag', etagOf(lead.version)).json(lead);
+  } catch (error) {
+    if (isVersionRace(error)) {
+      return sendVersionConflict(res, await prisma.lead.findFirst({ where: { id: String(req.params.id), ...NOT_DELETED } }));
+    }
+    console.error('Update lead error:', error);
+    res.status(500).json({ error: 'リードの更新に失敗しました' });
+  }
+});
+
+app.delete('/api/leads/:id', authenticateToken, requirePermission('sales:view', 'records:write'), requireTeamLead, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Lead>(res);
+    await prisma.lead.update({
+      where: { id: existing.id },
+      data: trashData(req)
+    });
+
+    await removeFromSearch('leads', existing.id);
+    await logActivity(req, 'leads', 'deleted', existing, null);
+    realtime.dataDeleted(req.user!.teamId, 'leads', existing.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete lead error:', error);
+    res.status(500).json({ error: 'リードの削除に失敗しました' });
+  }
+});
+
+// ドキュメント関連API（チーム共有）
+const requireTeamDocument = requireTeamRecord(where => prisma.document.findFirst({ where: { ...where, ...NOT_DELETED } }), 'ドキュメントが見つかりません');
+const documentInclude = {
+  comments: { orderBy: { createdAt: 'asc' as const } },
+  user: { select: { name: true } }
+};
+
+app.get('/api/documents', authenticateToken, listQuery(DOCUMENT_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.DocumentWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [documents, total] = await Promise.all([
+      prisma.document.findMany({ where, include: documentInclude, ...list.args }),
+      prisma.document.count({ where })
+    ]);
+
+    res.json(toPage(documents, total, list));
+  } catch (error) {
+    console.error('Get documents error:', error);
+    res.status(500).json({ error: 'ドキュメントの取得に失敗しました' });
+  }
+});
+
+app.post('/api/documents', authenticateToken, requirePermission('records:write'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.title) {
+      return res.status(400).json({ error: 'タイトルは必須です' });
+    }
+
+    const date = dateFieldOf(req.body.date, '日付');
+    const document = await prisma.document.create({
+      data: {
+        title: req.body.title,
+        type: req.body.type || 'memo',
+        category: req.body.category || null,
+        content: req.body.content || '',
+        attendees: req.body.attendees || [],
+        date: date ?? null,
+        status: req.body.status || 'draft',
+        tags: req.body.tags || [],
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId),
+        userId: req.user!.id
+      },
+      include: documentInclude
+    });
+
+    await logActivity(req, 'documents', 'created', null, document);
+    realtime.dataUpdated(req.user!.teamId, 'documents', 'created', document, req.user!.id);
+    res.status(201).json(document);
+  } catch (error) {
+    if (error instanceof FieldValueError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create document error:', error);
+    res.status(500).json({ error: 'ドキュメントの作成に失敗しました' });
+  }
+});
+
+app.put('/api/documents/:id', authenticateToken, requirePermission('records:write'), requireTeamDocument, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<DocumentRecord>(res);
+    const date = dateFieldOf(req.body.date, '日付');
+
+    const document = await prisma.document.update({
+      where: { id: existing.id },
+      data: {
+        title: req.body.title,
+        type: req.body.type,
+        category: req.body.category,
+        content: req.body.content,
+        attendees: req.body.attendees,
+        date,
+        status: req.body.status,
+        tags: req.body.tags,
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId)
+      },
+      include: documentInclude
+    });
+
+    await logActivity(req, 'documents', 'updated', existing, document);
+    realtime.dataUpdated(req.user!.teamId, 'documents', 'updated', document, req.user!.id);
+    res.json(document);
+  } catch (error) {
+    if (error instanceof FieldValueError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update document error:', error);
+    res.status(500).json({ error: 'ドキュメントの更新に失敗しました' });
+  }
+});
+
+app.delete('/api/documents/:id', authenticateToken, requirePermission('records:write'), requireTeamDocument, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<DocumentRecord>(res);
+
+    // 議事録ドキュメントは元の議事録もゴミ箱に移動する
+    const data = trashData(req);
+    if (existing.minutesId) {
+      await prisma.meetingMinutes.update({ where: { id: existing.minutesId }, data });
+      await removeFromSearch('meetingMinutes', existing.minutesId);
+    }
+    await prisma.document.update({ where: { id: existing.id }, data });
+
+    await logActivity(req, 'documents', 'deleted', existing, null);
+    realtime.dataDeleted(req.user!.teamId, 'documents', existing.id, req.user!.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete document error:', error);
+    res.status(500).json({ error: 'ドキュメントの削除に失敗しました' });
+  }
+});
+
+app.post('/api/documents/:id/comments', authenticateToken, requirePermission('records:write'), requireTeamDocument, idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.text || !String(req.body.text).trim()) {
+      return res.status(400).json({ error: 'コメントを入力してください' });
+    }
+
+    const existing = getTeamRecord<DocumentRecord>(res);
+
+    const comment = await prisma.documentComment.create({
+      data: {
+        text: req.body.text,
+        author: req.user!.name || req.user!.email,
+        documentId: existing.id,
+        userId: req.user!.id
+      }
+    });
+
+    const document = await prisma.document.findUnique({ where: { id: existing.id }, include: documentInclude });
+    await logActivity(req, 'documents', 'updated', existing, existing, { comment: { before: null, after: comment.text } });
+    realtime.dataUpdated(req.user!.teamId, 'documents', 'updated', document, req.user!.id);
+    res.status(201).json(comment);
+  } catch (error) {
+    console.error('Create document comment error:', error);
+    res.status(500).json({ error: 'コメントの投稿に失敗しました' });
+  }
+});
+
+// 議事録関連API（チーム共有）
+// 議事録を作成すると一覧表示用のドキュメントも同時に作成し、更新・削除も連動させる
+type MeetingMinutesWithDocument = Prisma.MeetingMinutesGetPayload<{ include: { document: true } }>;
+const requireTeamMeetingMinutes = requireTeamRecord(
+  where => prisma.meetingMinutes.findFirst({ where: { ...where, ...NOT_DELETED }, include: { document: true } }),
+  '議事録が見つかりません'
+);
+
+app.get('/api/meeting-minutes', authenticateToken, listQuery(MEETING_MINUTES_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.MeetingMinutesWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [minutes, total] = await Promise.all([
+      prisma.meetingMinutes.findMany({ where, ...list.args }),
+      prisma.meetingMinutes.count({ where })
+    ]);
+
+    res.json(toPage(minutes, total, list));
+  } catch (error) {
+    console.error('Get meeting minutes error:', error);
+    res.status(500).json({ error: '議事録の取得に失敗しました' });
+  }
+});
+
+app.post('/api/meeting-minutes', authenticateToken, requirePermission('records:write'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.title || !req.body.date) {
+      return res.status(400).json({ error: '会議名と日付は必須です' });
+    }
+    const date = dateFieldOf(req.body.date, '日付')!;
+
+    const minutes = await prisma.meetingMinutes.create({
+      data: {
+        title: req.body.title,
+        date,
+        time: req.body.time || '',
+        attendees: req.body.attendees || [],
+        meetingLink: req.body.meetingLink || null,
+        meetingType: req.body.meetingType || 'zoom',
+        agenda: req.body.agenda || [],
+        decisions: req.body.decisions || [],
+        actionItems: req.body.actionItems || [],
+        notes: req.body.notes || '',
+        status: req.body.status || 'scheduled',
+        userId: req.user!.id,
+        document: {
+          create: {
+            title: `${req.body.title}_議事録`,
+            type: 'meeting',
+            category: req.body.category || '会議',
+            attendees: req.body.attendees || [],
+            date,
+            status: 'published',
+            userId: req.user!.id
+          }
+        }
+      },
+      include: { document: { include: documentInclude } }
+    });
+
+    await indexForSearch('meetingMinutes', minutes);
+    await logActivity(req, 'meetingMinutes', 'created', null, minutes);
+    if (minutes.document) {
+      realtime.dataUpdated(req.user!.teamId, 'documents', 'created', minutes.document, req.user!.id);
+    }
+    res.status(201).json(minutes);
+  } catch (error) {
+    if (error instanceof FieldValueError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create meeting minutes error:', error);
+    res.status(500).json({ error: '議事録の作成に失敗しました' });
+  }
+});
+
+app.put('/api/meeting-minutes/:id', authenticateToken, requirePermission('records:write'), requireTeamMeetingMinutes, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<MeetingMinutesWithDocument>(res);
+
+    const title = req.body.title ?? existing.title;
+    // 議事録の日付は必須のため、空の場合は変更しない
+    const date = dateFieldOf(req.body.date, '日付') ?? existing.date;
+    const attendees = req.body.attendees ?? existing.attendees;
+
+    const minutes = await prisma.meetingMinutes.update({
+      where: { id: existing.id },
+      data: {
+        title,
+        date,
+        time: req.body.time,
+        attendees,
+        meetingLink: req.body.meetingLink,
+        meetingType: req.body.meetingType,
+        agenda: req.body.agenda,
+        decisions: req.body.decisions,
+        actionItems: req.body.actionItems,
+        notes: req.body.notes,
+        status: req.body.status,
+        document: existing.document
+          ? { update: { title: `${title}_議事録`, date, attendees } }
+          : undefined
+      },
+      include: { document: { include: documentInclude } }
+    });
+
+    await indexForSearch('meetingMinutes', minutes);
+    await logActivity(req, 'meetingMinutes', 'updated', existing, minutes);
+    if (minutes.document) {
+      realtime.dataUpdated(req.user!.teamId, 'documents', 'updated', minutes.document, req.user!.id);
+    }
+    res.json(minutes);
+  } catch (error) {
+    if (error instanceof FieldValueError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update meeting minutes error:', error);
+    res.status(500).json({ error: '議事録の更新に失敗しました' });
+  }
+});
+
+app.delete('/api/meeting-minutes/:id', authenticateToken, requirePermission('records:write'), requireTeamMeetingMinutes, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<MeetingMinutesWithDocument>(res);
+
+    // 一覧表示用のドキュメントも一緒にゴミ箱に移動する
+    const data = trashData(req);
+    await prisma.meetingMinutes.update({
+      where: { id: existing.id },
+      data: { ...data, document: existing.document ? { update: data } : undefined }
+    });
+    await removeFromSearch('meetingMinutes', existing.id);
+    await logActivity(req, 'meetingMinutes', 'deleted', existing, null);
+
+    if (existing.document) {
+      realtime.dataDeleted(req.user!.teamId, 'documents', existing.document.id, req.user!.id);
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete meeting minutes error:', error);
+    res.status(500).json({ error: '議事録の削除に失敗しました' });
+  }
+});
+
+// 営業メール関連API（チーム共有）
+const requireTeamSalesEmail = requireTeamRecord(where => prisma.salesEmail.findFirst({ where: { ...where, ...NOT_DELETED } }), '営業メールが見つかりません');
+
+// 絞り込み: client, emailType, status, tag, from, to（送信日の範囲）, q（件名・クライアント・本文の検索）
+app.get('/api/sales-emails', authenticateToken, requirePermission('sales:view'), listQuery(SALES_EMAIL_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.SalesEmailWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [emails, total] = await Promise.all([
+      prisma.salesEmail.findMany({ where, ...list.args }),
+      prisma.salesEmail.count({ where })
+    ]);
+
+    res.json(toPage(emails, total, list));
+  } catch (error) {
+    console.error('Get sales emails error:', error);
+    res.status(500).json({ error: '営業メールの取得に失敗しました' });
+  }
+});
+
+app.post('/api/sales-emails', authenticateToken, requirePermission('sales:view', 'records:write'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.subject || !req.body.client) {
+      return res.status(400).json({ error: '件名とクライアントは必須です' });
+    }
+
+    const email = await prisma.salesEmail.create({
+      data: {
+        subject: req.body.subject,
+        content: req.body.content || '',
+        client: req.body.client,
+        contactPerson: req.body.contactPerson || '',
+        emailType: req.body.emailType || 'inquiry',
+        sentDate: req.body.sentDate ? new Date(req.body.sentDate) : null,
+        receivedDate: req.body.receivedDate ? new Date(req.body.receivedDate) : null,
+        status: req.body.status || 'sent',
+        attachments: req.body.attachments || [],
+        tags: req.body.tags || [],
+        notes: req.body.notes || '',
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId),
+        userId: req.user!.id
+      }
+    });
+
+    await indexForSearch('salesEmails', email);
+    await logActivity(req, 'salesEmails', 'created', null, email);
+    res.status(201).json(email);
+  } catch (error) {
+    console.error('Create sales email error:', error);
+    res.status(500).json({ error: '営業メールの作成に失敗しました' });
+  }
+});
+
+app.put('/api/sales-emails/:id', authenticateToken, requirePermission('sales:view', 'records:write'), requireTeamSalesEmail, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<SalesEmail>(res);
+
+    const toDate = (value: any) => (value !== undefined ? (value ? new Date(value) : null) : undefined);
+    const email = await prisma.salesEmail.update({
+      where: { id: existing.id },
+      data: {
+        subject: req.body.subject,
+        content: req.body.content,
+        client: req.body.client,
+        contactPerson: req.body.contactPerson,
+        emailType: req.body.emailType,
+        sentDate: toDate(req.body.sentDate),
+        receivedDate: toDate(req.body.receivedDate),
+        status: req.body.status,
+        attachments: req.body.attachments,
+        tags: req.body.tags,
+        notes: req.body.notes,
+        customerId: await resolveCustomerId(req.body.customerId, req.user?.teamId)
+      }
+    });
+
+    await indexForSearch('salesEmails', email);
+    await logActivity(req, 'salesEmails', 'updated', existing, email);
+    res.json(email);
+  } catch (error) {
+    console.error('Update sales email error:', error);
+    res.status(500).json({ error: '営業メールの更新に失敗しました' });
+  }
+});
+
+app.delete('/api/sales-emails/:id', authenticateToken, requirePermission('sales:view', 'records:write'), requireTeamSalesEmail, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<SalesEmail>(res);
+
+    await prisma.salesEmail.update({
+      where: { id: existing.id },
+      data: trashData(req)
+    });
+    await removeFromSearch('salesEmails', existing.id);
+    await logActivity(req, 'salesEmails', 'deleted', existing, null);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete sales email error:', error);
+    res.status(500).json({ error: '営業メールの削除に失敗しました' });
+  }
+});
+
+// サービス資料関連API（チーム共有）
+const requireTeamServiceMaterial = requireTeamRecord(where => prisma.serviceMaterial.findFirst({ where: { ...where, ...NOT_DELETED } }), 'サービス資料が見つかりません');
+
+app.get('/api/service-materials', authenticateToken, listQuery(SERVICE_MATERIAL_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.ServiceMaterialWhereInput = {
+      ...list.where,
+      ...NOT_DELETED,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [materials, total] = await Promise.all([
+      prisma.serviceMaterial.findMany({ where, ...list.args }),
+      prisma.serviceMaterial.count({ where })
+    ]);
+
+    res.json(toPage(materials, total, list));
+  } catch (error) {
+    console.error('Get service materials error:', error);
+    res.status(500).json({ error: 'サービス資料の取得に失敗しました' });
+  }
+});
+
+app.post('/api/service-materials', authenticateToken, requirePermission('records:write'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.title) {
+      return res.status(400).json({ error: '資料名は必須です' });
+    }
+
+    const material = await prisma.serviceMaterial.create({
+      data: {
+        title: req.body.title,
+        description: req.body.description || '',
+        category: req.body.category || 'proposal',
+        serviceCategory: req.body.serviceCategory || 'other',
+        fileType: req.body.fileType || 'pdf',
+        version: req.body.version || '1.0',
+        isPublic: req.body.isPublic !== false,
+        tags: req.body.tags || [],
+        notes: req.body.notes || '',
+        uploadedBy: req.body.uploadedBy || req.user?.name || '',
+        price: req.body.price ?? null,
+        deliveryTime: req.body.deliveryTime || null,
+        userId: req.user!.id
+      }
+    });
+
+    await indexForSearch('serviceMaterials', material);
+    await logActivity(req, 'serviceMaterials', 'created', null, material);
+    res.status(201).json(material);
+  } catch (error) {
+    console.error('Create service material error:', error);
+    res.status(500).json({ error: 'サービス資料の作成に失敗しました' });
+  }
+});
+
+app.put('/api/service-materials/:id', authenticateToken, requirePermission('records:write'), requireTeamServiceMaterial, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<ServiceMaterial>(res);
+
+    // ファイル関連の項目とダウンロード数はアップロード・ダウンロード時にのみ更新する
+    const material = await prisma.serviceMaterial.update({
+      where: { id: existing.id },
+      data: {
+        title: req.body.title,
+        description: req.body.description,
+        category: req.body.category,
+        serviceCategory: req.body.serviceCategory,
+        fileType: req.body.fileType,
+        version: req.body.version,
+        isPublic: req.body.isPublic,
+        tags: req.body.tags,
+        notes: req.body.notes,
+        uploadedBy: req.body.uploadedBy,
+        price: req.body.price,
+        deliveryTime: req.body.deliveryTime
+      }
+    });
+
+    await indexForSearch('serviceMaterials', material);
+    await logActivity(req, 'serviceMaterials', 'updated', existing, material);
+    res.json(material);
+  } catch (error) {
+    console.error('Update service material error:', error);
+    res.status(500).json({ error: 'サービス資料の更新に失敗しました' });
+  }
+});
+
+app.delete('/api/service-materials/:id', authenticateToken, requirePermission('records:write'), requireTeamServiceMaterial, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<ServiceMaterial>(res);
+
+    // ファイルは復元できるように完全削除まで残す
+    await prisma.serviceMaterial.update({
+      where: { id: existing.id },
+      data: trashData(req)
+    });
+    await removeFromSearch('serviceMaterials', existing.id);
+    await logActivity(req, 'serviceMaterials', 'deleted', existing, null);
 
     res.status(204).send();
   } catch (error) {
-    console.error('Delete lead error:', error);
-    res.status(500).json({ error: 'リードの削除に失敗しました' });
+    console.error('Delete service material error:', error);
+    res.status(500).json({ error: 'サービス資料の削除に失敗しました' });
+  }
+});
+
+// ファイルのアップロード（multipart/form-data の file フィールド）
+app.post('/api/service-materials/:id/file', authenticateToken, requirePermission('records:write'), requireTeamServiceMaterial, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<ServiceMaterial>(res);
+    if (!req.file) {
+      return res.status(400).json({ error: 'ファイルを選択してください' });
+    }
+
+    const storageKey = createStorageKey(`service-materials/${existing.id}`);
+    const mimeType = req.file.mimetype || 'application/octet-stream';
+    await fileStorage.put(storageKey, req.file.buffer, mimeType);
+
+    const material = await prisma.serviceMaterial.update({
+      where: { id: existing.id },
+      data: {
+        storageKey,
+        fileName: req.file.originalname,
+        fileSize: req.file.size,
+        mimeType,
+        checksum: checksumOf(req.file.buffer)
+      }
+    });
+
+    await indexForSearch('serviceMaterials', material);
+    await logActivity(req, 'serviceMaterials', 'updated', existing, material);
+
+    // 差し替え前のファイルは新しいファイルの保存後に削除する
+    if (existing.storageKey) {
+      await fileStorage.delete(existing.storageKey).catch(error => {
+        console.error('Delete replaced file error:', error);
+      });
+    }
+
+    res.status(201).json(material);
+  } catch (error) {
+    console.error('Upload service material file error:', error);
+    res.status(500).json({ error: 'ファイルのアップロードに失敗しました' });
+  }
+});
+
+// ファイルのダウンロード（ストリーム配信、送信完了時にダウンロード数を加算）
+app.get('/api/service-materials/:id/file', authenticateToken, requireTeamServiceMaterial, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<ServiceMaterial>(res);
+    if (!existing.storageKey) {
+      return res.status(404).json({ error: 'ファイルが見つかりません' });
+    }
+
+    const stream = await fileStorage.get(existing.storageKey);
+    res.setHeader('Content-Type', existing.mimeType || 'application/octet-stream');
+    if (existing.fileSize !== null) {
+      res.setHeader('Content-Length', existing.fileSize.toString());
+    }
+    if (existing.checksum) {
+      res.setHeader('ETag', `"${existing.checksum}"`);
+    }
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(existing.fileName || 'download')}`);
+
+    res.on('finish', () => {
+      prisma.serviceMaterial.update({
+        where: { id: existing.id },
+        data: { downloadCount: { increment: 1 } }
+      }).catch(error => {
+        console.error('Increment download count error:', error);
+      });
+    });
+
+    stream.on('error', (error) => {
+      console.error('Stream service material file error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    if (error instanceof StorageObjectNotFoundError) {
+      return res.status(404).json({ error: 'ファイルが見つかりません' });
+    }
+    console.error('Download service material file error:', error);
+    res.status(500).json({ error: 'ファイルのダウンロードに失敗しました' });
+  }
+});
+
+// 全文検索API（チーム共有）
+// クエリパラメータ: q（検索語）, types（対象の種類をカンマ区切りで指定）, limit（既定20件・最大50件）
+const SEARCH_CANDIDATE_LIMIT = 500;
+
+app.get('/api/search', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    const tokens = queryTokens(q);
+    if (!req.user?.teamId || tokens.length === 0) {
+      return res.json({ query: q, total: 0, results: [] });
+    }
+
+    const requested = typeof req.query.types === 'string' && req.query.types ? req.query.types.split(',') : SEARCH_TYPES;
+    const canViewSales = hasPermission(req.user.role, 'sales:view');
+    const types = SEARCH_TYPES.filter(type => requested.includes(type) && (canViewSales || !SALES_SEARCH_TYPES.includes(type)));
+    const limit = Math.min(Math.max(Math.trunc(Number(req.query.limit)) || 20, 1), 50);
+
+    // 索引で候補を絞り込んでから点数を付ける
+    const candidates = await prisma.searchEntry.findMany({
+      where: {
+        user: { teamId: req.user.teamId },
+        entityType: { in: types },
+        tokens: { hasEvery: tokens }
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: SEARCH_CANDIDATE_LIMIT
+    });
+    const results = rankResults(candidates, q);
+
+    res.json({ query: q, total: results.length, results: results.slice(0, limit) });
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: '検索に失敗しました' });
+  }
+});
+
+// 索引の作り直し（索引の導入前のデータや、索引の更新に失敗したレコードを検索できるようにする）
+app.post('/api/search/reindex', authenticateToken, requirePermission('team:manage'), async (req: AuthenticatedRequest, res) => {
+  try {
+    const indexed = await rebuildSearchIndex(req.user!.teamId);
+    res.json({ indexed });
+  } catch (error) {
+    console.error('Rebuild search index error:', error);
+    res.status(500).json({ error: '検索の索引の作成に失敗しました' });
+  }
+});
+
+// 変更履歴API（チーム共有）
+// 絞り込み: entityType, entityId（レコードごとの履歴）, action, userId（操作者）, from, to（記録日時の範囲）, q（レコード名・操作者名の検索）
+app.get('/api/activity', authenticateToken, listQuery(ACTIVITY_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    // 営業データの履歴は sales:view がある場合のみ返す
+    const where: Prisma.ActivityLogWhereInput = {
+      ...list.where,
+      teamId: req.user.teamId,
+      AND: hasPermission(req.user.role, 'sales:view') ? [] : [{ entityType: { notIn: [...SALES_ACTIVITY_TYPES] } }]
+    };
+    const [entries, total] = await Promise.all([
+      prisma.activityLog.findMany({ where, ...list.args }),
+      prisma.activityLog.count({ where })
+    ]);
+
+    res.json(toPage(entries, total, list));
+  } catch (error) {
+    console.error('Get activity error:', error);
+    res.status(500).json({ error: '変更履歴の取得に失敗しました' });
+  }
+});
+
+// 顧客関連API（チーム共有）
+const requireTeamCustomer = requireTeamRecord(where => prisma.customer.findFirst({ where }), '顧客が見つかりません');
+// 契約・会社情報の数値と日付（変換できない値は FieldValueError）
+const customerFieldsOf = (body: any) => ({
+  contractDate: dateFieldOf(body.contractDate, '契約日'),
+  contractAmount: numberFieldOf(body.contractAmount, '契約金額'),
+  employeeCount: numberFieldOf(body.employeeCount, '従業員数', { integer: true }),
+  annualRevenue: numberFieldOf(body.annualRevenue, '年商')
+});
+
+app.get('/api/customers', authenticateToken, requirePermission('sales:view'), listQuery(CUSTOMER_LIST), async (req: AuthenticatedRequest, res) => {
+  try {
+    const list = getListQuery(res);
+    if (!req.user?.teamId) {
+      return res.json(emptyPage(list));
+    }
+
+    const where: Prisma.CustomerWhereInput = {
+      ...list.where,
+      user: {
+        teamId: req.user.teamId
+      }
+    };
+    const [customers, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        include: {
+          _count: {
+            select: {
+              leads: { where: NOT_DELETED },
+              projects: { where: NOT_DELETED },
+              salesEmails: { where: NOT_DELETED },
+              documents: { where: NOT_DELETED }
+            }
+          }
+        },
+        ...list.args
+      }),
+      prisma.customer.count({ where })
+    ]);
+
+    res.json(toPage(customers, total, list));
+  } catch (error) {
+    console.error('Get customers error:', error);
+    res.status(500).json({ error: '顧客の取得に失敗しました' });
+  }
+});
+
+// 顧客詳細（関連するリード・案件・営業メール・ドキュメントを含む）
+// 顧客IDで紐付いたレコードに加え、未紐付けで会社名・顧客名が一致するレコードも関連として返す
+app.get('/api/customers/:id', authenticateToken, requirePermission('sales:view'), requireTeamCustomer, async (req: AuthenticatedRequest, res) => {
+  try {
+    const customer = getTeamRecord<Customer>(res);
+    const teamWhere = { user: { teamId: req.user!.teamId }, ...NOT_DELETED };
+    const names = [customer.company, customer.name].filter((name): name is string => !!name);
+
+    const [leads, projects, salesEmails, documents] = await Promise.all([
+      prisma.lead.findMany({
+        where: { ...teamWhere, OR: [{ customerId: customer.id }, { customerId: null, company: { in: names } }] },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.project.findMany({
+        where: { ...teamWhere, OR: [{ customerId: customer.id }, { customerId: null, client: { in: names } }] },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.salesEmail.findMany({
+        where: { ...teamWhere, OR: [{ customerId: customer.id }, { customerId: null, client: { in: names } }] },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.document.findMany({
+        where: { ...teamWhere, customerId: customer.id },
+        orderBy: { createdAt: 'desc' }
+      })
+    ]);
+
+    res.json({ ...customer, leads, projects, salesEmails, documents });
+  } catch (error) {
+    console.error('Get customer error:', error);
+    res.status(500).json({ error: '顧客の取得に失敗しました' });
+  }
+});
+
+app.post('/api/customers', authenticateToken, requirePermission('sales:view', 'records:write'), stripRevenueFields, idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.body.name) {
+      return res.status(400).json({ error: '顧客名は必須です' });
+    }
+
+    const fields = customerFieldsOf(req.body);
+    const customer = await prisma.customer.create({
+      data: {
+        name: req.body.name,
+        email: req.body.email || null,
+        phone: req.body.phone || null,
+        company: req.body.company || null,
+        address: req.body.address || null,
+        status: req.body.status || 'active',
+        notes: req.body.notes || '',
+        contractDate: fields.contractDate ?? null,
+        contractAmount: fields.contractAmount ?? 0,
+        contractDetails: req.body.contractDetails || null,
+        industry: req.body.industry || null,
+        employeeCount: fields.employeeCount ?? null,
+        annualRevenue: fields.annualRevenue ?? null,
+        userId: req.user!.id
+      }
+    });
+
+    await logActivity(req, 'customers', 'created', null, customer);
+    res.status(201).json(customer);
+  } catch (error) {
+    if (error instanceof FieldValueError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Create customer error:', error);
+    res.status(500).json({ error: '顧客の作成に失敗しました' });
+  }
+});
+
+app.put('/api/customers/:id', authenticateToken, requirePermission('sales:view', 'records:write'), stripRevenueFields, requireTeamCustomer, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Customer>(res);
+    const fields = customerFieldsOf(req.body);
+
+    const customer = await prisma.customer.update({
+      where: { id: existing.id },
+      data: {
+        name: req.body.name,
+        email: req.body.email,
+        phone: req.body.phone,
+        company: req.body.company,
+        address: req.body.address,
+        status: req.body.status,
+        notes: req.body.notes,
+        contractDate: fields.contractDate,
+        contractAmount: fields.contractAmount ?? undefined,
+        contractDetails: req.body.contractDetails,
+        industry: req.body.industry,
+        employeeCount: fields.employeeCount,
+        annualRevenue: fields.annualRevenue
+      }
+    });
+
+    await logActivity(req, 'customers', 'updated', existing, customer);
+    res.json(customer);
+  } catch (error) {
+    if (error instanceof FieldValueError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update customer error:', error);
+    res.status(500).json({ error: '顧客の更新に失敗しました' });
+  }
+});
+
+app.delete('/api/customers/:id', authenticateToken, requirePermission('sales:view', 'records:write'), requireTeamCustomer, async (req: AuthenticatedRequest, res) => {
+  try {
+    const existing = getTeamRecord<Customer>(res);
+
+    // 紐付いたリード・案件などは削除せず、顧客IDのみ解除される
+    await prisma.customer.delete({
+      where: { id: existing.id }
+    });
+    await logActivity(req, 'customers', 'deleted', existing, null);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete customer error:', error);
+    res.status(500).json({ error: '顧客の削除に失敗しました' });
+  }
+});
+
+// ゴミ箱API（チーム共有）
+// 削除したレコードは TRASH_RETENTION_DAYS 日（既定30日）のあいだ復元でき、過ぎたものは定期的に完全に削除する
+const TRASH_RETENTION_DAYS = retentionDaysOf(process.env.TRASH_RETENTION_DAYS);
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+const RESTORED = { deletedAt: null, deletedById: null };
+
+type TrashWhere = {
+  id?: string;
+  user?: { teamId: string };
+  deletedAt: { not: null } | { lt: Date };
+  deletedById?: string;
+};
+type TrashRecord = DeletedRecord & { userId: string; minutesId?: string | null; storageKey?: string | null };
+
+interface TrashStore {
+  find: (where: TrashWhere) => Promise<TrashRecord[]>;
+  restore: (record: TrashRecord) => Promise<TrashRecord>;
+  purge: (record: TrashRecord) => Promise<void>;
+}
+
+const trashStores: Record<TrashType, TrashStore> = {
+  tasks: {
+    find: where => prisma.task.findMany({ where }),
+    restore: record => prisma.task.update({ where: { id: record.id }, data: RESTORED }),
+    purge: async record => {
+      await prisma.task.delete({ where: { id: record.id } });
+    }
+  },
+  projects: {
+    find: where => prisma.project.findMany({ where }),
+    restore: record => prisma.project.update({ where: { id: record.id }, data: RESTORED }),
+    purge: async record => {
+      await prisma.project.delete({ where: { id: record.id } });
+    }
+  },
+  leads: {
+    find: where => prisma.lead.findMany({ where }),
+    restore: record => prisma.lead.update({ where: { id: record.id }, data: RESTORED }),
+    purge: async record => {
+      await prisma.lead.delete({ where: { id: record.id } });
+    }
+  },
+  documents: {
+    find: where => prisma.document.findMany({ where }),
+    // 議事録ドキュメントは元の議事録も復元する
+    restore: async record => {
+      if (record.minutesId) {
+        const minutes = await prisma.meetingMinutes.update({ where: { id: record.minutesId }, data: RESTORED });
+        await indexForSearch('meetingMinutes', minutes);
+      }
+      return prisma.document.update({ where: { id: record.id }, data: RESTORED, include: documentInclude });
+    },
+    // 議事録ドキュメントは元の議事録ごと削除する（ドキュメントはカスケード削除）
+    purge: async record => {
+      if (record.minutesId) {
+        await prisma.meetingMinutes.delete({ where: { id: record.minutesId } });
+      } else {
+        await prisma.document.delete({ where: { id: record.id } });
+      }
+    }
+  },
+  salesEmails: {
+    find: where => prisma.salesEmail.findMany({ where }),
+    restore: record => prisma.salesEmail.update({ where: { id: record.id }, data: RESTORED }),
+    purge: async record => {
+      await prisma.salesEmail.delete({ where: { id: record.id } });
+    }
+  },
+  serviceMaterials: {
+    find: where => prisma.serviceMaterial.findMany({ where }),
+    restore: record => prisma.serviceMaterial.update({ where: { id: record.id }, data: RESTORED }),
+    purge: async record => {
+      await prisma.serviceMaterial.delete({ where: { id: record.id } });
+      if (record.storageKey) {
+        await fileStorage.delete(record.storageKey).catch(error => {
+          console.error('Delete purged file error:', error);
+        });
+      }
+    }
+  }
+};
+
+// 復元したときにリアルタイム同期で通知する種類
+const TRASH_REALTIME_TYPES: Partial<Record<TrashType, RealtimeDataType>> = {
+  tasks: 'tasks',
+  projects: 'projects',
+  leads: 'leads',
+  documents: 'documents'
+};
+
+// 種類ごとの権限を確認し、ゴミ箱のレコードを res.locals に設定する
+const requireTrashRecord = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const type = req.params.type;
+    if (!isTrashType(type) || !req.user?.teamId) {
+      return res.status(404).json({ error: 'ゴミ箱にデータが見つかりません' });
+    }
+    if (!TRASH_PERMISSIONS[type].every(permission => hasPermission(req.user!.role, permission))) {
+      return res.status(403).json({ error: 'この操作を行う権限がありません' });
+    }
+
+    const [record] = await trashStores[type].find({
+      id: String(req.params.id),
+      user: { teamId: req.user.teamId },
+      deletedAt: { not: null }
+    });
+    if (!record) {
+      return res.status(404).json({ error: 'ゴミ箱にデータが見つかりません' });
+    }
+    res.locals.teamRecord = record;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// 絞り込み: type（種類）, deletedBy（削除したユーザーのID）
+app.get('/api/trash', authenticateToken, async (req: AuthenticatedRequest, res) => {
+  try {
+    if (!req.user?.teamId) {
+      return res.json({ retentionDays: TRASH_RETENTION_DAYS, items: [] });
+    }
+
+    const canViewSales = hasPermission(req.user.role, 'sales:view');
+    const requested = isTrashType(req.query.type) ? [req.query.type] : TRASH_TYPES;
+    const types = requested.filter(type => canViewSales || !SALES_TRASH_TYPES.includes(type));
+    const where: TrashWhere = {
+      user: { teamId: req.user.teamId },
+      deletedAt: { not: null },
+      deletedById: typeof req.query.deletedBy === 'string' && req.query.deletedBy ? req.query.deletedBy : undefined
+    };
+
+    const records = await Promise.all(types.map(async type => ({ type, records: await trashStores[type].find(where) })));
+    const deleterIds = Array.from(new Set(records.flatMap(group => group.records.map(record => record.deletedById))))
+      .filter((id): id is string => !!id);
+    const deleters = await prisma.user.findMany({ where: { id: { in: deleterIds } }, select: { id: true, name: true, email: true } });
+    const names = new Map(deleters.map(user => [user.id, user.name || user.email]));
+
+    const items = records.flatMap(group => toTrashItems(group.type, group.records, names, TRASH_RETENTION_DAYS));
+    res.json({ retentionDays: TRASH_RETENTION_DAYS, items: sortTrashItems(items) });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({ error: 'ゴミ箱の取得に失敗しました' });
+  }
+});
+
+app.post('/api/trash/:type/:id/restore', authenticateToken, requireTrashRecord, async (req: AuthenticatedRequest, res) => {
+  try {
+    const type = req.params.type as TrashType;
+    const record = await trashStores[type].restore(getTeamRecord<TrashRecord>(res));
+
+    if (type !== 'documents') {
+      await indexForSearch(type, record);
+    }
+    await logActivity(req, type, 'restored', record, record, {});
+    const realtimeType = TRASH_REALTIME_TYPES[type];
+    if (realtimeType) {
+      realtime.dataUpdated(req.user!.teamId, realtimeType, 'created', record, req.user!.id);
+    }
+    res.json(record);
+  } catch (error) {
+    console.error('Restore trash error:', error);
+    res.status(500).json({ error: 'データの復元に失敗しました' });
+  }
+});
+
+// 保持期間を待たずに完全に削除する
+app.delete('/api/trash/:type/:id', authenticateToken, requireTrashRecord, async (req: AuthenticatedRequest, res) => {
+  try {
+    const type = req.params.type as TrashType;
+    const record = getTeamRecord<TrashRecord>(res);
+    await trashStores[type].purge(record);
+
+    await logActivity(req, type, 'purged', record, null, {});
+    res.status(204).send();
+  } catch (error) {
+    console.error('Purge trash error:', error);
+    res.status(500).json({ error: 'データの完全削除に失敗しました' });
+  }
+});
+
+// 保持期間を過ぎたレコードを完全に削除する（すべてのチーム）
+const purgeExpiredTrash = async () => {
+  const cutoff = purgeCutoff(new Date(), TRASH_RETENTION_DAYS);
+  let count = 0;
+  for (const type of TRASH_TYPES) {
+    for (const record of await trashStores[type].find({ deletedAt: { lt: cutoff } })) {
+      try {
+        await trashStores[type].purge(record);
+        count += 1;
+      } catch (error) {
+        console.error('Purge expired trash error:', error);
+      }
+    }
+  }
+  return count;
+};
+
+// LocalStorageからの移行（一括インポート）
+// 既存データと同じものは重複として取り込まず、内容が異なるものは競合として報告する
+type ImportedRecord = { id: string; userId: string };
+
+const findImportCandidates: Record<ImportEntity, (teamId: string) => Promise<ExistingRecord[]>> = {
+  tasks: teamId => prisma.task.findMany({ where: { user: { teamId }, ...NOT_DELETED } }),
+  projects: teamId => prisma.project.findMany({ where: { user: { teamId }, ...NOT_DELETED } }),
+  leads: teamId => prisma.lead.findMany({ where: { user: { teamId }, ...NOT_DELETED } }),
+  salesEmails: teamId => prisma.salesEmail.findMany({ where: { user: { teamId }, ...NOT_DELETED } }),
+  serviceMaterials: teamId => prisma.serviceMaterial.findMany({ where: { user: { teamId }, ...NOT_DELETED } }),
+  meetingMinutes: teamId => prisma.meetingMinutes.findMany({ where: { user: { teamId }, ...NOT_DELETED } }),
+  documents: teamId => prisma.document.findMany({ where: { user: { teamId }, ...NOT_DELETED } })
+};
+
+const createImportedRecord = async (entity: ImportEntity, record: PlannedRecord, userId: string): Promise<ImportedRecord> => {
+  const data: Record<string, any> = { ...record.data, userId };
+  switch (entity) {
+    case 'tasks':
+      return prisma.task.create({ data: data as Prisma.TaskUncheckedCreateInput });
+    case 'projects':
+      return prisma.project.create({ data: { client: '', ...data } as Prisma.ProjectUncheckedCreateInput });
+    case 'leads':
+      return prisma.lead.create({ data: data as Prisma.LeadUncheckedCreateInput });
+    case 'salesEmails':
+      return prisma.salesEmail.create({ data: data as Prisma.SalesEmailUncheckedCreateInput });
+    case 'serviceMaterials': {
+      const material = await prisma.serviceMaterial.create({ data: data as Prisma.ServiceMaterialUncheckedCreateInput });
+      // LocalStorageにdata URLで保存されていたファイルはストレージに移す
+      const file = parseDataUrl(record.source.fileData);
+      if (!file) return material;
+      const storageKey = createStorageKey(`service-materials/${material.id}`);
+      await fileStorage.put(storageKey, file.buffer, file.mimeType);
+      return prisma.serviceMaterial.update({
+        where: { id: material.id },
+        data: { storageKey, fileSize: file.buffer.length, mimeType: file.mimeType, checksum: checksumOf(file.buffer) }
+      });
+    }
+    case 'meetingMinutes':
+      // 議事録は画面のAPIと同じく一覧表示用のドキュメントも作成する
+      return prisma.meetingMinutes.create({
+        data: {
+          ...data,
+          document: {
+            create: {
+              title: `${data.title}_議事録`,
+              type: 'meeting',
+              category: '会議',
+              attendees: data.attendees || [],
+              date: data.date,
+              status: 'published',
+              userId
+            }
+          }
+        } as Prisma.MeetingMinutesUncheckedCreateInput
+      });
+    case 'documents':
+      return prisma.document.create({ data: data as Prisma.DocumentUncheckedCreateInput });
+  }
+};
+
+// 取り込んだドキュメントのコメント（旧データではドキュメント内に保存されていた）
+const importDocumentComments = async (documentId: string, source: ImportRecord, userId: string, report: Omit<ImportReport, 'importId'>) => {
+  const comments = Array.isArray(source.comments) ? source.comments : [];
+  for (const comment of comments) {
+    if (!comment?.text) continue;
+    const createdAt = new Date(comment.createdAt);
+    await prisma.documentComment.create({
+      data: {
+        text: String(comment.text),
+        author: String(comment.author || ''),
+        createdAt: Number.isNaN(createdAt.getTime()) ? undefined : createdAt,
+        documentId,
+        userId
+      }
+    });
+    report.createdComments += 1;
+  }
+};
+
+app.post('/api/import', authenticateToken, requirePermission('records:write', 'sales:view'), idempotent, async (req: AuthenticatedRequest, res) => {
+  try {
+    const payload: ImportPayload = req.body?.data;
+    const onConflict: ConflictStrategy = req.body?.onConflict === 'create' ? 'create' : 'skip';
+    if (!payload || typeof payload !== 'object') {
+      return res.status(400).json({ error: 'インポートするデータがありません' });
+    }
+    for (const entity of IMPORT_ENTITIES) {
+      if (payload[entity] !== undefined && !Array.isArray(payload[entity])) {
+        return res.status(400).json({ error: `${entity}の形式が正しくありません` });
+      }
+      // 各レコードはオブジェクトのみ（nullや文字列などが含まれるバックアップは壊れているとみなす）
+      const invalidIndex = (payload[entity] ?? []).findIndex(record => !record || typeof record !== 'object' || Array.isArray(record));
+      if (invalidIndex >= 0) {
+        return res.status(400).json({ error: `${entity}の${invalidIndex + 1}件目の形式が正しくありません` });
+      }
+    }
+    const total = IMPORT_ENTITIES.reduce((count, entity) => count + (payload[entity]?.length ?? 0), 0);
+    if (total === 0) {
+      return res.status(400).json({ error: 'インポートするデータがありません' });
+    }
+    if (total > MAX_IMPORT_RECORDS) {
+      return res.status(400).json({ error: `一度にインポートできるのは${MAX_IMPORT_RECORDS}件までです` });
+    }
+
+    const teamId = req.user!.teamId!;
+    const userId = req.user!.id;
+    const report: Omit<ImportReport, 'importId'> = {
+      created: emptyImportCounts(),
+      createdComments: 0,
+      idMap: emptyIdMap(),
+      duplicates: [],
+      conflicts: [],
+      errors: [],
+      warnings: []
+    };
+
+    if (!req.user!.permissions.includes('revenue:edit') && payload.projects?.some(project =>
+      REVENUE_FIELDS.some(field => project[field] !== undefined && project[field] !== null)
+    )) {
+      payload.projects = payload.projects.map(project => {
+        const rest = { ...project };
+        for (const field of REVENUE_FIELDS) delete rest[field];
+        return rest;
+      });
+      report.warnings.push('予算・実収益・経費は管理者のみ取り込めるため、案件の売上・経費の項目は取り込んでいません');
+    }
+
+    // 旧データの議事録ドキュメントは、議事録と一緒に作成されるドキュメントに対応付ける
+    const minutesDocumentIds = new Map<string, string>();
+    const minutesCreatedNow = new Set<string>();
+    const linkedDocuments: ImportRecord[] = [];
+    const standaloneDocuments: ImportRecord[] = [];
+
+    for (const entity of IMPORT_ENTITIES) {
+      let records = payload[entity] ?? [];
+      if (entity === 'documents') {
+        for (const document of records) {
+          const minutesId = report.idMap.meetingMinutes[String(document?.minutesLegacyId ?? '')];
+          (minutesId && minutesDocumentIds.has(minutesId) ? linkedDocuments : standaloneDocuments).push(document);
+        }
+        records = standaloneDocuments;
+      }
+      if (records.length === 0) continue;
+
+      const plan = planImport(entity, records, await findImportCandidates[entity](teamId), onConflict);
+      report.duplicates.push(...plan.duplicates);
+      report.conflicts.push(...plan.conflicts);
+      report.errors.push(...plan.errors);
+      for (const duplicate of plan.duplicates) {
+        report.idMap[entity][duplicate.legacyId] = duplicate.existingId;
+      }
+      for (const conflict of plan.conflicts.filter(conflict => !conflict.created)) {
+        report.idMap[entity][conflict.legacyId] = conflict.existingId;
+      }
+
+      for (const record of plan.create) {
+        try {
+          const created = await createImportedRecord(entity, record, userId);
+          if (entity !== 'documents') await indexForSearch(entity, created);
+          report.idMap[entity][record.legacyId] = created.id;
+          report.created[entity] += 1;
+          if (entity === 'meetingMinutes') minutesCreatedNow.add(created.id);
+          if (entity === 'documents') await importDocumentComments(created.id, record.source, userId, report);
+        } catch (error) {
+          console.error(`Import ${entity} error:`, error);
+          report.errors.push({ entity, legacyId: record.legacyId, label: labelOf(entity, record.data), message: '作成に失敗しました' });
+        }
+      }
+      for (const alias of plan.aliases) {
+        const id = report.idMap[entity][alias.sameAs];
+        if (id) report.idMap[entity][alias.legacyId] = id;
+      }
+
+      if (entity === 'meetingMinutes') {
+        const minutesIds = Object.values(report.idMap.meetingMinutes);
+        const documents = await prisma.document.findMany({
+          where: { minutesId: { in: minutesIds } },
+          select: { id: true, minutesId: true }
+        });
+        for (const document of documents) {
+          minutesDocumentIds.set(document.minutesId!, document.id);
+        }
+      }
+    }
+
+    for (const document of linkedDocuments) {
+      const minutesId = report.idMap.meetingMinutes[String(document.minutesLegacyId)];
+      const documentId = minutesDocumentIds.get(minutesId)!;
+      report.idMap.documents[String(document.legacyId)] = documentId;
+      // 既存の議事録に対応する場合はコメントを重複させない
+      if (minutesCreatedNow.has(minutesId)) {
+        await importDocumentComments(documentId, document, userId, report);
+      }
+    }
+
+    const dataImport = await prisma.dataImport.create({
+      data: { report: report as unknown as Prisma.InputJsonValue, idMap: report.idMap, teamId, userId }
+    });
+
+    // 取り込んだ件数を1件の履歴として記録する（個々のレコードは記録しない）
+    const importedCounts: FieldChanges = {};
+    for (const entity of IMPORT_ENTITIES) {
+      if (report.created[entity] > 0) importedCounts[entity] = { before: null, after: report.created[entity] };
+    }
+    const importRecord = { id: dataImport.id, title: 'LocalStorageからの移行' };
+    await logActivity(req, 'dataImports', 'created', null, importRecord, importedCounts);
+
+    for (const [entity, dataType] of [['tasks', 'tasks'], ['projects', 'projects'], ['leads', 'leads'], ['documents', 'documents']] as const) {
+      if (report.created[entity] > 0 || (entity === 'documents' && report.created.meetingMinutes > 0)) {
+        realtime.dataUpdated(teamId, dataType, 'created', null, userId);
+      }
+    }
+
+    res.status(201).json({ importId: dataImport.id, ...report });
+  } catch (error) {
+    console.error('Import error:', error);
+    res.status(500).json({ error: 'データのインポートに失敗しました' });
   }
 });
 
 // エラーハンドリング
 app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+  if (err instanceof multer.MulterError) {
+    const message = err.code === 'LIMIT_FILE_SIZE' ? 'ファイルサイズが上限を超えています' : 'ファイルのアップロードに失敗しました';
+    return res.status(400).json({ error: message });
+  }
   console.error(err.stack);
   res.status(500).json({ error: 'サーバー内部エラーが発生しました' });
 });
@@ -467,12 +3532,128 @@ const server = app.listen(PORT, () => {
   console.log(`📊 ヘルスチェック: http://localhost:${PORT}/api/health`);
   console.log(`🔐 認証エンドポイント: http://localhost:${PORT}/api/auth/`);
   console.log(`👥 チーム共有機能: 有効`);
+  console.log(`🔄 リアルタイム同期: 有効`);
   console.log(`💾 データベース: PostgreSQL (永続化)`);
 });
+realtime.attach(server);
+
+// 索引が空の場合（索引の導入直後）は既存のデータから作成する
+prisma.searchEntry.count()
+  .then(async count => {
+    if (count > 0) return;
+    const indexed = await rebuildSearchIndex();
+    console.log(`🔍 検索の索引を作成しました（${indexed}件）`);
+  })
+  .catch(error => console.error('Build search index error:', error));
+
+// 旧形式（データベースにdata URLで保存）のサービス資料のファイルは、起動時にストレージへ移す
+// メモリを使いすぎないよう1件ずつ処理し、読み取れないデータはそのまま残す
+const migrateLegacyMaterialFiles = async () => {
+  let count = 0;
+  for (let cursor: string | undefined; ;) {
+    const material = await prisma.serviceMaterial.findFirst({
+      where: { fileData: { not: null }, ...(cursor ? { id: { gt: cursor } } : {}) },
+      orderBy: { id: 'asc' },
+      select: { id: true, fileData: true, storageKey: true }
+    });
+    if (!material) return count;
+    cursor = material.id;
+    // 新しいファイルをアップロード済みの場合は旧形式のデータを消すだけにする
+    if (material.storageKey) {
+      await prisma.serviceMaterial.update({ where: { id: material.id }, data: { fileData: null } });
+      continue;
+    }
+    const file = parseDataUrl(material.fileData);
+    if (!file) {
+      console.error('Legacy material file is not a data URL:', material.id);
+      continue;
+    }
+    const storageKey = createStorageKey(`service-materials/${material.id}`);
+    await fileStorage.put(storageKey, file.buffer, file.mimeType);
+    await prisma.serviceMaterial.update({
+      where: { id: material.id },
+      data: { storageKey, fileSize: file.buffer.length, mimeType: file.mimeType, checksum: checksumOf(file.buffer), fileData: null }
+    });
+    count += 1;
+  }
+};
+migrateLegacyMaterialFiles()
+  .then(count => {
+    if (count > 0) console.log(`📦 サービス資料のファイル${count}件をストレージに移しました`);
+  })
+  .catch(error => console.error('Migrate legacy material files error:', error));
+
+// ゴミ箱の保持期間を過ぎたデータは起動時と1時間ごとに削除する
+const runTrashPurge = () =>
+  purgeExpiredTrash()
+    .then(count => {
+      if (count > 0) console.log(`🗑️ ゴミ箱から${count}件を完全に削除しました`);
+    })
+    .catch(error => console.error('Purge expired trash error:', error));
+runTrashPurge();
+setInterval(runTrashPurge, TRASH_PURGE_INTERVAL).unref();
+
+// 期限切れ・無効にしてから30日以上たったセッションは起動時と1日ごとに削除する
+const SESSION_CLEANUP_INTERVAL = 24 * 60 * 60 * 1000;
+const cleanupSessions = () =>
+  prisma.session.deleteMany({
+    where: {
+      OR: [
+        { expiresAt: { lt: new Date() } },
+        { revokedAt: { lt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) } }
+      ]
+    }
+  }).catch(error => console.error('Cleanup sessions error:', error));
+cleanupSessions();
+setInterval(cleanupSessions, SESSION_CLEANUP_INTERVAL).unref();
+
+// 期限の日になった繰り返しタスクは、起動時と1時間ごとに次の回を作成する
+const createDueOccurrences = async () => {
+  const due = await prisma.task.findMany({
+    where: {
+      ...NOT_DELETED,
+      recurrence: { not: Prisma.AnyNull },
+      nextOccurrenceCreated: false,
+      dueDate: { lte: new Date(dateStringOf(new Date())!) }
+    },
+    include: { user: { select: { teamId: true } } }
+  });
+  let count = 0;
+  for (const { user, ...task } of due) {
+    try {
+      if (await createNextOccurrence(task, user.teamId, task.userId)) count += 1;
+    } catch (error) {
+      console.error('Create next occurrence error:', error);
+    }
+  }
+  return count;
+};
+const runRecurringTasks = () =>
+  createDueOccurrences()
+    .then(count => {
+      if (count > 0) console.log(`🔁 繰り返しタスクの次の回を${count}件作成しました`);
+    })
+    .catch(error => console.error('Create due occurrences error:', error));
+runRecurringTasks();
+setInterval(runRecurringTasks, 60 * 60 * 1000).unref();
+
+// 期限を過ぎた冪等キーは起動時と1時間ごとに削除する
+const cleanupIdempotencyKeys = () =>
+  prisma.idempotencyKey.deleteMany({ where: { createdAt: { lt: idempotencyKeyCutoff() } } })
+    .catch(error => console.error('Cleanup idempotency keys error:', error));
+cleanupIdempotencyKeys();
+setInterval(cleanupIdempotencyKeys, 60 * 60 * 1000).unref();
+
+// 接続元IPごとの回数と、登録されていないメールアドレスの失敗の記録は、期間を過ぎたものを1時間ごとに削除する
+setInterval(() => {
+  Object.values(rateLimiters).forEach(limiter => limiter.prune());
+  unknownEmailFailures.prune();
+}, 60 * 60 * 1000).unref();
 
 process.on('SIGTERM', async () => {
   console.log('SIGTERM signal received: closing HTTP server');
-  server.close(async () => {
+  // Socket.IOの接続を切断してからHTTPサーバーを閉じる
+  realtime.close(async () => {
     console.log('HTTP server closed');
     await prisma.$disconnect();
     console.log('Prisma client disconnected');
@@ -482,7 +3663,8 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
   console.log('SIGINT signal received: closing HTTP server');
-  server.close(async () => {
+  // Socket.IOの接続を切断してからHTTPサーバーを閉じる
+  realtime.close(async () => {
     console.log('HTTP server closed');
     await prisma.$disconnect();
     console.log('Prisma client disconnected');
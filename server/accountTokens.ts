@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { hashToken } from './sessions';
+import { MailMessage } from './mailer';
+
+// パスワード再設定・メールアドレス確認のリンク
+// トークンはメールで送るだけでサーバーにはハッシュを保存し、1回使うと無効になる
+
+export type AccountTokenPurpose = 'passwordReset' | 'emailVerification';
+
+export const ACCOUNT_TOKEN_TTL_HOURS: Record<AccountTokenPurpose, number> = {
+  passwordReset: 1,
+  emailVerification: 48
+};
+
+export interface AccountTokenLike {
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+export type AccountTokenState = 'valid' | 'expired' | 'used';
+
+export const ACCOUNT_TOKEN_ERRORS: Record<Exclude<AccountTokenState, 'valid'> | 'not_found', string> = {
+  not_found: 'リンクが正しくありません',
+  expired: 'リンクの有効期限が切れています。もう一度やり直してください',
+  used: 'このリンクはすでに使用されています'
+};
+
+export const createAccountToken = (): { token: string; hash: string } => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, hash: hashToken(token) };
+};
+
+export const accountTokenExpiry = (purpose: AccountTokenPurpose, now: Date = new Date()): Date =>
+  new Date(now.getTime() + ACCOUNT_TOKEN_TTL_HOURS[purpose] * 60 * 60 * 1000);
+
+export const checkAccountToken = (token: AccountTokenLike, now: Date = new Date()): AccountTokenState => {
+  if (token.usedAt) return 'used';
+  if (token.expiresAt.getTime() <= now.getTime()) return 'expired';
+  return 'valid';
+};
+
+// 招待リンク（/?invite=）と同じく、トップページのクエリでトークンを渡す
+const LINK_PARAMS: Record<AccountTokenPurpose, string> = {
+  passwordReset: 'reset',
+  emailVerification: 'verify'
+};
+
+export const accountLinkOf = (baseUrl: string, purpose: AccountTokenPurpose, token: string): string =>
+  `${baseUrl.replace(/\/+$/, '')}/?${LINK_PARAMS[purpose]}=${encodeURIComponent(token)}`;
+
+export const accountMailOf = (
+  purpose: AccountTokenPurpose,
+  to: { email: string; name: string | null },
+  link: string
+): MailMessage => {
+  const greeting = `${to.name || to.email} さん`;
+  const hours = ACCOUNT_TOKEN_TTL_HOURS[purpose];
+
+  if (purpose === 'passwordReset') {
+    return {
+      to: to.email,
+      subject: '【TeamHub】パスワードの再設定',
+      text: [
+        greeting,
+        '',
+        'パスワードの再設定を受け付けました。以下のリンクから新しいパスワードを設定してください。',
+        link,
+        '',
+        `リンクの有効期限は${hours}時間です。お心当たりがない場合は、このメールを破棄してください。`
+      ].join('\n')
+    };
+  }
+  return {
+    to: to.email,
+    subject: '【TeamHub】メールアドレスの確認',
+    text: [
+      greeting,
+      '',
+      'TeamHubへのご登録ありがとうございます。以下のリンクからメールアドレスを確認してください。',
+      link,
+      '',
+      `リンクの有効期限は${hours}時間です。確認が済むまでチームには参加できません。`
+    ].join('\n')
+  };
+};
@@ -0,0 +1,74 @@
+// 変更履歴（作成・更新・削除の操作者・対象・項目ごとの変更前後を記録する）
+
+// deleted はゴミ箱への移動、restored はゴミ箱からの復元、purged は完全削除
+export const ACTIVITY_ACTIONS = ['created', 'updated', 'deleted', 'restored', 'purged'] as const;
+export type ActivityAction = typeof ACTIVITY_ACTIONS[number];
+
+export const ACTIVITY_TYPES = [
+  'tasks',
+  'projects',
+  'leads',
+  'documents',
+  'meetingMinutes',
+  'salesEmails',
+  'serviceMaterials',
+  'customers',
+  'dataImports'
+] as const;
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+
+// 営業データ（sales:view が必要）
+export const SALES_ACTIVITY_TYPES: readonly ActivityType[] = ['leads', 'salesEmails', 'customers'];
+
+export type FieldChanges = Record<string, { before: unknown; after: unknown }>;
+
+// 自動で変わる項目・内部の項目・関連データは記録しない
+const IGNORED_FIELDS = new Set([
+  'id',
+  'userId',
+  'createdAt',
+  'updatedAt',
+  'version',
+  'nextOccurrenceCreated',
+  'rank',
+  'storageKey',
+  'checksum',
+  'downloadCount',
+  'user',
+  'comments',
+  'document',
+  'minutes',
+  '_count'
+]);
+
+const toComparable = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+};
+
+const isBlank = (value: unknown) =>
+  value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// 変更前後のレコードを比べ、値が変わった項目だけを返す
+// 作成（before が null）・削除（after が null）では値のない項目を省く
+export const diffChanges = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChanges => {
+  const changes: FieldChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const previous = toComparable(before?.[field]);
+    const next = toComparable(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) return;
+    if ((!before && isBlank(next)) || (!after && isBlank(previous))) return;
+    changes[field] = { before: previous, after: next };
+  });
+  return changes;
+};
+
+// 一覧に表示するレコードの名前
+export const labelOfRecord = (record: Record<string, any>): string =>
+  String(record.title ?? record.name ?? record.subject ?? record.company ?? record.id ?? '');
@@ -0,0 +1,144 @@
+import { Request, Response, NextFunction } from 'express';
+
+// チーム単位のアクセス制御
+// 更新・削除系のAPIは対象レコードが呼び出し元と同じチームのものか確認してから処理する
+
+interface TeamMemberRequest extends Request {
+  user?: {
+    id: string;
+    role?: string;
+    teamId?: string;
+  };
+}
+
+export interface TeamRecordWhere {
+  id: string;
+  user: { teamId: string };
+}
+
+export type TeamRecordFinder<T> = (where: TeamRecordWhere) => PromiseLike<T | null>;
+
+// 別チームのレコードは存在しないものとして扱う（IDの存在を推測されないよう403ではなく404）
+export const findTeamRecord = async <T>(find: TeamRecordFinder<T>, id: string, teamId?: string): Promise<T | null> => {
+  // teamIdが未定義のまま条件に渡すと絞り込みが無効になるため、チーム未所属は常に見つからない扱い
+  if (!teamId || !id) return null;
+  return find({ id, user: { teamId } });
+};
+
+export const requireTeamRecord = <T>(find: TeamRecordFinder<T>, notFoundMessage: string) =>
+  async (req: TeamMemberRequest, res: Response, next: NextFunction) => {
+    try {
+      const record = await findTeamRecord(find, String(req.params.id ?? ''), req.user?.teamId);
+      if (!record) {
+        return res.status(404).json({ error: notFoundMessage });
+      }
+      res.locals.teamRecord = record;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const getTeamRecord = <T>(res: Response): T => res.locals.teamRecord as T;
+
+// チーム内のロールと権限
+// owner: チームのオーナー（Team.ownerId）、admin: メンバー管理・売上の編集・かんばんの列の設定ができる管理者
+// member: 通常のメンバー、viewer: 閲覧のみ（営業データは閲覧不可）
+export const TEAM_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+export type TeamRole = typeof TEAM_ROLES[number];
+
+export type Permission =
+  | 'records:write'
+  | 'projects:delete'
+  | 'revenue:edit'
+  | 'sales:view'
+  | 'members:manage'
+  | 'board:manage'
+  | 'team:manage';
+
+const ROLE_PERMISSIONS: Record<TeamRole, readonly Permission[]> = {
+  owner: ['records:write', 'projects:delete', 'revenue:edit', 'sales:view', 'members:manage', 'board:manage', 'team:manage'],
+  admin: ['records:write', 'projects:delete', 'revenue:edit', 'sales:view', 'members:manage', 'board:manage'],
+  member: ['records:write', 'sales:view'],
+  viewer: []
+};
+
+// 旧データのrole（'user'など）は member として扱う
+export const toTeamRole = (role: string | null | undefined): TeamRole =>
+  (TEAM_ROLES as readonly string[]).includes(role ?? '') ? role as TeamRole : 'member';
+
+export const permissionsOf = (role: TeamRole): Permission[] => [...ROLE_PERMISSIONS[role]];
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean =>
+  !!role && ROLE_PERMISSIONS[toTeamRole(role)].includes(permission);
+
+// authenticateTokenの後に置き、チーム内のロールで操作を制限する
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: TeamMemberRequest, res: Response, next: NextFunction) => {
+    if (!req.user?.teamId || !permissions.every(permission => hasPermission(req.user!.role, permission))) {
+      return res.status(403).json({ error: 'この操作を行う権限がありません' });
+    }
+    next();
+  };
+
+// 売上・原価に関わる項目。revenue:edit 権限がない場合はリクエストから取り除き、既存の値を変更させない
+export const REVENUE_FIELDS = ['budget', 'actualRevenue', 'contractAmount', 'expenses'] as const;
+
+export const stripRevenueFields = (req: TeamMemberRequest, res: Response, next: NextFunction) => {
+  if (req.body && typeof req.body === 'object' && !hasPermission(req.user?.role, 'revenue:edit')) {
+    for (const field of REVENUE_FIELDS) {
+      delete req.body[field];
+    }
+  }
+  next();
+};
+
+// 更新APIで書き込みを許可する項目（id・userId・作成日時などは含めない）
+export interface WritableFields {
+  fields: readonly string[];
+  dates?: readonly string[];
+}
+
+export const TASK_WRITABLE_FIELDS: WritableFields = {
+  fields: ['title', 'description', 'status', 'priority', 'assignee', 'dueDate', 'meetingLink', 'notes'],
+  dates: ['dueDate']
+};
+
+// 繰り返しタスクの「以降のすべての回」の変更で書き換える項目（ステータスと期限は回ごと）
+export const TASK_SERIES_WRITABLE_FIELDS: WritableFields = {
+  fields: ['title', 'description', 'priority', 'assignee', 'meetingLink', 'notes']
+};
+
+export const PROJECT_WRITABLE_FIELDS: WritableFields = {
+  fields: [
+    'name', 'description', 'client', 'status', 'isActive', 'priority', 'startDate', 'endDate',
+    'budget', 'actualRevenue', 'teamMembers', 'progress', 'deliverables', 'serviceCategory', 'expenses', 'notes', 'completedDate'
+  ],
+  dates: ['startDate', 'endDate', 'completedDate']
+};
+
+export const LEAD_WRITABLE_FIELDS: WritableFields = {
+  fields: [
+    'company', 'contact', 'contactEmail', 'contactPhone', 'companyUrl', 'status', 'value', 'probability',
+    'nextAction', 'lastContact', 'meetingDate', 'meetingLink', 'services', 'notes'
+  ],
+  dates: ['lastContact', 'meetingDate']
+};
+
+// リクエストボディから許可された項目だけを取り出す（日付項目は空文字・nullをnullに変換）
+export const pickWritable = (body: unknown, spec: WritableFields): Record<string, any> => {
+  const data: Record<string, any> = {};
+  if (!body || typeof body !== 'object') return data;
+
+  const source = body as Record<string, unknown>;
+  for (const field of spec.fields) {
+    if (!Object.prototype.hasOwnProperty.call(source, field) || source[field] === undefined) continue;
+    const value = source[field];
+    if (spec.dates?.includes(field)) {
+      data[field] = value ? new Date(value as string) : null;
+    } else {
+      data[field] = value;
+    }
+  }
+  return data;
+};
@@ -0,0 +1,30 @@
+// 同時編集の楽観的排他制御
+// タスク・プロジェクト・リードは更新のたびに version を1つ増やし、編集を始めたときの version と異なる場合は更新しない
+
+export const VERSION_CONFLICT_ERROR = '他のメンバーがこのデータを更新しました。最新の内容を確認してから保存し直してください';
+
+export interface Versioned {
+  version: number;
+}
+
+export const etagOf = (version: number): string => `W/"${version}"`;
+
+const versionOfEtag = (etag: string): number | null => {
+  const match = /^(?:W\/)?"(\d+)"$/.exec(etag.trim());
+  return match ? Number(match[1]) : null;
+};
+
+// 編集を始めたときの version（本文の version、なければ If-Match ヘッダー）
+// どちらもない場合は null（ステータスの変更など、項目を指定した部分更新はそのまま受け付ける）
+export const expectedVersionOf = (body: unknown, ifMatch?: string): number | null => {
+  const version = (body as { version?: unknown } | null)?.version;
+  if (version !== undefined && version !== null) {
+    const parsed = Number(version);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+  }
+  if (!ifMatch || ifMatch.trim() === '*') return null;
+  return versionOfEtag(ifMatch);
+};
+
+export const isStaleVersion = (expected: number | null, current: Versioned): boolean =>
+  expected !== null && expected !== current.version;
@@ -0,0 +1,32 @@
+// リクエストボディの数値・日付項目の変換
+// undefined は未指定（更新しない）、空文字・null は null（値を消す）として扱い、変換できない値はエラーにする
+
+export class FieldValueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FieldValueError';
+  }
+}
+
+const isEmpty = (value: unknown) => value === null || value === '';
+
+export const numberFieldOf = (
+  value: unknown,
+  label: string,
+  { integer = false }: { integer?: boolean } = {}
+): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (isEmpty(value)) return null;
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(number)) throw new FieldValueError(`${label}は数値で指定してください`);
+  if (integer && !Number.isInteger(number)) throw new FieldValueError(`${label}は整数で指定してください`);
+  return number;
+};
+
+export const dateFieldOf = (value: unknown, label: string): Date | null | undefined => {
+  if (value === undefined) return undefined;
+  if (isEmpty(value)) return null;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) throw new FieldValueError(`${label}の日付が正しくありません`);
+  return date;
+};
@@ -0,0 +1,39 @@
+// 作成APIの冪等キー
+// クライアントは Idempotency-Key ヘッダーに変更ごとのキーを付け、サーバーは最初の応答を保存して同じキーの再送には同じ応答を返す
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// 保存した応答は24時間で削除する
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// 処理中のまま残ったキー（処理中にサーバーが停止した場合など）は、この時間が過ぎたら処理し直す
+export const IDEMPOTENCY_PENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const IDEMPOTENCY_ERRORS = {
+  invalid: 'Idempotency-Key の形式が正しくありません',
+  mismatch: 'このIdempotency-Keyは別の操作に使われています',
+  in_progress: '同じ操作を処理中です。しばらくしてから再度お試しください'
+};
+
+export const isValidIdempotencyKey = (key: string): boolean => /^[A-Za-z0-9_-]{8,100}$/.test(key);
+
+export interface IdempotencyRecordLike {
+  requestPath: string;
+  statusCode: number | null;
+  createdAt: Date;
+}
+
+// replay: 保存した応答を返す / abandoned: 処理中のまま残ったキーを処理し直す
+export type IdempotencyState = 'replay' | 'mismatch' | 'in_progress' | 'abandoned';
+
+export const checkIdempotencyKey = (
+  record: IdempotencyRecordLike,
+  requestPath: string,
+  now: Date = new Date()
+): IdempotencyState => {
+  if (record.requestPath !== requestPath) return 'mismatch';
+  if (record.statusCode !== null) return 'replay';
+  return now.getTime() - record.createdAt.getTime() > IDEMPOTENCY_PENDING_TIMEOUT_MS ? 'abandoned' : 'in_progress';
+};
+
+export const idempotencyKeyCutoff = (now: Date = new Date()): Date => new Date(now.getTime() - IDEMPOTENCY_KEY_TTL_MS);
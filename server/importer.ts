@@ -0,0 +1,255 @@
+import { pickWritable, WritableFields, TASK_WRITABLE_FIELDS, PROJECT_WRITABLE_FIELDS, LEAD_WRITABLE_FIELDS } from './authorization';
+
+// LocalStorageからの移行（一括インポート）
+// 画面側で LocalStorage.backup() をエンティティごとに変換して送り、サーバー側で重複・競合を判定して取り込む
+// 各レコードは元のID（Date.now()の数値）を legacyId として持ち、取り込み後のIDとの対応表を返す
+
+export const IMPORT_ENTITIES = [
+  'tasks', 'projects', 'leads', 'salesEmails', 'serviceMaterials', 'meetingMinutes', 'documents'
+] as const;
+export type ImportEntity = typeof IMPORT_ENTITIES[number];
+
+export interface ImportRecord {
+  legacyId: string;
+  [field: string]: unknown;
+}
+
+export type ImportPayload = Partial<Record<ImportEntity, ImportRecord[]>>;
+
+// 既存データと一致したときの扱い。skip: 取り込まない、create: 別のレコードとして取り込む
+export type ConflictStrategy = 'skip' | 'create';
+
+export interface ImportIssue {
+  entity: ImportEntity;
+  legacyId: string;
+  label: string;
+}
+
+export interface ImportDuplicate extends ImportIssue {
+  existingId: string;
+}
+
+export interface ImportConflict extends ImportDuplicate {
+  fields: string[];
+  created: boolean;
+}
+
+export interface ImportError extends ImportIssue {
+  message: string;
+}
+
+export interface ImportReport {
+  importId: string;
+  created: Record<ImportEntity, number>;
+  createdComments: number;
+  idMap: Record<ImportEntity, Record<string, string>>;
+  duplicates: ImportDuplicate[];
+  conflicts: ImportConflict[];
+  errors: ImportError[];
+  warnings: string[];
+}
+
+export const MAX_IMPORT_RECORDS = 5000;
+
+// 元のデータの作成日時も引き継ぐ
+const withCreatedAt = (spec: WritableFields): WritableFields => ({
+  fields: [...spec.fields, 'createdAt'],
+  dates: [...(spec.dates ?? []), 'createdAt']
+});
+
+export const IMPORT_FIELDS: Record<ImportEntity, WritableFields> = {
+  tasks: withCreatedAt(TASK_WRITABLE_FIELDS),
+  projects: withCreatedAt(PROJECT_WRITABLE_FIELDS),
+  leads: withCreatedAt(LEAD_WRITABLE_FIELDS),
+  salesEmails: withCreatedAt({
+    fields: [
+      'subject', 'content', 'client', 'contactPerson', 'emailType', 'sentDate', 'receivedDate', 'status',
+      'attachments', 'tags', 'notes'
+    ],
+    dates: ['sentDate', 'receivedDate']
+  }),
+  serviceMaterials: withCreatedAt({
+    fields: [
+      'title', 'description', 'category', 'serviceCategory', 'fileType', 'fileName', 'uploadedBy', 'price',
+      'deliveryTime', 'version', 'isPublic', 'downloadCount', 'tags', 'notes'
+    ]
+  }),
+  meetingMinutes: {
+    fields: [
+      'title', 'date', 'time', 'attendees', 'meetingLink', 'meetingType', 'agenda', 'decisions', 'actionItems',
+      'notes', 'status'
+    ],
+    dates: ['date']
+  },
+  documents: withCreatedAt({
+    fields: ['title', 'type', 'category', 'content', 'attendees', 'date', 'status', 'tags'],
+    dates: ['date']
+  })
+};
+
+// 必須項目（空の場合はエラーとして報告する）
+const REQUIRED_FIELDS: Record<ImportEntity, readonly string[]> = {
+  tasks: ['title'],
+  projects: ['name'],
+  leads: ['company', 'contact'],
+  salesEmails: ['subject', 'client'],
+  serviceMaterials: ['title'],
+  meetingMinutes: ['title', 'date'],
+  documents: ['title']
+};
+
+// 同じデータかどうかを判定する項目（一致すれば同じデータとみなす）
+export const KEY_FIELDS: Record<ImportEntity, readonly string[]> = {
+  tasks: ['title', 'dueDate'],
+  projects: ['name', 'client'],
+  leads: ['company', 'contact'],
+  salesEmails: ['subject', 'client', 'sentDate'],
+  serviceMaterials: ['title', 'version'],
+  meetingMinutes: ['title', 'date'],
+  documents: ['title', 'type', 'date']
+};
+
+// キーが一致したうえで内容を比べる項目（異なれば競合として報告する）
+export const COMPARE_FIELDS: Record<ImportEntity, readonly string[]> = {
+  tasks: ['description', 'status', 'priority', 'assignee', 'notes'],
+  projects: ['description', 'status', 'priority', 'startDate', 'endDate', 'budget', 'actualRevenue', 'progress', 'notes'],
+  leads: ['contactEmail', 'contactPhone', 'status', 'value', 'probability', 'nextAction', 'notes'],
+  salesEmails: ['content', 'contactPerson', 'emailType', 'status', 'notes'],
+  serviceMaterials: ['description', 'category', 'serviceCategory', 'fileName', 'notes'],
+  meetingMinutes: ['time', 'attendees', 'agenda', 'decisions', 'notes', 'status'],
+  documents: ['category', 'content', 'attendees', 'status']
+};
+
+const LABEL_FIELDS: Record<ImportEntity, string> = {
+  tasks: 'title',
+  projects: 'name',
+  leads: 'company',
+  salesEmails: 'subject',
+  serviceMaterials: 'title',
+  meetingMinutes: 'title',
+  documents: 'title'
+};
+
+// 比較用に値を揃える（日付は日単位、空文字・undefinedはnull、配列・オブジェクトはJSON）
+const normalize = (value: unknown): string | number | boolean | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as string | number | boolean;
+};
+
+export const labelOf = (entity: ImportEntity, data: Record<string, unknown>): string =>
+  String(data[LABEL_FIELDS[entity]] ?? '');
+
+export const naturalKey = (entity: ImportEntity, data: Record<string, unknown>): string =>
+  JSON.stringify(KEY_FIELDS[entity].map(field => normalize(data[field])));
+
+export const diffFields = (entity: ImportEntity, incoming: Record<string, unknown>, existing: Record<string, unknown>): string[] =>
+  COMPARE_FIELDS[entity].filter(field =>
+    // 取り込むデータにない項目は比較しない
+    normalize(incoming[field]) !== null && normalize(incoming[field]) !== normalize(existing[field])
+  );
+
+// 取り込めない値（不正な日付など）を取り除き、必須項目が欠けていればエラーメッセージを返す
+export const sanitizeRecord = (entity: ImportEntity, record: ImportRecord): { data: Record<string, any>; error?: string } => {
+  const data = pickWritable(record, IMPORT_FIELDS[entity]);
+  for (const field of IMPORT_FIELDS[entity].dates ?? []) {
+    if (data[field] instanceof Date && Number.isNaN(data[field].getTime())) {
+      data[field] = null;
+    }
+  }
+  if (data.createdAt === null) delete data.createdAt;
+  const missing = REQUIRED_FIELDS[entity].filter(field => normalize(data[field]) === null);
+  return missing.length > 0 ? { data, error: `必須項目がありません: ${missing.join(', ')}` } : { data };
+};
+
+export interface ExistingRecord {
+  id: string;
+  [field: string]: unknown;
+}
+
+export interface PlannedRecord {
+  legacyId: string;
+  data: Record<string, any>;
+  source: ImportRecord;
+}
+
+export interface ImportPlan {
+  create: PlannedRecord[];
+  duplicates: ImportDuplicate[];
+  conflicts: ImportConflict[];
+  errors: ImportError[];
+  // 同じインポート内で重複していたレコード（作成後に対応するIDを割り当てる）
+  aliases: { legacyId: string; sameAs: string }[];
+}
+
+// 既存データ・同じインポート内のデータと照合し、作成するレコードと報告内容を決める
+export const planImport = (
+  entity: ImportEntity,
+  records: ImportRecord[],
+  existing: ExistingRecord[],
+  onConflict: ConflictStrategy = 'skip'
+): ImportPlan => {
+  const plan: ImportPlan = { create: [], duplicates: [], conflicts: [], errors: [], aliases: [] };
+  const existingByKey = new Map<string, ExistingRecord>();
+  for (const record of existing) {
+    existingByKey.set(naturalKey(entity, record), record);
+  }
+  const plannedByKey = new Map<string, PlannedRecord>();
+  const seenLegacyIds = new Set<string>();
+
+  for (const record of records) {
+    const legacyId = String(record?.legacyId ?? '');
+    const { data, error } = sanitizeRecord(entity, record ?? { legacyId });
+    const issue = { entity, legacyId, label: labelOf(entity, data) };
+
+    if (!legacyId || seenLegacyIds.has(legacyId)) {
+      plan.errors.push({ ...issue, message: legacyId ? '同じIDのデータが複数あります' : 'IDがありません' });
+      continue;
+    }
+    seenLegacyIds.add(legacyId);
+    if (error) {
+      plan.errors.push({ ...issue, message: error });
+      continue;
+    }
+
+    const key = naturalKey(entity, data);
+    const match = existingByKey.get(key);
+    if (match) {
+      const fields = diffFields(entity, data, match);
+      if (fields.length === 0) {
+        plan.duplicates.push({ ...issue, existingId: match.id });
+        continue;
+      }
+      const created = onConflict === 'create';
+      plan.conflicts.push({ ...issue, existingId: match.id, fields, created });
+      if (!created) continue;
+    } else {
+      const planned = plannedByKey.get(key);
+      if (planned && diffFields(entity, data, planned.data).length === 0) {
+        plan.aliases.push({ legacyId, sameAs: planned.legacyId });
+        continue;
+      }
+    }
+
+    const planned = { legacyId, data, source: record };
+    plannedByKey.set(key, planned);
+    plan.create.push(planned);
+  }
+  return plan;
+};
+
+// data:[mime];base64,... 形式のファイルデータを取り出す
+export const parseDataUrl = (value: unknown): { buffer: Buffer; mimeType: string } | null => {
+  if (typeof value !== 'string') return null;
+  const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(value);
+  if (!match) return null;
+  const buffer = match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]));
+  return { buffer, mimeType: match[1] || 'application/octet-stream' };
+};
+
+export const emptyImportCounts = (): Record<ImportEntity, number> =>
+  Object.fromEntries(IMPORT_ENTITIES.map(entity => [entity, 0])) as Record<ImportEntity, number>;
+
+export const emptyIdMap = (): Record<ImportEntity, Record<string, string>> =>
+  Object.fromEntries(IMPORT_ENTITIES.map(entity => [entity, {}])) as Record<ImportEntity, Record<string, string>>;
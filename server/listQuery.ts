@@ -0,0 +1,361 @@
+import { Request, Response, NextFunction } from 'express';
+
+// 一覧APIのページング・並び替え・絞り込み
+// 例: ?limit=50&cursor=<前のページのnextCursor>&sort=dueDate&order=asc&status=pending,in-progress&dueDateFrom=2024-04-01
+
+export type SortOrder = 'asc' | 'desc';
+
+export type ListFilter =
+  // 完全一致（カンマ区切りで複数指定、'all' は絞り込みなし）
+  | { type: 'enum'; field?: string }
+  // 部分一致（大文字・小文字を区別しない）
+  | { type: 'text'; field?: string }
+  // 範囲指定（?<名前>From=&<名前>To=、params で別名を指定できる）
+  | { type: 'date'; field?: string; params?: readonly [string, string] }
+  // 範囲指定（?<名前>Min=&<名前>Max=）
+  | { type: 'number'; field?: string }
+  | { type: 'boolean'; field?: string }
+  // 配列項目（タグなど）に含む
+  | { type: 'has'; field?: string };
+
+export interface ListSpec {
+  sortFields: readonly string[];
+  defaultSort: string;
+  defaultOrder?: SortOrder;
+  filters: Record<string, ListFilter>;
+  // キーワード検索（?q=）の対象項目
+  searchFields?: readonly string[];
+}
+
+export interface ListQuery {
+  where: Record<string, any>;
+  // findManyにそのまま渡す（次のページの有無を判定するため limit より1件多く取得する）
+  args: {
+    orderBy: Record<string, SortOrder>[];
+    take: number;
+    cursor?: { id: string };
+    skip?: number;
+  };
+  limit: number;
+  sort: string;
+  order: SortOrder;
+}
+
+export interface PageInfo {
+  limit: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  sort: string;
+  order: SortOrder;
+}
+
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export class ListQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListQueryError';
+  }
+}
+
+type QueryValues = Record<string, unknown>;
+
+const stringParam = (query: QueryValues, key: string): string | undefined => {
+  const value = query[key];
+  return typeof value === 'string' && value !== '' && value !== 'all' ? value : undefined;
+};
+
+const parseDate = (value: string, key: string): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ListQueryError(`${key} の日付の形式が正しくありません`);
+  }
+  return date;
+};
+
+const parseNumber = (value: string, key: string): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new ListQueryError(`${key} には数値を指定してください`);
+  }
+  return number;
+};
+
+// 日付のみ（YYYY-MM-DD）の終了日はその日の終わりまでを含める
+const endOfDay = (value: string, date: Date) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1) : date;
+
+const buildFilter = (query: QueryValues, name: string, filter: ListFilter): unknown => {
+  switch (filter.type) {
+    case 'enum': {
+      const value = stringParam(query, name);
+      if (!value) return undefined;
+      const values = value.split(',').map(item => item.trim()).filter(Boolean);
+      return values.length === 1 ? values[0] : { in: values };
+    }
+    case 'text': {
+      const value = stringParam(query, name);
+      return value ? { contains: value, mode: 'insensitive' } : undefined;
+    }
+    case 'date': {
+      const [fromKey, toKey] = filter.params ?? [`${name}From`, `${name}To`];
+      const from = stringParam(query, fromKey);
+      const to = stringParam(query, toKey);
+      if (!from && !to) return undefined;
+      return {
+        gte: from ? parseDate(from, fromKey) : undefined,
+        lte: to ? endOfDay(to, parseDate(to, toKey)) : undefined
+      };
+    }
+    case 'number': {
+      const min = stringParam(query, `${name}Min`);
+      const max = stringParam(query, `${name}Max`);
+      if (!min && !max) return undefined;
+      return {
+        gte: min ? parseNumber(min, `${name}Min`) : undefined,
+        lte: max ? parseNumber(max, `${name}Max`) : undefined
+      };
+    }
+    case 'boolean': {
+      const value = stringParam(query, name);
+      if (!value) return undefined;
+      if (value !== 'true' && value !== 'false') {
+        throw new ListQueryError(`${name} には true または false を指定してください`);
+      }
+      return value === 'true';
+    }
+    case 'has': {
+      const value = stringParam(query, name);
+      return value ? { has: value } : undefined;
+    }
+  }
+};
+
+export const parseListQuery = (query: QueryValues, spec: ListSpec): ListQuery => {
+  const limitParam = stringParam(query, 'limit');
+  const limit = limitParam ? Math.trunc(parseNumber(limitParam, 'limit')) : DEFAULT_PAGE_SIZE;
+  if (limit < 1) {
+    throw new ListQueryError('limit には1以上の数値を指定してください');
+  }
+
+  const sort = stringParam(query, 'sort') ?? spec.defaultSort;
+  if (!spec.sortFields.includes(sort)) {
+    throw new ListQueryError(`sort に指定できる項目は ${spec.sortFields.join(', ')} です`);
+  }
+  const orderParam = stringParam(query, 'order');
+  if (orderParam && orderParam !== 'asc' && orderParam !== 'desc') {
+    throw new ListQueryError('order には asc または desc を指定してください');
+  }
+  const order: SortOrder = (orderParam as SortOrder | undefined) ?? spec.defaultOrder ?? 'desc';
+
+  const where: Record<string, any> = {};
+  for (const [name, filter] of Object.entries(spec.filters)) {
+    const condition = buildFilter(query, name, filter);
+    if (condition !== undefined) {
+      where[filter.field ?? name] = condition;
+    }
+  }
+
+  const q = stringParam(query, 'q');
+  if (q && spec.searchFields?.length) {
+    where.OR = spec.searchFields.map(field => ({ [field]: { contains: q, mode: 'insensitive' } }));
+  }
+
+  // 同じ値のレコードがあってもページの境界がずれないよう、IDを第2キーにする
+  // カーソルのレコードが削除されている場合は空のページになるため、最初のページから取得し直す
+  const cursor = stringParam(query, 'cursor');
+  const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+  return {
+    where,
+    args: {
+      orderBy: [{ [sort]: order }, { id: order }],
+      take: pageSize + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    },
+    limit: pageSize,
+    sort,
+    order
+  };
+};
+
+export const toPage = <T extends { id: string }>(records: T[], total: number, list: ListQuery): Page<T> => {
+  const hasMore = records.length > list.limit;
+  const items = hasMore ? records.slice(0, list.limit) : records;
+  return {
+    items,
+    pageInfo: {
+      limit: list.limit,
+      total,
+      hasMore,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+      sort: list.sort,
+      order: list.order
+    }
+  };
+};
+
+export const emptyPage = (list: ListQuery): Page<never> => toPage([], 0, list);
+
+// 一覧APIのルートに置き、不正なパラメータは400で返す
+export const listQuery = (spec: ListSpec) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.locals.listQuery = parseListQuery(req.query as QueryValues, spec);
+      next();
+    } catch (error) {
+      if (error instanceof ListQueryError) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  };
+
+export const getListQuery = (res: Response): ListQuery => res.locals.listQuery as ListQuery;
+
+// 一覧APIごとの並び替え・絞り込みの対象項目
+export const TASK_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'title', 'status', 'priority', 'assignee', 'dueDate'],
+  defaultSort: 'createdAt',
+  filters: {
+    status: { type: 'enum' },
+    priority: { type: 'enum' },
+    assignee: { type: 'enum' },
+    projectId: { type: 'enum' },
+    leadId: { type: 'enum' },
+    dueDate: { type: 'date' },
+    createdAt: { type: 'date' }
+  },
+  searchFields: ['title', 'description', 'notes']
+};
+
+export const PROJECT_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'name', 'client', 'status', 'priority', 'startDate', 'endDate', 'budget', 'actualRevenue', 'progress', 'completedDate'],
+  defaultSort: 'createdAt',
+  filters: {
+    status: { type: 'enum' },
+    priority: { type: 'enum' },
+    client: { type: 'text' },
+    isActive: { type: 'boolean' },
+    teamMember: { type: 'has', field: 'teamMembers' },
+    customerId: { type: 'enum' },
+    startDate: { type: 'date' },
+    endDate: { type: 'date' },
+    completedDate: { type: 'date' },
+    budget: { type: 'number' },
+    progress: { type: 'number' }
+  },
+  searchFields: ['name', 'client', 'description']
+};
+
+export const LEAD_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'company', 'contact', 'status', 'value', 'probability', 'lastContact', 'meetingDate'],
+  defaultSort: 'createdAt',
+  filters: {
+    status: { type: 'enum' },
+    customerId: { type: 'enum' },
+    lastContact: { type: 'date' },
+    meetingDate: { type: 'date' },
+    value: { type: 'number' },
+    probability: { type: 'number' }
+  },
+  searchFields: ['company', 'contact', 'contactEmail', 'notes']
+};
+
+export const DOCUMENT_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'title', 'type', 'category', 'status', 'date'],
+  defaultSort: 'createdAt',
+  filters: {
+    type: { type: 'enum' },
+    category: { type: 'enum' },
+    status: { type: 'enum' },
+    tag: { type: 'has', field: 'tags' },
+    customerId: { type: 'enum' },
+    date: { type: 'date' }
+  },
+  searchFields: ['title', 'content']
+};
+
+export const MEETING_MINUTES_LIST: ListSpec = {
+  sortFields: ['date', 'createdAt', 'updatedAt', 'title', 'status', 'meetingType'],
+  defaultSort: 'date',
+  filters: {
+    status: { type: 'enum' },
+    meetingType: { type: 'enum' },
+    attendee: { type: 'has', field: 'attendees' },
+    date: { type: 'date' }
+  },
+  searchFields: ['title', 'notes']
+};
+
+export const SALES_EMAIL_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'subject', 'client', 'emailType', 'status', 'sentDate', 'receivedDate'],
+  defaultSort: 'createdAt',
+  filters: {
+    client: { type: 'text' },
+    emailType: { type: 'enum' },
+    status: { type: 'enum' },
+    tag: { type: 'has', field: 'tags' },
+    customerId: { type: 'enum' },
+    // 送信日の範囲は従来どおり ?from=&to= で指定する
+    sentDate: { type: 'date', params: ['from', 'to'] },
+    receivedDate: { type: 'date' }
+  },
+  searchFields: ['subject', 'client', 'content']
+};
+
+export const SERVICE_MATERIAL_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'title', 'category', 'serviceCategory', 'fileType', 'price', 'downloadCount'],
+  defaultSort: 'createdAt',
+  filters: {
+    category: { type: 'enum' },
+    serviceCategory: { type: 'enum' },
+    fileType: { type: 'enum' },
+    isPublic: { type: 'boolean' },
+    tag: { type: 'has', field: 'tags' },
+    price: { type: 'number' }
+  },
+  searchFields: ['title', 'description']
+};
+
+export const CUSTOMER_LIST: ListSpec = {
+  sortFields: ['createdAt', 'updatedAt', 'name', 'company', 'status', 'industry', 'contractDate', 'contractAmount'],
+  defaultSort: 'createdAt',
+  filters: {
+    status: { type: 'enum' },
+    industry: { type: 'enum' },
+    contractDate: { type: 'date' },
+    contractAmount: { type: 'number' }
+  },
+  searchFields: ['name', 'company', 'industry']
+};
+
+export const AUTH_EVENT_LIST: ListSpec = {
+  sortFields: ['createdAt'],
+  defaultSort: 'createdAt',
+  filters: {
+    type: { type: 'enum' },
+    userId: { type: 'enum' },
+    createdAt: { type: 'date', params: ['from', 'to'] }
+  },
+  searchFields: ['email', 'ipAddress']
+};
+
+export const ACTIVITY_LIST: ListSpec = {
+  sortFields: ['createdAt'],
+  defaultSort: 'createdAt',
+  filters: {
+    entityType: { type: 'enum' },
+    entityId: { type: 'enum' },
+    action: { type: 'enum' },
+    userId: { type: 'enum' },
+    createdAt: { type: 'date', params: ['from', 'to'] }
+  },
+  searchFields: ['entityLabel', 'actorName']
+};
@@ -0,0 +1,152 @@
+// ログインの総当たり対策
+// 接続元IPごとの回数制限（メモリ上で数える）と、アカウントごとの失敗回数に応じた待ち時間・一時ロック（DBに保存する）
+
+// 認証の監査ログに記録する操作
+export const AUTH_EVENT_TYPES = [
+  'login_succeeded',
+  'login_failed',
+  'login_throttled',
+  'login_locked',
+  'rate_limited',
+  'registered',
+  'password_changed',
+  'password_reset_requested',
+  'password_reset',
+  'email_verified',
+  'logged_out',
+  'logged_out_everywhere',
+  'refresh_token_reused'
+] as const;
+export type AuthEventType = typeof AUTH_EVENT_TYPES[number];
+
+// 一定時間内の回数を数える（キーは接続元IPなど）
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // 上限を超えた場合は、次に受け付けられるまでの時間を返す
+  hit(key: string, now: number = Date.now()): { allowed: boolean; retryAfterMs: number } {
+    const recent = (this.hits.get(key) ?? []).filter(time => time > now - this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[0] + this.windowMs - now };
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  // 期間を過ぎたキーを削除する（定期的に呼ぶ）
+  prune(now: number = Date.now()) {
+    this.hits.forEach((times, key) => {
+      if (times.every(time => time <= now - this.windowMs)) this.hits.delete(key);
+    });
+  }
+}
+
+const positiveIntOf = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// 接続元IPごとの回数制限
+// 環境変数 LOGIN_RATE_LIMIT（ログイン、15分あたり既定20回）・AUTH_RATE_LIMIT（登録・パスワード再設定など、1時間あたり既定10回）
+export const createRateLimiters = (env: Record<string, string | undefined> = process.env) => ({
+  login: new RateLimiter(positiveIntOf(env.LOGIN_RATE_LIMIT, 20), 15 * 60 * 1000),
+  account: new RateLimiter(positiveIntOf(env.AUTH_RATE_LIMIT, 10), 60 * 60 * 1000)
+});
+
+export interface LoginPolicy {
+  // この回数続けて失敗すると、以降は失敗のたびに待ち時間を倍にする
+  delayAfter: number;
+  maxDelayMs: number;
+  // この回数続けて失敗すると一時的にロックする
+  maxFailures: number;
+  lockoutMs: number;
+}
+
+// 環境変数 LOGIN_MAX_FAILURES（既定10回）・LOGIN_LOCKOUT_MINUTES（既定15分）
+export const loginPolicyOf = (env: Record<string, string | undefined> = process.env): LoginPolicy => ({
+  delayAfter: 3,
+  maxDelayMs: 30 * 1000,
+  maxFailures: positiveIntOf(env.LOGIN_MAX_FAILURES, 10),
+  lockoutMs: positiveIntOf(env.LOGIN_LOCKOUT_MINUTES, 15) * 60 * 1000
+});
+
+export interface LoginAttemptState {
+  failedLoginCount: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+}
+
+export const loginDelayMs = (failures: number, policy: LoginPolicy): number =>
+  failures < policy.delayAfter ? 0 : Math.min(1000 * 2 ** (failures - policy.delayAfter), policy.maxDelayMs);
+
+export const CLEARED_LOGIN_STATE: LoginAttemptState = { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null };
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'locked' | 'throttled'; retryAfterMs: number };
+
+export const checkLoginAttempt = (account: LoginAttemptState, policy: LoginPolicy, now: Date = new Date()): LoginCheck => {
+  if (account.lockedUntil && account.lockedUntil.getTime() > now.getTime()) {
+    return { allowed: false, reason: 'locked', retryAfterMs: account.lockedUntil.getTime() - now.getTime() };
+  }
+  const delay = loginDelayMs(account.failedLoginCount, policy);
+  if (delay > 0 && account.lastFailedLoginAt) {
+    const retryAfterMs = account.lastFailedLoginAt.getTime() + delay - now.getTime();
+    if (retryAfterMs > 0) return { allowed: false, reason: 'throttled', retryAfterMs };
+  }
+  return { allowed: true };
+};
+
+// 続けて failures 回失敗した後にロックする場合は、ロック後の状態（ロック後は回数を数え直す）。ロックしない場合は null
+export const lockoutAfter = (failures: number, policy: LoginPolicy, now: Date = new Date()): LoginAttemptState | null =>
+  failures >= policy.maxFailures
+    ? { failedLoginCount: 0, lastFailedLoginAt: now, lockedUntil: new Date(now.getTime() + policy.lockoutMs) }
+    : null;
+
+// 失敗を記録した後の状態（上限に達したらロックする）
+export const recordLoginFailure = (account: LoginAttemptState, policy: LoginPolicy, now: Date = new Date()): LoginAttemptState => {
+  const failures = account.failedLoginCount + 1;
+  return lockoutAfter(failures, policy, now) ?? { failedLoginCount: failures, lastFailedLoginAt: now, lockedUntil: null };
+};
+
+// 登録されていないメールアドレスの失敗（メモリ上で数える）
+// 登録済みのアカウントと同じ待ち時間・ロックにして、応答の違いからアカウントの有無を推測されないようにする
+export class LoginFailureTracker {
+  private states = new Map<string, LoginAttemptState>();
+
+  constructor(private policy: LoginPolicy, private retentionMs: number = 24 * 60 * 60 * 1000) {}
+
+  check(key: string, now: Date = new Date()): LoginCheck {
+    return checkLoginAttempt(this.states.get(key) ?? CLEARED_LOGIN_STATE, this.policy, now);
+  }
+
+  fail(key: string, now: Date = new Date()): LoginAttemptState {
+    const state = recordLoginFailure(this.states.get(key) ?? CLEARED_LOGIN_STATE, this.policy, now);
+    this.states.set(key, state);
+    return state;
+  }
+
+  // ロックが解除され、最後の失敗から保持期間を過ぎたキーを削除する（定期的に呼ぶ）
+  prune(now: Date = new Date()) {
+    this.states.forEach((state, key) => {
+      const locked = state.lockedUntil && state.lockedUntil.getTime() > now.getTime();
+      if (!locked && (state.lastFailedLoginAt?.getTime() ?? 0) <= now.getTime() - this.retentionMs) this.states.delete(key);
+    });
+  }
+}
+
+
+export const retryMessageOf = (reason: 'locked' | 'throttled' | 'rate_limited', retryAfterMs: number): string => {
+  if (reason === 'locked') {
+    return `ログインの失敗が続いたため、アカウントを一時的にロックしました。${Math.ceil(retryAfterMs / 60000)}分後に再度お試しください`;
+  }
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  const wait = seconds >= 60 ? `${Math.ceil(seconds / 60)}分` : `${seconds}秒`;
+  return reason === 'throttled'
+    ? `ログインの失敗が続いているため、${wait}後に再度お試しください`
+    : `リクエストが多すぎます。${wait}後に再度お試しください`;
+};
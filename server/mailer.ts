@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+// メール送信の抽象化
+// MAIL_DRIVER=smtp の場合はSMTPサーバー（MailHogなどの開発用サーバーを含む）、
+// file の場合はMAIL_DIRに.emlファイルとして保存し、console の場合はサーバーのログに出力する
+// 未指定の場合は本番環境ではsmtp、それ以外ではconsole
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string; from: string }) {
+    this.from = options.from;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user && options.pass ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export class FileMailer implements Mailer {
+  private dir: string;
+  private from: string;
+  // 送信せずにメールの本文（RFC 822形式）だけを組み立てる
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(dir: string, from: string) {
+    this.dir = path.resolve(dir);
+    this.from = from;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.eml`;
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await fs.promises.writeFile(path.join(this.dir, fileName), info.message as Buffer);
+    console.log('📧 メールを保存しました:', path.join(this.dir, fileName));
+  }
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 メール送信（${message.to}）: ${message.subject}\n${message.text}`);
+  }
+}
+
+export const createMailer = (): Mailer => {
+  const from = process.env.MAIL_FROM || 'TeamHub <no-reply@localhost>';
+  const driver = process.env.MAIL_DRIVER || (process.env.NODE_ENV === 'production' ? 'smtp' : 'console');
+
+  if (driver === 'smtp') {
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required when MAIL_DRIVER=smtp');
+    }
+    const port = Number(process.env.SMTP_PORT) || 587;
+    return new SmtpMailer({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASSWORD,
+      from
+    });
+  }
+  if (driver === 'file') {
+    return new FileMailer(process.env.MAIL_DIR || path.join(__dirname, '..', 'mail'), from);
+  }
+  return new ConsoleMailer();
+};
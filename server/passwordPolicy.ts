@@ -0,0 +1,59 @@
+// パスワードの条件（登録・パスワード変更・再設定で共通）
+// 環境変数で変更でき、未設定の場合は8文字以上・英字と数字を含む
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+// bcryptは72バイトを超える部分を無視するため、それより長いパスワードは受け付けない
+export const MAX_PASSWORD_BYTES = 72;
+
+const flagOf = (value: string | undefined, fallback: boolean) =>
+  value === undefined || value === '' ? fallback : value === 'true';
+
+export const passwordPolicyOf = (env: Record<string, string | undefined> = process.env): PasswordPolicy => {
+  const minLength = Number(env.PASSWORD_MIN_LENGTH);
+  return {
+    minLength: Number.isInteger(minLength) && minLength > 0 ? Math.min(minLength, MAX_PASSWORD_BYTES) : 8,
+    requireLetter: flagOf(env.PASSWORD_REQUIRE_LETTER, true),
+    requireNumber: flagOf(env.PASSWORD_REQUIRE_NUMBER, true),
+    requireSymbol: flagOf(env.PASSWORD_REQUIRE_SYMBOL, false)
+  };
+};
+
+// 画面に表示する条件の説明（例: 8文字以上で、英字・数字を含めてください）
+export const describePasswordPolicy = (policy: PasswordPolicy): string => {
+  const kinds = [
+    policy.requireLetter && '英字',
+    policy.requireNumber && '数字',
+    policy.requireSymbol && '記号'
+  ].filter(Boolean);
+  return kinds.length > 0
+    ? `${policy.minLength}文字以上で、${kinds.join('・')}を含めてください`
+    : `${policy.minLength}文字以上にしてください`;
+};
+
+// 条件を満たさない場合はエラーメッセージを返す
+export const validatePassword = (password: unknown, policy: PasswordPolicy, email?: string): string | null => {
+  if (typeof password !== 'string' || password.length === 0) {
+    return 'パスワードは必須です';
+  }
+  if (Buffer.byteLength(password, 'utf8') > MAX_PASSWORD_BYTES) {
+    return `パスワードが長すぎます（半角${MAX_PASSWORD_BYTES}文字まで）`;
+  }
+  if (
+    password.length < policy.minLength ||
+    (policy.requireLetter && !/[A-Za-z]/.test(password)) ||
+    (policy.requireNumber && !/[0-9]/.test(password)) ||
+    (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password))
+  ) {
+    return `パスワードは${describePasswordPolicy(policy)}`;
+  }
+  if (email && password.toLowerCase() === email.toLowerCase()) {
+    return 'メールアドレスと同じパスワードは使用できません';
+  }
+  return null;
+};
@@ -0,0 +1,65 @@
+// 案件の原価（経費・人件費）
+// 経費は案件の expenses（JSON配列）に保存し、人件費は作業時間とメンバーの時間単価から計算する
+
+export const SERVICE_CATEGORIES = ['advertising', 'lp', 'design', 'video', 'development', 'consulting', 'other'] as const;
+export const EXPENSE_CATEGORIES = ['outsourcing', 'advertising', 'tools', 'other'] as const;
+
+export type ExpenseCategory = typeof EXPENSE_CATEGORIES[number];
+
+export interface ProjectExpense {
+  id: number;
+  category: ExpenseCategory;
+  description: string;
+  amount: number;
+  date: string | null;
+}
+
+export const PROFITABILITY_ERRORS = {
+  serviceCategory: 'サービス区分が正しくありません',
+  expenses: '経費の内容が正しくありません',
+  hourlyRate: '時間単価は0円以上100万円以下で指定してください'
+};
+
+const MAX_EXPENSES = 200;
+const MAX_AMOUNT = 1_000_000_000;
+const MAX_HOURLY_RATE = 1_000_000;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// null・空文字は未設定。一覧にない値は undefined（エラー）
+export const serviceCategoryOf = (value: unknown): string | null | undefined => {
+  if (value === null || value === '') return null;
+  return (SERVICE_CATEGORIES as readonly unknown[]).includes(value) ? value as string : undefined;
+};
+
+const expenseOf = (value: unknown): ProjectExpense | null => {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+  const amount = Number(input.amount);
+  if (!Number.isInteger(input.id) || !(EXPENSE_CATEGORIES as readonly unknown[]).includes(input.category)) return null;
+  if (!Number.isFinite(amount) || amount < 0 || amount > MAX_AMOUNT) return null;
+  return {
+    id: input.id as number,
+    category: input.category as ExpenseCategory,
+    description: String(input.description ?? '').slice(0, MAX_DESCRIPTION_LENGTH),
+    amount: Math.round(amount),
+    date: typeof input.date === 'string' && input.date ? input.date : null
+  };
+};
+
+// 経費の一覧（1件でも正しくない場合は null）
+export const parseExpenses = (value: unknown): ProjectExpense[] | null => {
+  if (!Array.isArray(value) || value.length > MAX_EXPENSES) return null;
+  const expenses = value.map(expenseOf);
+  return expenses.every((expense): expense is ProjectExpense => expense !== null) ? expenses : null;
+};
+
+// null は未設定。正しくない場合は undefined
+export const hourlyRateOf = (value: unknown): number | null | undefined => {
+  if (value === null || value === '') return null;
+  const rate = Number(value);
+  return Number.isInteger(rate) && rate >= 0 && rate <= MAX_HOURLY_RATE ? rate : undefined;
+};
+
+// 作業時間（分）と時間単価（円）から人件費（円）を計算する。単価が未設定のメンバーの作業は0円
+export const laborCostOf = (entries: { minutes: number; hourlyRate: number | null }[]): number =>
+  Math.round(entries.reduce((sum, entry) => sum + (entry.minutes * (entry.hourlyRate ?? 0)) / 60, 0));
@@ -0,0 +1,105 @@
+import { Server as HttpServer } from 'http';
+import { Server } from 'socket.io';
+import { hasPermission } from './authorization';
+
+// リアルタイム同期（Socket.IO）
+// REST APIでの作成・更新・削除を同じチームのメンバーに配信し、画面を再読み込みさせる
+// 参加するルームはサーバー側で決め、クライアントからのデータ送信は受け付けない
+
+export type RealtimeDataType = 'tasks' | 'projects' | 'leads' | 'documents';
+
+export interface RealtimeUser {
+  id: string;
+  role: string;
+  teamId?: string;
+}
+
+// ハンドシェイクの auth.token を検証し、現在の所属チームとロールを返す（無効な場合はnull）
+export type RealtimeAuthenticator = (token: string) => Promise<RealtimeUser | null>;
+
+export interface DataUpdatedEvent {
+  dataType: RealtimeDataType;
+  action: 'created' | 'updated';
+  data: unknown;
+  userId: string;
+}
+
+export interface DataDeletedEvent {
+  dataType: RealtimeDataType;
+  id: string;
+  userId: string;
+}
+
+// 営業データは sales:view 権限を持つメンバーだけが参加するルームに配信する
+const SALES_DATA_TYPES: readonly RealtimeDataType[] = ['leads'];
+
+const teamRoom = (teamId: string) => `team:${teamId}`;
+const salesRoom = (teamId: string) => `team:${teamId}:sales`;
+const userRoom = (userId: string) => `user:${userId}`;
+
+export const roomsFor = (user: RealtimeUser): string[] => {
+  const rooms = [userRoom(user.id)];
+  if (!user.teamId) return rooms;
+  rooms.push(teamRoom(user.teamId));
+  if (hasPermission(user.role, 'sales:view')) rooms.push(salesRoom(user.teamId));
+  return rooms;
+};
+
+export const roomForData = (teamId: string, dataType: RealtimeDataType): string =>
+  SALES_DATA_TYPES.includes(dataType) ? salesRoom(teamId) : teamRoom(teamId);
+
+export const createRealtimeServer = (authenticate: RealtimeAuthenticator, corsOrigin?: string) => {
+  const io = new Server({
+    cors: { origin: corsOrigin, credentials: true }
+  });
+
+  io.use(async (socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+      const user = typeof token === 'string' && token ? await authenticate(token) : null;
+      if (!user) {
+        return next(new Error('unauthorized'));
+      }
+      socket.data.user = user;
+      next();
+    } catch (error) {
+      console.error('Realtime auth error:', error);
+      next(new Error('unauthorized'));
+    }
+  });
+
+  io.on('connection', socket => {
+    socket.join(roomsFor(socket.data.user as RealtimeUser));
+  });
+
+  return {
+    // app.listen で起動したHTTPサーバーに相乗りする（APIと同じポートで待ち受ける）
+    attach: (server: HttpServer) => {
+      io.attach(server);
+    },
+
+    dataUpdated: (teamId: string | undefined, dataType: RealtimeDataType, action: DataUpdatedEvent['action'], data: unknown, userId: string) => {
+      if (!teamId) return;
+      const event: DataUpdatedEvent = { dataType, action, data, userId };
+      io.to(roomForData(teamId, dataType)).emit('data-updated', event);
+    },
+
+    dataDeleted: (teamId: string | undefined, dataType: RealtimeDataType, id: string, userId: string) => {
+      if (!teamId) return;
+      const event: DataDeletedEvent = { dataType, id, userId };
+      io.to(roomForData(teamId, dataType)).emit('data-deleted', event);
+    },
+
+    // ロールの変更やチームからの除外をルームに反映するため、接続を切って再認証させる
+    reconnectUser: (userId: string) => {
+      io.in(userRoom(userId)).disconnectSockets(true);
+    },
+
+    // 接続中のクライアントを切断し、HTTPサーバーも閉じる
+    close: (callback: (error?: Error) => void) => {
+      io.close(callback);
+    }
+  };
+};
+
+export type RealtimeServer = ReturnType<typeof createRealtimeServer>;
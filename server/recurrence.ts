@@ -0,0 +1,240 @@
+// 繰り返しタスクの規則
+// 日付は期限と同じ YYYY-MM-DD で、UTCの日付として計算する
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  // weekly: 曜日（0=日曜〜6=土曜）
+  weekdays?: number[];
+  // monthly: 日付（その月にない日付は月末）。nth を指定した場合は第n曜日（-1は最終）
+  monthDay?: number;
+  nth?: number;
+  weekday?: number;
+  // 最初の回の期限。間隔（2週間ごとなど）と毎年の日付の基準にする
+  start: string;
+  until?: string;
+  count?: number;
+  // RRULE で指定した場合の元の文字列
+  rrule?: string;
+}
+
+export const RECURRENCE_ERRORS = {
+  dueDateRequired: '繰り返しタスクには期限が必要です',
+  invalid: '繰り返しの指定が正しくありません',
+  unsupported: (name: string) => `RRULEの${name}には対応していません`
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_INTERVAL = 99;
+const MAX_COUNT = 999;
+// 次の回はこの日数以内から探す（条件に合う日がない規則で探し続けないため）
+const MAX_SEARCH_DAYS = 366 * 10;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && toDateString(toDate(value)) === value;
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const monthsBetween = (from: Date, to: Date) =>
+  (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+// 週は月曜始まり（RRULE の既定と同じ）
+const weekStartOf = (date: Date) => new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+
+// 期限（DateTime または日付の文字列）を YYYY-MM-DD にする
+export const dateStringOf = (value: Date | string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : toDateString(date);
+};
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// 月の第n曜日（-1は最終）にあたるか
+const isNthWeekday = (date: Date, nth: number, weekday: number) => {
+  if (date.getUTCDay() !== weekday) return false;
+  const day = date.getUTCDate();
+  if (nth === -1) return day + 7 > daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return Math.ceil(day / 7) === nth;
+};
+
+const matches = (rule: RecurrenceRule, date: Date, start: Date): boolean => {
+  if (date < start) return false;
+  switch (rule.freq) {
+    case 'daily':
+      return Math.round((date.getTime() - start.getTime()) / DAY_MS) % rule.interval === 0;
+    case 'weekly': {
+      const weeks = Math.round((weekStartOf(date).getTime() - weekStartOf(start).getTime()) / (7 * DAY_MS));
+      return weeks % rule.interval === 0 && (rule.weekdays ?? [start.getUTCDay()]).includes(date.getUTCDay());
+    }
+    case 'monthly': {
+      if (monthsBetween(start, date) % rule.interval !== 0) return false;
+      if (rule.nth !== undefined && rule.weekday !== undefined) return isNthWeekday(date, rule.nth, rule.weekday);
+      const monthDay = rule.monthDay ?? start.getUTCDate();
+      return date.getUTCDate() === Math.min(monthDay, daysInMonth(date.getUTCFullYear(), date.getUTCMonth()));
+    }
+    case 'yearly': {
+      const years = date.getUTCFullYear() - start.getUTCFullYear();
+      if (years % rule.interval !== 0 || date.getUTCMonth() !== start.getUTCMonth()) return false;
+      return date.getUTCDate() === Math.min(start.getUTCDate(), daysInMonth(date.getUTCFullYear(), date.getUTCMonth()));
+    }
+    default:
+      return false;
+  }
+};
+
+// after より後（notBefore を指定した場合はその日以降）の次の回の期限。終了している場合は null
+// generated は作成済みの回数（count の判定に使う）
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  after: string,
+  { notBefore, generated = 0 }: { notBefore?: string; generated?: number } = {}
+): string | null => {
+  if (rule.count !== undefined && generated >= rule.count) return null;
+  const start = toDate(rule.start);
+  let date = new Date(toDate(after).getTime() + DAY_MS);
+  if (notBefore && toDate(notBefore) > date) date = toDate(notBefore);
+  const until = rule.until ? toDate(rule.until) : null;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, date = new Date(date.getTime() + DAY_MS)) {
+    if (until && date > until) return null;
+    if (matches(rule, date, start)) return toDateString(date);
+  }
+  return null;
+};
+
+type ParseResult = { rule: RecurrenceRule } | { error: string };
+
+const validateRule = (rule: RecurrenceRule): ParseResult => {
+  const isValid =
+    isInteger(rule.interval, 1, MAX_INTERVAL) &&
+    (rule.count === undefined || isInteger(rule.count, 1, MAX_COUNT)) &&
+    (rule.until === undefined || (isDateString(rule.until) && rule.until >= rule.start)) &&
+    (rule.weekdays === undefined || (rule.weekdays.length > 0 && rule.weekdays.every(day => isInteger(day, 0, 6)))) &&
+    (rule.monthDay === undefined || isInteger(rule.monthDay, 1, 31)) &&
+    (rule.nth === undefined || ((isInteger(rule.nth, 1, 5) || rule.nth === -1) && isInteger(rule.weekday, 0, 6)));
+  return isValid ? { rule } : { error: RECURRENCE_ERRORS.invalid };
+};
+
+const parseRRuleWeekday = (value: string) => {
+  const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+  if (!match) return null;
+  return { nth: match[1] === undefined ? undefined : Number(match[1]), weekday: RRULE_WEEKDAYS.indexOf(match[2]) };
+};
+
+const parseRRuleDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+// RRULE（RFC 5545）のうち、画面で指定できる繰り返しと同じ範囲に対応する
+export const parseRRule = (text: string, start: string): ParseResult => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const part of body.split(';').filter(Boolean)) {
+    const [name, value] = part.split('=');
+    if (!name || value === undefined) return { error: RECURRENCE_ERRORS.invalid };
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = { DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly' }[parts.get('FREQ') ?? ''] as
+    RecurrenceFrequency | undefined;
+  if (!freq) return { error: RECURRENCE_ERRORS.invalid };
+  const rule: RecurrenceRule = { freq, interval: 1, start, rrule: `RRULE:${body}` };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        break;
+      case 'COUNT':
+        rule.count = Number(value);
+        break;
+      case 'UNTIL': {
+        const until = parseRRuleDate(value);
+        if (!until) return { error: RECURRENCE_ERRORS.invalid };
+        rule.until = until;
+        break;
+      }
+      case 'BYDAY': {
+        const days = value.split(',').map(parseRRuleWeekday);
+        if (days.some(day => day === null)) return { error: RECURRENCE_ERRORS.invalid };
+        if (freq === 'weekly' && days.every(day => day!.nth === undefined)) {
+          rule.weekdays = days.map(day => day!.weekday);
+        } else if (freq === 'monthly' && days.length === 1 && days[0]!.nth !== undefined) {
+          rule.nth = days[0]!.nth;
+          rule.weekday = days[0]!.weekday;
+        } else {
+          return { error: RECURRENCE_ERRORS.unsupported('BYDAY') };
+        }
+        break;
+      }
+      case 'BYMONTHDAY':
+        if (freq !== 'monthly' || value.includes(',')) return { error: RECURRENCE_ERRORS.unsupported('BYMONTHDAY') };
+        rule.monthDay = Number(value);
+        break;
+      case 'WKST':
+        if (value !== 'MO') return { error: RECURRENCE_ERRORS.unsupported('WKST') };
+        break;
+      default:
+        return { error: RECURRENCE_ERRORS.unsupported(name) };
+    }
+  }
+  return validateRule(rule);
+};
+
+// 画面・APIからの指定（{ rrule } の場合はRRULEとして読む）。解除は null
+// start は最初の回の期限
+export const recurrenceRuleOf = (value: unknown, start: string | null): { rule: RecurrenceRule | null } | { error: string } => {
+  if (value === null || value === '') return { rule: null };
+  if (typeof value !== 'object' || Array.isArray(value)) return { error: RECURRENCE_ERRORS.invalid };
+  if (!start || !isDateString(start)) return { error: RECURRENCE_ERRORS.dueDateRequired };
+  const input = value as Record<string, unknown>;
+  if (typeof input.rrule === 'string') return parseRRule(input.rrule, start);
+
+  if (!['daily', 'weekly', 'monthly', 'yearly'].includes(input.freq as string)) return { error: RECURRENCE_ERRORS.invalid };
+  const rule: RecurrenceRule = {
+    freq: input.freq as RecurrenceFrequency,
+    interval: input.interval === undefined ? 1 : (input.interval as number),
+    start
+  };
+  if (rule.freq === 'weekly') {
+    rule.weekdays = Array.isArray(input.weekdays) ? Array.from(new Set(input.weekdays as number[])).sort() : [toDate(start).getUTCDay()];
+  }
+  if (rule.freq === 'monthly') {
+    if (input.nth !== undefined) {
+      rule.nth = input.nth as number;
+      rule.weekday = input.weekday as number;
+    } else {
+      rule.monthDay = input.monthDay === undefined ? toDate(start).getUTCDate() : (input.monthDay as number);
+    }
+  }
+  if (input.until !== undefined && input.until !== null && input.until !== '') rule.until = input.until as string;
+  if (input.count !== undefined && input.count !== null && input.count !== '') rule.count = input.count as number;
+  return validateRule(rule);
+};
+
+// 保存した規則（JSON）を読む。壊れている場合は繰り返さない
+export const storedRuleOf = (value: unknown): RecurrenceRule | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const rule = value as RecurrenceRule;
+  return isDateString(rule.start) && 'rule' in validateRule(rule) ? rule : null;
+};
+
+// 規則を変更するときの基準日（最初の回の期限）
+// 2回目以降の回から変更する場合は、count をシリーズ全体の作成済みの回数で判定するため、基準日もシリーズの最初の回のまま変えない
+export const recurrenceStartOf = (
+  task: { seriesId?: string | null; recurrence?: unknown } | undefined,
+  dueDate: string | null
+): string | null => {
+  const stored = task?.seriesId ? storedRuleOf(task.recurrence) : null;
+  return stored?.start ?? dueDate;
+};
@@ -0,0 +1,144 @@
+// 全文検索（タスク・案件・商談・議事録・営業メール・サービス資料）
+// 日本語は単語の区切りがないため、文字のn-gram（1文字と2文字）で索引を作る
+// 検索語の2文字組（1文字の検索語はその文字）をすべて含むレコードを候補にし、タイトルでの一致や語句の完全一致を高く評価する
+
+export const SEARCH_TYPES = ['tasks', 'projects', 'leads', 'meetingMinutes', 'salesEmails', 'serviceMaterials'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+// 営業データ（sales:view が必要）
+export const SALES_SEARCH_TYPES: readonly SearchType[] = ['leads', 'salesEmails'];
+
+export interface SearchDocument {
+  title: string;
+  content: string;
+}
+
+export interface SearchCandidate extends SearchDocument {
+  entityType: string;
+  entityId: string;
+  updatedAt: Date;
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  snippet: string;
+  score: number;
+  updatedAt: Date;
+}
+
+export const MAX_INDEXED_LENGTH = 5000;
+const SNIPPET_LENGTH = 80;
+
+// 全角英数字・半角カナを揃え、大文字・小文字を区別しない
+export const normalizeText = (text: string) => text.normalize('NFKC').toLowerCase();
+
+// 記号・空白で区切った文字のまとまり
+const runsOf = (text: string) => normalizeText(text).match(/[\p{L}\p{N}ー]+/gu) ?? [];
+
+const bigramsOf = (run: string) => {
+  const chars = Array.from(run);
+  if (chars.length === 1) return chars;
+  return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+};
+
+// 索引に保存する語（1文字と2文字の組）
+export const indexTokens = (text: string): string[] => {
+  const tokens = new Set<string>();
+  for (const run of runsOf(text.slice(0, MAX_INDEXED_LENGTH))) {
+    for (const char of Array.from(run)) tokens.add(char);
+    for (const bigram of bigramsOf(run)) tokens.add(bigram);
+  }
+  return Array.from(tokens);
+};
+
+// 検索語を索引と照合する語（1文字のまとまりはその文字、それ以外は2文字の組）
+export const queryTokens = (query: string): string[] =>
+  Array.from(new Set(runsOf(query).flatMap(bigramsOf)));
+
+const joinText = (...values: unknown[]): string =>
+  values
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter(value => typeof value === 'string' && value.trim() !== '')
+    .join('\n');
+
+const namesOf = (items: unknown, key: string): unknown[] =>
+  Array.isArray(items) ? items.map(item => (item && typeof item === 'object' ? (item as Record<string, unknown>)[key] : item)) : [];
+
+// レコードから索引に載せるタイトルと本文を取り出す
+export const toSearchDocument = (type: SearchType, record: Record<string, any>): SearchDocument => {
+  switch (type) {
+    case 'tasks':
+      return { title: record.title, content: joinText(record.description, record.assignee, record.notes) };
+    case 'projects':
+      return {
+        title: record.name,
+        content: joinText(record.client, record.description, record.teamMembers, namesOf(record.deliverables, 'name'), record.notes)
+      };
+    case 'leads':
+      return {
+        title: record.company,
+        content: joinText(record.contact, record.contactEmail, record.nextAction, namesOf(record.services, 'name'), record.notes)
+      };
+    case 'meetingMinutes':
+      return {
+        title: record.title,
+        content: joinText(record.attendees, record.agenda, record.decisions, namesOf(record.actionItems, 'task'), record.notes)
+      };
+    case 'salesEmails':
+      return { title: record.subject, content: joinText(record.client, record.contactPerson, record.content, record.tags, record.notes) };
+    case 'serviceMaterials':
+      return { title: record.title, content: joinText(record.description, record.fileName, record.tags, record.notes) };
+  }
+};
+
+// 検索語を含む箇所の前後を抜き出す（見つからない場合は本文の先頭）
+export const snippetOf = (content: string, query: string): string => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const normalized = normalizeText(text);
+  const positions = runsOf(query)
+    .map(term => normalized.indexOf(term))
+    .filter(position => position >= 0);
+  const start = positions.length > 0 ? Math.max(0, Math.min(...positions) - SNIPPET_LENGTH / 4) : 0;
+  const snippet = text.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < text.length ? '…' : ''}`;
+};
+
+// 検索語の2文字組をすべて含む場合にだけ点数を付ける（含まない場合はnull）
+export const scoreDocument = (document: SearchDocument, query: string): number | null => {
+  const tokens = queryTokens(query);
+  if (tokens.length === 0) return null;
+
+  const titleTokens = new Set(indexTokens(document.title));
+  const allTokens = new Set([...Array.from(titleTokens), ...indexTokens(document.content)]);
+  if (!tokens.every(token => allTokens.has(token))) return null;
+
+  const title = normalizeText(document.title);
+  const content = normalizeText(document.content);
+  const terms = runsOf(query);
+  let score = 1 + 2 * (tokens.filter(token => titleTokens.has(token)).length / tokens.length);
+  for (const term of terms) {
+    if (title.includes(term)) score += 3;
+    else if (content.includes(term)) score += 1;
+  }
+  if (title === terms.join(' ')) score += 5;
+  return score;
+};
+
+// 点数の高い順、同点は更新日時の新しい順
+export const rankResults = (candidates: SearchCandidate[], query: string): SearchResult[] =>
+  candidates
+    .flatMap(candidate => {
+      const score = scoreDocument(candidate, query);
+      if (score === null || !(SEARCH_TYPES as readonly string[]).includes(candidate.entityType)) return [];
+      return [{
+        type: candidate.entityType as SearchType,
+        id: candidate.entityId,
+        title: candidate.title,
+        snippet: snippetOf(candidate.content, query),
+        score: Math.round(score * 100) / 100,
+        updatedAt: candidate.updatedAt
+      }];
+    })
+    .sort((a, b) => b.score - a.score || b.updatedAt.getTime() - a.updatedAt.getTime());
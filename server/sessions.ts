@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+
+// ログインセッション
+// アクセストークン（JWT）は短時間で失効させ、リフレッシュトークンで更新する
+// リフレッシュトークンはサーバーにハッシュだけを保存し、更新のたびに新しいトークンに差し替える
+
+export const ACCESS_TOKEN_TTL = '15m';
+export const SESSION_DAYS = 30;
+// 差し替える前のトークンを受け付ける時間（同じブラウザの複数のタブが同時に更新した場合や、応答を受け取れずに再送した場合）
+export const REFRESH_GRACE_MS = 60 * 1000;
+
+export interface SessionLike {
+  refreshTokenHash: string;
+  previousTokenHash?: string | null;
+  rotatedAt?: Date | null;
+  expiresAt: Date;
+  revokedAt: Date | null;
+}
+
+export type SessionState = 'valid' | 'expired' | 'revoked' | 'reused';
+
+export const SESSION_ERRORS: Record<Exclude<SessionState, 'valid'>, string> = {
+  expired: 'ログインの有効期限が切れました。再度ログインしてください',
+  revoked: 'このログインは無効になっています。再度ログインしてください',
+  reused: '不正なトークンが使用されたため、この端末のログインを無効にしました'
+};
+
+export const hashToken = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+// トークンは「セッションID.ランダムな値」とし、保存したハッシュと照合する
+export const createRefreshToken = (sessionId: string): { token: string; hash: string } => {
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return { token: `${sessionId}.${secret}`, hash: hashToken(secret) };
+};
+
+export const parseRefreshToken = (token: unknown): { sessionId: string; secret: string } | null => {
+  if (typeof token !== 'string') return null;
+  const [sessionId, secret, ...rest] = token.split('.');
+  if (!sessionId || !secret || rest.length > 0) return null;
+  return { sessionId, secret };
+};
+
+export const sessionExpiry = (now: Date = new Date()): Date =>
+  new Date(now.getTime() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+// 保存したハッシュと一致しない場合は、差し替え済みの古いトークンが使われた（漏洩の可能性がある）とみなす
+// 差し替える前のトークンは、差し替えてから REFRESH_GRACE_MS の間のみ受け付ける
+export const checkSession = (session: SessionLike, secret?: string, now: Date = new Date()): SessionState => {
+  if (session.revokedAt) return 'revoked';
+  if (session.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (secret === undefined) return 'valid';
+  const hash = hashToken(secret);
+  if (hash === session.refreshTokenHash) return 'valid';
+  const inGrace = !!session.rotatedAt && now.getTime() - session.rotatedAt.getTime() <= REFRESH_GRACE_MS;
+  return inGrace && hash === session.previousTokenHash ? 'valid' : 'reused';
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+// セッション一覧に表示する端末名（例: Chrome（macOS））
+export const deviceLabelOf = (userAgent: string | null | undefined): string => {
+  if (!userAgent) return '不明な端末';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !platform) return '不明な端末';
+  return platform ? `${browser ?? 'ブラウザ'}（${platform}）` : browser!;
+};
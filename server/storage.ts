@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+
+// ファイル保存先の抽象化
+// STORAGE_DRIVER=s3 の場合はS3互換ストレージ、それ以外はローカルディスクに保存する
+export interface StorageDriver {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
+
+export class LocalDiskStorage implements StorageDriver {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  // キーが保存ディレクトリの外を指さないように解決する
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      throw new StorageObjectNotFoundError(key);
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export class S3Storage implements StorageDriver {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: { bucket: string; region?: string; endpoint?: string; accessKeyId?: string; secretAccessKey?: string }) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region || 'auto',
+      endpoint: options.endpoint,
+      // MinIOなどのS3互換ストレージはパス形式のURLを使う
+      forcePathStyle: !!options.endpoint,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: mimeType
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return result.Body as Readable;
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey') {
+        throw new StorageObjectNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+export const createStorage = (): StorageDriver => {
+  if (process.env.STORAGE_DRIVER === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+    }
+    return new S3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+    });
+  }
+  return new LocalDiskStorage(process.env.STORAGE_DIR || path.join(__dirname, '..', 'uploads'));
+};
+
+// 元のファイル名はキーに含めず、ランダムなキーで保存する
+export const createStorageKey = (prefix: string): string => `${prefix}/${crypto.randomUUID()}`;
+
+export const checksumOf = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
@@ -0,0 +1,108 @@
+// タスクのかんばんの列と並び順
+// 標準の列はステータスごとに1列。チームの管理者はステータスに対応づけた列を追加でき、列ごとに置けるタスクの件数の上限（WIP制限）を設定できる
+
+export const TASK_STATUSES = ['pending', 'in-progress', 'on-hold', 'completed'];
+
+// warn: 確認したうえで上限を超えて移動できる、block: 上限に達している間は移動できない
+export type WipMode = 'warn' | 'block';
+
+export interface TaskBoardColumn {
+  key: string;
+  label: string;
+  color: string;
+  // 列のタスクのステータス（標準の列は key と同じ）
+  status: string;
+  custom?: boolean;
+  wipLimit?: number;
+  wipMode?: WipMode;
+}
+
+export interface TaskBoard {
+  columns: TaskBoardColumn[];
+}
+
+export const DEFAULT_TASK_COLUMNS: TaskBoardColumn[] = [
+  { key: 'pending', label: '未着手', color: '#9E9E9E', status: 'pending' },
+  { key: 'in-progress', label: '進行中', color: '#FFC107', status: 'in-progress' },
+  { key: 'on-hold', label: '保留', color: '#FF9800', status: 'on-hold' },
+  { key: 'completed', label: '完了', color: '#4CAF50', status: 'completed' }
+];
+
+const MAX_CUSTOM_COLUMNS = 8;
+const MAX_LABEL_LENGTH = 30;
+const MAX_WIP_LIMIT = 999;
+const CUSTOM_COLUMN_COLOR = '#607D8B';
+const CUSTOM_KEY_PATTERN = /^custom-[a-z0-9]{1,24}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+// 並び順は 0-9a-z の文字列で、文字列として比較する（間に入れる値は画面で作る）
+const RANK_PATTERN = /^[0-9a-z]{1,128}$/;
+
+export const TASK_BOARD_ERRORS = {
+  invalid: 'かんばんの列の指定が正しくありません',
+  tooManyColumns: `追加できる列は${MAX_CUSTOM_COLUMNS}列までです`,
+  column: '指定した列が見つかりません',
+  rank: '並び順の指定が正しくありません',
+  wipLimit: (label: string, limit: number) => `「${label}」は上限の${limit}件に達しているため、これ以上移動できません`
+};
+
+export const isRank = (value: unknown): value is string => typeof value === 'string' && RANK_PATTERN.test(value);
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// 上限の指定（未指定・0は制限なし）。正しくない場合は null
+const wipSettingsOf = (column: Record<string, unknown>): Pick<TaskBoardColumn, 'wipLimit' | 'wipMode'> | null => {
+  const { wipLimit, wipMode = 'warn' } = column;
+  if (wipLimit === undefined || wipLimit === null || wipLimit === 0) return {};
+  if (!isInteger(wipLimit, 1, MAX_WIP_LIMIT) || (wipMode !== 'warn' && wipMode !== 'block')) return null;
+  return { wipLimit, wipMode };
+};
+
+// 標準の列は上限だけを変更できる
+const columnOf = (value: unknown): TaskBoardColumn | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const column = value as Record<string, unknown>;
+  const wip = wipSettingsOf(column);
+  if (!wip) return null;
+  const standard = DEFAULT_TASK_COLUMNS.find(({ key }) => key === column.key);
+  if (standard) return { ...standard, ...wip };
+
+  const label = typeof column.label === 'string' ? column.label.trim() : '';
+  if (
+    typeof column.key !== 'string' || !CUSTOM_KEY_PATTERN.test(column.key) ||
+    !label || label.length > MAX_LABEL_LENGTH || !TASK_STATUSES.includes(column.status as string)
+  ) {
+    return null;
+  }
+  const color = typeof column.color === 'string' && COLOR_PATTERN.test(column.color) ? column.color : CUSTOM_COLUMN_COLOR;
+  return { key: column.key, label, color, status: column.status as string, custom: true, ...wip };
+};
+
+// 画面からの列の指定（表示順）。標準の列が抜けている場合は末尾に戻す
+export const parseTaskBoard = (value: unknown): { board: TaskBoard } | { error: string } => {
+  const input = value && typeof value === 'object' ? (value as { columns?: unknown }).columns : undefined;
+  if (!Array.isArray(input)) return { error: TASK_BOARD_ERRORS.invalid };
+  const columns = input.map(columnOf);
+  if (columns.some(column => !column)) return { error: TASK_BOARD_ERRORS.invalid };
+  const valid = columns as TaskBoardColumn[];
+  if (new Set(valid.map(column => column.key)).size !== valid.length) return { error: TASK_BOARD_ERRORS.invalid };
+  if (valid.filter(column => column.custom).length > MAX_CUSTOM_COLUMNS) return { error: TASK_BOARD_ERRORS.tooManyColumns };
+  const missing = DEFAULT_TASK_COLUMNS.filter(standard => !valid.some(column => column.key === standard.key));
+  return { board: { columns: [...valid, ...missing] } };
+};
+
+// 保存した設定（JSON）を読む。未設定・壊れている場合は標準の列
+export const taskBoardOf = (stored: unknown): TaskBoard => {
+  const parsed = stored ? parseTaskBoard(stored) : null;
+  return parsed && 'board' in parsed ? parsed.board : { columns: DEFAULT_TASK_COLUMNS };
+};
+
+// タスクの列（追加した列が削除された・ステータスが列と合わない場合はステータスの列）
+export const columnKeyOf = (task: { status: string; boardColumn?: string | null }, board: TaskBoard): string => {
+  const column = task.boardColumn ? board.columns.find(({ key }) => key === task.boardColumn) : undefined;
+  return column && column.status === task.status ? column.key : task.status;
+};
+
+// 上限に達しているため移動できない列か（count は移動先の列にある他のタスクの件数）
+export const isWipBlocked = (column: TaskBoardColumn, count: number): boolean =>
+  column.wipMode === 'block' && column.wipLimit !== undefined && count >= column.wipLimit;
@@ -0,0 +1,54 @@
+// サブタスクとタスクの依存関係
+// サブタスクは1階層のみ。依存タスク（blockedByIds）が完了するまでは進行中・完了にできない（上書きを指定した場合を除く）
+
+export const BLOCKED_STATUSES = ['in-progress', 'completed'];
+
+export const TASK_DEPENDENCY_ERRORS = {
+  nestedSubtask: 'サブタスクの下にはサブタスクを追加できません',
+  hasSubtasks: 'サブタスクがあるタスクは他のタスクのサブタスクにできません',
+  cycle: '依存関係が循環するため、このタスクは依存先に指定できません',
+  blocked: '未完了の依存タスクがあるため、このステータスには変更できません'
+};
+
+export interface DependencyNode {
+  id: string;
+  title: string;
+  status: string;
+  blockedByIds: string[];
+}
+
+// 依存タスクの指定（未指定はundefined。重複と自分自身は除く）
+export const blockerIdsOf = (value: unknown, taskId?: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return [];
+  const ids = value.filter((id): id is string => typeof id === 'string' && id !== '' && id !== taskId);
+  return Array.from(new Set(ids));
+};
+
+// 依存タスクをたどって taskId に戻る場合は循環する
+export const createsDependencyCycle = (
+  taskId: string,
+  blockerIds: string[],
+  blockedByOf: Map<string, string[]>
+): boolean => {
+  const visited = new Set<string>();
+  const stack = [...blockerIds];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(blockedByOf.get(id) ?? []));
+  }
+  return false;
+};
+
+// 依存タスクの確認が必要なステータスの変更（作成時は from を省略する）
+export const isBlockingTransition = (from: string | undefined, to: string): boolean =>
+  from !== to && BLOCKED_STATUSES.includes(to);
+
+// 未完了の依存タスク（見つからないタスクはゴミ箱に移動したものとして数えない）
+export const openBlockersOf = <T extends DependencyNode>(blockerIds: string[], tasksById: Map<string, T>): T[] =>
+  blockerIds
+    .map(id => tasksById.get(id))
+    .filter((task): task is T => !!task && task.status !== 'completed');
@@ -0,0 +1,19 @@
+// タスクの関連付け（案件・案件の納品物・商談）
+
+// 納品物は案件の deliverables（JSON配列）の要素で、数値の id を持つ
+// 案件の納品物にないIDは関連付けない
+export const deliverableIdOf = (value: unknown, deliverables: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const id = Number(value);
+  if (!Number.isInteger(id) || !Array.isArray(deliverables)) return null;
+  const exists = deliverables.some(
+    deliverable => typeof deliverable === 'object' && deliverable !== null && (deliverable as { id?: unknown }).id === id
+  );
+  return exists ? id : null;
+};
+
+// 関連先のIDの指定（未指定はundefined、解除はnull）
+export const linkIdOf = (value: unknown): string | null | undefined => {
+  if (value === undefined) return undefined;
+  return value ? String(value) : null;
+};
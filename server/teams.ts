@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+
+// チーム招待
+// 招待リンクは期限付きのトークンで発行し、利用するとチームオーナーの承認待ちの参加申請になる
+
+export const DEFAULT_INVITATION_DAYS = 7;
+export const MAX_INVITATION_DAYS = 30;
+
+export interface InvitationLike {
+  email: string | null;
+  expiresAt: Date;
+  maxUses: number | null;
+  useCount: number;
+  revokedAt: Date | null;
+}
+
+export type InvitationState = 'valid' | 'expired' | 'revoked' | 'exhausted' | 'email_mismatch';
+
+export const INVITATION_ERRORS: Record<Exclude<InvitationState, 'valid'>, string> = {
+  expired: '招待リンクの有効期限が切れています',
+  revoked: 'この招待リンクは無効化されています',
+  exhausted: 'この招待リンクは利用上限に達しています',
+  email_mismatch: 'この招待リンクは別のメールアドレス宛てです'
+};
+
+// URLに含めて共有するため、推測されにくいURLセーフなトークンを使う
+export const createInvitationToken = (): string => crypto.randomBytes(24).toString('base64url');
+
+// 有効日数は1日〜MAX_INVITATION_DAYSの範囲に丸める
+export const invitationExpiry = (days: unknown, now: Date = new Date()): Date => {
+  const parsed = Math.floor(Number(days));
+  const validDays = Number.isFinite(parsed) && parsed > 0 ? Math.min(parsed, MAX_INVITATION_DAYS) : DEFAULT_INVITATION_DAYS;
+  return new Date(now.getTime() + validDays * 24 * 60 * 60 * 1000);
+};
+
+export const checkInvitation = (invitation: InvitationLike, email?: string, now: Date = new Date()): InvitationState => {
+  if (invitation.revokedAt) return 'revoked';
+  if (invitation.expiresAt.getTime() <= now.getTime()) return 'expired';
+  if (invitation.maxUses !== null && invitation.useCount >= invitation.maxUses) return 'exhausted';
+  if (invitation.email && email !== undefined && invitation.email.toLowerCase() !== email.toLowerCase()) return 'email_mismatch';
+  return 'valid';
+};
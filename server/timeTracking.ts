@@ -0,0 +1,59 @@
+// タスクの作業時間（タイマーと手入力）
+// 作業日は画面の日付（YYYY-MM-DD）で受け取り、タイマーは開始した日の作業として記録する
+
+export const TIME_ENTRY_ERRORS = {
+  date: '作業日の指定が正しくありません',
+  minutes: '作業時間は1分以上24時間以内で指定してください',
+  range: '期間の指定が正しくありません',
+  notRunning: '計測中のタイマーはありません',
+  notOwner: '他のメンバーの作業時間は変更できません'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_MINUTES = 24 * 60;
+// 一度に取得できる期間（タイムシートの書き出しは月単位までを想定）
+const MAX_RANGE_DAYS = 93;
+const MAX_NOTE_LENGTH = 500;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDate = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+export const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_PATTERN.test(value) && toDate(value).toISOString().slice(0, 10) === value;
+
+// タイマーの作業時間（1分未満は切り捨て）
+export const minutesBetween = (startedAt: Date, endedAt: Date): number =>
+  Math.max(0, Math.floor((endedAt.getTime() - startedAt.getTime()) / 60000));
+
+interface TimeEntryInput {
+  date?: string;
+  minutes?: number;
+  note?: string | null;
+}
+
+// 手入力・修正の内容（partial の場合は指定した項目のみ確認する）
+export const timeEntryInputOf = (body: unknown, { partial = false } = {}): TimeEntryInput | { error: string } => {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const data: TimeEntryInput = {};
+  if (!partial || input.date !== undefined) {
+    if (!isDateString(input.date)) return { error: TIME_ENTRY_ERRORS.date };
+    data.date = input.date;
+  }
+  if (!partial || input.minutes !== undefined) {
+    const minutes = Number(input.minutes);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_MINUTES) return { error: TIME_ENTRY_ERRORS.minutes };
+    data.minutes = minutes;
+  }
+  if (input.note !== undefined) {
+    data.note = input.note ? String(input.note).slice(0, MAX_NOTE_LENGTH) : null;
+  }
+  return data;
+};
+
+// 一覧の期間（from・to を含む）。指定がない・長すぎる場合は null
+export const dateRangeOf = (from: unknown, to: unknown): { from: string; to: string } | null => {
+  if (!isDateString(from) || !isDateString(to) || from > to) return null;
+  const days = (toDate(to).getTime() - toDate(from).getTime()) / DAY_MS + 1;
+  return days <= MAX_RANGE_DAYS ? { from, to } : null;
+};
@@ -0,0 +1,86 @@
+import { Permission } from './authorization';
+
+// ゴミ箱（削除したレコードを保持期間のあいだ復元できるようにする）
+// 削除はdeletedAtを設定するだけで、保持期間を過ぎたレコードは定期的に完全に削除する
+
+export const TRASH_TYPES = ['tasks', 'projects', 'leads', 'documents', 'salesEmails', 'serviceMaterials'] as const;
+export type TrashType = typeof TRASH_TYPES[number];
+
+// 復元・完全削除に必要な権限（削除APIと同じ）
+export const TRASH_PERMISSIONS: Record<TrashType, Permission[]> = {
+  tasks: ['records:write'],
+  projects: ['projects:delete'],
+  leads: ['sales:view', 'records:write'],
+  documents: ['records:write'],
+  salesEmails: ['sales:view', 'records:write'],
+  serviceMaterials: ['records:write']
+};
+
+// 営業データ（sales:view が必要）
+export const SALES_TRASH_TYPES: readonly TrashType[] = ['leads', 'salesEmails'];
+
+export const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 削除済みのレコードを除く条件（一覧・取得・検索で共通）
+export const NOT_DELETED = { deletedAt: null };
+
+export const isTrashType = (value: unknown): value is TrashType =>
+  typeof value === 'string' && (TRASH_TYPES as readonly string[]).includes(value);
+
+// 環境変数 TRASH_RETENTION_DAYS（未設定・不正な値の場合は30日）
+export const retentionDaysOf = (value: string | undefined): number => {
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+export const purgeDateOf = (deletedAt: Date, retentionDays: number) =>
+  new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+
+// この日時より前に削除されたレコードが完全削除の対象
+export const purgeCutoff = (now: Date, retentionDays: number) =>
+  new Date(now.getTime() - retentionDays * DAY_MS);
+
+export interface DeletedRecord {
+  id: string;
+  deletedAt: Date | null;
+  deletedById: string | null;
+  [field: string]: unknown;
+}
+
+export interface TrashItem {
+  type: TrashType;
+  id: string;
+  title: string;
+  deletedAt: Date;
+  deletedBy: { id: string | null; name: string };
+  purgeAt: Date;
+}
+
+const titleOf = (record: DeletedRecord) =>
+  String(record.title ?? record.name ?? record.subject ?? record.company ?? '');
+
+// ゴミ箱の一覧の項目（削除した人の名前はチームのメンバーから引く）
+export const toTrashItems = (
+  type: TrashType,
+  records: DeletedRecord[],
+  memberNames: Map<string, string>,
+  retentionDays: number
+): TrashItem[] =>
+  records
+    .filter((record): record is DeletedRecord & { deletedAt: Date } => record.deletedAt !== null)
+    .map(record => ({
+      type,
+      id: record.id,
+      title: titleOf(record),
+      deletedAt: record.deletedAt,
+      deletedBy: {
+        id: record.deletedById,
+        name: (record.deletedById && memberNames.get(record.deletedById)) || '不明'
+      },
+      purgeAt: purgeDateOf(record.deletedAt, retentionDays)
+    }));
+
+// 削除日時の新しい順
+export const sortTrashItems = (items: TrashItem[]) =>
+  [...items].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
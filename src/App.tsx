@@ -1,19 +1,31 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
-import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { AuthProvider, useAuth, ROLE_LABELS } from './contexts/AuthContext';
+import { DataProvider } from './contexts/DataContext';
 import Auth from './components/Auth';
+import GlobalSearch from './components/GlobalSearch';
+import SyncStatus from './components/SyncStatus';
+import VerifyEmail from './components/VerifyEmail';
+import EmailVerificationNotice from './components/EmailVerificationNotice';
 import Dashboard from './pages/Dashboard';
 import Documents from './pages/Documents';
 import Tasks from './pages/Tasks';
+import Timesheets from './pages/Timesheets';
+import Customers from './pages/Customers';
+import Team from './pages/Team';
 import Sales from './pages/Sales';
 import Projects from './pages/Projects';
 import SalesEmails from './pages/SalesEmails';
 import ServiceMaterials from './pages/ServiceMaterials';
+import Trash from './pages/Trash';
+import Account from './pages/Account';
 import { LogOut, User } from 'lucide-react';
 import './App.css';
 
 const AppContent: React.FC = () => {
-  const { user, logout, isLoading } = useAuth();
+  const { user, logout, isLoading, can } = useAuth();
+  // 確認メールのリンク（/?verify=トークン）から開かれた場合は、ログインの有無にかかわらず確認する
+  const [verifyToken, setVerifyToken] = useState(() => new URLSearchParams(window.location.search).get('verify') || '');
 
   if (isLoading) {
     return (
@@ -24,6 +36,18 @@ const AppContent: React.FC = () => {
     );
   }
 
+  if (verifyToken) {
+    return (
+      <VerifyEmail
+        token={verifyToken}
+        onDone={() => {
+          window.history.replaceState(null, '', window.location.pathname);
+          setVerifyToken('');
+        }}
+      />
+    );
+  }
+
   if (!user) {
     return <Auth />;
   }
@@ -39,21 +63,28 @@ const AppContent: React.FC = () => {
                 <User size={16} />
                 <span>{user.name}</span>
               </div>
-              {user.teamName && (
-                <div className="team-info">
-                  <span>チーム: {user.teamName}</span>
-                </div>
-              )}
+              <div className="team-info">
+                <span>{user.teamName ? `チーム: ${user.teamName}` : 'チーム未所属（参加承認待ち）'}</span>
+                {user.teamName && user.role && <span className="role-label">{ROLE_LABELS[user.role]}</span>}
+              </div>
             </div>
           </div>
+          {/* 検索の対象はチームで共有しているデータ */}
+          {user.teamId && <GlobalSearch />}
+          <SyncStatus />
           <ul className="nav-menu">
             <li><Link to="/">📊 全体ダッシュボード</Link></li>
-            <li><Link to="/sales">👥 顧客管理</Link></li>
+            {can('sales:view') && <li><Link to="/customers">👥 顧客管理</Link></li>}
+            {can('sales:view') && <li><Link to="/sales">💼 商談管理</Link></li>}
             <li><Link to="/projects">📋 案件管理</Link></li>
             <li><Link to="/tasks">✅ タスク管理</Link></li>
+            <li><Link to="/timesheets">⏱️ 工数管理</Link></li>
             <li><Link to="/documents">📝 議事録・打ち合わせ</Link></li>
-            <li><Link to="/sales-emails">📧 営業メール</Link></li>
+            {can('sales:view') && <li><Link to="/sales-emails">📧 営業メール</Link></li>}
             <li><Link to="/service-materials">📚 サービス資料</Link></li>
+            <li><Link to="/trash">🗑️ ゴミ箱</Link></li>
+            <li><Link to="/team">⚙️ チーム設定</Link></li>
+            <li><Link to="/account">👤 アカウント</Link></li>
           </ul>
           <div className="logout-section">
             <button 
@@ -66,14 +97,20 @@ const AppContent: React.FC = () => {
           </div>
         </nav>
         <div className="main-content">
+          {user.emailVerified === false && <EmailVerificationNotice email={user.email} />}
           <Routes>
             <Route path="/" element={<Dashboard />} />
-            <Route path="/sales" element={<Sales />} />
+            {can('sales:view') && <Route path="/customers" element={<Customers />} />}
+            {can('sales:view') && <Route path="/sales" element={<Sales />} />}
             <Route path="/projects" element={<Projects />} />
             <Route path="/tasks" element={<Tasks />} />
+            <Route path="/timesheets" element={<Timesheets />} />
             <Route path="/documents" element={<Documents />} />
-            <Route path="/sales-emails" element={<SalesEmails />} />
+            {can('sales:view') && <Route path="/sales-emails" element={<SalesEmails />} />}
             <Route path="/service-materials" element={<ServiceMaterials />} />
+            <Route path="/trash" element={<Trash />} />
+            <Route path="/team" element={<Team />} />
+            <Route path="/account" element={<Account />} />
           </Routes>
         </div>
       </div>
@@ -84,7 +121,9 @@ const AppContent: React.FC = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <AppContent />
+      <DataProvider>
+        <AppContent />
+      </DataProvider>
     </AuthProvider>
   );
 };
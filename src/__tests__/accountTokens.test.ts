@@ -0,0 +1,46 @@
+import {
+  accountLinkOf,
+  accountMailOf,
+  accountTokenExpiry,
+  checkAccountToken,
+  createAccountToken
+} from '../../server/accountTokens';
+import { hashToken } from '../../server/sessions';
+
+test('stores only the hash of the emailed token', () => {
+  const { token, hash } = createAccountToken();
+
+  expect(hash).toBe(hashToken(token));
+  expect(hash).not.toBe(token);
+  expect(createAccountToken().token).not.toBe(token);
+});
+
+test('password reset links expire sooner than verification links', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+
+  expect(accountTokenExpiry('passwordReset', now)).toEqual(new Date('2024-04-01T01:00:00.000Z'));
+  expect(accountTokenExpiry('emailVerification', now)).toEqual(new Date('2024-04-03T00:00:00.000Z'));
+});
+
+test('tokens can be used only once and only until they expire', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  const token = { expiresAt: accountTokenExpiry('passwordReset', now), usedAt: null };
+
+  expect(checkAccountToken(token, now)).toBe('valid');
+  expect(checkAccountToken({ ...token, usedAt: now }, now)).toBe('used');
+  expect(checkAccountToken(token, new Date('2024-04-01T02:00:00.000Z'))).toBe('expired');
+});
+
+test('builds links and mails for each purpose', () => {
+  const resetLink = accountLinkOf('https://teamhub.example.com/', 'passwordReset', 'abc');
+  const verifyLink = accountLinkOf('https://teamhub.example.com', 'emailVerification', 'abc');
+
+  expect(resetLink).toBe('https://teamhub.example.com/?reset=abc');
+  expect(verifyLink).toBe('https://teamhub.example.com/?verify=abc');
+
+  const mail = accountMailOf('passwordReset', { email: 'yamada@example.com', name: '山田' }, resetLink);
+  expect(mail.to).toBe('yamada@example.com');
+  expect(mail.subject).toContain('パスワードの再設定');
+  expect(mail.text).toContain(resetLink);
+  expect(mail.text).toContain('山田 さん');
+});
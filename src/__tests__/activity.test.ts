@@ -0,0 +1,46 @@
+import { diffChanges, labelOfRecord } from '../../server/activity';
+
+test('records only the fields whose values changed', () => {
+  const before = {
+    id: 'task-1',
+    title: '見積作成',
+    status: 'pending',
+    dueDate: new Date('2024-04-01T00:00:00.000Z'),
+    tags: ['営業'],
+    updatedAt: new Date('2024-03-01T00:00:00.000Z')
+  };
+  const after = {
+    ...before,
+    status: 'in-progress',
+    dueDate: new Date('2024-04-10T00:00:00.000Z'),
+    tags: ['営業'],
+    updatedAt: new Date('2024-03-02T00:00:00.000Z')
+  };
+
+  expect(diffChanges(before, after)).toEqual({
+    status: { before: 'pending', after: 'in-progress' },
+    dueDate: { before: '2024-04-01T00:00:00.000Z', after: '2024-04-10T00:00:00.000Z' }
+  });
+});
+
+test('compares nested values by content', () => {
+  const deliverables = [{ id: 'd1', name: 'デザイン', status: 'pending' }];
+
+  expect(diffChanges({ deliverables }, { deliverables: [{ ...deliverables[0] }] })).toEqual({});
+  expect(diffChanges({ deliverables }, { deliverables: [{ ...deliverables[0], status: 'completed' }] })).toEqual({
+    deliverables: { before: deliverables, after: [{ ...deliverables[0], status: 'completed' }] }
+  });
+});
+
+test('omits empty values and internal fields on create and delete', () => {
+  const record = { id: 'lead-1', company: '株式会社サンプル', notes: '', services: [], userId: 'user-1', storageKey: null };
+
+  expect(diffChanges(null, record)).toEqual({ company: { before: null, after: '株式会社サンプル' } });
+  expect(diffChanges(record, null)).toEqual({ company: { before: '株式会社サンプル', after: null } });
+});
+
+test('labels records by their title or name', () => {
+  expect(labelOfRecord({ id: 'p1', name: 'LP制作' })).toBe('LP制作');
+  expect(labelOfRecord({ id: 'l1', company: '株式会社サンプル' })).toBe('株式会社サンプル');
+  expect(labelOfRecord({ id: 'x1' })).toBe('x1');
+});
@@ -0,0 +1,133 @@
+import {
+  requireTeamRecord,
+  getTeamRecord,
+  findTeamRecord,
+  pickWritable,
+  requirePermission,
+  stripRevenueFields,
+  hasPermission,
+  toTeamRole,
+  TASK_WRITABLE_FIELDS,
+  TeamRecordWhere
+} from '../../server/authorization';
+
+const records = [
+  { id: 'task-a', title: 'チームAのタスク', userId: 'user-a', teamId: 'team-a' },
+  { id: 'task-b', title: 'チームBのタスク', userId: 'user-b', teamId: 'team-b' }
+];
+
+// prisma.task.findFirst({ where: { id, user: { teamId } } }) 相当
+let findTask: jest.Mock<Promise<typeof records[number] | null>, [TeamRecordWhere]>;
+
+const createResponse = () => {
+  const res: any = { locals: {} };
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+const runGuard = async (id: string, teamId?: string) => {
+  const req: any = { params: { id }, user: { id: 'user-a', teamId } };
+  const res = createResponse();
+  const next = jest.fn();
+  await requireTeamRecord(findTask, 'タスクが見つかりません')(req, res, next);
+  return { res, next };
+};
+
+beforeEach(() => {
+  findTask = jest.fn(async (where: TeamRecordWhere) =>
+    records.find(record => record.id === where.id && record.teamId === where.user.teamId) ?? null
+  );
+});
+
+test('allows access to a record owned by the same team', async () => {
+  const { res, next } = await runGuard('task-a', 'team-a');
+  expect(next).toHaveBeenCalledWith();
+  expect(getTeamRecord<typeof records[number]>(res).id).toBe('task-a');
+});
+
+test('returns 404 for a record owned by another team', async () => {
+  const { res, next } = await runGuard('task-b', 'team-a');
+  expect(next).not.toHaveBeenCalled();
+  expect(res.status).toHaveBeenCalledWith(404);
+  expect(res.json).toHaveBeenCalledWith({ error: 'タスクが見つかりません' });
+});
+
+test('returns 404 for an unknown id', async () => {
+  const { res } = await runGuard('missing', 'team-a');
+  expect(res.status).toHaveBeenCalledWith(404);
+});
+
+test('does not query without a team so the filter cannot be bypassed', async () => {
+  const { res } = await runGuard('task-b', undefined);
+  expect(res.status).toHaveBeenCalledWith(404);
+  expect(findTask).not.toHaveBeenCalled();
+  await expect(findTeamRecord(findTask, 'task-a', '')).resolves.toBeNull();
+});
+
+test('passes lookup errors to the error handler', async () => {
+  const error = new Error('db down');
+  const req: any = { params: { id: 'task-a' }, user: { id: 'user-a', teamId: 'team-a' } };
+  const next = jest.fn();
+  await requireTeamRecord(async () => { throw error; }, 'タスクが見つかりません')(req, createResponse(), next);
+  expect(next).toHaveBeenCalledWith(error);
+});
+
+test('keeps only writable fields from the request body', () => {
+  const data = pickWritable({
+    id: 'task-b',
+    userId: 'user-b',
+    createdAt: '2024-01-01',
+    title: '更新後',
+    status: 'completed',
+    dueDate: '2024-02-01',
+    notes: undefined
+  }, TASK_WRITABLE_FIELDS);
+
+  expect(data).toEqual({ title: '更新後', status: 'completed', dueDate: new Date('2024-02-01') });
+});
+
+test('clears date fields with empty values', () => {
+  expect(pickWritable({ dueDate: '' }, TASK_WRITABLE_FIELDS)).toEqual({ dueDate: null });
+  expect(pickWritable(null, TASK_WRITABLE_FIELDS)).toEqual({});
+});
+
+const runPermission = (role: string, ...permissions: Parameters<typeof requirePermission>) => {
+  const req: any = { user: { id: 'user-a', teamId: 'team-a', role } };
+  const res = createResponse();
+  const next = jest.fn();
+  requirePermission(...permissions)(req, res, next);
+  return { res, next };
+};
+
+test('grants permissions by role', () => {
+  expect(runPermission('owner', 'members:manage').next).toHaveBeenCalled();
+  expect(runPermission('admin', 'projects:delete', 'revenue:edit').next).toHaveBeenCalled();
+  expect(runPermission('member', 'records:write', 'sales:view').next).toHaveBeenCalled();
+  expect(hasPermission('admin', 'team:manage')).toBe(false);
+});
+
+test('returns 403 when the role lacks a permission', () => {
+  const { res, next } = runPermission('member', 'projects:delete');
+  expect(next).not.toHaveBeenCalled();
+  expect(res.status).toHaveBeenCalledWith(403);
+
+  expect(runPermission('viewer', 'records:write').res.status).toHaveBeenCalledWith(403);
+  expect(runPermission('viewer', 'sales:view').res.status).toHaveBeenCalledWith(403);
+});
+
+test('treats legacy roles as member', () => {
+  expect(toTeamRole('user')).toBe('member');
+  expect(toTeamRole(undefined)).toBe('member');
+  expect(runPermission('user', 'records:write').next).toHaveBeenCalled();
+});
+
+test('strips revenue fields for roles that cannot edit revenue', () => {
+  const memberReq: any = { user: { id: 'user-a', role: 'member' }, body: { name: '案件', budget: 100, actualRevenue: 80 } };
+  stripRevenueFields(memberReq, createResponse(), jest.fn());
+  expect(memberReq.body).toEqual({ name: '案件' });
+
+  const adminReq: any = { user: { id: 'user-a', role: 'admin' }, body: { name: '案件', budget: 100 } };
+  stripRevenueFields(adminReq, createResponse(), jest.fn());
+  expect(adminReq.body).toEqual({ name: '案件', budget: 100 });
+});
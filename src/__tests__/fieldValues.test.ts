@@ -0,0 +1,22 @@
+import { FieldValueError, dateFieldOf, numberFieldOf } from '../../server/fieldValues';
+
+test('converts number fields and rejects values that are not numbers', () => {
+  expect(numberFieldOf(undefined, '契約金額')).toBeUndefined();
+  expect(numberFieldOf('', '契約金額')).toBeNull();
+  expect(numberFieldOf('1200000', '契約金額')).toBe(1200000);
+  expect(numberFieldOf(12.5, '契約金額')).toBe(12.5);
+  expect(numberFieldOf(30, '従業員数', { integer: true })).toBe(30);
+  expect(() => numberFieldOf('abc', '契約金額')).toThrow(new FieldValueError('契約金額は数値で指定してください'));
+  expect(() => numberFieldOf('  ', '契約金額')).toThrow(FieldValueError);
+  expect(() => numberFieldOf(true, '契約金額')).toThrow(FieldValueError);
+  expect(() => numberFieldOf(Infinity, '年商')).toThrow(FieldValueError);
+  expect(() => numberFieldOf(2.5, '従業員数', { integer: true })).toThrow(new FieldValueError('従業員数は整数で指定してください'));
+});
+
+test('converts date fields and rejects invalid dates', () => {
+  expect(dateFieldOf(undefined, '契約日')).toBeUndefined();
+  expect(dateFieldOf(null, '契約日')).toBeNull();
+  expect(dateFieldOf('2024-04-01', '契約日')).toEqual(new Date('2024-04-01'));
+  expect(() => dateFieldOf('2024-13-45', '契約日')).toThrow(new FieldValueError('契約日の日付が正しくありません'));
+  expect(() => dateFieldOf(20240401, '契約日')).toThrow(FieldValueError);
+});
@@ -0,0 +1,68 @@
+import { planImport, sanitizeRecord, parseDataUrl } from '../../server/importer';
+
+const existingTasks = [
+  { id: 'task-1', title: '見積書作成', dueDate: new Date('2024-03-01T00:00:00Z'), status: 'pending', priority: 'high', description: '' }
+];
+
+test('reports records identical to existing data as duplicates', () => {
+  const plan = planImport('tasks', [
+    { legacyId: 'tasksData:1', title: '見積書作成', dueDate: '2024-03-01', status: 'pending', priority: 'high' }
+  ], existingTasks);
+
+  expect(plan.create).toHaveLength(0);
+  expect(plan.duplicates).toEqual([{ entity: 'tasks', legacyId: 'tasksData:1', label: '見積書作成', existingId: 'task-1' }]);
+});
+
+test('reports changed records as conflicts and skips them by default', () => {
+  const records = [{ legacyId: 'tasksData:1', title: '見積書作成', dueDate: '2024-03-01', status: 'completed', priority: 'high' }];
+
+  const skipped = planImport('tasks', records, existingTasks);
+  expect(skipped.create).toHaveLength(0);
+  expect(skipped.conflicts[0]).toMatchObject({ existingId: 'task-1', fields: ['status'], created: false });
+
+  const created = planImport('tasks', records, existingTasks, 'create');
+  expect(created.create).toHaveLength(1);
+  expect(created.conflicts[0].created).toBe(true);
+});
+
+test('creates new records and aliases duplicates within the same import', () => {
+  const plan = planImport('tasks', [
+    { legacyId: 'tasksData:2', title: '請求書送付', dueDate: '' },
+    { legacyId: 'tasksData:3', title: '請求書送付', dueDate: '' }
+  ], existingTasks);
+
+  expect(plan.create.map(record => record.legacyId)).toEqual(['tasksData:2']);
+  expect(plan.create[0].data).toEqual({ title: '請求書送付', dueDate: null });
+  expect(plan.aliases).toEqual([{ legacyId: 'tasksData:3', sameAs: 'tasksData:2' }]);
+});
+
+test('reports missing required fields and repeated ids as errors', () => {
+  const plan = planImport('leads', [
+    { legacyId: 'leadsData:1', company: '株式会社A' },
+    { legacyId: 'leadsData:2', company: '株式会社B', contact: '佐藤' },
+    { legacyId: 'leadsData:2', company: '株式会社C', contact: '鈴木' }
+  ], []);
+
+  expect(plan.create.map(record => record.legacyId)).toEqual(['leadsData:2']);
+  expect(plan.errors.map(error => error.legacyId)).toEqual(['leadsData:1', 'leadsData:2']);
+});
+
+test('drops invalid dates and unknown fields', () => {
+  const { data, error } = sanitizeRecord('tasks', {
+    legacyId: 'tasksData:1',
+    id: 1,
+    userId: 'user-b',
+    title: 'タスク',
+    dueDate: 'not a date',
+    createdAt: 'invalid'
+  });
+  expect(error).toBeUndefined();
+  expect(data).toEqual({ title: 'タスク', dueDate: null });
+});
+
+test('parses base64 data urls', () => {
+  const file = parseDataUrl('data:application/pdf;base64,' + Buffer.from('%PDF').toString('base64'));
+  expect(file?.mimeType).toBe('application/pdf');
+  expect(file?.buffer.toString()).toBe('%PDF');
+  expect(parseDataUrl('https://example.com/file.pdf')).toBeNull();
+});
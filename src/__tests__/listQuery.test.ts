@@ -0,0 +1,85 @@
+import { parseListQuery, toPage, listQuery, getListQuery, TASK_LIST, LEAD_LIST, SALES_EMAIL_LIST, MAX_PAGE_SIZE } from '../../server/listQuery';
+
+test('defaults to the newest records first with the id as a tie-breaker', () => {
+  const list = parseListQuery({}, TASK_LIST);
+
+  expect(list.where).toEqual({});
+  expect(list.args).toEqual({ orderBy: [{ createdAt: 'desc' }, { id: 'desc' }], take: 51 });
+  expect(list.limit).toBe(50);
+});
+
+test('builds structured filters, search and the cursor from query parameters', () => {
+  const list = parseListQuery({
+    status: 'pending,in-progress',
+    priority: 'high',
+    assignee: 'all',
+    dueDateFrom: '2024-04-01',
+    dueDateTo: '2024-04-30',
+    q: '見積',
+    sort: 'dueDate',
+    order: 'asc',
+    limit: '500',
+    cursor: 'task-10'
+  }, TASK_LIST);
+
+  expect(list.where).toEqual({
+    status: { in: ['pending', 'in-progress'] },
+    priority: 'high',
+    dueDate: { gte: new Date('2024-04-01'), lte: new Date('2024-04-30T23:59:59.999Z') },
+    OR: [
+      { title: { contains: '見積', mode: 'insensitive' } },
+      { description: { contains: '見積', mode: 'insensitive' } },
+      { notes: { contains: '見積', mode: 'insensitive' } }
+    ]
+  });
+  expect(list.args).toEqual({
+    orderBy: [{ dueDate: 'asc' }, { id: 'asc' }],
+    take: MAX_PAGE_SIZE + 1,
+    cursor: { id: 'task-10' },
+    skip: 1
+  });
+});
+
+test('supports number ranges and renamed date parameters', () => {
+  expect(parseListQuery({ valueMin: '100000', probabilityMax: '80' }, LEAD_LIST).where).toEqual({
+    value: { gte: 100000, lte: undefined },
+    probability: { gte: undefined, lte: 80 }
+  });
+  expect(parseListQuery({ from: '2024-04-01T09:00:00.000Z', tag: '重要' }, SALES_EMAIL_LIST).where).toEqual({
+    sentDate: { gte: new Date('2024-04-01T09:00:00.000Z'), lte: undefined },
+    tags: { has: '重要' }
+  });
+});
+
+test('rejects unknown sort columns and malformed values', () => {
+  expect(() => parseListQuery({ sort: 'userId' }, TASK_LIST)).toThrow('sort に指定できる項目は');
+  expect(() => parseListQuery({ order: 'up' }, TASK_LIST)).toThrow('order には asc または desc');
+  expect(() => parseListQuery({ dueDateFrom: 'tomorrow' }, TASK_LIST)).toThrow('dueDateFrom の日付の形式');
+  expect(() => parseListQuery({ valueMin: 'many' }, LEAD_LIST)).toThrow('valueMin には数値');
+  expect(() => parseListQuery({ limit: '0' }, TASK_LIST)).toThrow('limit には1以上');
+});
+
+test('returns the last item id as the next cursor when more records exist', () => {
+  const list = parseListQuery({ limit: '2' }, TASK_LIST);
+
+  expect(toPage([{ id: 'a' }, { id: 'b' }, { id: 'c' }], 5, list)).toEqual({
+    items: [{ id: 'a' }, { id: 'b' }],
+    pageInfo: { limit: 2, total: 5, hasMore: true, nextCursor: 'b', sort: 'createdAt', order: 'desc' }
+  });
+  expect(toPage([{ id: 'd' }], 5, list).pageInfo).toMatchObject({ hasMore: false, nextCursor: null });
+});
+
+test('middleware answers invalid parameters with 400', () => {
+  const res: any = { locals: {} };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  const next = jest.fn();
+
+  listQuery(TASK_LIST)({ query: { sort: 'password' } } as any, res, next);
+  expect(res.status).toHaveBeenCalledWith(400);
+  expect(next).not.toHaveBeenCalled();
+
+  listQuery(TASK_LIST)({ query: { status: 'completed' } } as any, res, next);
+  expect(next).toHaveBeenCalledWith();
+  expect(getListQuery(res).where).toEqual({ status: 'completed' });
+});
@@ -0,0 +1,87 @@
+import {
+  RateLimiter,
+  checkLoginAttempt,
+  lockoutAfter,
+  loginDelayMs,
+  LoginFailureTracker,
+  loginPolicyOf,
+  recordLoginFailure,
+  CLEARED_LOGIN_STATE
+} from '../../server/loginProtection';
+
+const policy = loginPolicyOf({ LOGIN_MAX_FAILURES: '5', LOGIN_LOCKOUT_MINUTES: '15' });
+
+test('limits requests per key within the window', () => {
+  const limiter = new RateLimiter(2, 60 * 1000);
+
+  expect(limiter.hit('203.0.113.1', 0).allowed).toBe(true);
+  expect(limiter.hit('203.0.113.1', 1000).allowed).toBe(true);
+  expect(limiter.hit('203.0.113.1', 2000)).toEqual({ allowed: false, retryAfterMs: 58000 });
+  expect(limiter.hit('203.0.113.2', 2000).allowed).toBe(true);
+  expect(limiter.hit('203.0.113.1', 61000).allowed).toBe(true);
+});
+
+test('doubles the wait after repeated failures', () => {
+  expect(loginDelayMs(2, policy)).toBe(0);
+  expect(loginDelayMs(3, policy)).toBe(1000);
+  expect(loginDelayMs(4, policy)).toBe(2000);
+  expect(loginDelayMs(20, policy)).toBe(policy.maxDelayMs);
+});
+
+test('throttles attempts until the wait has passed', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  const account = { failedLoginCount: 4, lastFailedLoginAt: now, lockedUntil: null };
+
+  expect(checkLoginAttempt(account, policy, new Date(now.getTime() + 500))).toEqual({
+    allowed: false,
+    reason: 'throttled',
+    retryAfterMs: 1500
+  });
+  expect(checkLoginAttempt(account, policy, new Date(now.getTime() + 2000))).toEqual({ allowed: true });
+  expect(checkLoginAttempt(CLEARED_LOGIN_STATE, policy, now)).toEqual({ allowed: true });
+});
+
+test('locks the account temporarily after too many failures', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  let account = CLEARED_LOGIN_STATE;
+  for (let i = 0; i < 4; i++) {
+    account = recordLoginFailure(account, policy, now);
+  }
+  expect(account).toEqual({ failedLoginCount: 4, lastFailedLoginAt: now, lockedUntil: null });
+
+  account = recordLoginFailure(account, policy, now);
+  expect(account.lockedUntil).toEqual(new Date('2024-04-01T00:15:00.000Z'));
+  expect(checkLoginAttempt(account, policy, new Date('2024-04-01T00:10:00.000Z'))).toEqual({
+    allowed: false,
+    reason: 'locked',
+    retryAfterMs: 5 * 60 * 1000
+  });
+  expect(checkLoginAttempt(account, policy, new Date('2024-04-01T00:15:00.000Z'))).toEqual({ allowed: true });
+});
+
+test('locks from the stored failure count', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  expect(lockoutAfter(4, policy, now)).toBeNull();
+  expect(lockoutAfter(6, policy, now)).toEqual({
+    failedLoginCount: 0,
+    lastFailedLoginAt: now,
+    lockedUntil: new Date('2024-04-01T00:15:00.000Z')
+  });
+});
+
+test('throttles unknown emails like registered accounts', () => {
+  const tracker = new LoginFailureTracker(policy);
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  for (let i = 0; i < 3; i++) tracker.fail('nobody@example.com', now);
+  expect(tracker.check('nobody@example.com', new Date(now.getTime() + 500))).toEqual({
+    allowed: false,
+    reason: 'throttled',
+    retryAfterMs: 500
+  });
+  expect(tracker.check('other@example.com', now)).toEqual({ allowed: true });
+
+  tracker.fail('nobody@example.com', now);
+  expect(tracker.fail('nobody@example.com', now).lockedUntil).toEqual(new Date('2024-04-01T00:15:00.000Z'));
+  tracker.prune(new Date('2024-04-02T00:00:00.000Z'));
+  expect(tracker.check('nobody@example.com', new Date('2024-04-02T00:00:00.000Z'))).toEqual({ allowed: true });
+});
@@ -0,0 +1,37 @@
+import { mergeChanges } from '../utils/merge';
+import { expectedVersionOf, etagOf, isStaleVersion } from '../../server/concurrency';
+
+const base = { id: 't1', title: '資料作成', assignee: '田中', dueDate: '2024-03-01', notes: '', version: 1 };
+
+test('keeps changes made by only one side and reports overlapping edits', () => {
+  const theirs = { ...base, assignee: '佐藤', dueDate: '2024-03-05', version: 2 };
+  const mine = { title: '資料作成（改訂）', assignee: '田中', dueDate: '2024-03-10', notes: undefined };
+
+  const result = mergeChanges({ base, mine, theirs });
+
+  expect(result.merged).toEqual({ title: '資料作成（改訂）', assignee: '佐藤', dueDate: '2024-03-10', notes: '' });
+  expect(result.conflicts).toEqual(['dueDate']);
+  expect(result.theirChanges).toEqual(['assignee']);
+});
+
+test('treats identical edits on both sides as no conflict', () => {
+  const theirs = { ...base, title: '見積作成', version: 3 };
+
+  const result = mergeChanges({ base, mine: { title: '見積作成', version: 1 }, theirs });
+
+  expect(result.conflicts).toEqual([]);
+  expect(result.merged).toEqual({ title: '見積作成' });
+});
+
+test('reads the expected version from the body or an If-Match header', () => {
+  expect(expectedVersionOf({ version: 3 })).toBe(3);
+  expect(expectedVersionOf({ version: '4' }, 'W/"9"')).toBe(4);
+  expect(expectedVersionOf({}, etagOf(5))).toBe(5);
+  expect(expectedVersionOf({}, '"6"')).toBe(6);
+  expect(expectedVersionOf({}, '*')).toBeNull();
+  expect(expectedVersionOf({ status: 'completed' })).toBeNull();
+
+  expect(isStaleVersion(null, { version: 2 })).toBe(false);
+  expect(isStaleVersion(2, { version: 2 })).toBe(false);
+  expect(isStaleVersion(1, { version: 2 })).toBe(true);
+});
@@ -0,0 +1,50 @@
+import { buildMigrationPlan, markMigrated, getMigratedKeys } from '../utils/migration';
+
+const backup = {
+  tasksData: [{ id: 1700000000001, title: '資料作成', status: 'pending', dueDate: '2024-03-01', createdAt: '2024-02-01T00:00:00.000Z' }],
+  meetingMinutes: [{ id: 1700000000002, title: '定例会議', date: '2024-03-05', attendees: ['田中'], agenda: [], decisions: [], actionItems: [] }],
+  documentsData: [
+    {
+      id: 1700000000003,
+      name: '定例会議_議事録',
+      type: '議事録',
+      uploadDate: '2024-03-05',
+      category: '会議',
+      comments: [{ id: 1700000000004, author: '田中', text: '確認しました', timestamp: '2024/3/5 10:00:00' }]
+    },
+    { id: 1700000000005, name: '提案書', type: 'PDF', uploadDate: '2024-03-06', category: '営業', comments: [] }
+  ],
+  teamMembers: [{ id: 1, name: '田中', role: 'リーダー', status: 'online' }],
+  theme: 'dark'
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+test('maps local keys to import entities with prefixed legacy ids', () => {
+  const plan = buildMigrationPlan(backup);
+
+  expect(plan.keys).toEqual(['tasksData', 'meetingMinutes', 'documentsData']);
+  expect(plan.counts).toEqual({ tasks: 1, meetingMinutes: 1, documents: 2 });
+  expect(plan.unsupportedKeys).toEqual(['teamMembers']);
+  expect(plan.payload.tasks?.[0]).toMatchObject({ legacyId: 'tasksData:1700000000001', title: '資料作成' });
+});
+
+test('links minutes documents to their meeting minutes by name', () => {
+  const [minutesDoc, pdf] = buildMigrationPlan(backup).payload.documents!;
+
+  expect(minutesDoc).toMatchObject({
+    minutesLegacyId: 'meetingMinutes:1700000000002',
+    type: 'meeting',
+    comments: [{ legacyId: 'comments:1700000000004', text: '確認しました', author: '田中', createdAt: '2024/3/5 10:00:00' }]
+  });
+  expect(pdf).toMatchObject({ minutesLegacyId: undefined, type: 'other', tags: ['PDF'] });
+});
+
+test('skips keys that were already migrated', () => {
+  markMigrated(['tasksData'], 'import-1');
+
+  expect(getMigratedKeys()).toEqual(['tasksData']);
+  expect(buildMigrationPlan(backup, getMigratedKeys()).keys).toEqual(['meetingMinutes', 'documentsData']);
+});
@@ -0,0 +1,27 @@
+import { describePasswordPolicy, passwordPolicyOf, validatePassword } from '../../server/passwordPolicy';
+
+test('requires 8 characters with letters and numbers by default', () => {
+  const policy = passwordPolicyOf({});
+
+  expect(describePasswordPolicy(policy)).toBe('8文字以上で、英字・数字を含めてください');
+  expect(validatePassword('abc123', policy)).toBe('パスワードは8文字以上で、英字・数字を含めてください');
+  expect(validatePassword('abcdefgh', policy)).not.toBeNull();
+  expect(validatePassword('12345678', policy)).not.toBeNull();
+  expect(validatePassword('abcd1234', policy)).toBeNull();
+});
+
+test('reads the policy from environment variables', () => {
+  const policy = passwordPolicyOf({ PASSWORD_MIN_LENGTH: '12', PASSWORD_REQUIRE_NUMBER: 'false', PASSWORD_REQUIRE_SYMBOL: 'true' });
+
+  expect(policy).toEqual({ minLength: 12, requireLetter: true, requireNumber: false, requireSymbol: true });
+  expect(validatePassword('abcdefghijk!', policy)).toBeNull();
+  expect(validatePassword('abcdefghijkl', policy)).not.toBeNull();
+});
+
+test('rejects missing, too long and email-like passwords', () => {
+  const policy = passwordPolicyOf({});
+
+  expect(validatePassword(undefined, policy)).toBe('パスワードは必須です');
+  expect(validatePassword('a1'.repeat(40), policy)).toContain('長すぎます');
+  expect(validatePassword('Yamada1@example.com', policy, 'yamada1@example.com')).toBe('メールアドレスと同じパスワードは使用できません');
+});
@@ -0,0 +1,72 @@
+import { hourlyRateOf, laborCostOf, parseExpenses, serviceCategoryOf } from '../../server/profitability';
+import { formatMargin, profitabilityOf, profitabilityRowsOf } from '../utils/profitability';
+import { Project } from '../types/models';
+
+const project = (id: string, overrides: Partial<Project> = {}): Project => ({
+  id,
+  name: `案件${id}`,
+  description: '',
+  client: '株式会社A',
+  status: 'completed',
+  isActive: true,
+  priority: 'medium',
+  startDate: '2024-04-01',
+  endDate: '2024-05-31',
+  budget: 1000000,
+  teamMembers: [],
+  progress: 100,
+  deliverables: [],
+  notes: '',
+  createdAt: '2024-04-01T00:00:00.000Z',
+  updatedAt: '2024-04-01T00:00:00.000Z',
+  ...overrides
+});
+
+test('validates project expenses and service categories', () => {
+  expect(parseExpenses([{ id: 1, category: 'outsourcing', description: '外注', amount: 120000.4, date: '2024-05-01' }])).toEqual([
+    { id: 1, category: 'outsourcing', description: '外注', amount: 120000, date: '2024-05-01' }
+  ]);
+  expect(parseExpenses([])).toEqual([]);
+  expect(parseExpenses([{ id: 1, category: 'travel', amount: 100 }])).toBeNull();
+  expect(parseExpenses([{ id: 1, category: 'tools', amount: -1 }])).toBeNull();
+  expect(parseExpenses('[]')).toBeNull();
+  expect(serviceCategoryOf('design')).toBe('design');
+  expect(serviceCategoryOf('')).toBeNull();
+  expect(serviceCategoryOf('marketing')).toBeUndefined();
+});
+
+test('computes labor cost from tracked minutes and hourly rates', () => {
+  expect(hourlyRateOf(3000)).toBe(3000);
+  expect(hourlyRateOf(null)).toBeNull();
+  expect(hourlyRateOf(-1)).toBeUndefined();
+  expect(hourlyRateOf(1.5)).toBeUndefined();
+  expect(laborCostOf([{ minutes: 90, hourlyRate: 3000 }, { minutes: 20, hourlyRate: 5000 }, { minutes: 60, hourlyRate: null }])).toBe(6167);
+});
+
+test('computes gross profit and margin per project', () => {
+  const result = profitabilityOf(
+    project('1', { actualRevenue: 800000, expenses: [{ id: 1, category: 'advertising', description: '広告費', amount: 200000 }] }),
+    { '1': 100000 }
+  );
+  expect(result).toEqual({ revenue: 800000, expenses: 200000, laborCost: 100000, grossProfit: 500000, margin: 0.625 });
+  expect(formatMargin(result.margin)).toBe('62.5%');
+  expect(formatMargin(profitabilityOf(project('2', { budget: 0 })).margin)).toBe('-');
+});
+
+test('groups profitability by client and service category', () => {
+  const projects = [
+    project('1', { serviceCategory: 'design', expenses: [{ id: 1, category: 'outsourcing', description: '', amount: 300000 }] }),
+    project('2', { serviceCategory: 'design', client: '株式会社B', budget: 500000 }),
+    project('3', { client: '株式会社B', budget: 200000 })
+  ];
+  const byClient = profitabilityRowsOf(projects, { '3': 400000 }, 'client');
+  expect(byClient.map(row => [row.label, row.projectCount, row.grossProfit])).toEqual([
+    ['株式会社A', 1, 700000],
+    ['株式会社B', 2, 300000]
+  ]);
+  const byCategory = profitabilityRowsOf(projects, { '3': 400000 }, 'serviceCategory');
+  expect(byCategory.map(row => [row.label, row.grossProfit])).toEqual([
+    ['デザイン', 1200000],
+    ['（区分未設定）', -200000]
+  ]);
+});
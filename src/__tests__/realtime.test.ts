@@ -0,0 +1,20 @@
+import { roomsFor, roomForData } from '../../server/realtime';
+
+test('joins the team room and the user room', () => {
+  expect(roomsFor({ id: 'user-a', role: 'viewer', teamId: 'team-a' })).toEqual(['user:user-a', 'team:team-a']);
+});
+
+test('joins the sales room only with sales:view', () => {
+  expect(roomsFor({ id: 'user-a', role: 'member', teamId: 'team-a' })).toContain('team:team-a:sales');
+  expect(roomsFor({ id: 'user-a', role: 'viewer', teamId: 'team-a' })).not.toContain('team:team-a:sales');
+});
+
+test('does not join any team room without a team', () => {
+  expect(roomsFor({ id: 'user-a', role: 'owner' })).toEqual(['user:user-a']);
+});
+
+test('sends leads to the sales room and other data to the team room', () => {
+  expect(roomForData('team-a', 'leads')).toBe('team:team-a:sales');
+  expect(roomForData('team-a', 'tasks')).toBe('team:team-a');
+  expect(roomForData('team-a', 'documents')).toBe('team:team-a');
+});
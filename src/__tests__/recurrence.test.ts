@@ -0,0 +1,104 @@
+import { nextOccurrence, parseRRule, recurrenceRuleOf, recurrenceStartOf, storedRuleOf, RecurrenceRule } from '../../server/recurrence';
+import { describeRecurrence } from '../utils/recurrence';
+
+const ruleOf = (value: unknown, start: string): RecurrenceRule => {
+  const parsed = recurrenceRuleOf(value, start);
+  if (!('rule' in parsed) || !parsed.rule) throw new Error('invalid rule');
+  return parsed.rule;
+};
+
+test('finds the next daily and weekly occurrences', () => {
+  expect(nextOccurrence(ruleOf({ freq: 'daily', interval: 3 }, '2024-04-01'), '2024-04-01')).toBe('2024-04-04');
+
+  // 2024-04-01 は月曜日。毎週月・木
+  const weekly = ruleOf({ freq: 'weekly', weekdays: [1, 4] }, '2024-04-01');
+  expect(nextOccurrence(weekly, '2024-04-01')).toBe('2024-04-04');
+  expect(nextOccurrence(weekly, '2024-04-04')).toBe('2024-04-08');
+
+  // 隔週の金曜日
+  const biweekly = ruleOf({ freq: 'weekly', interval: 2, weekdays: [5] }, '2024-04-05');
+  expect(nextOccurrence(biweekly, '2024-04-05')).toBe('2024-04-19');
+});
+
+test('finds monthly occurrences by day and by nth weekday', () => {
+  // 31日指定は月末に寄せる
+  const monthEnd = ruleOf({ freq: 'monthly', monthDay: 31 }, '2024-01-31');
+  expect(nextOccurrence(monthEnd, '2024-01-31')).toBe('2024-02-29');
+  expect(nextOccurrence(monthEnd, '2024-02-29')).toBe('2024-03-31');
+
+  // 第2火曜日・最終金曜日
+  expect(nextOccurrence(ruleOf({ freq: 'monthly', nth: 2, weekday: 2 }, '2024-04-09'), '2024-04-09')).toBe('2024-05-14');
+  expect(nextOccurrence(ruleOf({ freq: 'monthly', nth: -1, weekday: 5 }, '2024-04-26'), '2024-04-26')).toBe('2024-05-31');
+});
+
+test('skips past occurrences and stops at the end of the series', () => {
+  const weekly = ruleOf({ freq: 'weekly', weekdays: [1], until: '2024-06-30' }, '2024-04-01');
+
+  expect(nextOccurrence(weekly, '2024-04-01', { notBefore: '2024-05-15' })).toBe('2024-05-20');
+  expect(nextOccurrence(weekly, '2024-06-24')).toBeNull();
+
+  const counted = ruleOf({ freq: 'daily', count: 3 }, '2024-04-01');
+  expect(nextOccurrence(counted, '2024-04-02', { generated: 2 })).toBe('2024-04-03');
+  expect(nextOccurrence(counted, '2024-04-03', { generated: 3 })).toBeNull();
+});
+
+test('keeps the series start when the rule is edited from a later occurrence', () => {
+  // 2024-01-01 から2日ごと・3回まで（1日・3日・5日）。3日の回の期限を4日に移してから規則を編集する
+  const series = ruleOf({ freq: 'daily', interval: 2, count: 3 }, '2024-01-01');
+  const occurrence = { seriesId: 'task-1', recurrence: series };
+  const start = recurrenceStartOf(occurrence, '2024-01-04');
+  expect(start).toBe('2024-01-01');
+
+  const edited = ruleOf({ freq: 'daily', interval: 2, count: 3 }, start!);
+  expect(nextOccurrence(edited, '2024-01-04', { generated: 2 })).toBe('2024-01-05');
+  expect(nextOccurrence(edited, '2024-01-05', { generated: 3 })).toBeNull();
+
+  // 第1月曜日（2024-01-01 から）。2回目の回から編集しても第1月曜日のまま
+  const nth = ruleOf({ freq: 'monthly', nth: 1, weekday: 1, count: 3 }, '2024-01-01');
+  const nthStart = recurrenceStartOf({ seriesId: 'task-2', recurrence: nth }, '2024-02-05');
+  expect(nextOccurrence(ruleOf({ freq: 'monthly', nth: 1, weekday: 1, count: 3 }, nthStart!), '2024-02-05', { generated: 2 })).toBe('2024-03-04');
+
+  // 最初の回・繰り返しでなかったタスクは期限を基準日にする
+  expect(recurrenceStartOf({ seriesId: null, recurrence: series }, '2024-01-04')).toBe('2024-01-04');
+  expect(recurrenceStartOf(undefined, '2024-01-04')).toBe('2024-01-04');
+});
+
+test('parses the supported subset of RRULE', () => {
+  const parsed = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;UNTIL=20241231T000000Z', '2024-04-26');
+  expect(parsed).toEqual({
+    rule: {
+      freq: 'monthly',
+      interval: 2,
+      nth: -1,
+      weekday: 5,
+      until: '2024-12-31',
+      start: '2024-04-26',
+      rrule: 'RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;UNTIL=20241231T000000Z'
+    }
+  });
+
+  expect(parseRRule('FREQ=YEARLY', '2024-02-29')).toEqual({ rule: { freq: 'yearly', interval: 1, start: '2024-02-29', rrule: 'RRULE:FREQ=YEARLY' } });
+  expect(nextOccurrence((parseRRule('FREQ=YEARLY', '2024-02-29') as { rule: RecurrenceRule }).rule, '2024-02-29')).toBe('2025-02-28');
+
+  expect(parseRRule('FREQ=HOURLY', '2024-04-01')).toEqual({ error: expect.any(String) });
+  expect(parseRRule('FREQ=WEEKLY;BYSETPOS=1', '2024-04-01')).toEqual({ error: 'RRULEのBYSETPOSには対応していません' });
+  expect(parseRRule('FREQ=MONTHLY;BYDAY=MO', '2024-04-01')).toEqual({ error: 'RRULEのBYDAYには対応していません' });
+});
+
+test('validates rules from the task form', () => {
+  expect(recurrenceRuleOf(null, '2024-04-01')).toEqual({ rule: null });
+  expect(recurrenceRuleOf({ freq: 'weekly' }, null)).toEqual({ error: '繰り返しタスクには期限が必要です' });
+  expect(recurrenceRuleOf({ freq: 'weekly', weekdays: [7] }, '2024-04-01')).toEqual({ error: expect.any(String) });
+  expect(recurrenceRuleOf({ freq: 'daily', until: '2024-03-01' }, '2024-04-01')).toEqual({ error: expect.any(String) });
+  // 曜日・日付を省略した場合は最初の回の期限から決める
+  expect(ruleOf({ freq: 'weekly' }, '2024-04-03').weekdays).toEqual([3]);
+  expect(ruleOf({ freq: 'monthly' }, '2024-04-25').monthDay).toBe(25);
+  expect(storedRuleOf({ freq: 'daily', interval: 0, start: '2024-04-01' })).toBeNull();
+});
+
+test('describes rules for the task cards', () => {
+  expect(describeRecurrence({ freq: 'weekly', interval: 1, weekdays: [1, 3] })).toBe('毎週 月・水');
+  expect(describeRecurrence({ freq: 'monthly', interval: 2, nth: 2, weekday: 2 })).toBe('2か月ごと 第2火曜日');
+  expect(describeRecurrence({ freq: 'monthly', interval: 1, monthDay: 25, until: '2025-03-31' })).toBe('毎月 25日（2025-03-31まで）');
+  expect(describeRecurrence({ freq: 'daily', interval: 1, count: 10 })).toBe('毎日（10回）');
+});
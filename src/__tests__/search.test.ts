@@ -0,0 +1,54 @@
+import { indexTokens, queryTokens, toSearchDocument, scoreDocument, snippetOf, rankResults } from '../../server/search';
+
+test('tokenizes Japanese text without spaces into unigrams and bigrams', () => {
+  expect(indexTokens('営業資料')).toEqual(['営', '業', '資', '料', '営業', '業資', '資料']);
+  expect(queryTokens('営業資料')).toEqual(['営業', '業資', '資料']);
+  expect(queryTokens('株')).toEqual(['株']);
+});
+
+test('normalizes width and case before tokenizing', () => {
+  expect(queryTokens('ＬＰ 制作')).toEqual(['lp', '制作']);
+  expect(indexTokens('LP制作').includes('lp')).toBe(true);
+});
+
+test('matches only when every query bigram is present', () => {
+  const document = { title: '新規LP制作の見積', content: '株式会社サンプル向けの営業資料を作成する' };
+
+  expect(scoreDocument(document, '営業資料')).not.toBeNull();
+  expect(scoreDocument(document, '資料 見積')).not.toBeNull();
+  expect(scoreDocument(document, '契約書')).toBeNull();
+});
+
+test('ranks title matches above body matches and newer records first on ties', () => {
+  const results = rankResults([
+    { entityType: 'tasks', entityId: 'body-old', title: '定例準備', content: '見積の確認', updatedAt: new Date('2024-01-01') },
+    { entityType: 'projects', entityId: 'title', title: '見積作成', content: '', updatedAt: new Date('2024-01-01') },
+    { entityType: 'salesEmails', entityId: 'body-new', title: '定例連絡', content: '見積の送付', updatedAt: new Date('2024-02-01') },
+    { entityType: 'leads', entityId: 'none', title: '商談', content: '提案', updatedAt: new Date('2024-03-01') }
+  ], '見積');
+
+  expect(results.map(result => result.id)).toEqual(['title', 'body-new', 'body-old']);
+  expect(results[0]).toMatchObject({ type: 'projects', title: '見積作成' });
+});
+
+test('builds searchable text from nested fields', () => {
+  const document = toSearchDocument('meetingMinutes', {
+    title: '定例会議',
+    attendees: ['田中', '佐藤'],
+    agenda: ['進捗確認'],
+    decisions: [],
+    actionItems: [{ task: '見積を送付する', assignee: '田中' }],
+    notes: null
+  });
+
+  expect(document).toEqual({ title: '定例会議', content: '田中\n佐藤\n進捗確認\n見積を送付する' });
+});
+
+test('extracts the snippet around the first match', () => {
+  const content = `${'あ'.repeat(100)}見積を送付する${'い'.repeat(100)}`;
+
+  const snippet = snippetOf(content, '見積');
+  expect(snippet.startsWith('…')).toBe(true);
+  expect(snippet).toContain('見積を送付する');
+  expect(snippetOf('短い本文', '該当なし')).toBe('短い本文');
+});
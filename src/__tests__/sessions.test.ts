@@ -0,0 +1,55 @@
+import { checkSession, createRefreshToken, deviceLabelOf, hashToken, parseRefreshToken, REFRESH_GRACE_MS, sessionExpiry } from '../../server/sessions';
+
+test('refresh tokens carry the session id and are stored only as a hash', () => {
+  const { token, hash } = createRefreshToken('session-1');
+  const parsed = parseRefreshToken(token);
+
+  expect(parsed?.sessionId).toBe('session-1');
+  expect(hash).not.toContain(parsed!.secret);
+  expect(checkSession({ refreshTokenHash: hash, expiresAt: sessionExpiry(), revokedAt: null }, parsed!.secret)).toBe('valid');
+});
+
+test('rejects malformed refresh tokens', () => {
+  expect(parseRefreshToken(undefined)).toBeNull();
+  expect(parseRefreshToken('no-secret')).toBeNull();
+  expect(parseRefreshToken('a.b.c')).toBeNull();
+});
+
+test('detects revoked, expired and reused sessions', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  const { hash } = createRefreshToken('session-1');
+  const session = { refreshTokenHash: hash, expiresAt: sessionExpiry(now), revokedAt: null };
+
+  expect(checkSession({ ...session, revokedAt: now }, undefined, now)).toBe('revoked');
+  expect(checkSession(session, undefined, new Date('2024-06-01T00:00:00.000Z'))).toBe('expired');
+  // 差し替え前の古いトークン
+  expect(checkSession(session, 'old-secret', now)).toBe('reused');
+  expect(checkSession(session, undefined, now)).toBe('valid');
+});
+
+test('accepts the previous token for a short time after rotation', () => {
+  const now = new Date('2024-04-01T00:00:00.000Z');
+  const { hash } = createRefreshToken('session-1');
+  const session = {
+    refreshTokenHash: hash,
+    previousTokenHash: hashToken('old-secret'),
+    rotatedAt: now,
+    expiresAt: sessionExpiry(now),
+    revokedAt: null
+  };
+
+  // 複数のタブが同時に更新した場合や、応答を受け取れずに再送した場合
+  expect(checkSession(session, 'old-secret', new Date(now.getTime() + 1000))).toBe('valid');
+  expect(checkSession(session, 'old-secret', new Date(now.getTime() + REFRESH_GRACE_MS + 1))).toBe('reused');
+  expect(checkSession(session, 'other-secret', now)).toBe('reused');
+});
+
+test('labels devices by browser and platform', () => {
+  const mac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+  const iphone = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+  expect(deviceLabelOf(mac)).toBe('Chrome（macOS）');
+  expect(deviceLabelOf(iphone)).toBe('Safari（iOS）');
+  expect(deviceLabelOf('curl/8.0')).toBe('不明な端末');
+  expect(deviceLabelOf(null)).toBe('不明な端末');
+});
@@ -0,0 +1,79 @@
+import { SyncQueue, SyncEntry, applyQueued, syncResultOf, MAX_SYNC_ATTEMPTS } from '../data/syncQueue';
+import { checkIdempotencyKey, isValidIdempotencyKey, IDEMPOTENCY_PENDING_TIMEOUT_MS } from '../../server/idempotency';
+
+jest.mock('../data/collections', () => ({ COLLECTIONS: {} }));
+
+const createStorage = () => {
+  const values: Record<string, any> = {};
+  return {
+    values,
+    get: <T>(key: string) => (key in values ? (values[key] as T) : null),
+    set: <T>(key: string, value: T) => {
+      values[key] = value;
+      return true;
+    }
+  };
+};
+
+const entry = (overrides: Partial<SyncEntry>): SyncEntry => ({
+  id: 'k1',
+  collection: 'tasks',
+  action: 'update',
+  recordId: 't1',
+  queuedAt: '2024-03-01T00:00:00.000Z',
+  attempts: 0,
+  ...overrides
+});
+
+test('persists queued changes in order and skips failed ones', () => {
+  const storage = createStorage();
+  const onChange = jest.fn();
+  const queue = new SyncQueue(storage, 'syncQueue:u1', onChange);
+
+  queue.add({ id: 'k1', collection: 'tasks', action: 'create', recordId: 'offline-k1', data: { title: '資料作成' } });
+  queue.add({ id: 'k2', collection: 'tasks', action: 'update', recordId: 'offline-k1', data: { status: 'completed' } });
+  queue.replaceRecordId('offline-k1', 'c1');
+  queue.update('k1', { error: '権限がありません' });
+
+  expect(onChange).toHaveBeenCalledTimes(4);
+  expect(new SyncQueue(storage, 'syncQueue:u1').getEntries().map(e => [e.id, e.recordId])).toEqual([['k1', 'c1'], ['k2', 'c1']]);
+  expect(queue.next()?.id).toBe('k2');
+  expect(queue.pendingFor('tasks').map(e => e.id)).toEqual(['k2']);
+});
+
+test('overlays pending changes on loaded records', () => {
+  const items = [{ id: 't1', title: '資料作成' }, { id: 't2', title: '見積作成' }];
+  const result = applyQueued(items, [
+    entry({ id: 'k1', action: 'update', recordId: 't1', data: { title: '資料作成（改訂）' } }),
+    entry({ id: 'k2', action: 'remove', recordId: 't2' }),
+    entry({ id: 'k3', action: 'create', recordId: 'offline-k3', data: { title: '請求書発行' } })
+  ]);
+
+  expect(result.map(item => [item.id, item.title])).toEqual([['t1', '資料作成（改訂）'], ['offline-k3', '請求書発行']]);
+});
+
+test('classifies replay failures', () => {
+  const networkError = { request: {}, message: 'Network Error' };
+  const serverError = { response: { status: 503, data: { error: 'メンテナンス中' } } };
+
+  expect(syncResultOf(entry({}), networkError)).toEqual({ outcome: 'offline' });
+  expect(syncResultOf(entry({}), serverError)).toEqual({ outcome: 'retry' });
+  expect(syncResultOf(entry({ attempts: MAX_SYNC_ATTEMPTS - 1 }), serverError)).toEqual({ outcome: 'failed', message: 'メンテナンス中' });
+  expect(syncResultOf(entry({ action: 'remove' }), { response: { status: 404, data: {} } })).toEqual({ outcome: 'done' });
+  expect(syncResultOf(entry({}), { response: { status: 409, data: { error: '競合', current: null } } })).toEqual({ outcome: 'failed', message: '競合' });
+  expect(syncResultOf(entry({ action: 'create' }), { response: { status: 409, data: { error: '処理中' } } })).toEqual({ outcome: 'retry' });
+  expect(syncResultOf(entry({}), { response: { status: 403, data: { error: '権限がありません' } } })).toEqual({ outcome: 'failed', message: '権限がありません' });
+});
+
+test('replays stored responses for the same idempotency key only', () => {
+  const now = new Date('2024-03-01T00:10:00.000Z');
+  const record = { requestPath: 'POST /api/tasks', statusCode: 201, createdAt: new Date('2024-03-01T00:00:00.000Z') };
+
+  expect(isValidIdempotencyKey('3b241101-e2bb-4255-8caf-4136c566a962')).toBe(true);
+  expect(isValidIdempotencyKey('short')).toBe(false);
+  expect(checkIdempotencyKey(record, 'POST /api/tasks', now)).toBe('replay');
+  expect(checkIdempotencyKey(record, 'POST /api/projects', now)).toBe('mismatch');
+  expect(checkIdempotencyKey({ ...record, statusCode: null, createdAt: now }, 'POST /api/tasks', now)).toBe('in_progress');
+  const abandoned = new Date(now.getTime() + IDEMPOTENCY_PENDING_TIMEOUT_MS + 1);
+  expect(checkIdempotencyKey({ ...record, statusCode: null, createdAt: now }, 'POST /api/tasks', abandoned)).toBe('abandoned');
+});
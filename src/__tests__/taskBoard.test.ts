@@ -0,0 +1,87 @@
+import { columnKeyOf as serverColumnKeyOf, isRank, isWipBlocked, parseTaskBoard, taskBoardOf, TASK_BOARD_ERRORS } from '../../server/taskBoard';
+import { DEFAULT_TASK_BOARD, columnKeyOf, compareByRank, rankBetween, wipStateOf } from '../utils/taskBoard';
+import { Task, TaskBoard } from '../types/models';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: `タスク${id}`,
+  description: '',
+  status: 'pending',
+  priority: 'medium',
+  assignee: '山田',
+  dueDate: '2024-05-01',
+  createdAt: '2024-04-01T00:00:00.000Z',
+  updatedAt: '2024-04-01T00:00:00.000Z',
+  ...overrides
+});
+
+const reviewColumn = { key: 'custom-review', label: 'レビュー待ち', color: '#607D8B', status: 'in-progress' as const, custom: true };
+
+test('creates ranks strictly between their neighbours', () => {
+  const first = rankBetween(null, null);
+  const last = rankBetween(first, null);
+  expect(first < last).toBe(true);
+  expect(rankBetween(null, first) < first).toBe(true);
+
+  // 同じ位置に何度差し込んでも前後の間に収まる
+  let before = first;
+  for (let i = 0; i < 50; i++) {
+    const rank = rankBetween(before, last);
+    expect(before < rank && rank < last).toBe(true);
+    expect(isRank(rank)).toBe(true);
+    before = rank;
+  }
+  expect(rankBetween('a', 'a1')).toBe('a0i');
+});
+
+test('orders ranked tasks first and unranked tasks by creation', () => {
+  const tasks = [
+    task('t1', { createdAt: '2024-04-03T00:00:00.000Z' }),
+    task('t2', { rank: 'm' }),
+    task('t3', { createdAt: '2024-04-02T00:00:00.000Z' }),
+    task('t4', { rank: 'c' })
+  ];
+
+  expect([...tasks].sort(compareByRank).map(({ id }) => id)).toEqual(['t4', 't2', 't3', 't1']);
+});
+
+test('places tasks in custom columns only while the status matches', () => {
+  const board: TaskBoard = { columns: [...DEFAULT_TASK_BOARD.columns, reviewColumn] };
+
+  expect(columnKeyOf(task('t1', { status: 'in-progress', boardColumn: 'custom-review' }), board)).toBe('custom-review');
+  expect(columnKeyOf(task('t1', { status: 'completed', boardColumn: 'custom-review' }), board)).toBe('completed');
+  expect(columnKeyOf(task('t1', { status: 'in-progress', boardColumn: 'custom-removed' }), board)).toBe('in-progress');
+  expect(serverColumnKeyOf({ status: 'in-progress', boardColumn: 'custom-review' }, board)).toBe('custom-review');
+});
+
+test('validates board settings and restores missing standard columns', () => {
+  const parsed = parseTaskBoard({
+    columns: [
+      { key: 'in-progress', label: '変更できない', wipLimit: 3, wipMode: 'block' },
+      { ...reviewColumn, label: ' レビュー待ち ', wipLimit: 0 }
+    ]
+  });
+  expect('board' in parsed && parsed.board.columns.map(({ key }) => key))
+    .toEqual(['in-progress', 'custom-review', 'pending', 'on-hold', 'completed']);
+  expect('board' in parsed && parsed.board.columns[0]).toMatchObject({ label: '進行中', wipLimit: 3, wipMode: 'block' });
+  expect('board' in parsed && parsed.board.columns[1]).toEqual({ ...reviewColumn, label: 'レビュー待ち' });
+
+  expect(parseTaskBoard({ columns: [{ ...reviewColumn, status: 'archived' }] })).toEqual({ error: TASK_BOARD_ERRORS.invalid });
+  expect(parseTaskBoard({ columns: [reviewColumn, reviewColumn] })).toEqual({ error: TASK_BOARD_ERRORS.invalid });
+  expect(parseTaskBoard({ columns: [{ key: 'pending', wipLimit: 2.5 }] })).toEqual({ error: TASK_BOARD_ERRORS.invalid });
+  expect(taskBoardOf(null)).toEqual(DEFAULT_TASK_BOARD);
+  expect(taskBoardOf({ columns: 'broken' })).toEqual(DEFAULT_TASK_BOARD);
+});
+
+test('warns or blocks once a column reaches its WIP limit', () => {
+  const warn = { ...reviewColumn, wipLimit: 2, wipMode: 'warn' as const };
+  const block = { ...reviewColumn, wipLimit: 2, wipMode: 'block' as const };
+
+  expect(wipStateOf(warn, 1)).toBe('ok');
+  expect(wipStateOf(warn, 2)).toBe('warn');
+  expect(wipStateOf(block, 2)).toBe('block');
+  expect(wipStateOf(reviewColumn, 100)).toBe('ok');
+  expect(isWipBlocked(block, 1)).toBe(false);
+  expect(isWipBlocked(block, 2)).toBe(true);
+  expect(isWipBlocked(warn, 5)).toBe(false);
+});
@@ -0,0 +1,89 @@
+import { blockerIdsOf, createsDependencyCycle, isBlockingTransition, openBlockersOf as openServerBlockersOf } from '../../server/taskDependencies';
+import {
+  isBlockingMove,
+  openBlockersOf,
+  rollupOf,
+  dependencyChainOf,
+  dependentsOf,
+  createsCycle
+} from '../utils/taskDependencies';
+import { Task } from '../types/models';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: `タスク${id}`,
+  description: '',
+  status: 'pending',
+  priority: 'medium',
+  assignee: '山田',
+  dueDate: '2024-05-01',
+  createdAt: '2024-04-01T00:00:00.000Z',
+  updatedAt: '2024-04-01T00:00:00.000Z',
+  blockedByIds: [],
+  ...overrides
+});
+
+test('normalizes blocker ids and ignores the task itself', () => {
+  expect(blockerIdsOf(undefined, 't1')).toBeUndefined();
+  expect(blockerIdsOf('t2', 't1')).toEqual([]);
+  expect(blockerIdsOf(['t2', 't2', 't1', '', 3, 't3'], 't1')).toEqual(['t2', 't3']);
+});
+
+test('detects dependency cycles through other tasks', () => {
+  const blockedByOf = new Map([['t1', []], ['t2', ['t1']], ['t3', ['t2']]]);
+
+  expect(createsDependencyCycle('t1', ['t3'], blockedByOf)).toBe(true);
+  expect(createsDependencyCycle('t3', ['t1'], blockedByOf)).toBe(false);
+});
+
+test('checks blockers only when moving into in-progress or completed', () => {
+  expect(isBlockingTransition('pending', 'in-progress')).toBe(true);
+  expect(isBlockingTransition('in-progress', 'completed')).toBe(true);
+  expect(isBlockingTransition(undefined, 'completed')).toBe(true);
+  expect(isBlockingTransition('in-progress', 'in-progress')).toBe(false);
+  expect(isBlockingTransition('completed', 'on-hold')).toBe(false);
+
+  const tasksById = new Map([
+    ['t1', { id: 't1', title: '設計', status: 'completed', blockedByIds: [] }],
+    ['t2', { id: 't2', title: '実装', status: 'in-progress', blockedByIds: [] }]
+  ]);
+  expect(openServerBlockersOf(['t1', 't2', 'trashed'], tasksById).map(blocker => blocker.id)).toEqual(['t2']);
+});
+
+const tasks = [
+  task('design', { status: 'completed' }),
+  task('api', { blockedByIds: ['design'] }),
+  task('ui', { blockedByIds: ['api', 'design'] }),
+  task('release', { blockedByIds: ['ui'] }),
+  task('sub1', { parentId: 'release', status: 'completed' }),
+  task('sub2', { parentId: 'release' }),
+  task('sub3', { parentId: 'release', status: 'in-progress' })
+];
+const byId = (id: string) => tasks.find(item => item.id === id)!;
+
+test('finds open blockers and the tasks waiting on a task', () => {
+  expect(openBlockersOf(byId('ui'), tasks).map(blocker => blocker.id)).toEqual(['api']);
+  expect(openBlockersOf(byId('api'), tasks)).toEqual([]);
+  expect(dependentsOf(byId('design'), tasks).map(dependent => dependent.id)).toEqual(['api', 'ui']);
+  expect(isBlockingMove(byId('ui'), 'in-progress')).toBe(true);
+  expect(isBlockingMove(byId('ui'), 'on-hold')).toBe(false);
+});
+
+test('rolls up subtask completion', () => {
+  expect(rollupOf(byId('release'), tasks)).toEqual({ completed: 1, total: 3, percent: 33 });
+  expect(rollupOf(byId('api'), tasks)).toBeNull();
+});
+
+test('walks the dependency chain once per task', () => {
+  expect(dependencyChainOf(byId('release'), tasks).map(({ task, depth }) => [task.id, depth])).toEqual([
+    ['ui', 0],
+    ['api', 1],
+    ['design', 2]
+  ]);
+});
+
+test('rejects blockers that would create a cycle', () => {
+  expect(createsCycle('design', byId('release'), tasks)).toBe(true);
+  expect(createsCycle('release', byId('design'), tasks)).toBe(false);
+  expect(createsCycle(undefined, byId('release'), tasks)).toBe(false);
+});
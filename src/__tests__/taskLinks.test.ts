@@ -0,0 +1,30 @@
+import { deliverableIdOf, linkIdOf } from '../../server/taskLinks';
+import { parseListQuery, TASK_LIST } from '../../server/listQuery';
+
+const deliverables = [
+  { id: 1700000000001, name: 'デザインカンプ', status: 'pending' },
+  { id: 1700000000002, name: 'コーディング', status: 'completed' }
+];
+
+test('keeps only deliverables of the linked project', () => {
+  expect(deliverableIdOf(1700000000002, deliverables)).toBe(1700000000002);
+  expect(deliverableIdOf('1700000000001', deliverables)).toBe(1700000000001);
+  expect(deliverableIdOf(99, deliverables)).toBeNull();
+  expect(deliverableIdOf(1700000000001, undefined)).toBeNull();
+  expect(deliverableIdOf('abc', deliverables)).toBeNull();
+  expect(deliverableIdOf('', deliverables)).toBeNull();
+  expect(deliverableIdOf(null, deliverables)).toBeNull();
+});
+
+test('distinguishes unspecified links from cleared links', () => {
+  expect(linkIdOf(undefined)).toBeUndefined();
+  expect(linkIdOf(null)).toBeNull();
+  expect(linkIdOf('')).toBeNull();
+  expect(linkIdOf('project-1')).toBe('project-1');
+});
+
+test('filters the task list by project and lead', () => {
+  const list = parseListQuery({ projectId: 'project-1', leadId: 'lead-1,lead-2' }, TASK_LIST);
+
+  expect(list.where).toEqual({ projectId: 'project-1', leadId: { in: ['lead-1', 'lead-2'] } });
+});
@@ -0,0 +1,35 @@
+import { checkInvitation, invitationExpiry, DEFAULT_INVITATION_DAYS, MAX_INVITATION_DAYS } from '../../server/teams';
+
+const now = new Date('2024-04-01T00:00:00Z');
+const day = 24 * 60 * 60 * 1000;
+
+const invitation = (overrides = {}) => ({
+  email: null,
+  expiresAt: new Date(now.getTime() + day),
+  maxUses: null,
+  useCount: 0,
+  revokedAt: null,
+  ...overrides
+});
+
+test('accepts an unexpired invitation', () => {
+  expect(checkInvitation(invitation(), 'member@example.com', now)).toBe('valid');
+});
+
+test('rejects expired, revoked and used-up invitations', () => {
+  expect(checkInvitation(invitation({ expiresAt: now }), undefined, now)).toBe('expired');
+  expect(checkInvitation(invitation({ revokedAt: now }), undefined, now)).toBe('revoked');
+  expect(checkInvitation(invitation({ maxUses: 2, useCount: 2 }), undefined, now)).toBe('exhausted');
+});
+
+test('restricts an invitation to the invited email address', () => {
+  const forMember = invitation({ email: 'member@example.com' });
+  expect(checkInvitation(forMember, 'Member@Example.com', now)).toBe('valid');
+  expect(checkInvitation(forMember, 'other@example.com', now)).toBe('email_mismatch');
+});
+
+test('clamps the expiry period', () => {
+  expect(invitationExpiry(3, now).getTime()).toBe(now.getTime() + 3 * day);
+  expect(invitationExpiry(365, now).getTime()).toBe(now.getTime() + MAX_INVITATION_DAYS * day);
+  expect(invitationExpiry('abc', now).getTime()).toBe(now.getTime() + DEFAULT_INVITATION_DAYS * day);
+});
@@ -0,0 +1,74 @@
+import { TIME_ENTRY_ERRORS, dateRangeOf, minutesBetween, timeEntryInputOf } from '../../server/timeTracking';
+import { formatMinutes, minutesByProjectOf, minutesOf, parseDuration, timesheetRowsOf, weekDatesOf } from '../utils/timeTracking';
+import { buildXlsx } from '../utils/xlsx';
+import { TimeEntry } from '../types/models';
+
+const entry = (id: string, overrides: Partial<TimeEntry> = {}): TimeEntry => ({
+  id,
+  date: '2024-05-06',
+  minutes: 30,
+  taskId: 'task-1',
+  userId: 'user-1',
+  task: { id: 'task-1', title: '設計', projectId: 'project-1' },
+  user: { id: 'user-1', name: '山田' },
+  createdAt: '2024-05-06T00:00:00.000Z',
+  updatedAt: '2024-05-06T00:00:00.000Z',
+  ...overrides
+});
+
+test('validates manual time entries', () => {
+  expect(timeEntryInputOf({ date: '2024-05-06', minutes: 90, note: '打ち合わせ' })).toEqual({ date: '2024-05-06', minutes: 90, note: '打ち合わせ' });
+  expect(timeEntryInputOf({ date: '2024-02-30', minutes: 90 })).toEqual({ error: TIME_ENTRY_ERRORS.date });
+  expect(timeEntryInputOf({ date: '2024-05-06', minutes: 0 })).toEqual({ error: TIME_ENTRY_ERRORS.minutes });
+  expect(timeEntryInputOf({ date: '2024-05-06', minutes: 24 * 60 + 1 })).toEqual({ error: TIME_ENTRY_ERRORS.minutes });
+  expect(timeEntryInputOf({ note: '' }, { partial: true })).toEqual({ note: null });
+});
+
+test('limits timesheet ranges and floors timer minutes', () => {
+  expect(dateRangeOf('2024-05-06', '2024-05-12')).toEqual({ from: '2024-05-06', to: '2024-05-12' });
+  expect(dateRangeOf('2024-05-12', '2024-05-06')).toBeNull();
+  expect(dateRangeOf('2024-01-01', '2024-12-31')).toBeNull();
+  expect(minutesBetween(new Date('2024-05-06T09:00:00Z'), new Date('2024-05-06T10:29:59Z'))).toBe(89);
+});
+
+test('parses and formats durations', () => {
+  expect(parseDuration('1:30')).toBe(90);
+  expect(parseDuration('1.5')).toBe(90);
+  expect(parseDuration('45m')).toBe(45);
+  expect(parseDuration('0')).toBeNull();
+  expect(parseDuration('abc')).toBeNull();
+  expect(formatMinutes(90)).toBe('1:30');
+  expect(formatMinutes(5)).toBe('0:05');
+});
+
+test('builds Monday-start weeks', () => {
+  const week = weekDatesOf('2024-05-08');
+  expect(week[0]).toBe('2024-05-06');
+  expect(week[6]).toBe('2024-05-12');
+  expect(weekDatesOf('2024-05-12')[0]).toBe('2024-05-06');
+});
+
+test('groups entries into timesheet rows and project totals', () => {
+  const entries = [
+    entry('1'),
+    entry('2', { date: '2024-05-07', minutes: 60 }),
+    entry('3', { minutes: 15 }),
+    entry('4', { taskId: 'task-2', task: { id: 'task-2', title: '事務', projectId: null }, minutes: 20 })
+  ];
+  const rows = timesheetRowsOf(entries);
+  expect(rows).toHaveLength(2);
+  expect(rows[0].task.title).toBe('事務');
+  expect(rows[1].minutesByDate).toEqual({ '2024-05-06': 45, '2024-05-07': 60 });
+  expect(rows[1].total).toBe(105);
+  expect(Object.fromEntries(minutesByProjectOf(entries))).toEqual({ 'project-1': 105, '': 20 });
+  const running = entry('5', { minutes: 0, startedAt: '2024-05-06T09:00:00.000Z', endedAt: null });
+  expect(minutesOf(running, new Date('2024-05-06T09:45:30.000Z'))).toBe(45);
+});
+
+test('builds an xlsx workbook', () => {
+  const bytes = buildXlsx([{ '作業日': '2024-05-06', '作業時間（分）': 90 }], 'タイムシート');
+  const text = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  expect(text.startsWith('PK')).toBe(true);
+  expect(text).toContain('xl/worksheets/sheet1.xml');
+  expect(text).toContain('<v>90</v>');
+});
@@ -0,0 +1,46 @@
+import { retentionDaysOf, purgeCutoff, toTrashItems, sortTrashItems, isTrashType, DEFAULT_RETENTION_DAYS } from '../../server/trash';
+
+test('reads the retention period from the environment with a default', () => {
+  expect(retentionDaysOf('7')).toBe(7);
+  expect(retentionDaysOf(undefined)).toBe(DEFAULT_RETENTION_DAYS);
+  expect(retentionDaysOf('0')).toBe(DEFAULT_RETENTION_DAYS);
+  expect(retentionDaysOf('1.5')).toBe(DEFAULT_RETENTION_DAYS);
+  expect(retentionDaysOf('forever')).toBe(DEFAULT_RETENTION_DAYS);
+});
+
+test('purges records deleted before the retention period', () => {
+  const now = new Date('2024-05-31T00:00:00.000Z');
+
+  expect(purgeCutoff(now, 30)).toEqual(new Date('2024-05-01T00:00:00.000Z'));
+});
+
+test('builds trash items with the deleter name and purge date', () => {
+  const names = new Map([['user-1', '田中']]);
+  const items = toTrashItems('tasks', [
+    { id: 'task-1', title: '見積作成', deletedAt: new Date('2024-04-01T00:00:00.000Z'), deletedById: 'user-1' },
+    { id: 'task-2', title: '請求書送付', deletedAt: new Date('2024-04-03T00:00:00.000Z'), deletedById: 'user-left' },
+    { id: 'task-3', title: '通常のタスク', deletedAt: null, deletedById: null }
+  ], names, 30);
+
+  expect(items).toHaveLength(2);
+  expect(items[0]).toEqual({
+    type: 'tasks',
+    id: 'task-1',
+    title: '見積作成',
+    deletedAt: new Date('2024-04-01T00:00:00.000Z'),
+    deletedBy: { id: 'user-1', name: '田中' },
+    purgeAt: new Date('2024-05-01T00:00:00.000Z')
+  });
+  expect(items[1].deletedBy).toEqual({ id: 'user-left', name: '不明' });
+});
+
+test('lists every type newest deletion first', () => {
+  const items = [
+    ...toTrashItems('leads', [{ id: 'lead-1', company: '株式会社サンプル', deletedAt: new Date('2024-04-01'), deletedById: null }], new Map(), 30),
+    ...toTrashItems('projects', [{ id: 'project-1', name: 'LP制作', deletedAt: new Date('2024-04-05'), deletedById: null }], new Map(), 30)
+  ];
+
+  expect(sortTrashItems(items).map(item => item.title)).toEqual(['LP制作', '株式会社サンプル']);
+  expect(isTrashType('projects')).toBe(true);
+  expect(isTrashType('customers')).toBe(false);
+});
@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { activityAPI, ActivityEntry, ActivityEntityType } from '../services/api';
+import { useRealtimeSync } from '../hooks/useRealtimeSync';
+import { FIELD_LABELS, formatFieldValue } from '../utils/fieldLabels';
+import './ActivityFeed.css';
+
+const ACTION_LABELS: Record<ActivityEntry['action'], string> = {
+  created: '作成',
+  updated: '更新',
+  deleted: '削除',
+  restored: '復元',
+  purged: '完全に削除'
+};
+
+const ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  tasks: 'タスク',
+  projects: '案件',
+  leads: '商談',
+  documents: 'ドキュメント',
+  meetingMinutes: '議事録',
+  salesEmails: '営業メール',
+  serviceMaterials: 'サービス資料',
+  customers: '顧客',
+  dataImports: 'データ移行'
+};
+
+const formatTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface ActivityFeedProps {
+  // 指定した場合はそのレコードの履歴だけを表示する
+  entityType?: ActivityEntityType;
+  entityId?: string;
+  pageSize?: number;
+}
+
+// サーバーに記録された変更履歴（新しい順、「もっと見る」で続きを読み込む）
+const ActivityFeed: React.FC<ActivityFeedProps> = ({ entityType, entityId, pageSize = 20 }) => {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const isRecordFeed = !!entityId;
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const page = await activityAPI.getActivity({ entityType, entityId, limit: pageSize, cursor });
+      setEntries(current => (cursor ? [...current, ...page.items] : page.items));
+      setNextCursor(page.pageInfo.nextCursor);
+      setError('');
+    } catch (err) {
+      console.error('Failed to load activity:', err);
+      setError('変更履歴の取得に失敗しました');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, entityId, pageSize]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  // チームメンバーがデータを変更したら最新の履歴を読み込み直す
+  useRealtimeSync(['tasks', 'projects', 'leads', 'documents'], () => {
+    loadPage();
+  });
+
+  if (error) {
+    return <p className="activity-feed-empty">{error}</p>;
+  }
+
+  if (!isLoading && entries.length === 0) {
+    return <p className="activity-feed-empty">まだ変更履歴がありません</p>;
+  }
+
+  return (
+    <div className="activity-feed">
+      <ul>
+        {entries.map(entry => {
+          // 作成・削除はレコード名だけを表示する（データ移行は取り込んだ件数を表示する）
+          const changes = entry.action === 'updated' || entry.entityType === 'dataImports' ? Object.entries(entry.changes) : [];
+          return (
+            <li key={entry.id}>
+              <span className="activity-time">{formatTime(entry.createdAt)}</span>
+              <div className="activity-body">
+                <span className="activity-text">
+                  {entry.actorName}が
+                  {!isRecordFeed && <>{ENTITY_LABELS[entry.entityType] ?? entry.entityType}「{entry.entityLabel}」を</>}
+                  {ACTION_LABELS[entry.action]}しました
+                </span>
+                {changes.length > 0 && (
+                  <ul className="activity-changes">
+                    {changes.map(([field, change]) => (
+                      <li key={field}>
+                        <span className="activity-field">
+                          {FIELD_LABELS[field] ?? ENTITY_LABELS[field as ActivityEntityType] ?? field}
+                        </span>
+                        {change.before !== null && (
+                          <>
+                            <span className="activity-before">{formatFieldValue(change.before)}</span>
+                            <span className="activity-arrow">→</span>
+                          </>
+                        )}
+                        <span className="activity-after">{formatFieldValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {nextCursor && (
+        <button className="activity-feed-more" onClick={() => loadPage(nextCursor)} disabled={isLoading}>
+          {isLoading ? '読み込み中...' : 'もっと見る'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFeed;
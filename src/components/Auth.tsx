@@ -1,11 +1,29 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { authAPI, teamAPI } from '../services/api';
+import PasswordReset from './PasswordReset';
 import { Users, Mail, Lock, User, Building } from 'lucide-react';
 import './Auth.css';
 
+interface InvitationPreview {
+  teamName: string;
+  email?: string | null;
+  expiresAt: string;
+}
+
+// 招待リンク（/?invite=トークン）から開かれた場合のトークン
+const inviteToken = new URLSearchParams(window.location.search).get('invite') || '';
+
+// パスワード再設定メールのリンク（/?reset=トークン）から開かれた場合のトークン
+const resetToken = new URLSearchParams(window.location.search).get('reset') || '';
+
+const clearInviteToken = () => {
+  window.history.replaceState(null, '', window.location.pathname);
+};
+
 const Auth: React.FC = () => {
-  const { login, register } = useAuth();
-  const [isLogin, setIsLogin] = useState(true);
+  const { login, register, refreshUser } = useAuth();
+  const [isLogin, setIsLogin] = useState(!inviteToken);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
   
@@ -13,6 +31,33 @@ const Auth: React.FC = () => {
   const [password, setPassword] = useState("");
   const [name, setName] = useState("");
   const [teamName, setTeamName] = useState("");
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [isResettingPassword, setIsResettingPassword] = useState(!!resetToken);
+  const [passwordResetToken, setPasswordResetToken] = useState(resetToken);
+  const [passwordHint, setPasswordHint] = useState("");
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    teamAPI.getInvitation(inviteToken)
+      .then((preview: InvitationPreview) => {
+        setInvitation(preview);
+        if (preview.email) {
+          setEmail(preview.email);
+        }
+      })
+      .catch(err => {
+        console.error("Failed to load invitation:", err);
+        setError(err.response?.data?.error || "招待リンクが無効です");
+      });
+  }, []);
+
+  // 新規登録ではパスワードの条件を表示する
+  useEffect(() => {
+    if (isLogin || passwordHint) return;
+    authAPI.getPasswordPolicy()
+      .then(policy => setPasswordHint(policy.description))
+      .catch(err => console.error("Failed to load password policy:", err));
+  }, [isLogin, passwordHint]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -24,21 +69,46 @@ const Auth: React.FC = () => {
       
       if (isLogin) {
         success = await login(email, password);
+        // 既存アカウントで招待リンクを開いた場合はログイン後に参加申請する
+        if (success && invitation) {
+          await teamAPI.joinTeam(inviteToken);
+          await refreshUser();
+          clearInviteToken();
+        }
       } else {
-        success = await register(email, password, name, teamName);
+        success = await register(email, password, name, invitation ? { inviteToken } : { teamName });
+        if (success && invitation) {
+          clearInviteToken();
+        }
       }
 
       if (!success) {
         setError(isLogin ? "ログインに失敗しました" : "登録に失敗しました");
       }
-    } catch (err) {
+    } catch (err: any) {
       console.error("Auth error:", err);
-      setError("エラーが発生しました");
+      setError(err.response?.data?.error || "エラーが発生しました");
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (isResettingPassword) {
+    return (
+      <PasswordReset
+        token={passwordResetToken || undefined}
+        onBack={() => {
+          if (passwordResetToken) {
+            clearInviteToken();
+            setPasswordResetToken("");
+          }
+          setIsResettingPassword(false);
+          setIsLogin(true);
+        }}
+      />
+    );
+  }
+
   return (
     <div className="auth-container">
       <div className="auth-card">
@@ -51,6 +121,12 @@ const Auth: React.FC = () => {
           <p className="auth-subtitle">
             {isLogin ? "アカウントにログインしてください" : "新しいアカウントを作成します"}
           </p>
+          {invitation && (
+            <p className="auth-invitation">
+              「{invitation.teamName}」チームに招待されています。
+              {isLogin ? "ログインすると" : "登録すると"}参加申請が送られ、オーナーの承認後に参加できます。
+            </p>
+          )}
         </div>
 
         <form onSubmit={handleSubmit} className="auth-form">
@@ -99,9 +175,10 @@ const Auth: React.FC = () => {
               onChange={(e) => setPassword(e.target.value)}
               required
             />
+            {!isLogin && passwordHint && <small>{passwordHint}</small>}
           </div>
 
-          {!isLogin && (
+          {!isLogin && !invitation && (
             <div className="form-group">
               <label htmlFor="teamName">
                 <Building size={16} />
@@ -114,7 +191,7 @@ const Auth: React.FC = () => {
                 value={teamName}
                 onChange={(e) => setTeamName(e.target.value)}
               />
-              <small>チーム名を入力すると、新しいチームが作成されます</small>
+              <small>新しいチームが作成され、あなたがオーナーになります。既存のチームに参加するにはオーナーから招待リンクを受け取ってください</small>
             </div>
           )}
 
@@ -132,6 +209,19 @@ const Auth: React.FC = () => {
             {isLoading ? "処理中..." : (isLogin ? "ログイン" : "登録")}
           </button>
 
+          {isLogin && (
+            <button
+              type="button"
+              className="switch-button"
+              onClick={() => {
+                setIsResettingPassword(true);
+                setError("");
+              }}
+            >
+              パスワードをお忘れの方
+            </button>
+          )}
+
           <button
             type="button"
             className="switch-button"
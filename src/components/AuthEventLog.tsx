@@ -0,0 +1,109 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { teamAPI, AuthEvent, AuthEventType } from '../services/api';
+import './AuthEventLog.css';
+
+const EVENT_LABELS: Record<AuthEventType, string> = {
+  login_succeeded: 'ログイン',
+  login_failed: 'ログイン失敗',
+  login_throttled: 'ログイン待機中の試行',
+  login_locked: 'ロック中のログイン試行',
+  rate_limited: '回数制限',
+  registered: 'アカウント登録',
+  password_changed: 'パスワード変更',
+  password_reset_requested: 'パスワード再設定の申請',
+  password_reset: 'パスワード再設定',
+  email_verified: 'メールアドレス確認',
+  logged_out: 'ログアウト',
+  logged_out_everywhere: 'すべての端末からログアウト',
+  refresh_token_reused: '不正なトークンの使用'
+};
+
+// 注意が必要な操作（失敗・ロック・不正なトークン）
+const WARNING_TYPES: AuthEventType[] = ['login_failed', 'login_throttled', 'login_locked', 'rate_limited', 'refresh_token_reused'];
+
+const REASON_LABELS: Record<string, string> = {
+  wrong_password: 'パスワードの誤り',
+  unknown_email: '未登録のメールアドレス',
+  locked: 'ロックしました'
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// チームのメンバーの認証の監査ログ（新しい順、「もっと見る」で続きを読み込む）
+const AuthEventLog: React.FC = () => {
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<'all' | 'warnings' | AuthEventType>('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadPage = useCallback(async (cursor?: string) => {
+    setIsLoading(true);
+    try {
+      const type = typeFilter === 'all' ? undefined : typeFilter === 'warnings' ? WARNING_TYPES.join(',') : typeFilter;
+      const page = await teamAPI.getAuthEvents({ type, limit: 30, cursor });
+      setEvents(current => (cursor ? [...current, ...page.items] : page.items));
+      setNextCursor(page.pageInfo.nextCursor);
+    } catch (error) {
+      console.error('Failed to load auth events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [typeFilter]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  return (
+    <div className="auth-event-log">
+      <div className="auth-event-filters">
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)}>
+          <option value="all">すべての操作</option>
+          <option value="warnings">失敗・ロックのみ</option>
+          {(Object.keys(EVENT_LABELS) as AuthEventType[]).map(type => (
+            <option key={type} value={type}>{EVENT_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {!isLoading && events.length === 0 ? (
+        <p className="no-data">記録はありません</p>
+      ) : (
+        <table className="team-table">
+          <thead>
+            <tr>
+              <th>日時</th>
+              <th>操作</th>
+              <th>メールアドレス</th>
+              <th>IPアドレス</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map(event => (
+              <tr key={event.id} className={WARNING_TYPES.includes(event.type) ? 'auth-event-warning' : ''}>
+                <td>{formatDateTime(event.createdAt)}</td>
+                <td>
+                  {EVENT_LABELS[event.type] ?? event.type}
+                  {event.reason && REASON_LABELS[event.reason] && (
+                    <span className="auth-event-reason">（{REASON_LABELS[event.reason]}）</span>
+                  )}
+                </td>
+                <td>{event.email}</td>
+                <td>{event.ipAddress || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {nextCursor && (
+        <button className="auth-event-more" onClick={() => loadPage(nextCursor)} disabled={isLoading}>
+          {isLoading ? '読み込み中...' : 'もっと見る'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AuthEventLog;
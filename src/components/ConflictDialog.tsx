@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { VersionConflict, mergeChanges } from '../utils/merge';
+import { FIELD_LABELS, formatFieldValue } from '../utils/fieldLabels';
+import './ConflictDialog.css';
+
+interface ConflictDialogProps<T> {
+  conflict: VersionConflict<T>;
+  // 選んだ内容で保存し直す（version は最新の内容のものを使う）
+  onResolve: (merged: Partial<T>) => void;
+  // 自分の変更を破棄して最新の内容を使う
+  onDiscard: () => void;
+  // 編集フォームに戻る
+  onCancel: () => void;
+}
+
+// 同時編集の競合の解決
+// 他のメンバーだけが変更した項目は最新の値を残し、両方が変更した項目はどちらを残すか選んでもらう
+const ConflictDialog = <T,>({ conflict, onResolve, onDiscard, onCancel }: ConflictDialogProps<T>) => {
+  const { merged, conflicts, theirChanges } = useMemo(() => mergeChanges(conflict), [conflict]);
+  const [choices, setChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+
+  const resolve = () => {
+    const resolved: Partial<T> = { ...merged };
+    conflicts.forEach(field => {
+      if (choices[field] === 'theirs') resolved[field as keyof T] = conflict.theirs[field as keyof T];
+    });
+    onResolve(resolved);
+  };
+
+  const valueOf = (record: Partial<T>, field: string) => formatFieldValue(record[field as keyof T]);
+
+  return (
+    <div className="conflict-overlay">
+      <div className="conflict-dialog">
+        <h2><AlertTriangle size={20} /> 他のメンバーが更新しました</h2>
+        <p className="conflict-description">
+          編集中に他のメンバーが同じデータを保存しました。
+          {conflicts.length > 0 ? '両方で変更した項目は、残す内容を選んでください。' : '変更が重なった項目はありません。'}
+        </p>
+
+        {conflicts.length > 0 && (
+          <table className="conflict-table">
+            <thead>
+              <tr>
+                <th>項目</th>
+                <th>自分の変更</th>
+                <th>他のメンバーの変更</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflicts.map(field => (
+                <tr key={field}>
+                  <td>{FIELD_LABELS[field] ?? field}</td>
+                  {(['mine', 'theirs'] as const).map(side => (
+                    <td key={side}>
+                      <label className="conflict-choice">
+                        <input
+                          type="radio"
+                          name={`conflict-${field}`}
+                          checked={(choices[field] ?? 'mine') === side}
+                          onChange={() => setChoices({ ...choices, [field]: side })}
+                        />
+                        {valueOf(side === 'mine' ? conflict.mine : conflict.theirs, field)}
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {theirChanges.length > 0 && (
+          <div className="conflict-their-changes">
+            <p>他のメンバーの次の変更はそのまま残します</p>
+            <ul>
+              {theirChanges.map(field => (
+                <li key={field}>
+                  {FIELD_LABELS[field] ?? field}: {valueOf(conflict.theirs, field)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="conflict-actions">
+          <button className="conflict-cancel-btn" onClick={onCancel}>編集に戻る</button>
+          <button className="conflict-discard-btn" onClick={onDiscard}>自分の変更を破棄</button>
+          <button className="conflict-save-btn" onClick={resolve}>この内容で保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConflictDialog;
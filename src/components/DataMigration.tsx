@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { importAPI } from '../services/api';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import { LocalStorage } from '../utils/storage';
+import {
+  buildMigrationPlan,
+  getMigratedKeys,
+  markMigrated,
+  ENTITY_LABELS,
+  ImportEntity,
+  ImportReport
+} from '../utils/migration';
+import './DataMigration.css';
+
+// このブラウザのLocalStorageに残っているデータをチームのデータとしてサーバーへ移行する
+const DataMigration: React.FC = () => {
+  const withIdempotencyKey = useIdempotencyKey();
+  const [plan, setPlan] = useState(() => buildMigrationPlan(LocalStorage.backup(), getMigratedKeys()));
+  const [createConflicts, setCreateConflicts] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  if (plan.keys.length === 0 && !report) {
+    return null;
+  }
+
+  const runMigration = async () => {
+    if (!window.confirm('このブラウザに保存されているデータをチームのデータとして移行しますか？')) return;
+    setIsImporting(true);
+    try {
+      const result: ImportReport = await withIdempotencyKey(
+        options => importAPI.importLocalData(plan.payload, createConflicts ? 'create' : 'skip', options)
+      );
+      markMigrated(plan.keys, result.importId);
+      setReport(result);
+      setPlan(buildMigrationPlan(LocalStorage.backup(), getMigratedKeys()));
+    } catch (error: any) {
+      console.error('Failed to import local data:', error);
+      alert(error.response?.data?.error || 'データの移行に失敗しました');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const entityLabel = (entity: ImportEntity) => ENTITY_LABELS[entity] ?? entity;
+
+  return (
+    <div className="team-section data-migration">
+      <h3>ブラウザのデータの移行</h3>
+
+      {plan.keys.length > 0 && (
+        <>
+          <p className="team-meta">
+            このブラウザに保存されているデータをサーバーに移行し、チームで共有できるようにします。
+            同じ内容のデータが既にある場合は移行しません。
+          </p>
+          <ul className="migration-counts">
+            {(Object.entries(plan.counts) as [ImportEntity, number][]).map(([entity, count]) => (
+              <li key={entity}>{entityLabel(entity)}: {count}件</li>
+            ))}
+          </ul>
+          {plan.unsupportedKeys.length > 0 && (
+            <p className="team-meta">
+              売上目標・チームメンバー・アクティビティなど（{plan.unsupportedKeys.join(', ')}）は移行の対象外です。
+            </p>
+          )}
+          <label className="migration-option">
+            <input type="checkbox" checked={createConflicts} onChange={(e) => setCreateConflicts(e.target.checked)} />
+            内容が異なる同名のデータがある場合も、別のデータとして移行する
+          </label>
+          <button className="add-invitation-btn" onClick={runMigration} disabled={isImporting}>
+            <Upload size={16} />
+            {isImporting ? '移行中...' : 'サーバーに移行する'}
+          </button>
+        </>
+      )}
+
+      {report && (
+        <div className="migration-report">
+          <h4>移行結果</h4>
+          <ul className="migration-counts">
+            {(Object.entries(report.created) as [ImportEntity, number][])
+              .filter(([, count]) => count > 0)
+              .map(([entity, count]) => (
+                <li key={entity}>{entityLabel(entity)}: {count}件</li>
+              ))}
+            {report.createdComments > 0 && <li>コメント: {report.createdComments}件</li>}
+          </ul>
+          {report.warnings.map(warning => (
+            <p key={warning} className="migration-warning">{warning}</p>
+          ))}
+          {report.duplicates.length > 0 && (
+            <details>
+              <summary>既に登録済みのため移行しなかったデータ（{report.duplicates.length}件）</summary>
+              <ul>
+                {report.duplicates.map(duplicate => (
+                  <li key={`${duplicate.entity}-${duplicate.legacyId}`}>{entityLabel(duplicate.entity)}: {duplicate.label}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {report.conflicts.length > 0 && (
+            <details open>
+              <summary>内容が異なる同名のデータ（{report.conflicts.length}件）</summary>
+              <ul>
+                {report.conflicts.map(conflict => (
+                  <li key={`${conflict.entity}-${conflict.legacyId}`}>
+                    {entityLabel(conflict.entity)}: {conflict.label}（{conflict.fields.join(', ')}が異なります）
+                    {conflict.created ? ' - 別のデータとして移行しました' : ' - 移行していません'}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+          {report.errors.length > 0 && (
+            <details open>
+              <summary>移行できなかったデータ（{report.errors.length}件）</summary>
+              <ul>
+                {report.errors.map(error => (
+                  <li key={`${error.entity}-${error.legacyId}`} className="migration-error">
+                    {entityLabel(error.entity)}: {error.label || error.legacyId}（{error.message}）
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataMigration;
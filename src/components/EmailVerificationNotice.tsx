@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { authAPI } from '../services/api';
+import './EmailVerificationNotice.css';
+
+// メールアドレスを確認していないユーザーへの案内（確認が済むまでチームに参加できない）
+const EmailVerificationNotice: React.FC<{ email: string }> = ({ email }) => {
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const resend = async () => {
+    setIsSending(true);
+    try {
+      const response = await authAPI.resendVerification();
+      setMessage(response.message);
+    } catch (error: any) {
+      console.error('Failed to resend verification mail:', error);
+      setMessage(error.response?.data?.error || '確認メールの送信に失敗しました');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="email-verification-notice">
+      <MailWarning size={18} />
+      <span>
+        {message || `${email} の確認が済んでいません。確認メールのリンクを開くまで、チームへの参加はできません。`}
+      </span>
+      {!message && (
+        <button onClick={resend} disabled={isSending}>
+          {isSending ? '送信中...' : '確認メールを再送'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EmailVerificationNotice;
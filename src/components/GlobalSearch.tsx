@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { searchAPI, SearchResult, SearchResultType } from '../services/api';
+import { FOCUS_PARAM } from '../hooks/useFocusRecord';
+import './GlobalSearch.css';
+
+// 検索結果の種類ごとの表示名と移動先の画面（議事録は議事録・打ち合わせ画面のドキュメントとして表示する）
+const RESULT_TYPES: Record<SearchResultType, { label: string; path: string }> = {
+  tasks: { label: 'タスク', path: '/tasks' },
+  projects: { label: '案件', path: '/projects' },
+  leads: { label: '商談', path: '/sales' },
+  meetingMinutes: { label: '議事録', path: '/documents' },
+  salesEmails: { label: '営業メール', path: '/sales-emails' },
+  serviceMaterials: { label: 'サービス資料', path: '/service-materials' }
+};
+
+const SEARCH_DELAY = 300;
+
+const GlobalSearch: React.FC = () => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  // 入力が止まってから検索し、古い検索の結果では上書きしない
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await searchAPI.search(q);
+        if (!cancelled) {
+          setResults(response.results);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error('Failed to search:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const openResult = (result: SearchResult) => {
+    navigate(`${RESULT_TYPES[result.type].path}?${FOCUS_PARAM}=${encodeURIComponent(result.id)}`);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showResults = isOpen && query.trim() !== '';
+
+  return (
+    <div className="global-search">
+      <div className="global-search-input">
+        <Search size={16} />
+        <input
+          type="search"
+          placeholder="すべてのデータを検索..."
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+      {showResults && (
+        <ul className="global-search-results">
+          {results.map((result, index) => (
+            <li key={`${result.type}:${result.id}`}>
+              {/* 入力欄のフォーカスを外さずにクリックを受け付ける */}
+              <button
+                type="button"
+                className={index === activeIndex ? 'active' : ''}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => openResult(result)}
+              >
+                <div className="search-result-header">
+                  <span className="search-result-type">{RESULT_TYPES[result.type].label}</span>
+                  <span className="search-result-title">{result.title}</span>
+                </div>
+                {result.snippet && <div className="search-result-snippet">{result.snippet}</div>}
+              </button>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li className="global-search-empty">{isSearching ? '検索中...' : '一致するデータがありません'}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GlobalSearch;
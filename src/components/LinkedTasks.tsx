@@ -0,0 +1,53 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Task } from '../types/models';
+import { FOCUS_PARAM } from '../hooks/useFocusRecord';
+import './LinkedTasks.css';
+
+const STATUS_LABELS: Record<Task['status'], string> = {
+  pending: '未着手',
+  'in-progress': '進行中',
+  'on-hold': '保留',
+  completed: '完了'
+};
+
+interface LinkedTasksProps {
+  tasks: Task[];
+  // タスク管理をこのレコードで絞り込んで開くURL
+  filterUrl: string;
+}
+
+// 案件・商談に関連付けたタスクの一覧（期限の近い順、完了したタスクは後ろ）
+const LinkedTasks: React.FC<LinkedTasksProps> = ({ tasks, filterUrl }) => {
+  if (tasks.length === 0) {
+    return <p className="linked-tasks-empty">関連付けられたタスクはありません</p>;
+  }
+
+  const sorted = [...tasks].sort((a, b) =>
+    Number(a.status === 'completed') - Number(b.status === 'completed') ||
+    (a.dueDate || '9999').localeCompare(b.dueDate || '9999')
+  );
+  const completed = tasks.filter(task => task.status === 'completed').length;
+
+  return (
+    <div className="linked-tasks">
+      <ul>
+        {sorted.map(task => (
+          <li key={task.id} className={task.status === 'completed' ? 'completed' : ''}>
+            <span className={`linked-task-status ${task.status}`}>{STATUS_LABELS[task.status]}</span>
+            <Link to={`/tasks?${FOCUS_PARAM}=${encodeURIComponent(task.id)}`} className="linked-task-title">
+              {task.title}
+            </Link>
+            <span className="linked-task-meta">{task.assignee}{task.dueDate && ` ・ ${task.dueDate}`}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="linked-tasks-footer">
+        <span>完了 {completed}/{tasks.length}件</span>
+        <Link to={filterUrl}>タスク管理で表示</Link>
+      </div>
+    </div>
+  );
+};
+
+export default LinkedTasks;
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { authAPI } from '../services/api';
+import { Users, Mail, Lock } from 'lucide-react';
+import './Auth.css';
+
+interface PasswordResetProps {
+  // メールのリンク（/?reset=トークン）から開かれた場合のトークン
+  token?: string;
+  onBack: () => void;
+}
+
+// パスワード再設定（トークンがない場合は再設定メールの送信、ある場合は新しいパスワードの設定）
+const PasswordReset: React.FC<PasswordResetProps> = ({ token, onBack }) => {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [passwordHint, setPasswordHint] = useState("");
+
+  useEffect(() => {
+    if (!token) return;
+    authAPI.getPasswordPolicy()
+      .then(policy => setPasswordHint(policy.description))
+      .catch(err => console.error("Failed to load password policy:", err));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (token && password !== confirmPassword) {
+      setError("新しいパスワードが一致しません");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = token
+        ? await authAPI.resetPassword({ token, password })
+        : await authAPI.forgotPassword(email);
+      setMessage(response.message);
+    } catch (err: any) {
+      console.error("Password reset error:", err);
+      setError(err.response?.data?.error || "エラーが発生しました");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <div className="auth-header">
+          <div className="logo-section">
+            <Users size={32} className="logo-icon" />
+            <h1>TeamHub</h1>
+          </div>
+          <h2>パスワードの再設定</h2>
+          <p className="auth-subtitle">
+            {token ? "新しいパスワードを入力してください" : "登録したメールアドレスに再設定用のリンクを送ります"}
+          </p>
+        </div>
+
+        {message ? (
+          <div className="auth-form">
+            <div className="success-message">{message}</div>
+            <button type="button" className="auth-button" onClick={onBack}>
+              ログイン画面に戻る
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="auth-form">
+            {token ? (
+              <>
+                <div className="form-group">
+                  <label htmlFor="password">
+                    <Lock size={16} />
+                    新しいパスワード
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    placeholder="********"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                    required
+                  />
+                  {passwordHint && <small>{passwordHint}</small>}
+                </div>
+                <div className="form-group">
+                  <label htmlFor="confirmPassword">
+                    <Lock size={16} />
+                    新しいパスワード（確認）
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="********"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    autoComplete="new-password"
+                    required
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="form-group">
+                <label htmlFor="email">
+                  <Mail size={16} />
+                  メールアドレス
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  placeholder="email@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+
+            {error && (
+              <div className="error-message">
+                {error}
+              </div>
+            )}
+
+            <button type="submit" className="auth-button" disabled={isLoading}>
+              {isLoading ? "処理中..." : (token ? "パスワードを再設定" : "再設定用のリンクを送信")}
+            </button>
+
+            <button type="button" className="switch-button" onClick={onBack}>
+              ログインはこちら
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PasswordReset;
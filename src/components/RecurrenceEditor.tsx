@@ -0,0 +1,165 @@
+import React from 'react';
+import { TaskRecurrence } from '../types/models';
+import { WEEKDAY_LABELS } from '../utils/recurrence';
+import './RecurrenceEditor.css';
+
+type RecurrenceMode = '' | 'daily' | 'weekly' | 'monthly-day' | 'monthly-nth' | 'rrule';
+
+const MODE_LABELS: Record<RecurrenceMode, string> = {
+  '': '繰り返さない',
+  daily: '日ごと',
+  weekly: '週ごと（曜日を指定）',
+  'monthly-day': '月ごと（日付を指定）',
+  'monthly-nth': '月ごと（第n曜日を指定）',
+  rrule: 'カスタム（RRULE）'
+};
+
+const INTERVAL_UNITS: Partial<Record<RecurrenceMode, string>> = {
+  daily: '日',
+  weekly: '週間',
+  'monthly-day': 'か月',
+  'monthly-nth': 'か月'
+};
+
+const modeOf = (value?: TaskRecurrence | null): RecurrenceMode => {
+  if (!value) return '';
+  if (value.rrule !== undefined) return 'rrule';
+  if (value.freq === 'monthly') return value.nth !== undefined ? 'monthly-nth' : 'monthly-day';
+  return value.freq === 'yearly' ? 'rrule' : value.freq;
+};
+
+// 期限の日付から、曜日・日付・第n曜日の初期値を決める
+const defaultsOf = (dueDate?: string) => {
+  const date = dueDate ? new Date(`${dueDate}T00:00:00`) : new Date();
+  const day = date.getDate();
+  return { weekday: date.getDay(), monthDay: day, nth: day > 28 ? -1 : Math.ceil(day / 7) };
+};
+
+interface RecurrenceEditorProps {
+  value?: TaskRecurrence | null;
+  // 最初の回の期限（初期値に使う）
+  dueDate?: string;
+  onChange: (value: TaskRecurrence | null) => void;
+}
+
+// タスクの繰り返しの指定（サーバーで規則を確認し、最初の回の期限を起点にする）
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, dueDate, onChange }) => {
+  const mode = modeOf(value);
+  const { weekday, monthDay, nth } = defaultsOf(dueDate);
+
+  const changeMode = (next: RecurrenceMode) => {
+    const base = { interval: 1, until: value?.until };
+    switch (next) {
+      case 'daily':
+        return onChange({ ...base, freq: 'daily' });
+      case 'weekly':
+        return onChange({ ...base, freq: 'weekly', weekdays: [weekday] });
+      case 'monthly-day':
+        return onChange({ ...base, freq: 'monthly', monthDay });
+      case 'monthly-nth':
+        return onChange({ ...base, freq: 'monthly', nth, weekday });
+      case 'rrule':
+        return onChange({ freq: 'weekly', interval: 1, rrule: value?.rrule ?? 'FREQ=WEEKLY;BYDAY=MO' });
+      default:
+        return onChange(null);
+    }
+  };
+
+  const update = (changes: Partial<TaskRecurrence>) => value && onChange({ ...value, ...changes });
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value?.weekdays ?? [];
+    const next = weekdays.includes(day) ? weekdays.filter(item => item !== day) : [...weekdays, day].sort();
+    if (next.length > 0) update({ weekdays: next });
+  };
+
+  return (
+    <div className="recurrence-editor">
+      <select value={mode} onChange={(e) => changeMode(e.target.value as RecurrenceMode)}>
+        {(Object.keys(MODE_LABELS) as RecurrenceMode[]).map(key => (
+          <option key={key} value={key}>{MODE_LABELS[key]}</option>
+        ))}
+      </select>
+
+      {value && INTERVAL_UNITS[mode] && (
+        <div className="recurrence-row">
+          <input
+            type="number"
+            min={1}
+            max={99}
+            value={value.interval}
+            onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+          <span>{INTERVAL_UNITS[mode]}ごと</span>
+        </div>
+      )}
+
+      {value && mode === 'weekly' && (
+        <div className="recurrence-weekdays">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              className={value.weekdays?.includes(day) ? 'active' : ''}
+              onClick={() => toggleWeekday(day)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value && mode === 'monthly-day' && (
+        <div className="recurrence-row">
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.monthDay ?? monthDay}
+            onChange={(e) => update({ monthDay: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+          />
+          <span>日（その月にない日付は月末）</span>
+        </div>
+      )}
+
+      {value && mode === 'monthly-nth' && (
+        <div className="recurrence-row">
+          <select value={value.nth} onChange={(e) => update({ nth: Number(e.target.value) })}>
+            {[1, 2, 3, 4, -1].map(item => (
+              <option key={item} value={item}>{item === -1 ? '最終' : `第${item}`}</option>
+            ))}
+          </select>
+          <select value={value.weekday} onChange={(e) => update({ weekday: Number(e.target.value) })}>
+            {WEEKDAY_LABELS.map((label, day) => (
+              <option key={label} value={day}>{label}曜日</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {value && mode === 'rrule' && (
+        <div className="recurrence-row">
+          <input
+            type="text"
+            value={value.rrule ?? ''}
+            placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+            onChange={(e) => update({ rrule: e.target.value })}
+          />
+        </div>
+      )}
+
+      {value && mode !== 'rrule' && (
+        <div className="recurrence-row">
+          <span>終了日</span>
+          <input
+            type="date"
+            value={value.until ?? ''}
+            onChange={(e) => update({ until: e.target.value || undefined })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
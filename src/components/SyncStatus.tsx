@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { useSyncQueue } from '../contexts/DataContext';
+import { CollectionName } from '../data/collections';
+import { SyncEntry } from '../data/syncQueue';
+import './SyncStatus.css';
+
+const COLLECTION_LABELS: Record<CollectionName, string> = {
+  tasks: 'タスク',
+  projects: '案件',
+  leads: '商談',
+  teamMembers: 'メンバー',
+  salesRecords: '売上',
+  meetings: '会議',
+  dashboardActivities: 'アクティビティ'
+};
+
+const ACTION_LABELS: Record<SyncEntry['action'], string> = {
+  create: '作成',
+  update: '更新',
+  remove: '削除'
+};
+
+const labelOf = (entry: SyncEntry) => {
+  const name = entry.data?.title || entry.data?.name || entry.data?.company;
+  return `${COLLECTION_LABELS[entry.collection]}の${ACTION_LABELS[entry.action]}${name ? `「${name}」` : ''}`;
+};
+
+// サイドバーの送信状況（オフライン・未送信の変更・送信できなかった変更）
+const SyncStatus: React.FC = () => {
+  const { entries, isOnline, isEnabled, retry, discard } = useSyncQueue();
+  const [showFailures, setShowFailures] = useState(false);
+
+  if (!isEnabled) return null;
+  const pending = entries.filter(entry => !entry.error);
+  const failures = entries.filter(entry => entry.error);
+  if (isOnline && entries.length === 0) return null;
+
+  return (
+    <div className="sync-status">
+      {!isOnline && (
+        <div className="sync-status-row offline">
+          <CloudOff size={14} />
+          <span>オフライン（変更は接続が戻ったら送信します）</span>
+        </div>
+      )}
+      {pending.length > 0 && (
+        <div className="sync-status-row">
+          <RefreshCw size={14} />
+          <span>未送信の変更 {pending.length}件</span>
+        </div>
+      )}
+      {failures.length > 0 && (
+        <button className="sync-status-row failed" onClick={() => setShowFailures(!showFailures)}>
+          <AlertTriangle size={14} />
+          <span>送信できなかった変更 {failures.length}件</span>
+        </button>
+      )}
+      {showFailures && failures.length > 0 && (
+        <ul className="sync-failures">
+          {failures.map(entry => (
+            <li key={entry.id}>
+              <div className="sync-failure-label">{labelOf(entry)}</div>
+              <div className="sync-failure-error">{entry.error}</div>
+              <div className="sync-failure-actions">
+                <button onClick={() => retry(entry.id)}>再送信</button>
+                <button
+                  onClick={() => {
+                    if (window.confirm('この変更を破棄してもよろしいですか？')) discard(entry.id);
+                  }}
+                >
+                  破棄
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Plus, Trash2 } from 'lucide-react';
+import { Task, TaskBoard, TaskBoardColumn } from '../types/models';
+import { CUSTOM_COLUMN_COLOR, DEFAULT_TASK_COLUMNS, newColumnKey } from '../utils/taskBoard';
+import './TaskBoardSettings.css';
+
+interface TaskBoardSettingsProps {
+  board: TaskBoard;
+  onSave: (board: TaskBoard) => Promise<void>;
+  onClose: () => void;
+}
+
+const statusLabelOf = (status: Task['status']) => DEFAULT_TASK_COLUMNS.find(column => column.status === status)?.label;
+
+// かんばんの列の設定（チームの管理者のみ）
+// 標準の列は上限だけを変更でき、追加した列は名前・色・対応するステータスを変更できる
+const TaskBoardSettings: React.FC<TaskBoardSettingsProps> = ({ board, onSave, onClose }) => {
+  const [columns, setColumns] = useState<TaskBoardColumn[]>(board.columns);
+  const [saving, setSaving] = useState(false);
+
+  const updateColumn = (key: string, changes: Partial<TaskBoardColumn>) =>
+    setColumns(columns.map(column => (column.key === key ? { ...column, ...changes } : column)));
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setColumns(next);
+  };
+
+  const addColumn = () => setColumns([
+    ...columns,
+    { key: newColumnKey(), label: '', color: CUSTOM_COLUMN_COLOR, status: 'in-progress', custom: true }
+  ]);
+
+  const save = async () => {
+    if (columns.some(column => column.custom && !column.label.trim())) {
+      alert('追加した列の名前を入力してください');
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave({ columns });
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save task board:', error);
+      alert(error.response?.data?.error || 'かんばんの設定の保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content task-board-settings" onClick={(e) => e.stopPropagation()}>
+        <h2>かんばんの列の設定</h2>
+        <p className="form-note">
+          上限を設定すると、列のタスクが上限に達したときに「警告」は確認してから移動でき、「移動不可」は移動できなくなります
+        </p>
+        <ul className="board-column-list">
+          {columns.map((column, index) => (
+            <li key={column.key} className="board-column-row">
+              <div className="board-column-order">
+                <button disabled={index === 0} onClick={() => moveColumn(index, -1)} title="前へ">
+                  <ArrowUp size={14} />
+                </button>
+                <button disabled={index === columns.length - 1} onClick={() => moveColumn(index, 1)} title="後へ">
+                  <ArrowDown size={14} />
+                </button>
+              </div>
+              {column.custom ? (
+                <>
+                  <input
+                    type="color"
+                    value={column.color}
+                    onChange={(e) => updateColumn(column.key, { color: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    className="board-column-label"
+                    placeholder="列の名前"
+                    maxLength={30}
+                    value={column.label}
+                    onChange={(e) => updateColumn(column.key, { label: e.target.value })}
+                  />
+                  <select
+                    value={column.status}
+                    title="この列のタスクのステータス"
+                    onChange={(e) => updateColumn(column.key, { status: e.target.value as Task['status'] })}
+                  >
+                    {DEFAULT_TASK_COLUMNS.map(standard => (
+                      <option key={standard.status} value={standard.status}>{standard.label}</option>
+                    ))}
+                  </select>
+                </>
+              ) : (
+                <>
+                  <span className="board-column-color" style={{ backgroundColor: column.color }} />
+                  <span className="board-column-label">{column.label}</span>
+                  <span className="board-column-status">{statusLabelOf(column.status)}</span>
+                </>
+              )}
+              <input
+                type="number"
+                className="board-column-limit"
+                min={1}
+                max={999}
+                placeholder="上限なし"
+                value={column.wipLimit ?? ''}
+                onChange={(e) => updateColumn(column.key, {
+                  wipLimit: e.target.value ? Number(e.target.value) : undefined,
+                  wipMode: column.wipMode ?? 'warn'
+                })}
+              />
+              <select
+                value={column.wipMode ?? 'warn'}
+                disabled={!column.wipLimit}
+                onChange={(e) => updateColumn(column.key, { wipMode: e.target.value as TaskBoardColumn['wipMode'] })}
+              >
+                <option value="warn">警告</option>
+                <option value="block">移動不可</option>
+              </select>
+              {column.custom && (
+                <button
+                  className="board-column-remove"
+                  title="列を削除（列のタスクはステータスの列に表示されます）"
+                  onClick={() => setColumns(columns.filter(other => other.key !== column.key))}
+                >
+                  <Trash2 size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <button className="add-board-column-btn" onClick={addColumn}>
+          <Plus size={14} />
+          列を追加
+        </button>
+        <div className="modal-actions">
+          <button className="cancel-btn" onClick={onClose}>キャンセル</button>
+          <button className="save-btn" disabled={saving} onClick={save}>保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskBoardSettings;
@@ -0,0 +1,134 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Play, Square, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useRunningTimer } from '../hooks/useRunningTimer';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import { timeEntryAPI } from '../services/api';
+import { Task, TimeEntry } from '../types/models';
+import { formatMinutes, isRunning, minutesOf, parseDuration, toDateString, totalMinutesOf } from '../utils/timeTracking';
+import './TaskTimeEntries.css';
+
+interface TaskTimeEntriesProps {
+  task: Task;
+}
+
+// タスクの作業時間（全員分）と、自分のタイマー・手入力（チームモードのみ）
+const TaskTimeEntries: React.FC<TaskTimeEntriesProps> = ({ task }) => {
+  const { user, can } = useAuth();
+  const { timer, now, start, stop } = useRunningTimer();
+  const withIdempotencyKey = useIdempotencyKey();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [form, setForm] = useState({ date: toDateString(new Date()), duration: '', note: '' });
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries((await timeEntryAPI.getEntries({ taskId: task.id })).items);
+    } catch (error) {
+      console.error('Failed to load time entries:', error);
+    }
+  }, [task.id]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const isTimingThisTask = timer?.taskId === task.id;
+
+  const toggleTimer = async () => {
+    if (!isTimingThisTask && timer && !window.confirm(`「${timer.task.title}」のタイマーを停止して、このタスクの計測を開始しますか？`)) {
+      return;
+    }
+    try {
+      if (isTimingThisTask) await stop();
+      else await start(task.id);
+      await loadEntries();
+    } catch (error: any) {
+      console.error('Failed to toggle timer:', error);
+      alert(error.response?.data?.error || 'タイマーの操作に失敗しました');
+    }
+  };
+
+  const addEntry = async () => {
+    const minutes = parseDuration(form.duration);
+    if (!form.date || !minutes) {
+      alert('作業日と作業時間（例: 1:30、1.5、90m）を入力してください');
+      return;
+    }
+    try {
+      await withIdempotencyKey(
+        options => timeEntryAPI.createEntry(task.id, { date: form.date, minutes, note: form.note || undefined }, options),
+        task.id
+      );
+      setForm({ ...form, duration: '', note: '' });
+      await loadEntries();
+    } catch (error: any) {
+      console.error('Failed to add time entry:', error);
+      alert(error.response?.data?.error || '作業時間の登録に失敗しました');
+    }
+  };
+
+  const deleteEntry = async (entry: TimeEntry) => {
+    if (!window.confirm(`${entry.date} の作業時間（${formatMinutes(entry.minutes)}）を削除してもよろしいですか？`)) return;
+    try {
+      await timeEntryAPI.deleteEntry(entry.id);
+      await loadEntries();
+    } catch (error: any) {
+      console.error('Failed to delete time entry:', error);
+      alert(error.response?.data?.error || '作業時間の削除に失敗しました');
+    }
+  };
+
+  return (
+    <div className="task-time-entries">
+      <div className="time-entry-summary">
+        <span>合計 {formatMinutes(totalMinutesOf(entries))}</span>
+        {can('records:write') && (
+          <button className={`timer-btn ${isTimingThisTask ? 'running' : ''}`} onClick={toggleTimer}>
+            {isTimingThisTask ? <Square size={14} /> : <Play size={14} />}
+            {isTimingThisTask ? `停止（${formatMinutes(minutesOf(timer!, now))}）` : 'タイマー開始'}
+          </button>
+        )}
+      </div>
+      {entries.length > 0 && (
+        <ul className="time-entry-list">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <span className="time-entry-date">{entry.date}</span>
+              <span className="time-entry-user">{entry.user.name}</span>
+              <span className="time-entry-minutes">
+                {isRunning(entry) ? `計測中 ${formatMinutes(minutesOf(entry, now))}` : formatMinutes(entry.minutes)}
+              </span>
+              <span className="time-entry-note">{entry.note}</span>
+              {entry.userId === user?.id && can('records:write') && (
+                <button className="time-entry-delete" title="削除" onClick={() => deleteEntry(entry)}>
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {can('records:write') && (
+        <div className="time-entry-form">
+          <input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} />
+          <input
+            type="text"
+            className="time-entry-duration"
+            placeholder="1:30"
+            value={form.duration}
+            onChange={(e) => setForm({ ...form, duration: e.target.value })}
+          />
+          <input
+            type="text"
+            placeholder="メモ（任意）"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+          />
+          <button onClick={addEntry}>追加</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskTimeEntries;
@@ -0,0 +1,63 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Users } from 'lucide-react';
+import './Auth.css';
+
+interface VerifyEmailProps {
+  // 確認メールのリンク（/?verify=トークン）のトークン
+  token: string;
+  onDone: () => void;
+}
+
+// メールアドレスの確認（ログインしていない端末でリンクを開いた場合も確認できる）
+const VerifyEmail: React.FC<VerifyEmailProps> = ({ token, onDone }) => {
+  const { user, refreshUser } = useAuth();
+  const [message, setMessage] = useState("");
+  const [error, setError] = useState("");
+  // トークンは1回しか使えないため、開発時の二重実行でも1回だけ送る
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+    authAPI.verifyEmail(token)
+      .then(response => setMessage(response.message))
+      .catch(err => {
+        console.error("Failed to verify email:", err);
+        setError(err.response?.data?.error || "メールアドレスの確認に失敗しました");
+      });
+  }, [token]);
+
+  const handleContinue = async () => {
+    if (user && message) {
+      await refreshUser().catch(err => console.error("Failed to refresh user:", err));
+    }
+    onDone();
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-card">
+        <div className="auth-header">
+          <div className="logo-section">
+            <Users size={32} className="logo-icon" />
+            <h1>TeamHub</h1>
+          </div>
+          <h2>メールアドレスの確認</h2>
+        </div>
+
+        <div className="auth-form">
+          {message && <div className="success-message">{message}</div>}
+          {error && <div className="error-message">{error}</div>}
+          {!message && !error && <p className="auth-subtitle">確認しています...</p>}
+          <button type="button" className="auth-button" onClick={handleContinue} disabled={!message && !error}>
+            {user ? "TeamHubに戻る" : "ログイン画面へ"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -1,19 +1,47 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authAPI } from '../services/api';
+import { authAPI, clearStoredSession, onSessionExpired } from '../services/api';
+import socketService from '../services/socket';
+
+// サーバー側（server/authorization.ts）と同じ権限名
+export type Permission =
+  | 'records:write'
+  | 'projects:delete'
+  | 'revenue:edit'
+  | 'sales:view'
+  | 'members:manage'
+  | 'board:manage'
+  | 'team:manage';
+
+export type TeamRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: 'オーナー',
+  admin: '管理者',
+  member: 'メンバー',
+  viewer: '閲覧のみ'
+};
 
 interface User {
   id: string;
   email: string;
   name: string;
+  role?: TeamRole;
   teamId?: string;
   teamName?: string;
+  isTeamOwner?: boolean;
+  permissions?: Permission[];
+  emailVerified?: boolean;
 }
 
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<boolean>;
-  register: (email: string, password: string, name: string, teamName?: string) => Promise<boolean>;
-  logout: () => void;
+  register: (email: string, password: string, name: string, options?: { teamName?: string; inviteToken?: string }) => Promise<boolean>;
+  logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
+  refreshUser: () => Promise<void>;
+  role: TeamRole | null;
+  can: (permission: Permission) => boolean;
   isLoading: boolean;
   isAuthenticated: boolean;
 }
@@ -38,51 +66,84 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         setUser(JSON.parse(savedUser));
       } catch (error) {
         console.error('Failed to parse saved user:', error);
-        localStorage.removeItem('user');
-        localStorage.removeItem('token');
+        clearStoredSession();
       }
+      // 参加承認などで所属チームが変わっている場合があるため最新の情報を取得する
+      authAPI.me()
+        .then(response => saveUser(response.user))
+        .catch(error => console.error('Failed to refresh user:', error));
     }
     setIsLoading(false);
+
+    // ログインの有効期限が切れたら、ログイン画面に戻す
+    onSessionExpired(() => setUser(null));
+    return () => onSessionExpired(null);
   }, []);
 
+  // チームに所属している間はリアルタイム同期に接続する（所属やロールが変わったら接続し直す）
+  const userId = user?.id;
+  const teamId = user?.teamId;
+  const role = user?.role;
+  useEffect(() => {
+    if (!userId || !teamId || !localStorage.getItem('token')) return;
+    socketService.connect();
+    return () => socketService.disconnect();
+  }, [userId, teamId, role]);
+
+  const saveUser = (nextUser: User) => {
+    setUser(nextUser);
+    localStorage.setItem('user', JSON.stringify(nextUser));
+  };
+
+  const saveSession = (response: { user: User; token: string; refreshToken: string }) => {
+    saveUser(response.user);
+    localStorage.setItem('token', response.token);
+    localStorage.setItem('refreshToken', response.refreshToken);
+  };
+
+  const refreshUser = async () => {
+    const response = await authAPI.me();
+    saveUser(response.user);
+  };
+
+  // 失敗した理由（パスワードの条件・ロックなど）を画面に表示できるよう、APIのエラーはそのまま投げる
   const login = async (email: string, password: string): Promise<boolean> => {
-    try {
-      const response = await authAPI.login({ email, password });
-      
-      if (response.user && response.token) {
-        setUser(response.user);
-        localStorage.setItem('user', JSON.stringify(response.user));
-        localStorage.setItem('token', response.token);
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('Login error:', error);
-      return false;
+    const response = await authAPI.login({ email, password });
+    if (response.user && response.token) {
+      saveSession(response);
+      return true;
     }
+    return false;
   };
 
-  const register = async (email: string, password: string, name: string, teamName?: string): Promise<boolean> => {
-    try {
-      const response = await authAPI.register({ email, password, name, teamName });
-      
-      if (response.user && response.token) {
-        setUser(response.user);
-        localStorage.setItem('user', JSON.stringify(response.user));
-        localStorage.setItem('token', response.token);
-        return true;
-      }
-      return false;
-    } catch (error) {
-      console.error('Registration error:', error);
-      return false;
+  const register = async (
+    email: string,
+    password: string,
+    name: string,
+    options: { teamName?: string; inviteToken?: string } = {}
+  ): Promise<boolean> => {
+    const response = await authAPI.register({ email, password, name, ...options });
+    if (response.user && response.token) {
+      saveSession(response);
+      return true;
     }
+    return false;
+  };
+
+  // サーバー側のセッションも無効にする（失敗しても端末からはログアウトする）
+  const logout = async () => {
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      await authAPI.logout(refreshToken).catch(error => console.error('Logout error:', error));
+    }
+    setUser(null);
+    clearStoredSession();
   };
 
-  const logout = () => {
+  const logoutEverywhere = async () => {
+    await authAPI.logoutAll();
     setUser(null);
-    localStorage.removeItem('user');
-    localStorage.removeItem('token');
+    clearStoredSession();
   };
 
   const value: AuthContextType = {
@@ -90,6 +151,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     register,
     logout,
+    logoutEverywhere,
+    refreshUser,
+    role: user?.role ?? null,
+    // 操作の可否の表示用。実際の制限はサーバー側で行う
+    can: (permission: Permission) => !!user?.permissions?.includes(permission),
     isLoading,
     isAuthenticated: !!user
   };
@@ -0,0 +1,154 @@
+import React, { createContext, useContext, useEffect, useMemo, useSyncExternalStore, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import socketService, { DataUpdatedEvent, DataDeletedEvent } from '../services/socket';
+import { dataStore, DataStore, DataMode } from '../data/store';
+import { CollectionName, CollectionTypes, RecordInput } from '../data/collections';
+
+interface DataContextType {
+  store: DataStore;
+  mode: DataMode;
+  // 送信待ちの変更の保存先（チームモードのログイン中のユーザー）
+  syncOwner: string | null;
+}
+
+const DataContext = createContext<DataContextType>({ store: dataStore, mode: 'local', syncOwner: null });
+
+interface DataProviderProps {
+  children: ReactNode;
+  store?: DataStore;
+}
+
+// チームに所属している場合はAPI、未所属またはREACT_APP_DATA_BACKEND=localの場合はLocalStorageにデータを保存する
+export const DataProvider: React.FC<DataProviderProps> = ({ children, store = dataStore }) => {
+  const { user } = useAuth();
+  const mode: DataMode = process.env.REACT_APP_DATA_BACKEND === 'local' || !user?.teamId ? 'local' : 'api';
+  const syncOwner = mode === 'api' && user ? user.id : null;
+
+  useEffect(() => {
+    store.setSyncOwner(syncOwner);
+    store.setMode(mode);
+  }, [store, mode, syncOwner]);
+
+  // オフライン中の変更は、ログインしたとき・接続が戻ったときに送信する
+  useEffect(() => {
+    if (!syncOwner) return;
+    const handleOnline = () => store.replayQueue();
+    handleOnline();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [store, syncOwner]);
+
+  // チームメンバーの変更をキャッシュに反映する
+  useEffect(() => {
+    const handleUpdated = (event: DataUpdatedEvent) => store.applyRemoteUpdate(event.dataType, event.data);
+    const handleDeleted = (event: DataDeletedEvent) => store.applyRemoteDelete(event.dataType, event.id);
+    socketService.on('dataUpdated', handleUpdated);
+    socketService.on('dataDeleted', handleDeleted);
+    return () => {
+      socketService.off('dataUpdated', handleUpdated);
+      socketService.off('dataDeleted', handleDeleted);
+    };
+  }, [store]);
+
+  const value = useMemo(() => ({ store, mode, syncOwner }), [store, mode, syncOwner]);
+
+  return (
+    <DataContext.Provider value={value}>
+      {children}
+    </DataContext.Provider>
+  );
+};
+
+export const useDataMode = () => useContext(DataContext).mode;
+
+const NO_ITEMS: never[] = [];
+
+// enabled が false の場合は読み込まない（権限のないデータを参照する画面など）
+const useCollection = <N extends CollectionName>(name: N, enabled = true) => {
+  const { store, mode, syncOwner } = useContext(DataContext);
+  const state = useSyncExternalStore(
+    listener => store.subscribe(name, listener),
+    () => store.getState(name)
+  );
+
+  // 子コンポーネントのeffectはProviderより先に実行されるため、ここでも保存先を合わせてから読み込む
+  useEffect(() => {
+    store.setSyncOwner(syncOwner);
+    store.setMode(mode);
+    if (enabled) store.load(name);
+  }, [store, name, mode, syncOwner, state.isLoaded, enabled]);
+
+  const actions = useMemo(() => ({
+    create: (input: RecordInput<CollectionTypes[N]>) => store.create(name, input),
+    update: (id: string, changes: Partial<CollectionTypes[N]>) => store.update(name, id, changes),
+    remove: (id: string) => store.remove(name, id),
+    reload: () => store.load(name, true)
+  }), [store, name]);
+
+  return {
+    items: enabled ? state.items : NO_ITEMS,
+    isLoading: state.isLoading,
+    error: state.error,
+    isReadOnly: store.isReadOnly(name),
+    ...actions
+  };
+};
+
+export const useTasks = () => {
+  const { items, ...rest } = useCollection('tasks');
+  return { tasks: items, ...rest };
+};
+
+export const useProjects = () => {
+  const { items, ...rest } = useCollection('projects');
+  return { projects: items, ...rest };
+};
+
+export const useLeads = ({ enabled = true }: { enabled?: boolean } = {}) => {
+  const { items, ...rest } = useCollection('leads', enabled);
+  return { leads: items, ...rest };
+};
+
+const subscribeOnline = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+// 送信待ちの変更と接続状態（サイドバーの表示用）
+export const useSyncQueue = () => {
+  const { store, mode } = useContext(DataContext);
+  const entries = useSyncExternalStore(listener => store.subscribeSync(listener), () => store.getSyncEntries());
+  const isOnline = useSyncExternalStore(subscribeOnline, () => navigator.onLine);
+
+  const actions = useMemo(() => ({
+    retry: (id: string) => store.retrySync(id),
+    discard: (id: string) => store.discardSync(id)
+  }), [store]);
+
+  return { entries, isOnline, isEnabled: mode === 'api', ...actions };
+};
+
+export const useTeamMembers = () => {
+  const { items, ...rest } = useCollection('teamMembers');
+  return { teamMembers: items, ...rest };
+};
+
+// ダッシュボードで手入力するデータ（チームモードでも端末に保存する）
+export const useSalesRecords = () => {
+  const { items, ...rest } = useCollection('salesRecords');
+  return { salesRecords: items, ...rest };
+};
+
+export const useMeetings = () => {
+  const { items, ...rest } = useCollection('meetings');
+  return { meetings: items, ...rest };
+};
+
+export const useDashboardActivities = () => {
+  const { items, ...rest } = useCollection('dashboardActivities');
+  return { activities: items, ...rest };
+};
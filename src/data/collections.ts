@@ -0,0 +1,151 @@
+import { taskAPI, projectAPI, leadAPI, teamAPI, fetchAllPages, MutationOptions } from '../services/api';
+import { RealtimeDataType } from '../services/socket';
+import { STORAGE_KEYS } from '../utils/storage';
+import { ROLE_LABELS, TeamRole } from '../contexts/AuthContext';
+import { Task, Project, Lead, TeamMember, SalesRecord, Meeting, DashboardActivity } from '../types/models';
+
+// データの種類ごとの保存先（LocalStorageのキー・REST API）と、画面で使う形への変換
+
+export interface CollectionTypes {
+  tasks: Task;
+  projects: Project;
+  leads: Lead;
+  teamMembers: TeamMember;
+  salesRecords: SalesRecord;
+  meetings: Meeting;
+  dashboardActivities: DashboardActivity;
+}
+
+export type CollectionName = keyof CollectionTypes;
+
+// 作成時に渡す値（ID・作成日時・更新日時は保存先で付ける）
+export type RecordInput<T> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface CollectionApi {
+  list: () => Promise<any[]>;
+  // 未定義の操作はチームモードでは利用できない
+  create?: (data: any, options?: MutationOptions) => Promise<any>;
+  update?: (id: string, data: any) => Promise<any>;
+  remove?: (id: string) => Promise<unknown>;
+}
+
+export interface CollectionDefinition<T> {
+  storageKey: string;
+  realtimeType?: RealtimeDataType;
+  // 未定義の場合はサーバーに保存先がないため、チームモードでもLocalStorageに保存する
+  api?: CollectionApi;
+  // LocalStorageに保存されている値（旧データはIDが数値）を画面の型にする
+  fromLocal: (raw: any) => T;
+  // APIのレスポンス（日付はISO形式、未入力はnull）を画面の型にする
+  fromServer: (raw: any) => T;
+}
+
+// APIから返るISO日時を日付入力欄の形式（YYYY-MM-DD）に揃える
+export const toDateInput = (value?: string | null) => (value ? value.split('T')[0] : '');
+
+const withStringId = <T>(raw: any): T => ({ ...raw, id: String(raw.id) });
+
+export const COLLECTIONS: { [N in CollectionName]: CollectionDefinition<CollectionTypes[N]> } = {
+  tasks: {
+    storageKey: STORAGE_KEYS.TASKS_DATA,
+    realtimeType: 'tasks',
+    api: {
+      list: () => fetchAllPages(taskAPI.getTasks),
+      create: taskAPI.createTask,
+      update: taskAPI.updateTask,
+      remove: taskAPI.deleteTask
+    },
+    fromLocal: withStringId,
+    fromServer: (raw): Task => ({
+      ...raw,
+      description: raw.description ?? '',
+      assignee: raw.assignee ?? '',
+      dueDate: toDateInput(raw.dueDate),
+      meetingLink: raw.meetingLink ?? undefined,
+      notes: raw.notes ?? undefined,
+      blockedByIds: Array.isArray(raw.blockedByIds) ? raw.blockedByIds : []
+    })
+  },
+
+  projects: {
+    storageKey: STORAGE_KEYS.PROJECTS_DATA,
+    realtimeType: 'projects',
+    api: {
+      list: () => fetchAllPages(projectAPI.getProjects),
+      create: projectAPI.createProject,
+      update: projectAPI.updateProject,
+      remove: projectAPI.deleteProject
+    },
+    fromLocal: withStringId,
+    fromServer: (raw): Project => ({
+      ...raw,
+      description: raw.description ?? '',
+      startDate: toDateInput(raw.startDate),
+      endDate: toDateInput(raw.endDate),
+      actualRevenue: raw.actualRevenue ?? undefined,
+      teamMembers: raw.teamMembers ?? [],
+      deliverables: Array.isArray(raw.deliverables) ? raw.deliverables : [],
+      notes: raw.notes ?? '',
+      completedDate: raw.completedDate ?? undefined
+    })
+  },
+
+  leads: {
+    storageKey: STORAGE_KEYS.LEADS_DATA,
+    realtimeType: 'leads',
+    api: {
+      list: () => fetchAllPages(leadAPI.getLeads),
+      create: leadAPI.createLead,
+      update: leadAPI.updateLead,
+      remove: leadAPI.deleteLead
+    },
+    fromLocal: withStringId,
+    fromServer: (raw): Lead => ({
+      ...raw,
+      contactEmail: raw.contactEmail ?? '',
+      contactPhone: raw.contactPhone ?? '',
+      companyUrl: raw.companyUrl ?? '',
+      value: raw.value ?? 0,
+      nextAction: raw.nextAction ?? '',
+      lastContact: toDateInput(raw.lastContact),
+      meetingDate: toDateInput(raw.meetingDate) || undefined,
+      meetingLink: raw.meetingLink ?? undefined,
+      services: Array.isArray(raw.services) ? raw.services : [],
+      notes: raw.notes ?? ''
+    })
+  },
+
+  // チームモードのメンバーはチーム設定（招待・承認）で管理するため、ここからは変更できない
+  teamMembers: {
+    storageKey: STORAGE_KEYS.TEAM_MEMBERS,
+    api: {
+      list: teamAPI.getMembers
+    },
+    fromLocal: withStringId,
+    fromServer: (raw): TeamMember => ({
+      id: raw.id,
+      name: raw.name || raw.email,
+      role: ROLE_LABELS[raw.role as TeamRole] ?? raw.role
+    })
+  },
+
+  // 以下はダッシュボードで手入力するデータ（サーバーに保存先がない）
+  salesRecords: {
+    storageKey: STORAGE_KEYS.SALES_DATA,
+    // 旧データにはIDがないため、月をIDにする
+    fromLocal: (raw): SalesRecord => ({ ...raw, id: String(raw.id ?? raw.month) }),
+    fromServer: withStringId
+  },
+
+  meetings: {
+    storageKey: STORAGE_KEYS.MEETINGS,
+    fromLocal: withStringId,
+    fromServer: withStringId
+  },
+
+  dashboardActivities: {
+    storageKey: STORAGE_KEYS.ACTIVITIES,
+    fromLocal: withStringId,
+    fromServer: withStringId
+  }
+};
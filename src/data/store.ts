@@ -0,0 +1,430 @@
+import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import { RealtimeDataType } from '../services/socket';
+import { COLLECTIONS, CollectionDefinition, CollectionName, CollectionTypes, RecordInput } from './collections';
+import {
+  SyncQueue,
+  SyncEntry,
+  OFFLINE_ID_PREFIX,
+  applyQueued,
+  createIdempotencyKey,
+  isNetworkError,
+  isOfflineId,
+  retryDelayOf,
+  syncResultOf
+} from './syncQueue';
+
+// 画面間で共有するデータのキャッシュ
+// 保存先は local（LocalStorage。オフライン・デモ用）と api（REST API。チームで共有）を切り替えられる
+// 同じ種類のデータを使う画面（例: タスク管理とダッシュボード）は同じキャッシュを参照する
+
+export type DataMode = 'local' | 'api';
+
+export interface CollectionState<T> {
+  items: T[];
+  isLoading: boolean;
+  isLoaded: boolean;
+  error: Error | null;
+}
+
+type Listener = () => void;
+type Definitions = { [N in CollectionName]: CollectionDefinition<CollectionTypes[N]> };
+
+const INITIAL_STATE: CollectionState<never> = { items: [], isLoading: false, isLoaded: false, error: null };
+const NO_SYNC_ENTRIES: SyncEntry[] = [];
+
+// 接続できない間の送信待ちの変更は、この間隔で送信を試す（接続が戻ったときも送信する）
+const OFFLINE_RETRY_MS = 30 * 1000;
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export class ReadOnlyCollectionError extends Error {
+  constructor() {
+    super('この操作はチームモードでは利用できません');
+    this.name = 'ReadOnlyCollectionError';
+  }
+}
+
+// 編集中に他のメンバーが同じデータを更新していた場合（サーバーが409を返した場合）
+// current はサーバーの最新の内容（削除されていた場合は null）
+export class VersionConflictError<T = unknown> extends Error {
+  constructor(public current: T | null, message = '他のメンバーがこのデータを更新しました') {
+    super(message);
+    this.name = 'VersionConflictError';
+  }
+}
+
+const conflictOf = (error: any): { current: unknown; error?: string } | null => {
+  const data = error?.response?.status === 409 ? error.response.data : null;
+  return data && typeof data === 'object' && 'current' in data ? data : null;
+};
+
+export class DataStore {
+  private mode: DataMode = 'local';
+  private states = new Map<CollectionName, CollectionState<any>>();
+  private listeners = new Map<CollectionName, Set<Listener>>();
+  private pending = new Map<CollectionName, Promise<void>>();
+  private queue: SyncQueue | null = null;
+  private queueKey: string | null = null;
+  private syncListeners = new Set<Listener>();
+  private replaying: Promise<void> | null = null;
+  private replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private definitions: Definitions = COLLECTIONS,
+    private storage: Pick<typeof LocalStorage, 'get' | 'set'> = LocalStorage
+  ) {}
+
+  getMode(): DataMode {
+    return this.mode;
+  }
+
+  // 保存先を切り替えると、キャッシュを破棄して読み込み直させる
+  setMode(mode: DataMode) {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.states.clear();
+    this.pending.clear();
+    this.listeners.forEach((_, name) => this.notify(name));
+  }
+
+  // 送信待ちの変更はログインしているユーザーごとに保存する（null の場合はオフライン中の変更を受け付けない）
+  setSyncOwner(ownerId: string | null) {
+    const key = ownerId ? `${STORAGE_KEYS.SYNC_QUEUE}:${ownerId}` : null;
+    if (key === this.queueKey) return;
+    this.queueKey = key;
+    this.queue = key ? new SyncQueue(this.storage, key, () => this.notifySync()) : null;
+    this.notifySync();
+  }
+
+  getSyncEntries(): SyncEntry[] {
+    return this.queue?.getEntries() ?? NO_SYNC_ENTRIES;
+  }
+
+  subscribeSync(listener: Listener): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  // 送信待ちの変更を保存した順に送信する（同時に1つだけ実行する）
+  replayQueue(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  // 送信できなかった変更を送り直す
+  retrySync(id: string): Promise<void> {
+    this.queue?.update(id, { error: undefined, attempts: 0 });
+    return this.replayQueue();
+  }
+
+  // 送信できなかった変更を破棄し、画面の内容をサーバーに合わせる
+  discardSync(id: string) {
+    const entry = this.queue?.getEntries().find(queued => queued.id === id);
+    if (!entry) return;
+    this.queue!.remove(id);
+    if (this.getState(entry.collection).isLoaded) this.load(entry.collection, true);
+  }
+
+  isReadOnly(name: CollectionName): boolean {
+    const { api } = this.definitions[name];
+    return this.modeOf(name) === 'api' && !(api?.create && api.update && api.remove);
+  }
+
+  getState<N extends CollectionName>(name: N): CollectionState<CollectionTypes[N]> {
+    return this.states.get(name) ?? INITIAL_STATE;
+  }
+
+  subscribe(name: CollectionName, listener: Listener): () => void {
+    if (!this.listeners.has(name)) {
+      this.listeners.set(name, new Set());
+    }
+    this.listeners.get(name)!.add(listener);
+    return () => {
+      this.listeners.get(name)?.delete(listener);
+    };
+  }
+
+  // 読み込み済みの場合は force を指定したときだけ読み込み直す
+  load(name: CollectionName, force = false): Promise<void> {
+    const state = this.getState(name);
+    if (this.pending.has(name)) return this.pending.get(name)!;
+    if (state.isLoaded && !force) return Promise.resolve();
+
+    const mode = this.mode;
+    this.setState(name, { ...state, isLoading: true, error: null });
+    const request = this.fetchAll(name)
+      .then(items => {
+        if (mode !== this.mode) return;
+        this.setState(name, { items, isLoading: false, isLoaded: true, error: null });
+      })
+      .catch(error => {
+        if (mode !== this.mode) return;
+        console.error(`Failed to load ${name}:`, error);
+        this.setState(name, { ...this.getState(name), isLoading: false, isLoaded: true, error });
+      })
+      .finally(() => {
+        if (mode === this.mode) this.pending.delete(name);
+      });
+    this.pending.set(name, request);
+    return request;
+  }
+
+  async create<N extends CollectionName>(name: N, input: RecordInput<CollectionTypes[N]>): Promise<CollectionTypes[N]> {
+    const definition = this.definitions[name];
+    let item: CollectionTypes[N];
+    if (this.modeOf(name) === 'api') {
+      const create = definition.api?.create;
+      if (!create) throw new ReadOnlyCollectionError();
+      const key = createIdempotencyKey();
+      item = await this.sendOrQueue(
+        async () => definition.fromServer(await create(input, { idempotencyKey: key })),
+        () => {
+          const entry = this.queue!.add({ id: key, collection: name, action: 'create', recordId: OFFLINE_ID_PREFIX + key, data: input });
+          return applyQueued<CollectionTypes[N]>([], [entry])[0];
+        }
+      );
+    } else {
+      const now = new Date().toISOString();
+      item = { ...input, id: String(Date.now()), createdAt: now, updatedAt: now } as unknown as CollectionTypes[N];
+      this.saveLocal(name, [...this.readLocal(name), item]);
+    }
+    this.upsert(name, item);
+    return item;
+  }
+
+  async update<N extends CollectionName>(name: N, id: string, changes: Partial<CollectionTypes[N]>): Promise<CollectionTypes[N]> {
+    const definition = this.definitions[name];
+    let item: CollectionTypes[N];
+    if (this.modeOf(name) === 'api') {
+      const update = definition.api?.update;
+      if (!update) throw new ReadOnlyCollectionError();
+      item = await this.sendOrQueue(
+        async () => {
+          try {
+            return definition.fromServer(await update(id, changes));
+          } catch (error) {
+            const conflict = conflictOf(error);
+            if (!conflict) throw error;
+            // 競合した場合は最新の内容をキャッシュに反映してから知らせる
+            throw new VersionConflictError(this.applyCurrent(name, id, conflict.current), conflict.error);
+          }
+        },
+        () => {
+          this.queue!.add({ id: createIdempotencyKey(), collection: name, action: 'update', recordId: id, data: changes });
+          const current = this.getState(name).items.find(record => record.id === id);
+          return { ...current, ...changes, id } as CollectionTypes[N];
+        },
+        id
+      );
+    } else {
+      const items = this.readLocal(name);
+      const current = items.find(record => record.id === id);
+      if (!current) throw new Error(`${name}/${id} が見つかりません`);
+      item = { ...current, ...changes, id, updatedAt: new Date().toISOString() };
+      this.saveLocal(name, items.map(record => (record.id === id ? item : record)));
+    }
+    this.upsert(name, item);
+    return item;
+  }
+
+  async remove(name: CollectionName, id: string): Promise<void> {
+    const definition = this.definitions[name];
+    if (this.modeOf(name) === 'api') {
+      const remove = definition.api?.remove;
+      if (!remove) throw new ReadOnlyCollectionError();
+      await this.sendOrQueue(
+        () => remove(id),
+        () => this.queue!.add({ id: createIdempotencyKey(), collection: name, action: 'remove', recordId: id }),
+        id
+      );
+    } else {
+      this.saveLocal(name, this.readLocal(name).filter(record => record.id !== id));
+    }
+    this.removeFromCache(name, id);
+  }
+
+  // チームメンバーの変更通知（Socket.IO）をキャッシュに反映する。データが含まれない通知は読み込み直す
+  applyRemoteUpdate(dataType: RealtimeDataType, data: unknown) {
+    if (this.mode !== 'api') return;
+    for (const name of this.namesFor(dataType)) {
+      if (data && typeof data === 'object') {
+        this.upsert(name, this.definitions[name].fromServer(data));
+      } else if (this.getState(name).isLoaded) {
+        this.load(name, true);
+      }
+    }
+  }
+
+  applyRemoteDelete(dataType: RealtimeDataType, id: string) {
+    if (this.mode !== 'api') return;
+    for (const name of this.namesFor(dataType)) {
+      this.removeFromCache(name, id);
+    }
+  }
+
+  // 接続できない場合・先に送信待ちの変更がある場合（順番を保つため）・送信前に作成したデータの変更は、送信待ちに追加する
+  // 送信したがサーバーに届かなかった場合も送信待ちに追加し、同じ冪等キーで送り直す
+  private async sendOrQueue<T>(send: () => Promise<T>, enqueue: () => T, recordId?: string): Promise<T> {
+    const queue = this.queue;
+    if (queue && (isBrowserOffline() || queue.hasPending() || (recordId !== undefined && isOfflineId(recordId)))) {
+      const result = enqueue();
+      this.replayQueue();
+      return result;
+    }
+    try {
+      return await send();
+    } catch (error) {
+      if (!queue || !isNetworkError(error)) throw error;
+      const result = enqueue();
+      this.scheduleReplay(OFFLINE_RETRY_MS);
+      return result;
+    }
+  }
+
+  private async runReplay() {
+    const queue = this.queue;
+    if (!queue) return;
+    for (let entry = queue.next(); entry; entry = queue.next()) {
+      if (this.mode !== 'api' || this.queue !== queue || isBrowserOffline()) return;
+      if (entry.action !== 'create' && isOfflineId(entry.recordId)) {
+        queue.update(entry.id, { error: '作成できなかったデータへの変更のため送信できません' });
+        continue;
+      }
+
+      try {
+        await this.send(queue, entry);
+        queue.remove(entry.id);
+      } catch (error) {
+        const conflict = conflictOf(error);
+        if (conflict) this.applyCurrent(entry.collection, entry.recordId, conflict.current);
+
+        const result = syncResultOf(entry, error);
+        if (result.outcome === 'done') {
+          queue.remove(entry.id);
+          this.removeFromCache(entry.collection, entry.recordId);
+        } else if (result.outcome === 'failed') {
+          // 送信できなかった変更は画面に残さない（送信待ちの一覧から送り直すか破棄する）
+          queue.update(entry.id, { attempts: entry.attempts + 1, error: result.message });
+          if (this.getState(entry.collection).isLoaded) this.load(entry.collection, true);
+        } else {
+          if (result.outcome === 'retry') queue.update(entry.id, { attempts: entry.attempts + 1 });
+          this.scheduleReplay(result.outcome === 'retry' ? retryDelayOf(entry.attempts + 1) : OFFLINE_RETRY_MS);
+          return;
+        }
+      }
+    }
+  }
+
+  private async send(queue: SyncQueue, entry: SyncEntry) {
+    const name = entry.collection;
+    // 送信待ちの変更は、サーバーに保存先があるデータにのみ追加される
+    const { fromServer } = this.definitions[name];
+    const api = this.definitions[name].api!;
+    if (entry.action === 'create') {
+      const item = fromServer(await api.create!(entry.data, { idempotencyKey: entry.id }));
+      queue.replaceRecordId(entry.recordId, item.id);
+      this.replaceInCache(name, entry.recordId, item);
+    } else if (entry.action === 'update') {
+      const item = fromServer(await api.update!(entry.recordId, entry.data));
+      // 同じ編集内容を元にした後続の変更は、更新後の version で送る
+      if (typeof entry.data?.version === 'number' && typeof (item as { version?: number }).version === 'number') {
+        queue.advanceVersion(entry.recordId, entry.data.version, (item as { version: number }).version);
+      }
+      this.upsert(name, item);
+    } else {
+      await api.remove!(entry.recordId);
+      this.removeFromCache(name, entry.recordId);
+    }
+  }
+
+  private scheduleReplay(delayMs: number) {
+    if (this.replayTimer) clearTimeout(this.replayTimer);
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = null;
+      this.replayQueue();
+    }, delayMs);
+  }
+
+  // サーバーの最新の内容をキャッシュに反映する（削除されていた場合は null）
+  private applyCurrent<N extends CollectionName>(name: N, id: string, raw: unknown): CollectionTypes[N] | null {
+    const current = raw ? this.definitions[name].fromServer(raw) : null;
+    if (current) this.upsert(name, current);
+    else this.removeFromCache(name, id);
+    return current;
+  }
+
+  // サーバーに保存先がないデータは、チームモードでもLocalStorageに保存する
+  private modeOf(name: CollectionName): DataMode {
+    return this.definitions[name].api ? this.mode : 'local';
+  }
+
+  private namesFor(dataType: RealtimeDataType): CollectionName[] {
+    return (Object.keys(this.definitions) as CollectionName[]).filter(name => this.definitions[name].realtimeType === dataType);
+  }
+
+  private async fetchAll<N extends CollectionName>(name: N): Promise<CollectionTypes[N][]> {
+    const definition = this.definitions[name];
+    if (this.modeOf(name) === 'api') {
+      const records = await definition.api!.list();
+      return applyQueued(records.map(record => definition.fromServer(record)), this.queue?.pendingFor(name) ?? []);
+    }
+    return this.readLocal(name);
+  }
+
+  private readLocal<N extends CollectionName>(name: N): CollectionTypes[N][] {
+    const definition = this.definitions[name];
+    const records = this.storage.get<any[]>(definition.storageKey);
+    return Array.isArray(records) ? records.map(record => definition.fromLocal(record)) : [];
+  }
+
+  private saveLocal<N extends CollectionName>(name: N, items: CollectionTypes[N][]) {
+    this.storage.set(this.definitions[name].storageKey, items);
+  }
+
+  // 読み込み前のキャッシュには追加しない（読み込み時にまとめて取得する）
+  private upsert<N extends CollectionName>(name: N, item: CollectionTypes[N]) {
+    const state = this.getState(name);
+    if (!state.isLoaded) return;
+    const exists = state.items.some(record => record.id === item.id);
+    const items = exists
+      ? state.items.map(record => (record.id === item.id ? item : record))
+      : [...state.items, item];
+    this.setState(name, { ...state, items });
+  }
+
+  private replaceInCache<N extends CollectionName>(name: N, id: string, item: CollectionTypes[N]) {
+    const state = this.getState(name);
+    if (!state.items.some(record => record.id === id)) {
+      this.upsert(name, item);
+      return;
+    }
+    this.setState(name, { ...state, items: state.items.map(record => (record.id === id ? item : record)) });
+  }
+
+  private removeFromCache(name: CollectionName, id: string) {
+    const state = this.getState(name);
+    if (!state.items.some(record => record.id === id)) return;
+    this.setState(name, { ...state, items: state.items.filter(record => record.id !== id) });
+  }
+
+  private setState(name: CollectionName, state: CollectionState<any>) {
+    this.states.set(name, state);
+    this.notify(name);
+  }
+
+  private notify(name: CollectionName) {
+    this.listeners.get(name)?.forEach(listener => listener());
+  }
+
+  private notifySync() {
+    this.syncListeners.forEach(listener => listener());
+  }
+}
+
+export const dataStore = new DataStore();
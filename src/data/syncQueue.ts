@@ -0,0 +1,145 @@
+import { LocalStorage } from '../utils/storage';
+import { CollectionName } from './collections';
+
+// オフライン中の変更の送信待ち（チームモードのみ）
+// 接続できない間の変更はLocalStorageに順番に保存し、接続が戻ったときに保存した順に送信する
+// 作成は変更ごとのIDを冪等キーとして送るため、送信済みの作成を再送しても重複して作成されない
+
+export type SyncAction = 'create' | 'update' | 'remove';
+
+export interface SyncEntry {
+  // 作成の場合は冪等キーを兼ねる
+  id: string;
+  collection: CollectionName;
+  action: SyncAction;
+  // 作成の場合は、送信するまで画面で使う仮のID（offline-で始まる）
+  recordId: string;
+  data?: Record<string, any>;
+  queuedAt: string;
+  attempts: number;
+  // 送信できなかった理由（設定されている場合は自動では送り直さない）
+  error?: string;
+}
+
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+// サーバーのエラー（5xx など）はこの回数まで時間をおいて送り直す
+export const MAX_SYNC_ATTEMPTS = 5;
+
+export const isOfflineId = (id: string) => id.startsWith(OFFLINE_ID_PREFIX);
+
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+// リクエストがサーバーに届かなかった（応答がない）エラー
+export const isNetworkError = (error: any): boolean => !!error?.request && !error.response;
+
+export type SyncResult =
+  | { outcome: 'done' }
+  | { outcome: 'offline' }
+  | { outcome: 'retry' }
+  | { outcome: 'failed'; message: string };
+
+// 送信に失敗したときの扱い
+export const syncResultOf = (entry: SyncEntry, error: any): SyncResult => {
+  if (isNetworkError(error)) return { outcome: 'offline' };
+  const status: number | undefined = error?.response?.status;
+  const message: string = error?.response?.data?.error || error?.message || '送信に失敗しました';
+  // 削除済み（送信済みの削除を再送した場合も含む）
+  if (status === 404 && entry.action === 'remove') return { outcome: 'done' };
+  // 同じ変更を処理中（冪等キーが処理中）の場合は後で送り直す
+  const isInProgress = status === 409 && !(error.response.data && 'current' in error.response.data);
+  if (!status || status >= 500 || status === 408 || status === 429 || isInProgress) {
+    return entry.attempts + 1 < MAX_SYNC_ATTEMPTS ? { outcome: 'retry' } : { outcome: 'failed', message };
+  }
+  return { outcome: 'failed', message };
+};
+
+// 送り直すまでの待ち時間（失敗のたびに倍にする）
+export const retryDelayOf = (attempts: number): number => Math.min(1000 * 2 ** attempts, 60 * 1000);
+
+// 読み込んだ一覧に、まだ送信していない変更を重ねる
+export const applyQueued = <T extends { id: string }>(items: T[], entries: SyncEntry[]): T[] =>
+  entries.reduce<T[]>((current, entry) => {
+    switch (entry.action) {
+      case 'create':
+        return [
+          ...current,
+          { ...entry.data, id: entry.recordId, createdAt: entry.queuedAt, updatedAt: entry.queuedAt } as unknown as T
+        ];
+      case 'update':
+        return current.map(item => (item.id === entry.recordId ? { ...item, ...entry.data } : item));
+      case 'remove':
+        return current.filter(item => item.id !== entry.recordId);
+      default:
+        return current;
+    }
+  }, items);
+
+export class SyncQueue {
+  private entries: SyncEntry[];
+
+  constructor(
+    private storage: Pick<typeof LocalStorage, 'get' | 'set'>,
+    private storageKey: string,
+    private onChange: () => void = () => {}
+  ) {
+    const saved = storage.get<SyncEntry[]>(storageKey);
+    this.entries = Array.isArray(saved) ? saved : [];
+  }
+
+  getEntries(): SyncEntry[] {
+    return this.entries;
+  }
+
+  // 送信待ちの変更（送信できなかった変更は含まない）
+  pendingFor(collection?: CollectionName): SyncEntry[] {
+    return this.entries.filter(entry => !entry.error && (!collection || entry.collection === collection));
+  }
+
+  hasPending(): boolean {
+    return this.pendingFor().length > 0;
+  }
+
+  next(): SyncEntry | undefined {
+    return this.entries.find(entry => !entry.error);
+  }
+
+  add(entry: Omit<SyncEntry, 'queuedAt' | 'attempts'>): SyncEntry {
+    const queued: SyncEntry = { ...entry, queuedAt: new Date().toISOString(), attempts: 0 };
+    this.save([...this.entries, queued]);
+    return queued;
+  }
+
+  update(id: string, changes: Partial<SyncEntry>) {
+    this.save(this.entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry)));
+  }
+
+  remove(id: string) {
+    this.save(this.entries.filter(entry => entry.id !== id));
+  }
+
+  // 作成を送信できたら、後に続く変更の仮のIDをサーバーのIDに置き換える
+  replaceRecordId(from: string, to: string) {
+    if (!this.entries.some(entry => entry.recordId === from)) return;
+    this.save(this.entries.map(entry => (entry.recordId === from ? { ...entry, recordId: to } : entry)));
+  }
+
+  // 送信した更新と同じ version を元にした後続の更新は、更新後の version で送る（自分の変更どうしを競合させない）
+  advanceVersion(recordId: string, from: number, to: number) {
+    const isFollowing = (entry: SyncEntry) =>
+      entry.recordId === recordId && entry.action === 'update' && entry.data?.version === from;
+    if (!this.entries.some(isFollowing)) return;
+    this.save(this.entries.map(entry => (isFollowing(entry) ? { ...entry, data: { ...entry.data, version: to } } : entry)));
+  }
+
+  private save(entries: SyncEntry[]) {
+    this.entries = entries;
+    this.storage.set(this.storageKey, entries);
+    this.onChange();
+  }
+}
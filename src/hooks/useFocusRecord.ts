@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// グローバル検索から ?focus=<ID> 付きで開かれたときに、対象のレコードまでスクロールして強調する
+// onFocus を指定した場合は詳細の表示などに使う（一覧の要素には data-record-id を付けておく）
+export const FOCUS_PARAM = 'focus';
+
+// 強調はCSSのアニメーション（App.css）で表示し、終わったらクラスを外す
+const HIGHLIGHT_CLASS = 'search-highlight';
+
+export const useFocusRecord = <T extends { id: string }>(
+  items: T[],
+  onFocus?: (item: T) => void,
+  matches: (item: T, id: string) => boolean = (item, id) => item.id === id
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const focusId = searchParams.get(FOCUS_PARAM);
+  const onFocusRef = useRef(onFocus);
+  onFocusRef.current = onFocus;
+  const matchesRef = useRef(matches);
+  matchesRef.current = matches;
+
+  // 一覧の読み込みが終わって対象が見つかった時点で一度だけ処理する
+  useEffect(() => {
+    if (!focusId) return;
+    const item = items.find(record => matchesRef.current(record, focusId));
+    if (!item) return;
+
+    onFocusRef.current?.(item);
+    setSearchParams(params => {
+      params.delete(FOCUS_PARAM);
+      return params;
+    }, { replace: true });
+
+    const element = document.querySelector(`[data-record-id="${CSS.escape(item.id)}"]`);
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.add(HIGHLIGHT_CLASS);
+    element.addEventListener('animationend', () => element.classList.remove(HIGHLIGHT_CLASS), { once: true });
+  }, [focusId, items, setSearchParams]);
+};
@@ -0,0 +1,23 @@
+import { useCallback, useRef } from 'react';
+import { MutationOptions } from '../services/api';
+import { createIdempotencyKey, isNetworkError } from '../data/syncQueue';
+
+// 画面から直接送る作成操作の冪等キー
+// 応答を受け取れなかった（通信エラー・タイムアウト）操作を送り直すときは同じキーを使い、サーバーに届いていても重複して作成されないようにする
+// 応答を受け取ったら次の操作には新しいキーを使う。scope（送信先のIDなど）が変わった場合も新しいキーにする
+export const useIdempotencyKey = () => {
+  const pending = useRef<{ key: string; scope: string } | null>(null);
+
+  return useCallback(async <T>(send: (options: MutationOptions) => Promise<T>, scope = ''): Promise<T> => {
+    const key = pending.current?.scope === scope ? pending.current.key : createIdempotencyKey();
+    pending.current = { key, scope };
+    try {
+      const result = await send({ idempotencyKey: key });
+      pending.current = null;
+      return result;
+    } catch (error) {
+      if (!isNetworkError(error)) pending.current = null;
+      throw error;
+    }
+  }, []);
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { useDataMode } from '../contexts/DataContext';
+import { timeEntryAPI } from '../services/api';
+
+// 案件ごとの作業時間（分）と人件費（円）。チームモードのみで、人件費は売上を編集できる場合のみ
+export const useProjectTimeTotals = () => {
+  const dataMode = useDataMode();
+  const [minutesByProject, setMinutesByProject] = useState<Record<string, number>>({});
+  const [laborCostByProject, setLaborCostByProject] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (dataMode !== 'api') return;
+    let cancelled = false;
+    timeEntryAPI.getProjectTotals()
+      .then(totals => {
+        if (cancelled) return;
+        setMinutesByProject(Object.fromEntries(totals.map(total => [total.projectId, total.minutes])));
+        setLaborCostByProject(Object.fromEntries(totals.map(total => [total.projectId, total.laborCost ?? 0])));
+      })
+      .catch(error => console.error('Failed to load project hours:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [dataMode]);
+
+  return { minutesByProject, laborCostByProject };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import socketService, { RealtimeDataType, DataUpdatedEvent, DataDeletedEvent } from '../services/socket';
+
+// チームメンバーが指定した種類のデータを変更したときに onChange を呼び出す
+export const useRealtimeSync = (
+  dataTypes: RealtimeDataType[],
+  onChange: (event: DataUpdatedEvent | DataDeletedEvent) => void
+) => {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const typesKey = dataTypes.join(',');
+
+  useEffect(() => {
+    const types = typesKey.split(',');
+    const handler = (event: DataUpdatedEvent | DataDeletedEvent) => {
+      if (types.includes(event.dataType)) {
+        onChangeRef.current(event);
+      }
+    };
+
+    socketService.on('dataUpdated', handler);
+    socketService.on('dataDeleted', handler);
+    return () => {
+      socketService.off('dataUpdated', handler);
+      socketService.off('dataDeleted', handler);
+    };
+  }, [typesKey]);
+};
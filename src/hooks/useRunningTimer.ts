@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useDataMode } from '../contexts/DataContext';
+import { timeEntryAPI } from '../services/api';
+import { useIdempotencyKey } from './useIdempotencyKey';
+import { TimeEntry } from '../types/models';
+import { toDateString } from '../utils/timeTracking';
+
+// 経過時間の表示を更新する間隔
+const TICK_MS = 30 * 1000;
+
+// 自分の計測中のタイマー（チームモードのみ。タイマーは1人1つで、開始すると計測中の別のタイマーは停止する）
+// start・stop は停止した作業時間を返す（一覧の更新に使う）
+export const useRunningTimer = () => {
+  const dataMode = useDataMode();
+  const [timer, setTimer] = useState<TimeEntry | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const withIdempotencyKey = useIdempotencyKey();
+
+  useEffect(() => {
+    if (dataMode !== 'api') return;
+    let cancelled = false;
+    timeEntryAPI.getTimer()
+      .then(result => {
+        if (!cancelled) setTimer(result.timer);
+      })
+      .catch(error => console.error('Failed to load timer:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [dataMode]);
+
+  useEffect(() => {
+    if (!timer) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const start = useCallback(async (taskId: string) => {
+    const result = await withIdempotencyKey(options => timeEntryAPI.startTimer(taskId, toDateString(new Date()), options), taskId);
+    setTimer(result.timer);
+    return result;
+  }, [withIdempotencyKey]);
+
+  const stop = useCallback(async () => {
+    const stopped = await timeEntryAPI.stopTimer();
+    setTimer(null);
+    return stopped;
+  }, []);
+
+  return { timer, now, start, stop };
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useDataMode } from '../contexts/DataContext';
+import { teamAPI } from '../services/api';
+import { TaskBoard } from '../types/models';
+import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import { DEFAULT_TASK_BOARD } from '../utils/taskBoard';
+
+// かんばんの列とWIP制限（チームモードはチームの設定、LocalStorageモードはこのブラウザの設定）
+export const useTaskBoard = () => {
+  const dataMode = useDataMode();
+  const [board, setBoard] = useState<TaskBoard>(DEFAULT_TASK_BOARD);
+
+  useEffect(() => {
+    if (dataMode !== 'api') {
+      setBoard(LocalStorage.get<TaskBoard>(STORAGE_KEYS.TASK_BOARD) ?? DEFAULT_TASK_BOARD);
+      return;
+    }
+    let cancelled = false;
+    teamAPI.getTaskBoard()
+      .then(saved => {
+        if (!cancelled) setBoard(saved);
+      })
+      .catch(error => console.error('Failed to load task board:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [dataMode]);
+
+  const saveBoard = useCallback(async (next: TaskBoard) => {
+    if (dataMode === 'api') {
+      setBoard(await teamAPI.updateTaskBoard(next));
+    } else {
+      LocalStorage.set(STORAGE_KEYS.TASK_BOARD, next);
+      setBoard(next);
+    }
+  }, [dataMode]);
+
+  return { board, saveBoard };
+};
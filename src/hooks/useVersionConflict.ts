@@ -0,0 +1,29 @@
+import { useState } from 'react';
+import { VersionConflictError } from '../data/store';
+import { VersionConflict } from '../utils/merge';
+
+// 編集フォームの保存で同時編集を検出する
+// 編集を始めたときの version を付けて保存し、他のメンバーが先に更新していた場合は競合の解決ダイアログ（ConflictDialog）を表示する
+export const useVersionConflict = <T extends { id: string; version?: number }>(
+  update: (id: string, changes: Partial<T>) => Promise<T>
+) => {
+  const [conflict, setConflict] = useState<VersionConflict<T> | null>(null);
+
+  // 編集を終えてよい場合は true（競合した場合は false を返し、解決後にもう一度呼ぶ）
+  const saveEdited = async (base: T, changes: Partial<T>): Promise<boolean> => {
+    try {
+      await update(base.id, { ...changes, version: base.version });
+      return true;
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error;
+      if (!error.current) {
+        alert('このデータは他のメンバーによって削除されました');
+        return true;
+      }
+      setConflict({ base, mine: changes, theirs: error.current as T });
+      return false;
+    }
+  };
+
+  return { conflict, saveEdited, clearConflict: () => setConflict(null) };
+};
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { LogOut, Monitor } from 'lucide-react';
+import { authAPI, LoginSession } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import './Account.css';
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const Account: React.FC = () => {
+  const { user, logout, logoutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<LoginSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [passwordForm, setPasswordForm] = useState({ currentPassword: '', newPassword: '', confirmPassword: '' });
+  const [passwordMessage, setPasswordMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [passwordHint, setPasswordHint] = useState('');
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await authAPI.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+    authAPI.getPasswordPolicy()
+      .then(policy => setPasswordHint(policy.description))
+      .catch(error => console.error('Failed to load password policy:', error));
+  }, []);
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.newPassword !== passwordForm.confirmPassword) {
+      setPasswordMessage({ type: 'error', text: '新しいパスワードが一致しません' });
+      return;
+    }
+    try {
+      const response = await authAPI.changePassword({
+        currentPassword: passwordForm.currentPassword,
+        newPassword: passwordForm.newPassword
+      });
+      setPasswordForm({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setPasswordMessage({ type: 'success', text: response.message });
+      loadSessions();
+    } catch (error: any) {
+      console.error('Failed to change password:', error);
+      setPasswordMessage({ type: 'error', text: error.response?.data?.error || 'パスワードの変更に失敗しました' });
+    }
+  };
+
+  const revokeSession = async (session: LoginSession) => {
+    if (session.current) {
+      await logout();
+      return;
+    }
+    try {
+      await authAPI.revokeSession(session.id);
+      setSessions(sessions.filter(s => s.id !== session.id));
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+      alert('端末のログアウトに失敗しました');
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    if (!window.confirm('この端末を含む、すべての端末からログアウトしてもよろしいですか？')) return;
+    try {
+      await logoutEverywhere();
+    } catch (error) {
+      console.error('Failed to logout everywhere:', error);
+      alert('すべての端末からのログアウトに失敗しました');
+    }
+  };
+
+  return (
+    <div className="account">
+      <div className="account-header">
+        <h1>アカウント</h1>
+        <p className="account-subtitle">{user?.name}（{user?.email}）</p>
+      </div>
+
+      <div className="account-section">
+        <h3>パスワードの変更</h3>
+        <form className="password-form" onSubmit={changePassword}>
+          <div className="form-group">
+            <label>現在のパスワード</label>
+            <input
+              type="password"
+              value={passwordForm.currentPassword}
+              onChange={(e) => setPasswordForm({ ...passwordForm, currentPassword: e.target.value })}
+              autoComplete="current-password"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label>新しいパスワード</label>
+            <input
+              type="password"
+              value={passwordForm.newPassword}
+              onChange={(e) => setPasswordForm({ ...passwordForm, newPassword: e.target.value })}
+              autoComplete="new-password"
+              required
+            />
+            {passwordHint && <small className="password-hint">{passwordHint}</small>}
+          </div>
+          <div className="form-group">
+            <label>新しいパスワード（確認）</label>
+            <input
+              type="password"
+              value={passwordForm.confirmPassword}
+              onChange={(e) => setPasswordForm({ ...passwordForm, confirmPassword: e.target.value })}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          {passwordMessage && (
+            <p className={`password-message ${passwordMessage.type}`}>{passwordMessage.text}</p>
+          )}
+          <button type="submit" className="change-password-btn">パスワードを変更</button>
+        </form>
+      </div>
+
+      <div className="account-section">
+        <div className="account-section-header">
+          <h3>ログイン中の端末</h3>
+          <button className="logout-everywhere-btn" onClick={handleLogoutEverywhere}>
+            <LogOut size={14} /> すべての端末からログアウト
+          </button>
+        </div>
+        {isLoading ? (
+          <p className="account-empty">読み込み中...</p>
+        ) : sessions.length === 0 ? (
+          <p className="account-empty">ログイン中の端末はありません</p>
+        ) : (
+          <ul className="session-list">
+            {sessions.map(session => (
+              <li key={session.id} className="session-item">
+                <Monitor size={20} />
+                <div className="session-details">
+                  <div className="session-device">
+                    {session.device}
+                    {session.current && <span className="current-session-badge">この端末</span>}
+                  </div>
+                  <div className="session-meta">
+                    {session.ipAddress && <span>IPアドレス: {session.ipAddress}</span>}
+                    <span>最終利用: {formatDateTime(session.lastUsedAt)}</span>
+                    <span>ログイン: {formatDateTime(session.createdAt)}</span>
+                  </div>
+                </div>
+                <button className="revoke-session-btn" onClick={() => revokeSession(session)}>
+                  ログアウト
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Account;
@@ -0,0 +1,509 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Search, Building, Mail, Phone, Edit2, Trash2 } from 'lucide-react';
+import { customerAPI, fetchAllPages } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeSync } from '../hooks/useRealtimeSync';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import ActivityFeed from '../components/ActivityFeed';
+import './Customers.css';
+
+interface Customer {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  address?: string | null;
+  status: 'active' | 'inactive' | 'prospect';
+  notes?: string | null;
+  contractDate?: string | null;
+  contractAmount: number;
+  contractDetails?: string | null;
+  industry?: string | null;
+  employeeCount?: number | null;
+  annualRevenue?: number | null;
+  createdAt: string;
+  _count?: { leads: number; projects: number; salesEmails: number; documents: number };
+}
+
+interface CustomerDetail extends Customer {
+  leads: { id: string; company: string; contact: string; status: string; value?: number | null; probability: number }[];
+  projects: { id: string; name: string; status: string; budget: number; actualRevenue?: number | null }[];
+  salesEmails: { id: string; subject: string; emailType: string; status: string; sentDate?: string | null }[];
+  documents: { id: string; title: string; type: string; date?: string | null; createdAt: string }[];
+}
+
+// APIから返るISO日時を日付入力欄の形式（YYYY-MM-DD）に揃える
+const toDateInput = (value?: string | null) => (value ? value.split('T')[0] : '');
+
+const Customers: React.FC = () => {
+  const { can } = useAuth();
+  const withIdempotencyKey = useIdempotencyKey();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [selectedCustomer, setSelectedCustomer] = useState<CustomerDetail | null>(null);
+  const [showCustomerModal, setShowCustomerModal] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [newCustomer, setNewCustomer] = useState<Partial<Customer>>({ status: 'active', contractAmount: 0 });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filterStatus, setFilterStatus] = useState('all');
+  // 紐付いた商談・案件・ドキュメントの件数と詳細を、チームメンバーの変更に合わせて更新する
+  const [syncVersion, setSyncVersion] = useState(0);
+
+  useEffect(() => {
+    fetchAllPages(customerAPI.getCustomers, { q: searchTerm || undefined, status: filterStatus })
+      .then(setCustomers)
+      .catch(error => console.error('Failed to load customers:', error));
+  }, [searchTerm, filterStatus, syncVersion]);
+
+  const openCustomer = async (customerId: string) => {
+    try {
+      setSelectedCustomer(await customerAPI.getCustomer(customerId));
+    } catch (error) {
+      console.error('Failed to load customer:', error);
+    }
+  };
+
+  useRealtimeSync(['leads', 'projects', 'documents'], () => {
+    setSyncVersion(version => version + 1);
+    if (selectedCustomer) {
+      openCustomer(selectedCustomer.id);
+    }
+  });
+
+  const resetCustomerForm = () => {
+    setNewCustomer({ status: 'active', contractAmount: 0 });
+  };
+
+  const saveCustomer = async () => {
+    if (!newCustomer.name) {
+      return;
+    }
+
+    const customerData = {
+      name: newCustomer.name,
+      company: newCustomer.company || '',
+      email: newCustomer.email || '',
+      phone: newCustomer.phone || '',
+      address: newCustomer.address || '',
+      status: newCustomer.status || 'active',
+      industry: newCustomer.industry || '',
+      employeeCount: newCustomer.employeeCount ?? null,
+      annualRevenue: newCustomer.annualRevenue ?? null,
+      contractDate: newCustomer.contractDate || null,
+      contractAmount: newCustomer.contractAmount || 0,
+      contractDetails: newCustomer.contractDetails || '',
+      notes: newCustomer.notes || ''
+    };
+
+    try {
+      if (editingCustomer) {
+        // 編集モード
+        const customer: Customer = await customerAPI.updateCustomer(editingCustomer.id, customerData);
+        setCustomers(customers.map(c => c.id === customer.id ? { ...c, ...customer } : c));
+        if (selectedCustomer?.id === customer.id) {
+          setSelectedCustomer({ ...selectedCustomer, ...customer });
+        }
+        setEditingCustomer(null);
+      } else {
+        // 新規追加モード
+        const customer: Customer = await withIdempotencyKey(options => customerAPI.createCustomer(customerData, options));
+        setCustomers([customer, ...customers]);
+      }
+    } catch (error) {
+      console.error('Failed to save customer:', error);
+      alert('顧客情報の保存に失敗しました');
+      return;
+    }
+
+    resetCustomerForm();
+    setShowCustomerModal(false);
+  };
+
+  const editCustomer = (customer: Customer) => {
+    setEditingCustomer(customer);
+    setNewCustomer({
+      ...customer,
+      contractDate: toDateInput(customer.contractDate)
+    });
+    setShowCustomerModal(true);
+  };
+
+  const deleteCustomer = async (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (customer && window.confirm(`「${customer.name}」の顧客情報を削除してもよろしいですか？\n関連するリード・案件などは削除されません。`)) {
+      try {
+        await customerAPI.deleteCustomer(customerId);
+        setCustomers(customers.filter(c => c.id !== customerId));
+        if (selectedCustomer?.id === customerId) {
+          setSelectedCustomer(null);
+        }
+      } catch (error) {
+        console.error('Failed to delete customer:', error);
+        alert('顧客情報の削除に失敗しました');
+      }
+    }
+  };
+
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case 'active': return '取引中';
+      case 'prospect': return '見込み';
+      case 'inactive': return '取引停止';
+      default: return status;
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return '#4CAF50';
+      case 'prospect': return '#2196F3';
+      case 'inactive': return '#9E9E9E';
+      default: return '#9E9E9E';
+    }
+  };
+
+  return (
+    <div className="customers">
+      <div className="customers-header">
+        <div>
+          <h1>👥 顧客管理</h1>
+          <p className="customers-subtitle">契約中・見込み顧客の基本情報と関連データの管理</p>
+        </div>
+        <div className="header-actions">
+          <div className="search-box">
+            <Search size={20} />
+            <input
+              type="text"
+              placeholder="顧客名・会社名・業種で検索..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <select
+            className="filter-select"
+            value={filterStatus}
+            onChange={(e) => setFilterStatus(e.target.value)}
+          >
+            <option value="all">すべてのステータス</option>
+            <option value="active">取引中</option>
+            <option value="prospect">見込み</option>
+            <option value="inactive">取引停止</option>
+          </select>
+          {can('records:write') && (
+            <button className="add-customer-btn" onClick={() => setShowCustomerModal(true)}>
+              <Plus size={20} />
+              新規顧客追加
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="customers-content">
+        <div className="customers-list">
+          <h3>顧客一覧 ({customers.length}件)</h3>
+          {customers.length === 0 ? (
+            <div className="no-customers">
+              <p>顧客が登録されていません</p>
+              <p>「新規顧客追加」ボタンから顧客を追加してください</p>
+            </div>
+          ) : (
+            <table>
+              <thead>
+                <tr>
+                  <th>顧客名</th>
+                  <th>業種</th>
+                  <th>ステータス</th>
+                  <th>契約金額</th>
+                  <th>関連データ</th>
+                  {can('records:write') && <th>アクション</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {customers.map(customer => (
+                  <tr
+                    key={customer.id}
+                    className={selectedCustomer?.id === customer.id ? 'selected' : ''}
+                    onClick={() => openCustomer(customer.id)}
+                  >
+                    <td>
+                      <strong>{customer.name}</strong>
+                      {customer.company && <div className="customer-company">{customer.company}</div>}
+                    </td>
+                    <td>{customer.industry || '-'}</td>
+                    <td>
+                      <span className="status-badge" style={{ backgroundColor: getStatusColor(customer.status) }}>
+                        {getStatusLabel(customer.status)}
+                      </span>
+                    </td>
+                    <td>¥{customer.contractAmount.toLocaleString()}</td>
+                    <td className="related-counts">
+                      {customer._count && (
+                        <>
+                          リード {customer._count.leads} / 案件 {customer._count.projects} / メール {customer._count.salesEmails}
+                        </>
+                      )}
+                    </td>
+                    {can('records:write') && (
+                    <td>
+                      <div className="action-buttons" onClick={(e) => e.stopPropagation()}>
+                        <button className="edit-btn" onClick={() => editCustomer(customer)} title="編集">
+                          <Edit2 size={16} />
+                        </button>
+                        <button className="delete-btn" onClick={() => deleteCustomer(customer.id)} title="削除">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {selectedCustomer && (
+          <div className="customer-detail">
+            <div className="detail-header">
+              <h3>{selectedCustomer.name}</h3>
+              <span className="status-badge" style={{ backgroundColor: getStatusColor(selectedCustomer.status) }}>
+                {getStatusLabel(selectedCustomer.status)}
+              </span>
+            </div>
+
+            <div className="detail-section">
+              <h4>基本情報</h4>
+              {selectedCustomer.company && <p><Building size={14} /> {selectedCustomer.company}</p>}
+              {selectedCustomer.email && <p><Mail size={14} /> {selectedCustomer.email}</p>}
+              {selectedCustomer.phone && <p><Phone size={14} /> {selectedCustomer.phone}</p>}
+              {selectedCustomer.address && <p><strong>住所:</strong> {selectedCustomer.address}</p>}
+              {selectedCustomer.industry && <p><strong>業種:</strong> {selectedCustomer.industry}</p>}
+              {selectedCustomer.employeeCount != null && <p><strong>従業員数:</strong> {selectedCustomer.employeeCount.toLocaleString()}名</p>}
+              {selectedCustomer.annualRevenue != null && <p><strong>年商:</strong> ¥{selectedCustomer.annualRevenue.toLocaleString()}</p>}
+            </div>
+
+            <div className="detail-section">
+              <h4>契約情報</h4>
+              <p><strong>契約日:</strong> {toDateInput(selectedCustomer.contractDate) || '-'}</p>
+              <p><strong>契約金額:</strong> ¥{selectedCustomer.contractAmount.toLocaleString()}</p>
+              {selectedCustomer.contractDetails && <p><strong>契約内容:</strong> {selectedCustomer.contractDetails}</p>}
+            </div>
+
+            <div className="detail-section">
+              <h4>リード・商談 ({selectedCustomer.leads.length}件)</h4>
+              {selectedCustomer.leads.length === 0 ? <p className="empty">関連するリードはありません</p> : (
+                <ul className="related-list">
+                  {selectedCustomer.leads.map(lead => (
+                    <li key={lead.id}>
+                      <span>{lead.contact}（{lead.status}）</span>
+                      <span>¥{(lead.value || 0).toLocaleString()} / {lead.probability}%</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="detail-section">
+              <h4>案件 ({selectedCustomer.projects.length}件)</h4>
+              {selectedCustomer.projects.length === 0 ? <p className="empty">関連する案件はありません</p> : (
+                <ul className="related-list">
+                  {selectedCustomer.projects.map(project => (
+                    <li key={project.id}>
+                      <span>{project.name}（{project.status}）</span>
+                      <span>¥{(project.actualRevenue || project.budget).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="detail-section">
+              <h4>営業メール ({selectedCustomer.salesEmails.length}件)</h4>
+              {selectedCustomer.salesEmails.length === 0 ? <p className="empty">関連する営業メールはありません</p> : (
+                <ul className="related-list">
+                  {selectedCustomer.salesEmails.map(email => (
+                    <li key={email.id}>
+                      <span>{email.subject}</span>
+                      <span>{toDateInput(email.sentDate)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="detail-section">
+              <h4>ドキュメント ({selectedCustomer.documents.length}件)</h4>
+              {selectedCustomer.documents.length === 0 ? <p className="empty">関連するドキュメントはありません</p> : (
+                <ul className="related-list">
+                  {selectedCustomer.documents.map(doc => (
+                    <li key={doc.id}>
+                      <span>{doc.title}</span>
+                      <span>{toDateInput(doc.date || doc.createdAt)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {selectedCustomer.notes && (
+              <div className="detail-section">
+                <h4>メモ・備考</h4>
+                <p>{selectedCustomer.notes}</p>
+              </div>
+            )}
+
+            <div className="detail-section">
+              <h4>変更履歴</h4>
+              <ActivityFeed entityType="customers" entityId={selectedCustomer.id} pageSize={10} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showCustomerModal && (
+        <div className="modal-overlay" onClick={() => {
+          setShowCustomerModal(false);
+          setEditingCustomer(null);
+          resetCustomerForm();
+        }}>
+          <div className="modal-content large-modal" onClick={(e) => e.stopPropagation()}>
+            <h2>{editingCustomer ? '顧客情報編集' : '新規顧客追加'}</h2>
+            <div className="form-row">
+              <div className="form-group">
+                <label>顧客名 *</label>
+                <input
+                  type="text"
+                  value={newCustomer.name || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+                  placeholder="田中太郎"
+                />
+              </div>
+              <div className="form-group">
+                <label>会社名</label>
+                <input
+                  type="text"
+                  value={newCustomer.company || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, company: e.target.value })}
+                  placeholder="株式会社サンプル"
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>メールアドレス</label>
+                <input
+                  type="email"
+                  value={newCustomer.email || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label>電話番号</label>
+                <input
+                  type="tel"
+                  value={newCustomer.phone || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label>住所</label>
+              <input
+                type="text"
+                value={newCustomer.address || ''}
+                onChange={(e) => setNewCustomer({ ...newCustomer, address: e.target.value })}
+              />
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>ステータス</label>
+                <select
+                  value={newCustomer.status}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, status: e.target.value as Customer['status'] })}
+                >
+                  <option value="active">取引中</option>
+                  <option value="prospect">見込み</option>
+                  <option value="inactive">取引停止</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label>業種</label>
+                <input
+                  type="text"
+                  value={newCustomer.industry || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, industry: e.target.value })}
+                  placeholder="小売業"
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>従業員数</label>
+                <input
+                  type="number"
+                  value={newCustomer.employeeCount ?? ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, employeeCount: e.target.value ? parseInt(e.target.value) : null })}
+                />
+              </div>
+              <div className="form-group">
+                <label>年商</label>
+                <input
+                  type="number"
+                  value={newCustomer.annualRevenue ?? ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, annualRevenue: e.target.value ? parseInt(e.target.value) : null })}
+                />
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>契約日</label>
+                <input
+                  type="date"
+                  value={newCustomer.contractDate || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, contractDate: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label>契約金額</label>
+                <input
+                  type="number"
+                  value={newCustomer.contractAmount || ''}
+                  onChange={(e) => setNewCustomer({ ...newCustomer, contractAmount: parseInt(e.target.value) || 0 })}
+                  disabled={!can('revenue:edit')}
+                />
+              </div>
+            </div>
+            <div className="form-group">
+              <label>契約内容</label>
+              <textarea
+                value={newCustomer.contractDetails || ''}
+                onChange={(e) => setNewCustomer({ ...newCustomer, contractDetails: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="form-group">
+              <label>メモ・備考</label>
+              <textarea
+                value={newCustomer.notes || ''}
+                onChange={(e) => setNewCustomer({ ...newCustomer, notes: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="modal-actions">
+              <button className="cancel-btn" onClick={() => {
+                setShowCustomerModal(false);
+                setEditingCustomer(null);
+                resetCustomerForm();
+              }}>キャンセル</button>
+              <button className="save-btn" onClick={saveCustomer}>
+                {editingCustomer ? '顧客情報を更新' : '顧客を追加'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Customers;
@@ -1,203 +1,164 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
 import { Users, Calendar, Link, Edit2, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  useDashboardActivities,
+  useDataMode,
+  useMeetings,
+  useProjects,
+  useSalesRecords,
+  useTasks,
+  useTeamMembers
+} from '../contexts/DataContext';
+import { DashboardActivity, Meeting, Project, SalesRecord, TeamMember } from '../types/models';
+import ActivityFeed from '../components/ActivityFeed';
+import { useProjectTimeTotals } from '../hooks/useProjectTimeTotals';
+import { profitabilityOf } from '../utils/profitability';
 import './Dashboard.css';
 
-interface TeamMember {
-  id: number;
-  name: string;
-  role: string;
-  status: 'online' | 'offline' | 'away';
-  avatar?: string;
-}
+type MemberStatus = NonNullable<TeamMember['status']>;
 
-interface Meeting {
-  id: number;
-  title: string;
-  date: string;
-  time: string;
-  link?: string;
-  attendees: string[];
-  status: 'scheduled' | 'completed' | 'cancelled';
-}
-
-interface Activity {
-  id: number;
-  type: 'task' | 'document' | 'meeting' | 'sales';
-  title: string;
-  user: string;
-  timestamp: string;
-  description?: string;
-}
-
-interface SalesRecord {
-  month: string;
-  sales: number;
-  target: number;
-}
-
-interface Project {
-  id: number;
-  status: string;
-  isActive: boolean;
-  budget: number;
-  actualRevenue?: number;
-  completedDate?: string;
-  startDate: string;
-}
+// 案件データから月別売上・粗利を生成（laborCosts は案件IDごとの人件費）
+const generateMonthlyRevenueFromProjects = (projects: Project[], laborCosts: Record<string, number> = {}): Omit<SalesRecord, 'id'>[] => {
+  const monthlyData: { [key: string]: number } = {};
+  const monthlyTarget: { [key: string]: number } = {};
+  const monthlyProfit: { [key: string]: number } = {};
+  
+  projects.forEach(project => {
+    if (project.status === 'completed' && project.completedDate) {
+      const date = new Date(project.completedDate);
+      const monthKey = `${date.getFullYear()}年${date.getMonth() + 1}月`;
+      const { revenue, grossProfit } = profitabilityOf(project, laborCosts);
+      
+      monthlyData[monthKey] = (monthlyData[monthKey] || 0) + revenue;
+      monthlyTarget[monthKey] = (monthlyTarget[monthKey] || 0) + project.budget;
+      monthlyProfit[monthKey] = (monthlyProfit[monthKey] || 0) + grossProfit;
+    }
+  });
+  
+  return Object.keys(monthlyData).map(month => ({
+    month,
+    sales: monthlyData[month],
+    target: monthlyTarget[month],
+    profit: monthlyProfit[month]
+  })).sort((a, b) => {
+    const dateA = new Date(a.month.replace(/年/g, '-').replace(/月/g, ''));
+    const dateB = new Date(b.month.replace(/年/g, '-').replace(/月/g, ''));
+    return dateA.getTime() - dateB.getTime();
+  });
+};
 
 const Dashboard: React.FC = () => {
+  const { can } = useAuth();
+  const dataMode = useDataMode();
+  const { projects } = useProjects();
+  const { tasks } = useTasks();
+  const { laborCostByProject } = useProjectTimeTotals();
+  const {
+    teamMembers,
+    create: createMember,
+    update: saveMember,
+    remove: removeMember,
+    isReadOnly: isMembersReadOnly
+  } = useTeamMembers();
   const [showSalesModal, setShowSalesModal] = useState(false);
   const [showMemberModal, setShowMemberModal] = useState(false);
   const [showMeetingModal, setShowMeetingModal] = useState(false);
   const [editingMember, setEditingMember] = useState<TeamMember | null>(null);
   const [newSales, setNewSales] = useState({ month: '', sales: 0, target: 0 });
-  const [newMember, setNewMember] = useState<{ name: string; role: string; status: 'online' | 'offline' | 'away' }>({ name: '', role: '', status: 'offline' });
+  const [newMember, setNewMember] = useState<{ name: string; role: string; status: MemberStatus }>({ name: '', role: '', status: 'offline' });
   const [newMeeting, setNewMeeting] = useState({ title: '', date: '', time: '', link: '', attendees: '' });
   
-  const [salesData, setSalesData] = useState<SalesRecord[]>([]);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
-  const [meetings, setMeetings] = useState<Meeting[]>([]);
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [tasks, setTasks] = useState<any[]>([]);
+  const { salesRecords: savedSalesData, create: createSalesRecord } = useSalesRecords();
+  const { meetings, create: createMeeting } = useMeetings();
+  const { activities, create: createActivity, remove: removeActivity } = useDashboardActivities();
+  // チームのメンバーはチーム設定で管理するため、ダッシュボードからは変更しない
+  const canManageMembers = can('members:manage') && !isMembersReadOnly;
 
-  useEffect(() => {
-    const savedSales = LocalStorage.get<SalesRecord[]>(STORAGE_KEYS.SALES_DATA);
-    const savedMembers = LocalStorage.get<TeamMember[]>(STORAGE_KEYS.TEAM_MEMBERS);
-    const savedMeetings = LocalStorage.get<Meeting[]>(STORAGE_KEYS.MEETINGS);
-    const savedActivities = LocalStorage.get<Activity[]>(STORAGE_KEYS.ACTIVITIES);
-    const savedProjects = LocalStorage.get<Project[]>(STORAGE_KEYS.PROJECTS_DATA);
-    const savedTasks = LocalStorage.get<any[]>(STORAGE_KEYS.TASKS_DATA);
-    
-    if (savedProjects && savedProjects.length > 0) {
-      setProjects(savedProjects);
-      
-      // 案件データから売上データを自動生成
-      const monthlyRevenue = generateMonthlyRevenueFromProjects(savedProjects);
-      if (monthlyRevenue.length > 0) {
-        setSalesData(monthlyRevenue);
-      }
-    } else if (savedSales && savedSales.length > 0) {
-      setSalesData(savedSales);
-    }
-    
-    if (savedMembers && savedMembers.length > 0) {
-      setTeamMembers(savedMembers);
-    }
-    if (savedMeetings && savedMeetings.length > 0) {
-      setMeetings(savedMeetings);
-    }
-    if (savedActivities && savedActivities.length > 0) {
-      setActivities(savedActivities);
-    }
-    if (savedTasks && savedTasks.length > 0) {
-      setTasks(savedTasks);
-    }
-  }, []);
+  // 完了した案件がある場合は案件データから自動生成し、ない場合は手入力の売上データを表示する
+  const salesData = useMemo(() => {
+    const monthlyRevenue = generateMonthlyRevenueFromProjects(projects, laborCostByProject);
+    return monthlyRevenue.length > 0 ? monthlyRevenue : savedSalesData;
+  }, [projects, laborCostByProject, savedSalesData]);
 
-  // 案件データから月別売上を生成
-  const generateMonthlyRevenueFromProjects = (projects: Project[]) => {
-    const monthlyData: { [key: string]: number } = {};
-    const monthlyTarget: { [key: string]: number } = {};
-    
-    projects.forEach(project => {
-      if (project.status === 'completed' && project.completedDate) {
-        const date = new Date(project.completedDate);
-        const monthKey = `${date.getFullYear()}年${date.getMonth() + 1}月`;
-        const revenue = project.actualRevenue || project.budget;
-        
-        monthlyData[monthKey] = (monthlyData[monthKey] || 0) + revenue;
-        monthlyTarget[monthKey] = (monthlyTarget[monthKey] || 0) + project.budget;
-      }
-    });
-    
-    return Object.keys(monthlyData).map(month => ({
-      month,
-      sales: monthlyData[month],
-      target: monthlyTarget[month]
-    })).sort((a, b) => {
-      const dateA = new Date(a.month.replace(/年/g, '-').replace(/月/g, ''));
-      const dateB = new Date(b.month.replace(/年/g, '-').replace(/月/g, ''));
-      return dateA.getTime() - dateB.getTime();
-    });
+  // 新しい順（IDは作成日時）。保存するのは最新の10件まで
+  const recentActivities = useMemo(
+    () => [...activities].sort((a, b) => Number(b.id) - Number(a.id)),
+    [activities]
+  );
+
+  const addActivity = async (activity: Omit<DashboardActivity, 'id'>) => {
+    try {
+      await createActivity(activity);
+      await Promise.all(recentActivities.slice(9).map(old => removeActivity(old.id)));
+    } catch (error) {
+      console.error('Failed to save activity:', error);
+    }
   };
 
-  const addSalesData = () => {
+  const addSalesData = async () => {
     if (newSales.month && newSales.sales > 0) {
-      const updatedSales = [...salesData, newSales];
-      setSalesData(updatedSales);
-      LocalStorage.set(STORAGE_KEYS.SALES_DATA, updatedSales);
+      try {
+        await createSalesRecord(newSales);
+      } catch (error) {
+        console.error('Failed to save sales data:', error);
+        alert('売上データの保存に失敗しました');
+        return;
+      }
       setNewSales({ month: '', sales: 0, target: 0 });
       setShowSalesModal(false);
       
       // アクティビティに追加
-      const activity: Activity = {
-        id: Date.now(),
+      addActivity({
         type: 'sales',
         title: `${newSales.month}の売上データを追加`,
         user: 'システム',
         timestamp: new Date().toLocaleString('ja-JP'),
         description: `売上: ¥${newSales.sales.toLocaleString()}`
-      };
-      const updatedActivities = [activity, ...activities.slice(0, 9)];
-      setActivities(updatedActivities);
-      LocalStorage.set(STORAGE_KEYS.ACTIVITIES, updatedActivities);
+      });
     }
   };
 
-  const addTeamMember = () => {
-    if (editingMember) {
-      // 編集モード
-      const updatedMembers = teamMembers.map(m => 
-        m.id === editingMember.id 
-          ? { ...editingMember, name: newMember.name, role: newMember.role, status: newMember.status }
-          : m
-      );
-      setTeamMembers(updatedMembers);
-      LocalStorage.set(STORAGE_KEYS.TEAM_MEMBERS, updatedMembers);
-      
-      // アクティビティに追加
-      const activity: Activity = {
-        id: Date.now(),
-        type: 'task',
-        title: `チームメンバー「${newMember.name}」を更新`,
-        user: 'システム',
-        timestamp: new Date().toLocaleString('ja-JP'),
-        description: `役職: ${newMember.role}`
-      };
-      const updatedActivities = [activity, ...activities.slice(0, 9)];
-      setActivities(updatedActivities);
-      LocalStorage.set(STORAGE_KEYS.ACTIVITIES, updatedActivities);
-      
-      setEditingMember(null);
-    } else {
-      // 新規追加モード
-      if (newMember.name && newMember.role) {
-        const member: TeamMember = {
-          id: Date.now(),
-          name: newMember.name,
-          role: newMember.role,
-          status: newMember.status
-        };
-        const updatedMembers = [...teamMembers, member];
-        setTeamMembers(updatedMembers);
-        LocalStorage.set(STORAGE_KEYS.TEAM_MEMBERS, updatedMembers);
+  const addTeamMember = async () => {
+    try {
+      if (editingMember) {
+        // 編集モード
+        await saveMember(editingMember.id, { name: newMember.name, role: newMember.role, status: newMember.status });
         
         // アクティビティに追加
-        const activity: Activity = {
-          id: Date.now(),
+        addActivity({
           type: 'task',
-          title: `チームメンバー「${member.name}」を追加`,
+          title: `チームメンバー「${newMember.name}」を更新`,
           user: 'システム',
           timestamp: new Date().toLocaleString('ja-JP'),
-          description: `役職: ${member.role}`
-        };
-        const updatedActivities = [activity, ...activities.slice(0, 9)];
-        setActivities(updatedActivities);
-        LocalStorage.set(STORAGE_KEYS.ACTIVITIES, updatedActivities);
+          description: `役職: ${newMember.role}`
+        });
+        
+        setEditingMember(null);
+      } else {
+        // 新規追加モード
+        if (newMember.name && newMember.role) {
+          const member = await createMember({
+            name: newMember.name,
+            role: newMember.role,
+            status: newMember.status
+          });
+          
+          // アクティビティに追加
+          addActivity({
+            type: 'task',
+            title: `チームメンバー「${member.name}」を追加`,
+            user: 'システム',
+            timestamp: new Date().toLocaleString('ja-JP'),
+            description: `役職: ${member.role}`
+          });
+        }
       }
+    } catch (error) {
+      console.error('Failed to save team member:', error);
+      alert('メンバーの保存に失敗しました');
+      return;
     }
     
     setNewMember({ name: '', role: '', status: 'offline' });
@@ -209,36 +170,35 @@ const Dashboard: React.FC = () => {
     setNewMember({
       name: member.name,
       role: member.role,
-      status: member.status
+      status: member.status || 'offline'
     });
     setShowMemberModal(true);
   };
 
-  const deleteMember = (memberId: number) => {
+  const deleteMember = async (memberId: string) => {
     const member = teamMembers.find(m => m.id === memberId);
     if (member && window.confirm(`${member.name}を削除してもよろしいですか？`)) {
-      const updatedMembers = teamMembers.filter(m => m.id !== memberId);
-      setTeamMembers(updatedMembers);
-      LocalStorage.set(STORAGE_KEYS.TEAM_MEMBERS, updatedMembers);
+      try {
+        await removeMember(memberId);
+      } catch (error) {
+        console.error('Failed to delete team member:', error);
+        alert('メンバーの削除に失敗しました');
+        return;
+      }
       
       // アクティビティに追加
-      const activity: Activity = {
-        id: Date.now(),
+      addActivity({
         type: 'task',
         title: `チームメンバー「${member.name}」を削除`,
         user: 'システム',
         timestamp: new Date().toLocaleString('ja-JP')
-      };
-      const updatedActivities = [activity, ...activities.slice(0, 9)];
-      setActivities(updatedActivities);
-      LocalStorage.set(STORAGE_KEYS.ACTIVITIES, updatedActivities);
+      });
     }
   };
 
-  const addMeeting = () => {
+  const addMeeting = async () => {
     if (newMeeting.title && newMeeting.date && newMeeting.time) {
-      const meeting: Meeting = {
-        id: Date.now(),
+      const meeting: Omit<Meeting, 'id'> = {
         title: newMeeting.title,
         date: newMeeting.date,
         time: newMeeting.time,
@@ -246,24 +206,24 @@ const Dashboard: React.FC = () => {
         attendees: newMeeting.attendees.split(',').map(name => name.trim()),
         status: 'scheduled'
       };
-      const updatedMeetings = [...meetings, meeting];
-      setMeetings(updatedMeetings);
-      LocalStorage.set(STORAGE_KEYS.MEETINGS, updatedMeetings);
+      try {
+        await createMeeting(meeting);
+      } catch (error) {
+        console.error('Failed to save meeting:', error);
+        alert('会議の保存に失敗しました');
+        return;
+      }
       setNewMeeting({ title: '', date: '', time: '', link: '', attendees: '' });
       setShowMeetingModal(false);
       
       // アクティビティに追加
-      const activity: Activity = {
-        id: Date.now(),
+      addActivity({
         type: 'meeting',
         title: `会議「${newMeeting.title}」をスケジュール`,
         user: 'システム',
         timestamp: new Date().toLocaleString('ja-JP'),
         description: `${newMeeting.date} ${newMeeting.time}`
-      };
-      const updatedActivities = [activity, ...activities.slice(0, 9)];
-      setActivities(updatedActivities);
-      LocalStorage.set(STORAGE_KEYS.ACTIVITIES, updatedActivities);
+      });
     }
   };
 
@@ -292,8 +252,8 @@ const Dashboard: React.FC = () => {
   
   // タスクデータから実際の数を取得
   const totalTasks = tasks.length;
-  const activeTasks = tasks.filter((task: any) => task.status === 'in-progress' || task.status === 'review').length;
-  const completedTasks = tasks.filter((task: any) => task.status === 'done').length;
+  const activeTasks = tasks.filter(task => task.status === 'in-progress').length;
+  const completedTasks = tasks.filter(task => task.status === 'completed').length;
   
   const thisWeekMeetings = meetings.filter(m => {
     const meetingDate = new Date(m.date);
@@ -311,24 +271,30 @@ const Dashboard: React.FC = () => {
         <h1>📊 全体ダッシュボード</h1>
         <p className="dashboard-subtitle">チーム全体の統計と進捗状況</p>
         <div className="dashboard-actions">
-          <button className="action-btn" onClick={() => setShowMemberModal(true)}>
-            <Users size={16} /> メンバー追加
-          </button>
-          <button className="action-btn" onClick={() => setShowMeetingModal(true)}>
-            <Calendar size={16} /> 会議追加
-          </button>
+          {canManageMembers && (
+            <button className="action-btn" onClick={() => setShowMemberModal(true)}>
+              <Users size={16} /> メンバー追加
+            </button>
+          )}
+          {can('records:write') && (
+            <button className="action-btn" onClick={() => setShowMeetingModal(true)}>
+              <Calendar size={16} /> 会議追加
+            </button>
+          )}
         </div>
       </div>
       
       <div className="stats-grid">
-        <div className="stat-card">
-          <h3>今月の成約金額</h3>
-          <p className="stat-value">¥{currentMonthSales.toLocaleString()}</p>
-          <p className={`stat-change ${salesGrowth >= 0 ? 'positive' : 'negative'}`}>
-            {salesGrowth >= 0 ? '+' : ''}{salesGrowth.toFixed(1)}% 前月比
-          </p>
-          <p className="stat-hint">※案件管理から自動集計</p>
-        </div>
+        {can('sales:view') && (
+          <div className="stat-card">
+            <h3>今月の成約金額</h3>
+            <p className="stat-value">¥{currentMonthSales.toLocaleString()}</p>
+            <p className={`stat-change ${salesGrowth >= 0 ? 'positive' : 'negative'}`}>
+              {salesGrowth >= 0 ? '+' : ''}{salesGrowth.toFixed(1)}% 前月比
+            </p>
+            <p className="stat-hint">※案件管理から自動集計</p>
+          </div>
+        )}
         <div className="stat-card">
           <h3>タスク状況</h3>
           <p className="stat-value">{totalTasks}件</p>
@@ -347,6 +313,7 @@ const Dashboard: React.FC = () => {
       </div>
 
       <div className="charts-container">
+        {can('sales:view') && (
         <div className="chart-card">
           <h3>売上推移</h3>
           {salesData.length > 0 || projects.length > 0 ? (
@@ -359,6 +326,9 @@ const Dashboard: React.FC = () => {
                 <Legend />
                 <Line type="monotone" dataKey="sales" stroke="#3F51B5" name="実績" strokeWidth={2} />
                 <Line type="monotone" dataKey="target" stroke="#FF5722" name="目標" strokeDasharray="5 5" />
+                {salesData.some(record => record.profit !== undefined) && (
+                  <Line type="monotone" dataKey="profit" stroke="#4CAF50" name="粗利" strokeWidth={2} />
+                )}
               </LineChart>
             </ResponsiveContainer>
           ) : (
@@ -368,6 +338,7 @@ const Dashboard: React.FC = () => {
             </div>
           )}
         </div>
+        )}
 
             <div className="chart-card">
               <h3>チームメンバー一覧</h3>
@@ -379,11 +350,14 @@ const Dashboard: React.FC = () => {
                         <div className="member-details">
                           <h4>{member.name}</h4>
                           <p>{member.role}</p>
+                          {member.status && (
                           <span className={`status-badge ${member.status}`}>
                             {member.status === 'online' ? 'オンライン' : 
                              member.status === 'away' ? '離席中' : 'オフライン'}
                           </span>
+                          )}
                         </div>
+                        {canManageMembers && (
                         <div className="member-actions">
                           <button 
                             className="edit-btn" 
@@ -400,6 +374,7 @@ const Dashboard: React.FC = () => {
                             <Trash2 size={16} />
                           </button>
                         </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -442,24 +417,29 @@ const Dashboard: React.FC = () => {
 
       <div className="recent-activities">
         <h3>最近のアクティビティ</h3>
-        <ul>
-          {activities.length > 0 ? (
-            activities.slice(0, 5).map(activity => (
-              <li key={activity.id}>
-                <span className="activity-time">{activity.timestamp}</span>
-                <span className="activity-text">{activity.title}</span>
-                {activity.description && (
-                  <span className="activity-description">{activity.description}</span>
-                )}
+        {/* サーバー保存時はチーム全体の変更履歴、ブラウザ保存時はこの画面での操作を表示する */}
+        {dataMode === 'api' ? (
+          <ActivityFeed pageSize={10} />
+        ) : (
+          <ul>
+            {recentActivities.length > 0 ? (
+              recentActivities.slice(0, 5).map(activity => (
+                <li key={activity.id}>
+                  <span className="activity-time">{activity.timestamp}</span>
+                  <span className="activity-text">{activity.title}</span>
+                  {activity.description && (
+                    <span className="activity-description">{activity.description}</span>
+                  )}
+                </li>
+              ))
+            ) : (
+              <li>
+                <span className="activity-text">まだアクティビティがありません</span>
+                <span className="activity-description">データを追加すると、ここに表示されます</span>
               </li>
-            ))
-          ) : (
-            <li>
-              <span className="activity-text">まだアクティビティがありません</span>
-              <span className="activity-description">データを追加すると、ここに表示されます</span>
-            </li>
-          )}
-        </ul>
+            )}
+          </ul>
+        )}
       </div>
 
       {showSalesModal && (
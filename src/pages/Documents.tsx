@@ -1,27 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { FileText, MessageSquare, Search, Calendar, Plus, Edit2, Trash2 } from 'lucide-react';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import { documentAPI, meetingMinutesAPI, fetchAllPages } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeSync } from '../hooks/useRealtimeSync';
+import { useTeamMembers } from '../contexts/DataContext';
+import { useFocusRecord } from '../hooks/useFocusRecord';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import ActivityFeed from '../components/ActivityFeed';
 import './Documents.css';
 
 interface Document {
-  id: number;
-  name: string;
+  id: string;
+  title: string;
   type: string;
-  size: string;
-  uploadDate: string;
-  uploadedBy: string;
-  category: string;
+  category?: string;
+  date?: string;
+  attendees: string[];
+  minutesId?: string;
   comments: Comment[];
-  meetingDate?: string;
-  attendees?: string[];
-  actionItems?: ActionItem[];
+  user?: { name?: string };
+  createdAt: string;
 }
 
 interface Comment {
-  id: number;
+  id: string;
   author: string;
   text: string;
-  timestamp: string;
+  createdAt: string;
 }
 
 interface ActionItem {
@@ -33,7 +38,7 @@ interface ActionItem {
 }
 
 interface MeetingMinutes {
-  id: number;
+  id: string;
   title: string;
   date: string;
   time: string;
@@ -45,12 +50,18 @@ interface MeetingMinutes {
   actionItems: ActionItem[];
   notes: string;
   status: 'scheduled' | 'completed' | 'cancelled';
+  document?: Document;
 }
 
+// APIから返るISO日時を日付入力欄の形式（YYYY-MM-DD）に揃える
+const toDateInput = (value?: string) => (value ? value.split('T')[0] : '');
+
 const Documents: React.FC = () => {
+  const { can } = useAuth();
+  const withIdempotencyKey = useIdempotencyKey();
   const [documents, setDocuments] = useState<Document[]>([]);
   const [meetingMinutes, setMeetingMinutes] = useState<MeetingMinutes[]>([]);
-  const [teamMembers, setTeamMembers] = useState<{id: number, name: string, role: string}[]>([]);
+  const { teamMembers } = useTeamMembers();
   const [selectedDoc, setSelectedDoc] = useState<Document | null>(null);
   const [showMinutesModal, setShowMinutesModal] = useState(false);
   const [editingMinutes, setEditingMinutes] = useState<MeetingMinutes | null>(null);
@@ -65,117 +76,80 @@ const Documents: React.FC = () => {
   const [newComment, setNewComment] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState('all');
+  // チームメンバーがドキュメントを変更したら一覧を読み込み直す
+  const [syncVersion, setSyncVersion] = useState(0);
+  useRealtimeSync(['documents'], () => setSyncVersion(version => version + 1));
+  // 検索結果の議事録は、対応する議事録ドキュメントを開く
+  useFocusRecord(documents, setSelectedDoc, (doc, id) => doc.id === id || doc.minutesId === id);
 
   useEffect(() => {
-    const savedDocs = LocalStorage.get<Document[]>(STORAGE_KEYS.DOCUMENTS_DATA);
-    const savedMinutes = LocalStorage.get<MeetingMinutes[]>(STORAGE_KEYS.MEETING_MINUTES);
-    const savedMembers = LocalStorage.get<{id: number, name: string, role: string}[]>(STORAGE_KEYS.TEAM_MEMBERS);
-    
-    if (savedDocs && savedDocs.length > 0) {
-      setDocuments(savedDocs);
-    }
-    if (savedMinutes && savedMinutes.length > 0) {
-      setMeetingMinutes(savedMinutes);
-    }
-    if (savedMembers && savedMembers.length > 0) {
-      setTeamMembers(savedMembers);
-    }
-  }, []);
+    const loadDocuments = async () => {
+      try {
+        const [savedDocs, savedMinutes] = await Promise.all([
+          fetchAllPages(documentAPI.getDocuments),
+          fetchAllPages(meetingMinutesAPI.getMeetingMinutes)
+        ]);
+        setDocuments(savedDocs);
+        setMeetingMinutes(savedMinutes);
+        setSelectedDoc(current => current && (savedDocs.find((doc: Document) => doc.id === current.id) ?? null));
+      } catch (error) {
+        console.error('Failed to load documents:', error);
+      }
+    };
+    loadDocuments();
+  }, [syncVersion]);
 
+  const resetMinutesForm = () => {
+    setNewMinutes({ 
+      attendees: [], 
+      agenda: [], 
+      decisions: [], 
+      actionItems: [],
+      meetingType: 'zoom',
+      status: 'scheduled'
+    });
+  };
 
-  const addMeetingMinutes = () => {
+  const addMeetingMinutes = async () => {
     if (newMinutes.title && newMinutes.date && newMinutes.attendees && newMinutes.attendees.length > 0) {
-      let updatedMinutes;
-      let updatedDocs;
-      
-      if (editingMinutes) {
-        // 編集モード
-        const minutes: MeetingMinutes = {
-          ...editingMinutes,
-          title: newMinutes.title,
-          date: newMinutes.date,
-          time: newMinutes.time || '',
-          attendees: newMinutes.attendees,
-          meetingLink: newMinutes.meetingLink,
-          meetingType: newMinutes.meetingType || 'zoom',
-          agenda: newMinutes.agenda || [],
-          decisions: newMinutes.decisions || [],
-          actionItems: newMinutes.actionItems || [],
-          notes: newMinutes.notes || '',
-          status: newMinutes.status || 'scheduled'
-        };
-        
-        updatedMinutes = meetingMinutes.map(m => 
-          m.id === editingMinutes.id ? minutes : m
-        );
-        
-        // 対応するドキュメントも更新
-        const docName = `${minutes.title}_議事録`;
-        updatedDocs = documents.map(doc => 
-          doc.name === `${editingMinutes.title}_議事録` 
-            ? {
-                ...doc,
-                name: docName,
-                uploadDate: minutes.date,
-                meetingDate: minutes.date,
-                attendees: minutes.attendees,
-                actionItems: minutes.actionItems
-              }
-            : doc
-        );
-        
-        setEditingMinutes(null);
-      } else {
-        // 新規追加モード
-        const minutes: MeetingMinutes = {
-          id: Date.now(),
-          title: newMinutes.title,
-          date: newMinutes.date,
-          time: newMinutes.time || '',
-          attendees: newMinutes.attendees,
-          meetingLink: newMinutes.meetingLink,
-          meetingType: newMinutes.meetingType || 'zoom',
-          agenda: newMinutes.agenda || [],
-          decisions: newMinutes.decisions || [],
-          actionItems: newMinutes.actionItems || [],
-          notes: newMinutes.notes || '',
-          status: newMinutes.status || 'scheduled'
-        };
-        
-        updatedMinutes = [...meetingMinutes, minutes];
-        
-        // ドキュメントとしても追加
-        const doc: Document = {
-          id: Date.now(),
-          name: `${minutes.title}_議事録`,
-          type: '議事録',
-          size: '1.2 KB',
-          uploadDate: minutes.date,
-          uploadedBy: 'システム',
-          category: '会議',
-          comments: [],
-          meetingDate: minutes.date,
-          attendees: minutes.attendees,
-          actionItems: minutes.actionItems
-        };
-        
-        updatedDocs = [...documents, doc];
+      const minutesData = {
+        title: newMinutes.title,
+        date: newMinutes.date,
+        time: newMinutes.time || '',
+        attendees: newMinutes.attendees,
+        meetingLink: newMinutes.meetingLink,
+        meetingType: newMinutes.meetingType || 'zoom',
+        agenda: newMinutes.agenda || [],
+        decisions: newMinutes.decisions || [],
+        actionItems: newMinutes.actionItems || [],
+        notes: newMinutes.notes || '',
+        status: newMinutes.status || 'scheduled'
+      };
+
+      try {
+        if (editingMinutes) {
+          // 編集モード（対応するドキュメントはサーバー側で更新される）
+          const minutes: MeetingMinutes = await meetingMinutesAPI.updateMeetingMinutes(editingMinutes.id, minutesData);
+          setMeetingMinutes(meetingMinutes.map(m => m.id === minutes.id ? minutes : m));
+          if (minutes.document) {
+            setDocuments(documents.map(doc => doc.id === minutes.document!.id ? minutes.document! : doc));
+          }
+          setEditingMinutes(null);
+        } else {
+          // 新規追加モード（ドキュメントとしてもサーバー側で追加される）
+          const minutes: MeetingMinutes = await withIdempotencyKey(options => meetingMinutesAPI.createMeetingMinutes(minutesData, options));
+          setMeetingMinutes([minutes, ...meetingMinutes]);
+          if (minutes.document) {
+            setDocuments([minutes.document, ...documents]);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to save meeting minutes:', error);
+        alert('議事録の保存に失敗しました');
+        return;
       }
       
-      setMeetingMinutes(updatedMinutes);
-      LocalStorage.set(STORAGE_KEYS.MEETING_MINUTES, updatedMinutes);
-      
-      setDocuments(updatedDocs);
-      LocalStorage.set(STORAGE_KEYS.DOCUMENTS_DATA, updatedDocs);
-      
-      setNewMinutes({ 
-        attendees: [], 
-        agenda: [], 
-        decisions: [], 
-        actionItems: [],
-        meetingType: 'zoom',
-        status: 'scheduled'
-      });
+      resetMinutesForm();
       setShowMinutesModal(false);
     }
   };
@@ -221,40 +195,31 @@ const Documents: React.FC = () => {
     }
   };
 
-  const addComment = () => {
+  const addComment = async () => {
     if (selectedDoc && newComment.trim()) {
-      const updatedDocs = documents.map(doc => {
-        if (doc.id === selectedDoc.id) {
-          return {
-            ...doc,
-            comments: [
-              ...doc.comments,
-              {
-                id: doc.comments.length + 1,
-                author: '現在のユーザー',
-                text: newComment,
-                timestamp: new Date().toLocaleString('ja-JP')
-              }
-            ]
-          };
-        }
-        return doc;
-      });
-      setDocuments(updatedDocs);
-      LocalStorage.set(STORAGE_KEYS.DOCUMENTS_DATA, updatedDocs);
-      setSelectedDoc(updatedDocs.find(d => d.id === selectedDoc.id) || null);
-      setNewComment('');
+      try {
+        const comment: Comment = await withIdempotencyKey(
+          options => documentAPI.addComment(selectedDoc.id, newComment, options),
+          selectedDoc.id
+        );
+        const updatedDoc = { ...selectedDoc, comments: [...selectedDoc.comments, comment] };
+        setDocuments(documents.map(doc => doc.id === selectedDoc.id ? updatedDoc : doc));
+        setSelectedDoc(updatedDoc);
+        setNewComment('');
+      } catch (error) {
+        console.error('Failed to add comment:', error);
+        alert('コメントの投稿に失敗しました');
+      }
     }
   };
 
-  const editMeetingMinutes = (docName: string) => {
-    const minutesTitle = docName.replace('_議事録', '');
-    const minutes = meetingMinutes.find(m => m.title === minutesTitle);
+  const editMeetingMinutes = (doc: Document) => {
+    const minutes = meetingMinutes.find(m => m.id === doc.minutesId);
     if (minutes) {
       setEditingMinutes(minutes);
       setNewMinutes({
         title: minutes.title,
-        date: minutes.date,
+        date: toDateInput(minutes.date),
         time: minutes.time,
         attendees: minutes.attendees,
         meetingLink: minutes.meetingLink,
@@ -269,19 +234,21 @@ const Documents: React.FC = () => {
     }
   };
 
-  const deleteDocument = (docId: number) => {
+  const deleteDocument = async (docId: string) => {
     const doc = documents.find(d => d.id === docId);
-    if (doc && window.confirm(`「${doc.name}」を削除してもよろしいですか？`)) {
-      const updatedDocs = documents.filter(d => d.id !== docId);
-      setDocuments(updatedDocs);
-      LocalStorage.set(STORAGE_KEYS.DOCUMENTS_DATA, updatedDocs);
-      
-      // 議事録の場合は会議録も削除
-      if (doc.type === '議事録') {
-        const minutesTitle = doc.name.replace('_議事録', '');
-        const updatedMinutes = meetingMinutes.filter(m => m.title !== minutesTitle);
-        setMeetingMinutes(updatedMinutes);
-        LocalStorage.set(STORAGE_KEYS.MEETING_MINUTES, updatedMinutes);
+    if (doc && window.confirm(`「${doc.title}」をゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`)) {
+      try {
+        // 議事録の場合は会議録もサーバー側で削除される
+        await documentAPI.deleteDocument(docId);
+      } catch (error) {
+        console.error('Failed to delete document:', error);
+        alert('ドキュメントの削除に失敗しました');
+        return;
+      }
+
+      setDocuments(documents.filter(d => d.id !== docId));
+      if (doc.minutesId) {
+        setMeetingMinutes(meetingMinutes.filter(m => m.id !== doc.minutesId));
       }
       
       if (selectedDoc?.id === docId) {
@@ -290,9 +257,19 @@ const Documents: React.FC = () => {
     }
   };
 
+  const getTypeLabel = (type: string) => {
+    switch (type) {
+      case 'meeting': return '議事録';
+      case 'memo': return 'メモ';
+      case 'report': return 'レポート';
+      case 'other': return 'その他';
+      default: return type;
+    }
+  };
+
   const filteredDocuments = documents.filter(doc => {
-    const matchesSearch = doc.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         doc.type.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesSearch = doc.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         getTypeLabel(doc.type).toLowerCase().includes(searchTerm.toLowerCase());
     const matchesCategory = filterCategory === 'all' || doc.category === filterCategory;
     return matchesSearch && matchesCategory;
   });
@@ -323,10 +300,12 @@ const Documents: React.FC = () => {
             <option value="プロジェクト会議">プロジェクト会議</option>
             <option value="その他">その他</option>
           </select>
-          <button className="upload-button" onClick={() => setShowMinutesModal(true)}>
-            <Plus size={20} />
-            議事録作成
-          </button>
+          {can('records:write') && (
+            <button className="upload-button" onClick={() => setShowMinutesModal(true)}>
+              <Plus size={20} />
+              議事録作成
+            </button>
+          )}
         </div>
       </div>
 
@@ -337,6 +316,7 @@ const Documents: React.FC = () => {
             {filteredDocuments.map(doc => (
               <div 
                 key={doc.id} 
+                data-record-id={doc.id}
                 className={`document-card ${selectedDoc?.id === doc.id ? 'selected' : ''}`}
                 onClick={() => setSelectedDoc(doc)}
               >
@@ -344,26 +324,26 @@ const Documents: React.FC = () => {
                   <FileText size={40} />
                 </div>
                 <div className="document-info">
-                  <h4>{doc.name}</h4>
+                  <h4>{doc.title}</h4>
                   <p className="document-meta">
-                    <span className="doc-type">{doc.type}</span>
-                    <span>{doc.size}</span>
-                    <span>{doc.uploadDate}</span>
+                    <span className="doc-type">{getTypeLabel(doc.type)}</span>
+                    <span>{toDateInput(doc.date || doc.createdAt)}</span>
                   </p>
-                  <p className="document-uploader">アップロード: {doc.uploadedBy}</p>
+                  <p className="document-uploader">作成者: {doc.user?.name || '不明'}</p>
                   {doc.comments.length > 0 && (
                     <p className="comment-count">
                       <MessageSquare size={14} /> {doc.comments.length} コメント
                     </p>
                   )}
                 </div>
+                {can('records:write') && (
                 <div className="document-actions">
-                  {doc.type === '議事録' && (
+                  {doc.minutesId && (
                     <button 
                       className="edit-btn"
                       onClick={(e) => {
                         e.stopPropagation();
-                        editMeetingMinutes(doc.name);
+                        editMeetingMinutes(doc);
                       }}
                       title="編集"
                     >
@@ -381,6 +361,7 @@ const Documents: React.FC = () => {
                     <Trash2 size={16} />
                   </button>
                 </div>
+                )}
               </div>
             ))}
           </div>
@@ -390,11 +371,11 @@ const Documents: React.FC = () => {
           <div className="document-detail">
             <h3>ドキュメント詳細</h3>
             <div className="detail-header">
-              <h4>{selectedDoc.name}</h4>
+              <h4>{selectedDoc.title}</h4>
               <p className="detail-meta">
-                <Calendar size={14} /> {selectedDoc.uploadDate}
+                <Calendar size={14} /> {toDateInput(selectedDoc.date || selectedDoc.createdAt)}
                 <span className="separator">|</span>
-                {selectedDoc.uploadedBy}
+                {selectedDoc.user?.name || '不明'}
               </p>
             </div>
 
@@ -408,7 +389,7 @@ const Documents: React.FC = () => {
                     <div key={comment.id} className="comment">
                       <div className="comment-header">
                         <strong>{comment.author}</strong>
-                        <span className="comment-time">{comment.timestamp}</span>
+                        <span className="comment-time">{new Date(comment.createdAt).toLocaleString('ja-JP')}</span>
                       </div>
                       <p className="comment-text">{comment.text}</p>
                     </div>
@@ -416,17 +397,29 @@ const Documents: React.FC = () => {
                 )}
               </div>
 
-              <div className="comment-input">
-                <textarea
-                  placeholder="コメントを入力..."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  rows={3}
-                />
-                <button onClick={addComment} className="submit-comment">
-                  コメントを投稿
-                </button>
-              </div>
+              {can('records:write') && (
+                <div className="comment-input">
+                  <textarea
+                    placeholder="コメントを入力..."
+                    value={newComment}
+                    onChange={(e) => setNewComment(e.target.value)}
+                    rows={3}
+                  />
+                  <button onClick={addComment} className="submit-comment">
+                    コメントを投稿
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* 議事録のドキュメントは元の議事録の履歴を表示する */}
+            <div className="history-section">
+              <h4>変更履歴</h4>
+              <ActivityFeed
+                entityType={selectedDoc.minutesId ? 'meetingMinutes' : 'documents'}
+                entityId={selectedDoc.minutesId || selectedDoc.id}
+                pageSize={10}
+              />
             </div>
           </div>
         )}
@@ -436,14 +429,7 @@ const Documents: React.FC = () => {
         <div className="modal-overlay" onClick={() => {
           setShowMinutesModal(false);
           setEditingMinutes(null);
-          setNewMinutes({ 
-            attendees: [], 
-            agenda: [], 
-            decisions: [], 
-            actionItems: [],
-            meetingType: 'zoom',
-            status: 'scheduled'
-          });
+          resetMinutesForm();
         }}>
           <div className="modal-content minutes-modal" onClick={(e) => e.stopPropagation()}>
             <h2>{editingMinutes ? '議事録編集' : '議事録作成'}</h2>
@@ -574,14 +560,7 @@ const Documents: React.FC = () => {
               <button className="cancel-btn" onClick={() => {
                 setShowMinutesModal(false);
                 setEditingMinutes(null);
-                setNewMinutes({ 
-                  attendees: [], 
-                  agenda: [], 
-                  decisions: [], 
-                  actionItems: [],
-                  meetingType: 'zoom',
-                  status: 'scheduled'
-                });
+                resetMinutesForm();
               }}>キャンセル</button>
               <button className="save-btn" onClick={addMeetingMinutes}>
                 {editingMinutes ? '議事録を更新' : '議事録を作成'}
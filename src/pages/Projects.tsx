@@ -1,41 +1,36 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, DollarSign, Clock, CheckCircle, AlertCircle, Edit2, Trash2 } from 'lucide-react';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Plus, DollarSign, Clock, CheckCircle, AlertCircle, Edit2, Trash2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useDataMode, useProjects, useTasks, useTeamMembers } from '../contexts/DataContext';
+import { useFocusRecord } from '../hooks/useFocusRecord';
+import { Project, Deliverable, ProjectExpense, ServiceCategory } from '../types/models';
+import ActivityFeed from '../components/ActivityFeed';
+import LinkedTasks from '../components/LinkedTasks';
+import ConflictDialog from '../components/ConflictDialog';
+import { useVersionConflict } from '../hooks/useVersionConflict';
+import { useProjectTimeTotals } from '../hooks/useProjectTimeTotals';
+import { formatMinutes } from '../utils/timeTracking';
+import {
+  EXPENSE_CATEGORY_LABELS,
+  SERVICE_CATEGORY_LABELS,
+  ProfitabilityGroupBy,
+  formatMargin,
+  profitabilityOf,
+  profitabilityRowsOf
+} from '../utils/profitability';
 import './Projects.css';
 
-interface Project {
-  id: number;
-  name: string;
-  description: string;
-  client: string;
-  status: 'planning' | 'in-progress' | 'review' | 'completed' | 'on-hold';
-  isActive: boolean;
-  priority: 'low' | 'medium' | 'high';
-  startDate: string;
-  endDate: string;
-  budget: number;
-  actualRevenue?: number;
-  teamMembers: string[];
-  progress: number;
-  deliverables: Deliverable[];
-  notes: string;
-  createdAt: string;
-  updatedAt: string;
-  completedDate?: string;
-}
-
-interface Deliverable {
-  id: number;
-  name: string;
-  description: string;
-  dueDate: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'review';
-  assignee: string;
-}
-
 const Projects: React.FC = () => {
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [teamMembers, setTeamMembers] = useState<{id: number, name: string, role: string}[]>([]);
+  const { can } = useAuth();
+  const { projects, create: createProject, update: saveProject, remove: removeProject } = useProjects();
+  const { teamMembers } = useTeamMembers();
+  const { tasks } = useTasks();
+  const dataMode = useDataMode();
+  // 人件費（メンバーの時間単価から計算）は売上を編集できるメンバーにのみ表示する
+  const showLaborCost = dataMode === 'api' && can('revenue:edit');
+  const { conflict, saveEdited, clearConflict } = useVersionConflict(saveProject);
+  useFocusRecord(projects);
   const [showProjectModal, setShowProjectModal] = useState(false);
   const [showDeliverableModal, setShowDeliverableModal] = useState(false);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
@@ -53,84 +48,95 @@ const Projects: React.FC = () => {
     status: 'pending'
   });
 
-  useEffect(() => {
-    const savedProjects = LocalStorage.get<Project[]>(STORAGE_KEYS.PROJECTS_DATA);
-    const savedMembers = LocalStorage.get<{id: number, name: string, role: string}[]>(STORAGE_KEYS.TEAM_MEMBERS);
-    
-    if (savedProjects && savedProjects.length > 0) {
-      setProjects(savedProjects);
-    }
-    if (savedMembers && savedMembers.length > 0) {
-      setTeamMembers(savedMembers);
-    }
-  }, []);
+  // 案件ごとの作業時間と人件費（チームモードのみ。関連付けたタスクの作業時間の合計）
+  const { minutesByProject, laborCostByProject } = useProjectTimeTotals();
+  const [profitabilityGroupBy, setProfitabilityGroupBy] = useState<ProfitabilityGroupBy>('project');
 
-  const addProject = () => {
+  const tasksOf = (project: Project) => tasks.filter(task => task.projectId === project.id);
+
+  const addProject = async () => {
     if (newProject.name && newProject.client && newProject.startDate) {
-      let updatedProjects;
-      
-      if (editingProject) {
-        // 編集モード
-        updatedProjects = projects.map(project => 
-          project.id === editingProject.id 
-            ? {
-                ...editingProject,
-                name: newProject.name!,
-                description: newProject.description || '',
-                client: newProject.client!,
-                status: newProject.status as Project['status'],
-                isActive: newProject.isActive !== false,
-                priority: newProject.priority as Project['priority'],
-                startDate: newProject.startDate!,
-                endDate: newProject.endDate || '',
-                budget: newProject.budget || 0,
-                teamMembers: newProject.teamMembers || [],
-                notes: newProject.notes || '',
-                updatedAt: new Date().toISOString()
-              }
-            : project
-        );
-        setEditingProject(null);
-      } else {
-        // 新規追加モード
-        const project: Project = {
-          id: Date.now(),
-          name: newProject.name!,
-          description: newProject.description || '',
-          client: newProject.client!,
-          status: newProject.status as Project['status'],
-          isActive: newProject.isActive !== false,
-          priority: newProject.priority as Project['priority'],
-          startDate: newProject.startDate!,
-          endDate: newProject.endDate || '',
-          budget: newProject.budget || 0,
-          teamMembers: newProject.teamMembers || [],
-          progress: newProject.progress || 0,
-          deliverables: newProject.deliverables || [],
-          notes: newProject.notes || '',
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-        updatedProjects = [...projects, project];
+      const projectData = {
+        name: newProject.name,
+        description: newProject.description || '',
+        client: newProject.client,
+        status: newProject.status as Project['status'],
+        isActive: newProject.isActive !== false,
+        priority: newProject.priority as Project['priority'],
+        startDate: newProject.startDate,
+        endDate: newProject.endDate || '',
+        budget: newProject.budget || 0,
+        serviceCategory: newProject.serviceCategory || null,
+        expenses: (newProject.expenses || []).filter(expense => expense.description || expense.amount),
+        teamMembers: newProject.teamMembers || [],
+        notes: newProject.notes || ''
+      };
+
+      try {
+        if (editingProject) {
+          // 編集モード（編集中に他のメンバーが更新していた場合は、競合を解決してから保存し直す）
+          if (!(await saveEdited(editingProject, projectData))) return;
+        } else {
+          // 新規追加モード
+          await createProject({
+            ...projectData,
+            progress: newProject.progress || 0,
+            deliverables: newProject.deliverables || []
+          });
+        }
+      } catch (error) {
+        console.error('Failed to save project:', error);
+        alert('案件の保存に失敗しました');
+        return;
       }
-      
-      setProjects(updatedProjects);
-      LocalStorage.set(STORAGE_KEYS.PROJECTS_DATA, updatedProjects);
-      
-      setNewProject({
-        status: 'planning',
-        isActive: true,
-        priority: 'medium',
-        progress: 0,
-        deliverables: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
-      setShowProjectModal(false);
+
+      closeProjectForm();
+    }
+  };
+
+  const closeProjectForm = () => {
+    setShowProjectModal(false);
+    setEditingProject(null);
+    setNewProject({
+      status: 'planning',
+      isActive: true,
+      priority: 'medium',
+      progress: 0,
+      deliverables: [],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+  };
+
+  // 競合を解決した内容を、最新の version で保存し直す
+  const resolveConflict = async (merged: Partial<Project>) => {
+    if (!conflict) return;
+    clearConflict();
+    try {
+      if (await saveEdited(conflict.theirs, merged)) closeProjectForm();
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      alert('案件の保存に失敗しました');
     }
   };
 
-  const addDeliverable = () => {
+  const addExpense = () => {
+    const expense: ProjectExpense = { id: Date.now(), category: 'outsourcing', description: '', amount: 0, date: '' };
+    setNewProject({ ...newProject, expenses: [...(newProject.expenses || []), expense] });
+  };
+
+  const updateExpense = (id: number, changes: Partial<ProjectExpense>) => {
+    setNewProject({
+      ...newProject,
+      expenses: (newProject.expenses || []).map(expense => expense.id === id ? { ...expense, ...changes } : expense)
+    });
+  };
+
+  const removeExpense = (id: number) => {
+    setNewProject({ ...newProject, expenses: (newProject.expenses || []).filter(expense => expense.id !== id) });
+  };
+
+  const addDeliverable = async () => {
     if (newDeliverable.name && newDeliverable.assignee && selectedProject) {
       const deliverable: Deliverable = {
         id: Date.now(),
@@ -140,42 +146,42 @@ const Projects: React.FC = () => {
         status: newDeliverable.status as Deliverable['status'],
         assignee: newDeliverable.assignee
       };
-      
-      const updatedProjects = projects.map(project => 
-        project.id === selectedProject.id 
-          ? { ...project, deliverables: [...project.deliverables, deliverable], updatedAt: new Date().toISOString() }
-          : project
-      );
-      
-      setProjects(updatedProjects);
-      LocalStorage.set(STORAGE_KEYS.PROJECTS_DATA, updatedProjects);
-      setSelectedProject({ ...selectedProject, deliverables: [...selectedProject.deliverables, deliverable] });
+
+      try {
+        const project = await saveProject(selectedProject.id, {
+          deliverables: [...selectedProject.deliverables, deliverable]
+        });
+        setSelectedProject(project);
+      } catch (error) {
+        console.error('Failed to add deliverable:', error);
+        alert('納品物の追加に失敗しました');
+        return;
+      }
       setNewDeliverable({ status: 'pending' });
       setShowDeliverableModal(false);
     }
   };
 
 
-  const updateProjectStatus = (projectId: number, status: Project['status'], actualRevenue?: number) => {
-    const updatedProjects = projects.map(project => {
-      if (project.id === projectId) {
-        const updates: Partial<Project> = {
-          ...project,
-          status,
-          updatedAt: new Date().toISOString()
-        };
-        
-        if (status === 'completed') {
-          updates.completedDate = new Date().toISOString();
-          updates.actualRevenue = actualRevenue || project.budget;
-        }
-        
-        return updates as Project;
+  const updateProjectStatus = async (projectId: string, status: Project['status'], actualRevenue?: number) => {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    const updates: Partial<Project> = { status };
+    if (status === 'completed') {
+      updates.completedDate = new Date().toISOString();
+      // 売上の編集権限がない場合、実収益はサーバー側で変更されない
+      if (can('revenue:edit')) {
+        updates.actualRevenue = actualRevenue || project.budget;
       }
-      return project;
-    });
-    setProjects(updatedProjects);
-    LocalStorage.set(STORAGE_KEYS.PROJECTS_DATA, updatedProjects);
+    }
+
+    try {
+      await saveProject(projectId, updates);
+    } catch (error) {
+      console.error('Failed to update project status:', error);
+      alert('ステータスの更新に失敗しました');
+    }
   };
 
   const editProject = (project: Project) => {
@@ -190,6 +196,8 @@ const Projects: React.FC = () => {
       startDate: project.startDate,
       endDate: project.endDate,
       budget: project.budget,
+      serviceCategory: project.serviceCategory,
+      expenses: project.expenses || [],
       teamMembers: project.teamMembers,
       progress: project.progress,
       deliverables: project.deliverables,
@@ -200,12 +208,19 @@ const Projects: React.FC = () => {
     setShowProjectModal(true);
   };
 
-  const deleteProject = (projectId: number) => {
+  const deleteProject = async (projectId: string) => {
     const project = projects.find(p => p.id === projectId);
-    if (project && window.confirm(`「${project.name}」の案件を削除してもよろしいですか？`)) {
-      const updatedProjects = projects.filter(p => p.id !== projectId);
-      setProjects(updatedProjects);
-      LocalStorage.set(STORAGE_KEYS.PROJECTS_DATA, updatedProjects);
+    // サーバー保存時はゴミ箱に移動する
+    const message = dataMode === 'api'
+      ? `「${project?.name}」の案件をゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`
+      : `「${project?.name}」の案件を削除してもよろしいですか？`;
+    if (project && window.confirm(message)) {
+      try {
+        await removeProject(projectId);
+      } catch (error) {
+        console.error('Failed to delete project:', error);
+        alert('案件の削除に失敗しました');
+      }
     }
   };
 
@@ -250,10 +265,12 @@ const Projects: React.FC = () => {
         <h1>📋 案件管理</h1>
         <p className="projects-subtitle">プロジェクトと納品物の進捗管理</p>
         <div className="header-actions">
-          <button className="add-project-btn" onClick={() => setShowProjectModal(true)}>
-            <Plus size={20} />
-            新規案件追加
-          </button>
+          {can('records:write') && (
+            <button className="add-project-btn" onClick={() => setShowProjectModal(true)}>
+              <Plus size={20} />
+              新規案件追加
+            </button>
+          )}
         </div>
       </div>
 
@@ -314,6 +331,52 @@ const Projects: React.FC = () => {
         </div>
       </div>
 
+      {can('sales:view') && projects.length > 0 && (
+        <div className="profitability-section">
+          <div className="profitability-header">
+            <h3>収益性</h3>
+            <div className="profitability-tabs">
+              {([['project', '案件別'], ['client', 'クライアント別'], ['serviceCategory', 'サービス区分別']] as const).map(([groupBy, label]) => (
+                <button
+                  key={groupBy}
+                  className={profitabilityGroupBy === groupBy ? 'active' : ''}
+                  onClick={() => setProfitabilityGroupBy(groupBy)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>{profitabilityGroupBy === 'project' ? '案件' : profitabilityGroupBy === 'client' ? 'クライアント' : 'サービス区分'}</th>
+                {profitabilityGroupBy !== 'project' && <th>案件数</th>}
+                <th>売上</th>
+                <th>経費</th>
+                {showLaborCost && <th>人件費</th>}
+                <th>粗利</th>
+                <th>粗利率</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profitabilityRowsOf(projects, laborCostByProject, profitabilityGroupBy).map(row => (
+                <tr key={row.key} className={row.grossProfit < 0 ? 'loss' : ''}>
+                  <td>{row.label}</td>
+                  {profitabilityGroupBy !== 'project' && <td>{row.projectCount}件</td>}
+                  <td>¥{row.revenue.toLocaleString()}</td>
+                  <td>¥{row.expenses.toLocaleString()}</td>
+                  {showLaborCost && <td>¥{row.laborCost.toLocaleString()}</td>}
+                  <td>¥{row.grossProfit.toLocaleString()}</td>
+                  <td>{formatMargin(row.margin)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="profitability-hint">※売上は実収益（未入力の場合は予算）。{showLaborCost && '人件費は作業時間とメンバーの時間単価（チーム設定）から計算'}</p>
+        </div>
+      )}
+
       {projects.length === 0 && (
         <div className="no-projects">
           <h3>案件がありません</h3>
@@ -323,7 +386,7 @@ const Projects: React.FC = () => {
 
       <div className="projects-grid">
         {projects.map(project => (
-          <div key={project.id} className="project-card">
+          <div key={project.id} className="project-card" data-record-id={project.id}>
             <div className="project-header">
               <h3>{project.name}</h3>
               <div className="project-badges">
@@ -356,6 +419,30 @@ const Projects: React.FC = () => {
                 <p><strong>完了日:</strong> {new Date(project.completedDate).toLocaleDateString('ja-JP')}</p>
               )}
               <p><strong>チーム:</strong> {project.teamMembers.join(', ')}</p>
+              <p>
+                <strong>タスク:</strong>{' '}
+                <Link to={`/tasks?project=${encodeURIComponent(project.id)}`}>
+                  {tasksOf(project).filter(task => task.status === 'completed').length}/{tasksOf(project).length}件完了
+                </Link>
+              </p>
+              {project.serviceCategory && (
+                <p><strong>サービス区分:</strong> {SERVICE_CATEGORY_LABELS[project.serviceCategory]}</p>
+              )}
+              {dataMode === 'api' && (
+                <p><strong>作業時間:</strong> {formatMinutes(minutesByProject[project.id] ?? 0)}</p>
+              )}
+              {can('sales:view') && (() => {
+                const profitability = profitabilityOf(project, laborCostByProject);
+                return (
+                  <p className={profitability.grossProfit < 0 ? 'loss' : ''}>
+                    <strong>粗利:</strong> ¥{profitability.grossProfit.toLocaleString()}（{formatMargin(profitability.margin)}）
+                    <span className="cost-detail">
+                      経費 ¥{profitability.expenses.toLocaleString()}
+                      {showLaborCost && ` / 人件費 ¥${profitability.laborCost.toLocaleString()}`}
+                    </span>
+                  </p>
+                );
+              })()}
             </div>
 
             <div className="project-progress">
@@ -389,15 +476,17 @@ const Projects: React.FC = () => {
             </div>
 
             <div className="project-actions">
-              <button 
-                className="action-btn"
-                onClick={() => {
-                  setSelectedProject(project);
-                  setShowDeliverableModal(true);
-                }}
-              >
-                納品物追加
-              </button>
+              {can('records:write') && (
+                <button 
+                  className="action-btn"
+                  onClick={() => {
+                    setSelectedProject(project);
+                    setShowDeliverableModal(true);
+                  }}
+                >
+                  納品物追加
+                </button>
+              )}
               {project.status === 'completed' ? (
                 <button 
                   className="action-btn completed"
@@ -409,7 +498,12 @@ const Projects: React.FC = () => {
                 <button 
                   className="action-btn secondary"
                   onClick={() => {
-                    if (project.status === 'review' || project.status === 'in-progress') {
+                    if ((project.status === 'review' || project.status === 'in-progress') && can('records:write')) {
+                      // 売上を編集できないロールは実収益を入力せずに完了にする
+                      if (!can('revenue:edit')) {
+                        updateProjectStatus(project.id, 'completed');
+                        return;
+                      }
                       const revenue = window.prompt('実収益金額を入力してください（空欄の場合は予算金額を使用）:', project.budget.toString());
                       if (revenue !== null) {
                         updateProjectStatus(project.id, 'completed', parseInt(revenue) || project.budget);
@@ -419,42 +513,34 @@ const Projects: React.FC = () => {
                     }
                   }}
                 >
-                  {project.status === 'review' || project.status === 'in-progress' ? '完了にする' : '詳細表示'}
+                  {(project.status === 'review' || project.status === 'in-progress') && can('records:write') ? '完了にする' : '詳細表示'}
+                </button>
+              )}
+              {can('records:write') && (
+                <button 
+                  className="edit-btn"
+                  onClick={() => editProject(project)}
+                  title="編集"
+                >
+                  <Edit2 size={16} />
+                </button>
+              )}
+              {can('projects:delete') && (
+                <button 
+                  className="delete-btn"
+                  onClick={() => deleteProject(project.id)}
+                  title="削除"
+                >
+                  <Trash2 size={16} />
                 </button>
               )}
-              <button 
-                className="edit-btn"
-                onClick={() => editProject(project)}
-                title="編集"
-              >
-                <Edit2 size={16} />
-              </button>
-              <button 
-                className="delete-btn"
-                onClick={() => deleteProject(project.id)}
-                title="削除"
-              >
-                <Trash2 size={16} />
-              </button>
             </div>
           </div>
         ))}
       </div>
 
       {showProjectModal && (
-        <div className="modal-overlay" onClick={() => {
-          setShowProjectModal(false);
-          setEditingProject(null);
-          setNewProject({
-            status: 'planning',
-            isActive: true,
-            priority: 'medium',
-            progress: 0,
-            deliverables: [],
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString()
-          });
-        }}>
+        <div className="modal-overlay" onClick={closeProjectForm}>
           <div className="modal-content large-modal" onClick={(e) => e.stopPropagation()}>
             <h2>{editingProject ? '案件情報編集' : '新規案件追加'}</h2>
             <div className="form-row">
@@ -512,8 +598,70 @@ const Projects: React.FC = () => {
                   value={newProject.budget || ''}
                   onChange={(e) => setNewProject({ ...newProject, budget: parseInt(e.target.value) || 0 })}
                   placeholder="1000000"
+                  disabled={!can('revenue:edit')}
                 />
               </div>
+              <div className="form-group">
+                <label>サービス区分</label>
+                <select
+                  value={newProject.serviceCategory || ''}
+                  onChange={(e) => setNewProject({ ...newProject, serviceCategory: (e.target.value || null) as ServiceCategory | null })}
+                >
+                  <option value="">未設定</option>
+                  {(Object.keys(SERVICE_CATEGORY_LABELS) as ServiceCategory[]).map(category => (
+                    <option key={category} value={category}>{SERVICE_CATEGORY_LABELS[category]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-group">
+              <label>経費</label>
+              {(newProject.expenses || []).map(expense => (
+                <div key={expense.id} className="expense-row">
+                  <select
+                    value={expense.category}
+                    onChange={(e) => updateExpense(expense.id, { category: e.target.value as ProjectExpense['category'] })}
+                    disabled={!can('revenue:edit')}
+                  >
+                    {(Object.keys(EXPENSE_CATEGORY_LABELS) as ProjectExpense['category'][]).map(category => (
+                      <option key={category} value={category}>{EXPENSE_CATEGORY_LABELS[category]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={expense.description}
+                    onChange={(e) => updateExpense(expense.id, { description: e.target.value })}
+                    placeholder="内容（外注先・ツール名など）"
+                    disabled={!can('revenue:edit')}
+                  />
+                  <input
+                    type="number"
+                    className="expense-amount"
+                    value={expense.amount || ''}
+                    onChange={(e) => updateExpense(expense.id, { amount: parseInt(e.target.value) || 0 })}
+                    placeholder="金額"
+                    disabled={!can('revenue:edit')}
+                  />
+                  <input
+                    type="date"
+                    value={expense.date || ''}
+                    onChange={(e) => updateExpense(expense.id, { date: e.target.value })}
+                    disabled={!can('revenue:edit')}
+                  />
+                  {can('revenue:edit') && (
+                    <button type="button" className="expense-remove" onClick={() => removeExpense(expense.id)} title="削除">
+                      <X size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {can('revenue:edit') && (
+                <button type="button" className="add-expense-btn" onClick={addExpense}>
+                  <Plus size={14} /> 経費を追加
+                </button>
+              )}
+            </div>
+            <div className="form-row">
               <div className="form-group">
                 <label>ステータス</label>
                 <select
@@ -582,20 +730,20 @@ const Projects: React.FC = () => {
                 placeholder="案件に関する追加情報や注意事項"
               />
             </div>
+            {editingProject && (
+              <div className="form-group">
+                <label>関連タスク</label>
+                <LinkedTasks tasks={tasksOf(editingProject)} filterUrl={`/tasks?project=${encodeURIComponent(editingProject.id)}`} />
+              </div>
+            )}
+            {editingProject && dataMode === 'api' && (
+              <div className="form-group">
+                <label>変更履歴</label>
+                <ActivityFeed entityType="projects" entityId={editingProject.id} pageSize={10} />
+              </div>
+            )}
             <div className="modal-actions">
-              <button className="cancel-btn" onClick={() => {
-                setShowProjectModal(false);
-                setEditingProject(null);
-                setNewProject({
-                  status: 'planning',
-                  isActive: true,
-                  priority: 'medium',
-                  progress: 0,
-                  deliverables: [],
-                  createdAt: new Date().toISOString(),
-                  updatedAt: new Date().toISOString()
-                });
-              }}>キャンセル</button>
+              <button className="cancel-btn" onClick={closeProjectForm}>キャンセル</button>
               <button className="save-btn" onClick={addProject}>
                 {editingProject ? '案件情報を更新' : '案件を追加'}
               </button>
@@ -655,6 +803,18 @@ const Projects: React.FC = () => {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictDialog
+          conflict={conflict}
+          onResolve={resolveConflict}
+          onDiscard={() => {
+            clearConflict();
+            closeProjectForm();
+          }}
+          onCancel={clearConflict}
+        />
+      )}
     </div>
   );
 };
@@ -1,39 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import { TrendingUp, DollarSign, Users, Target, Plus, Edit2, Trash2 } from 'lucide-react';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import { useAuth } from '../contexts/AuthContext';
+import { useDataMode, useLeads, useTasks } from '../contexts/DataContext';
+import { useFocusRecord } from '../hooks/useFocusRecord';
+import { Lead, LeadService as Service } from '../types/models';
+import ActivityFeed from '../components/ActivityFeed';
+import LinkedTasks from '../components/LinkedTasks';
+import ConflictDialog from '../components/ConflictDialog';
+import { useVersionConflict } from '../hooks/useVersionConflict';
 import './Sales.css';
 
-interface Lead {
-  id: number;
-  company: string;
-  contact: string;
-  contactEmail: string;
-  contactPhone: string;
-  companyUrl: string;
-  status: string;
-  value: number;
-  probability: number;
-  nextAction: string;
-  lastContact: string;
-  meetingDate?: string;
-  meetingLink?: string;
-  services: Service[];
-  notes: string;
-  createdAt: string;
-}
-
-interface Service {
-  id: number;
-  name: string;
-  category: 'advertising' | 'lp' | 'design' | 'video' | 'development' | 'consulting' | 'other';
-  description: string;
-  price: number;
-  status: 'proposed' | 'accepted' | 'rejected' | 'in-progress' | 'completed';
-  deliveryTime?: string;
-}
-
 const Sales: React.FC = () => {
+  const { can } = useAuth();
+  const { leads, create: createLead, update: saveLead, remove: removeLead } = useLeads();
+  const { tasks } = useTasks();
+  const dataMode = useDataMode();
+  const { conflict, saveEdited, clearConflict } = useVersionConflict(saveLead);
+  useFocusRecord(leads);
   const [showLeadModal, setShowLeadModal] = useState(false);
   const [showServiceModal, setShowServiceModal] = useState(false);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
@@ -48,77 +32,70 @@ const Sales: React.FC = () => {
     status: 'proposed',
     category: 'other'
   });
-  const [leads, setLeads] = useState<Lead[]>([]);
-
-  useEffect(() => {
-    const savedLeads = LocalStorage.get<Lead[]>(STORAGE_KEYS.LEADS_DATA);
-    if (savedLeads && savedLeads.length > 0) {
-      setLeads(savedLeads);
-    }
-  }, []);
 
-  const addLead = () => {
+  const addLead = async () => {
     if (newLead.company && newLead.contact && newLead.value) {
-      let updatedLeads;
-      
-      if (editingLead) {
-        // 編集モード
-        updatedLeads = leads.map(lead => 
-          lead.id === editingLead.id 
-            ? {
-                ...editingLead,
-                company: newLead.company!,
-                contact: newLead.contact!,
-                contactEmail: newLead.contactEmail || '',
-                contactPhone: newLead.contactPhone || '',
-                companyUrl: newLead.companyUrl || '',
-                status: newLead.status || 'リード',
-                value: newLead.value!,
-                probability: newLead.probability || 50,
-                nextAction: newLead.nextAction || '',
-                meetingDate: newLead.meetingDate,
-                meetingLink: newLead.meetingLink,
-                notes: newLead.notes || ''
-              }
-            : lead
-        );
-        setEditingLead(null);
-      } else {
-        // 新規追加モード
-        const lead: Lead = {
-          id: Date.now(),
-          company: newLead.company!,
-          contact: newLead.contact!,
-          contactEmail: newLead.contactEmail || '',
-          contactPhone: newLead.contactPhone || '',
-          companyUrl: newLead.companyUrl || '',
-          status: newLead.status || 'リード',
-          value: newLead.value!,
-          probability: newLead.probability || 50,
-          nextAction: newLead.nextAction || '',
-          lastContact: new Date().toISOString().split('T')[0],
-          meetingDate: newLead.meetingDate,
-          meetingLink: newLead.meetingLink,
-          services: newLead.services || [],
-          notes: newLead.notes || '',
-          createdAt: new Date().toISOString()
-        };
-        updatedLeads = [...leads, lead];
+      const leadData = {
+        company: newLead.company,
+        contact: newLead.contact,
+        contactEmail: newLead.contactEmail || '',
+        contactPhone: newLead.contactPhone || '',
+        companyUrl: newLead.companyUrl || '',
+        status: newLead.status || 'リード',
+        value: newLead.value,
+        probability: newLead.probability || 50,
+        nextAction: newLead.nextAction || '',
+        meetingDate: newLead.meetingDate,
+        meetingLink: newLead.meetingLink,
+        notes: newLead.notes || ''
+      };
+
+      try {
+        if (editingLead) {
+          // 編集モード（編集中に他のメンバーが更新していた場合は、競合を解決してから保存し直す）
+          if (!(await saveEdited(editingLead, leadData))) return;
+        } else {
+          // 新規追加モード
+          await createLead({
+            ...leadData,
+            lastContact: new Date().toISOString().split('T')[0],
+            services: newLead.services || []
+          });
+        }
+      } catch (error) {
+        console.error('Failed to save lead:', error);
+        alert('顧客情報の保存に失敗しました');
+        return;
       }
-      
-      setLeads(updatedLeads);
-      LocalStorage.set(STORAGE_KEYS.LEADS_DATA, updatedLeads);
-      setNewLead({ 
-        probability: 50, 
-        services: [], 
-        notes: '',
-        createdAt: new Date().toISOString()
-      });
-      setShowLeadModal(false);
+
+      closeLeadForm();
     }
   };
 
-  const addService = () => {
+  const closeLeadForm = () => {
+    setShowLeadModal(false);
+    setEditingLead(null);
+    setNewLead({
+      probability: 50,
+      services: [],
+      notes: '',
+      createdAt: new Date().toISOString()
+    });
+  };
+
+  // 競合を解決した内容を、最新の version で保存し直す
+  const resolveConflict = async (merged: Partial<Lead>) => {
+    if (!conflict) return;
+    clearConflict();
+    try {
+      if (await saveEdited(conflict.theirs, merged)) closeLeadForm();
+    } catch (error) {
+      console.error('Failed to save lead:', error);
+      alert('顧客情報の保存に失敗しました');
+    }
+  };
+
+  const addService = async () => {
     if (newService.name && newService.price && selectedLead) {
       const service: Service = {
         id: Date.now(),
@@ -129,16 +106,17 @@ const Sales: React.FC = () => {
         status: newService.status as Service['status'],
         deliveryTime: newService.deliveryTime
       };
-      
-      const updatedLeads = leads.map(lead => 
-        lead.id === selectedLead.id 
-          ? { ...lead, services: [...lead.services, service] }
-          : lead
-      );
-      
-      setLeads(updatedLeads);
-      LocalStorage.set(STORAGE_KEYS.LEADS_DATA, updatedLeads);
-      setSelectedLead({ ...selectedLead, services: [...selectedLead.services, service] });
+
+      try {
+        const lead = await saveLead(selectedLead.id, {
+          services: [...selectedLead.services, service]
+        });
+        setSelectedLead(lead);
+      } catch (error) {
+        console.error('Failed to add service:', error);
+        alert('サービスの追加に失敗しました');
+        return;
+      }
       setNewService({ status: 'proposed', category: 'other' });
       setShowServiceModal(false);
     }
@@ -165,12 +143,19 @@ const Sales: React.FC = () => {
     setShowLeadModal(true);
   };
 
-  const deleteLead = (leadId: number) => {
+  const deleteLead = async (leadId: string) => {
     const lead = leads.find(l => l.id === leadId);
-    if (lead && window.confirm(`「${lead.company}」の顧客情報を削除してもよろしいですか？`)) {
-      const updatedLeads = leads.filter(l => l.id !== leadId);
-      setLeads(updatedLeads);
-      LocalStorage.set(STORAGE_KEYS.LEADS_DATA, updatedLeads);
+    // サーバー保存時はゴミ箱に移動する
+    const message = dataMode === 'api'
+      ? `「${lead?.company}」の顧客情報をゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`
+      : `「${lead?.company}」の顧客情報を削除してもよろしいですか？`;
+    if (lead && window.confirm(message)) {
+      try {
+        await removeLead(leadId);
+      } catch (error) {
+        console.error('Failed to delete lead:', error);
+        alert('顧客情報の削除に失敗しました');
+      }
     }
   };
 
@@ -256,13 +241,15 @@ const Sales: React.FC = () => {
   return (
     <div className="sales">
       <div className="sales-header">
-        <h1>👥 顧客管理</h1>
+        <h1>💼 商談管理</h1>
         <p className="sales-subtitle">顧客情報とサービス提案の管理</p>
         <div className="header-actions">
-          <button className="add-lead-btn" onClick={() => setShowLeadModal(true)}>
-            <Plus size={20} />
-            新規顧客追加
-          </button>
+          {can('records:write') && (
+            <button className="add-lead-btn" onClick={() => setShowLeadModal(true)}>
+              <Plus size={20} />
+              新規顧客追加
+            </button>
+          )}
         </div>
       </div>
 
@@ -446,7 +433,7 @@ const Sales: React.FC = () => {
             </thead>
             <tbody>
               {leads.map(lead => (
-                <tr key={lead.id}>
+                <tr key={lead.id} data-record-id={lead.id}>
                   <td className="company-name">
                     <div>
                       <strong>{lead.company}</strong>
@@ -503,6 +490,7 @@ const Sales: React.FC = () => {
                     </div>
                   </td>
                   <td>
+                    {can('records:write') && (
                     <div className="action-buttons">
                       <button 
                         className="action-btn"
@@ -528,6 +516,7 @@ const Sales: React.FC = () => {
                         <Trash2 size={16} />
                       </button>
                     </div>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -537,16 +526,7 @@ const Sales: React.FC = () => {
       </div>
 
       {showLeadModal && (
-        <div className="modal-overlay" onClick={() => {
-          setShowLeadModal(false);
-          setEditingLead(null);
-          setNewLead({ 
-            probability: 50, 
-            services: [], 
-            notes: '',
-            createdAt: new Date().toISOString()
-          });
-        }}>
+        <div className="modal-overlay" onClick={closeLeadForm}>
           <div className="modal-content large-modal" onClick={(e) => e.stopPropagation()}>
             <h2>{editingLead ? '顧客情報編集' : '新規顧客追加'}</h2>
             <div className="form-row">
@@ -671,17 +651,23 @@ const Sales: React.FC = () => {
                 placeholder="顧客の詳細情報や注意事項"
               />
             </div>
+            {editingLead && (
+              <div className="form-group">
+                <label>関連タスク</label>
+                <LinkedTasks
+                  tasks={tasks.filter(task => task.leadId === editingLead.id)}
+                  filterUrl={`/tasks?lead=${encodeURIComponent(editingLead.id)}`}
+                />
+              </div>
+            )}
+            {editingLead && dataMode === 'api' && (
+              <div className="form-group">
+                <label>変更履歴</label>
+                <ActivityFeed entityType="leads" entityId={editingLead.id} pageSize={10} />
+              </div>
+            )}
             <div className="modal-actions">
-              <button className="cancel-btn" onClick={() => {
-                setShowLeadModal(false);
-                setEditingLead(null);
-                setNewLead({ 
-                  probability: 50, 
-                  services: [], 
-                  notes: '',
-                  createdAt: new Date().toISOString()
-                });
-              }}>キャンセル</button>
+              <button className="cancel-btn" onClick={closeLeadForm}>キャンセル</button>
               <button className="save-btn" onClick={addLead}>
                 {editingLead ? '顧客情報を更新' : '顧客を追加'}
               </button>
@@ -769,6 +755,18 @@ const Sales: React.FC = () => {
           </div>
         </div>
       )}
+
+      {conflict && (
+        <ConflictDialog
+          conflict={conflict}
+          onResolve={resolveConflict}
+          onDiscard={() => {
+            clearConflict();
+            closeLeadForm();
+          }}
+          onCancel={clearConflict}
+        />
+      )}
     </div>
   );
 };
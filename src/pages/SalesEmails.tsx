@@ -1,17 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Mail, Search, Calendar, User, ExternalLink, Edit2, Trash2 } from 'lucide-react';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import { salesEmailAPI, SalesEmailFilters, fetchAllPages } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useFocusRecord } from '../hooks/useFocusRecord';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import ActivityFeed from '../components/ActivityFeed';
 import './SalesEmails.css';
 
 interface SalesEmail {
-  id: number;
+  id: string;
   subject: string;
   content: string;
   client: string;
   contactPerson: string;
   emailType: 'inquiry' | 'proposal' | 'follow-up' | 'contract' | 'other';
-  sentDate: string;
-  receivedDate: string;
+  sentDate: string | null;
+  receivedDate: string | null;
   status: 'sent' | 'received' | 'replied' | 'no-reply';
   attachments: string[];
   tags: string[];
@@ -19,8 +23,16 @@ interface SalesEmail {
   createdAt: string;
 }
 
+// APIから返るISO日時を日付入力欄の形式（YYYY-MM-DD）に揃える
+const toDateInput = (value?: string | null) => (value ? value.split('T')[0] : '');
+
+const SEARCH_DELAY = 300;
+
 const SalesEmails: React.FC = () => {
+  const { can } = useAuth();
+  const withIdempotencyKey = useIdempotencyKey();
   const [emails, setEmails] = useState<SalesEmail[]>([]);
+  const [filteredEmails, setFilteredEmails] = useState<SalesEmail[]>([]);
   const [showEmailModal, setShowEmailModal] = useState(false);
   const [selectedEmail, setSelectedEmail] = useState<SalesEmail | null>(null);
   const [editingEmail, setEditingEmail] = useState<SalesEmail | null>(null);
@@ -32,63 +44,83 @@ const SalesEmails: React.FC = () => {
     createdAt: new Date().toISOString()
   });
   const [searchTerm, setSearchTerm] = useState('');
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
   const [filterType, setFilterType] = useState('all');
   const [filterStatus, setFilterStatus] = useState('all');
+  const [filterClient, setFilterClient] = useState('all');
+  const [filterTag, setFilterTag] = useState('all');
+  const [filterFrom, setFilterFrom] = useState('');
+  const [filterTo, setFilterTo] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+  useFocusRecord(emails, setSelectedEmail);
 
+  // 統計・絞り込み候補用に全件を取得
   useEffect(() => {
-    const savedEmails = LocalStorage.get<SalesEmail[]>(STORAGE_KEYS.SALES_EMAILS);
-    if (savedEmails && savedEmails.length > 0) {
-      setEmails(savedEmails);
-    }
-  }, []);
+    fetchAllPages(salesEmailAPI.getSalesEmails)
+      .then(setEmails)
+      .catch(error => console.error('Failed to load sales emails:', error));
+  }, [reloadKey]);
+
+  // 検索語は入力が止まってから反映する
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
-  const addEmail = () => {
+  // 一覧はサーバー側で絞り込み、古い条件の結果では上書きしない
+  useEffect(() => {
+    const filters: SalesEmailFilters = {
+      q: debouncedSearchTerm || undefined,
+      client: filterClient,
+      emailType: filterType,
+      status: filterStatus,
+      tag: filterTag,
+      from: filterFrom || undefined,
+      to: filterTo || undefined
+    };
+    let cancelled = false;
+    fetchAllPages(salesEmailAPI.getSalesEmails, filters)
+      .then(items => {
+        if (!cancelled) setFilteredEmails(items);
+      })
+      .catch(error => console.error('Failed to filter sales emails:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearchTerm, filterClient, filterType, filterStatus, filterTag, filterFrom, filterTo, reloadKey]);
+
+  const addEmail = async () => {
     if (newEmail.subject && newEmail.client) {
-      let updatedEmails;
-      
-      if (editingEmail) {
-        // 編集モード
-        updatedEmails = emails.map(email => 
-          email.id === editingEmail.id 
-            ? {
-                ...editingEmail,
-                subject: newEmail.subject!,
-                content: newEmail.content || '',
-                client: newEmail.client!,
-                contactPerson: newEmail.contactPerson || '',
-                emailType: newEmail.emailType as SalesEmail['emailType'],
-                sentDate: newEmail.sentDate || '',
-                receivedDate: newEmail.receivedDate || '',
-                status: newEmail.status as SalesEmail['status'],
-                attachments: newEmail.attachments || [],
-                tags: newEmail.tags || [],
-                notes: newEmail.notes || ''
-              }
-            : email
-        );
-        setEditingEmail(null);
-      } else {
-        // 新規追加モード
-        const email: SalesEmail = {
-          id: Date.now(),
-          subject: newEmail.subject!,
-          content: newEmail.content || '',
-          client: newEmail.client!,
-          contactPerson: newEmail.contactPerson || '',
-          emailType: newEmail.emailType as SalesEmail['emailType'],
-          sentDate: newEmail.sentDate || '',
-          receivedDate: newEmail.receivedDate || '',
-          status: newEmail.status as SalesEmail['status'],
-          attachments: newEmail.attachments || [],
-          tags: newEmail.tags || [],
-          notes: newEmail.notes || '',
-          createdAt: new Date().toISOString()
-        };
-        updatedEmails = [...emails, email];
+      const emailData = {
+        subject: newEmail.subject,
+        content: newEmail.content || '',
+        client: newEmail.client,
+        contactPerson: newEmail.contactPerson || '',
+        emailType: newEmail.emailType,
+        sentDate: newEmail.sentDate || null,
+        receivedDate: newEmail.receivedDate || null,
+        status: newEmail.status,
+        attachments: newEmail.attachments || [],
+        tags: newEmail.tags || [],
+        notes: newEmail.notes || ''
+      };
+
+      try {
+        if (editingEmail) {
+          // 編集モード
+          await salesEmailAPI.updateSalesEmail(editingEmail.id, emailData);
+          setEditingEmail(null);
+        } else {
+          // 新規追加モード
+          await withIdempotencyKey(options => salesEmailAPI.createSalesEmail(emailData, options));
+        }
+      } catch (error) {
+        console.error('Failed to save sales email:', error);
+        alert('営業メールの保存に失敗しました');
+        return;
       }
       
-      setEmails(updatedEmails);
-      LocalStorage.set(STORAGE_KEYS.SALES_EMAILS, updatedEmails);
+      setReloadKey(key => key + 1);
       
       setNewEmail({
         emailType: 'inquiry',
@@ -126,8 +158,8 @@ const SalesEmails: React.FC = () => {
       client: email.client,
       contactPerson: email.contactPerson,
       emailType: email.emailType,
-      sentDate: email.sentDate,
-      receivedDate: email.receivedDate,
+      sentDate: toDateInput(email.sentDate),
+      receivedDate: toDateInput(email.receivedDate),
       status: email.status,
       attachments: email.attachments,
       tags: email.tags,
@@ -137,12 +169,16 @@ const SalesEmails: React.FC = () => {
     setShowEmailModal(true);
   };
 
-  const deleteEmail = (emailId: number) => {
+  const deleteEmail = async (emailId: string) => {
     const email = emails.find(e => e.id === emailId);
-    if (email && window.confirm(`「${email.subject}」のメールを削除してもよろしいですか？`)) {
-      const updatedEmails = emails.filter(e => e.id !== emailId);
-      setEmails(updatedEmails);
-      LocalStorage.set(STORAGE_KEYS.SALES_EMAILS, updatedEmails);
+    if (email && window.confirm(`「${email.subject}」のメールをゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`)) {
+      try {
+        await salesEmailAPI.deleteSalesEmail(emailId);
+        setReloadKey(key => key + 1);
+      } catch (error) {
+        console.error('Failed to delete sales email:', error);
+        alert('営業メールの削除に失敗しました');
+      }
     }
   };
 
@@ -188,14 +224,8 @@ const SalesEmails: React.FC = () => {
     }
   };
 
-  const filteredEmails = emails.filter(email => {
-    const matchesSearch = email.subject.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                          email.client.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                          email.content.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesType = filterType === 'all' || email.emailType === filterType;
-    const matchesStatus = filterStatus === 'all' || email.status === filterStatus;
-    return matchesSearch && matchesType && matchesStatus;
-  });
+  const clientOptions = Array.from(new Set(emails.map(email => email.client))).sort();
+  const tagOptions = Array.from(new Set(emails.flatMap(email => email.tags))).sort();
 
   return (
     <div className="sales-emails">
@@ -235,10 +265,46 @@ const SalesEmails: React.FC = () => {
             <option value="replied">返信済み</option>
             <option value="no-reply">未返信</option>
           </select>
-          <button className="add-email-btn" onClick={() => setShowEmailModal(true)}>
-            <Plus size={20} />
-            メール追加
-          </button>
+          <select
+            className="filter-select"
+            value={filterClient}
+            onChange={(e) => setFilterClient(e.target.value)}
+          >
+            <option value="all">すべてのクライアント</option>
+            {clientOptions.map(client => (
+              <option key={client} value={client}>{client}</option>
+            ))}
+          </select>
+          <select
+            className="filter-select"
+            value={filterTag}
+            onChange={(e) => setFilterTag(e.target.value)}
+          >
+            <option value="all">すべてのタグ</option>
+            {tagOptions.map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className="filter-select"
+            value={filterFrom}
+            onChange={(e) => setFilterFrom(e.target.value)}
+            title="送信日（から）"
+          />
+          <input
+            type="date"
+            className="filter-select"
+            value={filterTo}
+            onChange={(e) => setFilterTo(e.target.value)}
+            title="送信日（まで）"
+          />
+          {can('records:write') && (
+            <button className="add-email-btn" onClick={() => setShowEmailModal(true)}>
+              <Plus size={20} />
+              メール追加
+            </button>
+          )}
         </div>
       </div>
 
@@ -294,7 +360,7 @@ const SalesEmails: React.FC = () => {
 
       <div className="emails-list">
         {filteredEmails.map(email => (
-          <div key={email.id} className="email-card" onClick={() => setSelectedEmail(email)}>
+          <div key={email.id} className="email-card" data-record-id={email.id} onClick={() => setSelectedEmail(email)}>
             <div className="email-header">
               <h3>{email.subject}</h3>
               <div className="email-badges">
@@ -310,8 +376,8 @@ const SalesEmails: React.FC = () => {
             <div className="email-info">
               <p><strong>クライアント:</strong> {email.client}</p>
               {email.contactPerson && <p><strong>担当者:</strong> {email.contactPerson}</p>}
-              <p><strong>送信日:</strong> {email.sentDate}</p>
-              {email.receivedDate && <p><strong>受信日:</strong> {email.receivedDate}</p>}
+              <p><strong>送信日:</strong> {toDateInput(email.sentDate)}</p>
+              {email.receivedDate && <p><strong>受信日:</strong> {toDateInput(email.receivedDate)}</p>}
             </div>
 
             <div className="email-content">
@@ -332,6 +398,7 @@ const SalesEmails: React.FC = () => {
               </div>
             )}
             
+            {can('records:write') && (
             <div className="email-actions">
               <button 
                 className="edit-btn"
@@ -354,6 +421,7 @@ const SalesEmails: React.FC = () => {
                 <Trash2 size={16} />
               </button>
             </div>
+            )}
           </div>
         ))}
       </div>
@@ -519,8 +587,8 @@ const SalesEmails: React.FC = () => {
                     {getStatusLabel(selectedEmail.status)}
                   </span>
                 </p>
-                <p><strong>送信日:</strong> {selectedEmail.sentDate}</p>
-                {selectedEmail.receivedDate && <p><strong>受信日:</strong> {selectedEmail.receivedDate}</p>}
+                <p><strong>送信日:</strong> {toDateInput(selectedEmail.sentDate)}</p>
+                {selectedEmail.receivedDate && <p><strong>受信日:</strong> {toDateInput(selectedEmail.receivedDate)}</p>}
               </div>
 
               <div className="detail-section">
@@ -547,26 +615,35 @@ const SalesEmails: React.FC = () => {
                   <p>{selectedEmail.notes}</p>
                 </div>
               )}
+
+              <div className="detail-section">
+                <h3>変更履歴</h3>
+                <ActivityFeed entityType="salesEmails" entityId={selectedEmail.id} pageSize={10} />
+              </div>
             </div>
             <div className="modal-actions">
-              <button 
-                className="edit-btn"
-                onClick={() => {
-                  editEmail(selectedEmail);
-                  setSelectedEmail(null);
-                }}
-              >
-                編集
-              </button>
-              <button 
-                className="delete-btn"
-                onClick={() => {
-                  deleteEmail(selectedEmail.id);
-                  setSelectedEmail(null);
-                }}
-              >
-                削除
-              </button>
+              {can('records:write') && (
+                <>
+                  <button 
+                    className="edit-btn"
+                    onClick={() => {
+                      editEmail(selectedEmail);
+                      setSelectedEmail(null);
+                    }}
+                  >
+                    編集
+                  </button>
+                  <button 
+                    className="delete-btn"
+                    onClick={() => {
+                      deleteEmail(selectedEmail.id);
+                      setSelectedEmail(null);
+                    }}
+                  >
+                    削除
+                  </button>
+                </>
+              )}
               <button className="cancel-btn" onClick={() => setSelectedEmail(null)}>閉じる</button>
             </div>
           </div>
@@ -1,17 +1,23 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, FileText, Download, Search, Calendar, User, Star, Edit2, Trash2 } from 'lucide-react';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import { serviceMaterialAPI, fetchAllPages } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useFocusRecord } from '../hooks/useFocusRecord';
+import { useIdempotencyKey } from '../hooks/useIdempotencyKey';
+import ActivityFeed from '../components/ActivityFeed';
 import './ServiceMaterials.css';
 
 interface ServiceMaterial {
-  id: number;
+  id: string;
   title: string;
   description: string;
   category: 'proposal' | 'contract' | 'manual' | 'template' | 'presentation' | 'other';
   serviceCategory?: 'advertising' | 'lp' | 'design' | 'video' | 'development' | 'consulting' | 'other';
   fileType: 'pdf' | 'doc' | 'ppt' | 'xls' | 'image' | 'other';
-  fileSize: string;
-  uploadDate: string;
+  fileName?: string | null;
+  fileSize?: number | null;
+  mimeType?: string | null;
+  checksum?: string | null;
   uploadedBy: string;
   tags: string[];
   downloadCount: number;
@@ -19,13 +25,20 @@ interface ServiceMaterial {
   version: string;
   notes: string;
   createdAt: string;
-  fileData?: string;
-  fileName?: string;
-  price?: number;
-  deliveryTime?: string;
+  price?: number | null;
+  deliveryTime?: string | null;
 }
 
+const formatFileSize = (bytes?: number | null) => {
+  if (!bytes) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 const ServiceMaterials: React.FC = () => {
+  const { can } = useAuth();
+  const withIdempotencyKey = useIdempotencyKey();
   const [materials, setMaterials] = useState<ServiceMaterial[]>([]);
   const [showMaterialModal, setShowMaterialModal] = useState(false);
   const [selectedMaterial, setSelectedMaterial] = useState<ServiceMaterial | null>(null);
@@ -40,96 +53,21 @@ const ServiceMaterials: React.FC = () => {
     tags: [],
     createdAt: new Date().toISOString()
   });
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState('all');
   const [filterFileType, setFilterFileType] = useState('all');
   const [filterServiceCategory, setFilterServiceCategory] = useState('all');
+  useFocusRecord(materials, setSelectedMaterial);
 
   useEffect(() => {
-    const savedMaterials = LocalStorage.get<ServiceMaterial[]>(STORAGE_KEYS.SERVICE_MATERIALS);
-    if (savedMaterials && savedMaterials.length > 0) {
-      console.log('既存のサービス資料を読み込み:', savedMaterials.length, '件');
-      setMaterials(savedMaterials);
-    } else {
-      console.log('保存されたサービス資料なし');
-    }
+    fetchAllPages(serviceMaterialAPI.getServiceMaterials)
+      .then(setMaterials)
+      .catch(error => console.error('Failed to load service materials:', error));
   }, []);
 
-
-  const addMaterial = () => {
-    if (newMaterial.title && newMaterial.description) {
-      let updatedMaterials;
-      
-      if (editingMaterial) {
-        // 編集モード
-        updatedMaterials = materials.map(m => 
-          m.id === editingMaterial.id 
-            ? {
-                ...editingMaterial,
-                title: newMaterial.title!,
-                description: newMaterial.description || '',
-                category: newMaterial.category as ServiceMaterial['category'],
-                serviceCategory: newMaterial.serviceCategory as ServiceMaterial['serviceCategory'],
-                fileType: newMaterial.fileType as ServiceMaterial['fileType'],
-                fileSize: newMaterial.fileSize || editingMaterial.fileSize,
-                uploadDate: editingMaterial.uploadDate,
-                uploadedBy: newMaterial.uploadedBy || editingMaterial.uploadedBy,
-                tags: newMaterial.tags || [],
-                downloadCount: editingMaterial.downloadCount,
-                isPublic: newMaterial.isPublic || true,
-                version: newMaterial.version || editingMaterial.version,
-                notes: newMaterial.notes || '',
-                createdAt: editingMaterial.createdAt,
-                // ファイルデータは保存しない（LocalStorageのサイズ制限回避）
-                fileData: undefined,
-                fileName: newMaterial.fileName || editingMaterial.fileName,
-                price: newMaterial.price,
-                deliveryTime: newMaterial.deliveryTime
-              }
-            : m
-        );
-        setEditingMaterial(null);
-      } else {
-        // 新規追加モード
-        const material: ServiceMaterial = {
-          id: Date.now(),
-          title: newMaterial.title!,
-          description: newMaterial.description || '',
-          category: newMaterial.category as ServiceMaterial['category'],
-          serviceCategory: newMaterial.serviceCategory as ServiceMaterial['serviceCategory'],
-          fileType: newMaterial.fileType as ServiceMaterial['fileType'],
-          fileSize: newMaterial.fileSize || '0 KB',
-          uploadDate: new Date().toISOString().split('T')[0],
-          uploadedBy: newMaterial.uploadedBy || '',
-          tags: newMaterial.tags || [],
-          downloadCount: newMaterial.downloadCount || 0,
-          isPublic: newMaterial.isPublic || true,
-          version: newMaterial.version || '1.0',
-          notes: newMaterial.notes || '',
-          createdAt: new Date().toISOString(),
-          // ファイルデータは保存しない（LocalStorageのサイズ制限回避）
-          fileData: undefined,
-          fileName: newMaterial.fileName,
-          price: newMaterial.price,
-          deliveryTime: newMaterial.deliveryTime
-        };
-        updatedMaterials = [...materials, material];
-      }
-      
-      console.log('資料を保存:', updatedMaterials.length, '件');
-      setMaterials(updatedMaterials);
-      
-      try {
-        LocalStorage.set(STORAGE_KEYS.SERVICE_MATERIALS, updatedMaterials);
-        // 保存確認
-        const saved = LocalStorage.get<ServiceMaterial[]>(STORAGE_KEYS.SERVICE_MATERIALS);
-        console.log('保存後の確認:', saved?.length, '件');
-      } catch (error) {
-        console.error('LocalStorage保存エラー:', error);
-      }
-      
-    }
-    
+  const resetMaterialForm = () => {
     setNewMaterial({
       category: 'proposal',
       serviceCategory: 'other',
@@ -140,6 +78,56 @@ const ServiceMaterials: React.FC = () => {
       tags: [],
       createdAt: new Date().toISOString()
     });
+    setSelectedFile(null);
+  };
+
+  const addMaterial = async () => {
+    if (newMaterial.title && newMaterial.description) {
+      const materialData = {
+        title: newMaterial.title,
+        description: newMaterial.description || '',
+        category: newMaterial.category,
+        serviceCategory: newMaterial.serviceCategory,
+        fileType: newMaterial.fileType,
+        uploadedBy: newMaterial.uploadedBy || '',
+        tags: newMaterial.tags || [],
+        isPublic: newMaterial.isPublic !== false,
+        version: newMaterial.version || '1.0',
+        notes: newMaterial.notes || '',
+        price: newMaterial.price ?? null,
+        deliveryTime: newMaterial.deliveryTime || null
+      };
+
+      setIsSaving(true);
+      try {
+        let material: ServiceMaterial;
+        if (editingMaterial) {
+          // 編集モード
+          material = await serviceMaterialAPI.updateServiceMaterial(editingMaterial.id, materialData);
+        } else {
+          // 新規追加モード
+          material = await withIdempotencyKey(options => serviceMaterialAPI.createServiceMaterial(materialData, options));
+        }
+
+        // ファイルはレコード保存後にストレージへアップロードする
+        if (selectedFile) {
+          material = await serviceMaterialAPI.uploadFile(material.id, selectedFile);
+        }
+
+        setMaterials(editingMaterial
+          ? materials.map(m => m.id === material.id ? material : m)
+          : [material, ...materials]);
+        setEditingMaterial(null);
+      } catch (error) {
+        console.error('Failed to save service material:', error);
+        alert('サービス資料の保存に失敗しました');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+    
+    resetMaterialForm();
     setShowMaterialModal(false);
   };
 
@@ -168,39 +156,56 @@ const ServiceMaterials: React.FC = () => {
       category: material.category,
       serviceCategory: material.serviceCategory,
       fileType: material.fileType,
-      fileSize: material.fileSize,
       uploadedBy: material.uploadedBy,
       tags: material.tags,
       isPublic: material.isPublic,
       version: material.version,
       notes: material.notes,
-      fileData: material.fileData,
       fileName: material.fileName,
       price: material.price,
       deliveryTime: material.deliveryTime
     });
+    setSelectedFile(null);
     setShowMaterialModal(true);
   };
 
-  const deleteMaterial = (materialId: number) => {
+  const deleteMaterial = async (materialId: string) => {
     const material = materials.find(m => m.id === materialId);
-    if (material && window.confirm(`「${material.title}」を削除してもよろしいですか？`)) {
-      const updatedMaterials = materials.filter(m => m.id !== materialId);
-      console.log('資料を保存:', updatedMaterials.length, '件');
-      setMaterials(updatedMaterials);
-      
+    if (material && window.confirm(`「${material.title}」をゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`)) {
       try {
-        LocalStorage.set(STORAGE_KEYS.SERVICE_MATERIALS, updatedMaterials);
-        // 保存確認
-        const saved = LocalStorage.get<ServiceMaterial[]>(STORAGE_KEYS.SERVICE_MATERIALS);
-        console.log('保存後の確認:', saved?.length, '件');
+        await serviceMaterialAPI.deleteServiceMaterial(materialId);
+        setMaterials(materials.filter(m => m.id !== materialId));
       } catch (error) {
-        console.error('LocalStorage保存エラー:', error);
+        console.error('Failed to delete service material:', error);
+        alert('サービス資料の削除に失敗しました');
       }
     }
   };
 
+  const downloadMaterial = async (material: ServiceMaterial) => {
+    try {
+      const blob = await serviceMaterialAPI.downloadFile(material.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.setAttribute('download', material.fileName || 'download');
+      link.style.visibility = 'hidden';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
 
+      // ダウンロード数はサーバー側で加算される
+      const updated = { ...material, downloadCount: material.downloadCount + 1 };
+      setMaterials(materials.map(m => m.id === material.id ? updated : m));
+      if (selectedMaterial?.id === material.id) {
+        setSelectedMaterial(updated);
+      }
+    } catch (error) {
+      console.error('Failed to download service material:', error);
+      alert('ファイルのダウンロードに失敗しました');
+    }
+  };
 
   const getCategoryColor = (category: string) => {
     switch (category) {
@@ -328,10 +333,12 @@ const ServiceMaterials: React.FC = () => {
             <option value="consulting">コンサルティング</option>
             <option value="other">その他</option>
           </select>
-          <button className="add-material-btn" onClick={() => setShowMaterialModal(true)}>
-            <Plus size={20} />
-            資料追加
-          </button>
+          {can('records:write') && (
+            <button className="add-material-btn" onClick={() => setShowMaterialModal(true)}>
+              <Plus size={20} />
+              資料追加
+            </button>
+          )}
         </div>
       </div>
 
@@ -370,7 +377,7 @@ const ServiceMaterials: React.FC = () => {
           <div className="stat-content">
             <p className="stat-label">今月追加</p>
             <p className="stat-value">{materials.filter(m => {
-              const uploadDate = new Date(m.uploadDate);
+              const uploadDate = new Date(m.createdAt);
               const now = new Date();
               return uploadDate.getMonth() === now.getMonth() && uploadDate.getFullYear() === now.getFullYear();
             }).length}件</p>
@@ -387,7 +394,7 @@ const ServiceMaterials: React.FC = () => {
 
       <div className="materials-grid">
         {filteredMaterials.map(material => (
-          <div key={material.id} className="material-card">
+          <div key={material.id} className="material-card" data-record-id={material.id}>
             <div className="material-header">
               <div className="material-icon">
                 {getFileTypeIcon(material.fileType)}
@@ -419,7 +426,7 @@ const ServiceMaterials: React.FC = () => {
               </div>
               <div className="meta-item">
                 <Calendar size={14} />
-                <span>{material.uploadDate}</span>
+                <span>{material.createdAt.split('T')[0]}</span>
               </div>
               <div className="meta-item">
                 <Download size={14} />
@@ -463,20 +470,33 @@ const ServiceMaterials: React.FC = () => {
                 <FileText size={16} />
                 詳細
               </button>
-              <button 
-                className="edit-btn"
-                onClick={() => editMaterial(material)}
-                title="編集"
-              >
-                <Edit2 size={16} />
-              </button>
-              <button 
-                className="delete-btn"
-                onClick={() => deleteMaterial(material.id)}
-                title="削除"
-              >
-                <Trash2 size={16} />
-              </button>
+              {material.fileName && (
+                <button 
+                  className="view-btn"
+                  onClick={() => downloadMaterial(material)}
+                  title="ダウンロード"
+                >
+                  <Download size={16} />
+                </button>
+              )}
+              {can('records:write') && (
+                <>
+                  <button 
+                    className="edit-btn"
+                    onClick={() => editMaterial(material)}
+                    title="編集"
+                  >
+                    <Edit2 size={16} />
+                  </button>
+                  <button 
+                    className="delete-btn"
+                    onClick={() => deleteMaterial(material.id)}
+                    title="削除"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
             </div>
           </div>
         ))}
@@ -486,16 +506,7 @@ const ServiceMaterials: React.FC = () => {
         <div className="modal-overlay" onClick={() => {
           setShowMaterialModal(false);
           setEditingMaterial(null);
-          setNewMaterial({
-            category: 'proposal',
-            serviceCategory: 'other',
-            fileType: 'pdf',
-            isPublic: true,
-            version: '1.0',
-            downloadCount: 0,
-            tags: [],
-            createdAt: new Date().toISOString()
-          });
+          resetMaterialForm();
         }}>
           <div className="modal-content large-modal" onClick={(e) => e.stopPropagation()}>
             <h2>{editingMaterial ? 'サービス資料編集' : 'サービス資料追加'}</h2>
@@ -593,6 +604,16 @@ const ServiceMaterials: React.FC = () => {
                 />
               </div>
             </div>
+            <div className="form-group">
+              <label>ファイル</label>
+              <input
+                type="file"
+                onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+              />
+              {!selectedFile && newMaterial.fileName && (
+                <small>現在のファイル: {newMaterial.fileName}（選択すると差し替えます）</small>
+              )}
+            </div>
             <div className="form-group">
               <label>担当者</label>
               <input
@@ -642,19 +663,10 @@ const ServiceMaterials: React.FC = () => {
               <button className="cancel-btn" onClick={() => {
                 setShowMaterialModal(false);
                 setEditingMaterial(null);
-                setNewMaterial({
-                  category: 'proposal',
-                  serviceCategory: 'other',
-                  fileType: 'pdf',
-                  isPublic: true,
-                  version: '1.0',
-                  downloadCount: 0,
-                  tags: [],
-                  createdAt: new Date().toISOString()
-                });
+                resetMaterialForm();
               }}>キャンセル</button>
-              <button className="save-btn" onClick={addMaterial}>
-                {editingMaterial ? '資料を更新' : '資料を追加'}
+              <button className="save-btn" onClick={addMaterial} disabled={isSaving}>
+                {isSaving ? '保存中...' : editingMaterial ? '資料を更新' : '資料を追加'}
               </button>
             </div>
           </div>
@@ -675,10 +687,10 @@ const ServiceMaterials: React.FC = () => {
                   </span>
                 </p>
                 <p><strong>ファイル形式:</strong> {getFileTypeIcon(selectedMaterial.fileType)} {selectedMaterial.fileType.toUpperCase()}</p>
-                <p><strong>ファイルサイズ:</strong> {selectedMaterial.fileSize}</p>
+                <p><strong>ファイルサイズ:</strong> {formatFileSize(selectedMaterial.fileSize)}</p>
                 <p><strong>バージョン:</strong> v{selectedMaterial.version}</p>
                 <p><strong>担当者:</strong> {selectedMaterial.uploadedBy}</p>
-                <p><strong>登録日:</strong> {selectedMaterial.uploadDate}</p>
+                <p><strong>登録日:</strong> {selectedMaterial.createdAt.split('T')[0]}</p>
                 <p><strong>ダウンロード数:</strong> {selectedMaterial.downloadCount}回</p>
                 <p><strong>公開設定:</strong> {selectedMaterial.isPublic ? '公開' : '非公開'}</p>
                 {selectedMaterial.serviceCategory && (
@@ -716,8 +728,18 @@ const ServiceMaterials: React.FC = () => {
                   <p>{selectedMaterial.notes}</p>
                 </div>
               )}
+
+              <div className="detail-section">
+                <h3>変更履歴</h3>
+                <ActivityFeed entityType="serviceMaterials" entityId={selectedMaterial.id} pageSize={10} />
+              </div>
             </div>
             <div className="modal-actions">
+              {selectedMaterial.fileName && (
+                <button className="save-btn" onClick={() => downloadMaterial(selectedMaterial)}>
+                  ダウンロード
+                </button>
+              )}
               <button className="cancel-btn" onClick={() => setSelectedMaterial(null)}>閉じる</button>
             </div>
           </div>
@@ -1,60 +1,110 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Clock, CheckCircle, AlertCircle, User, Calendar, Link, Edit2, Trash2 } from 'lucide-react';
-import { LocalStorage, STORAGE_KEYS } from '../utils/storage';
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Plus, Clock, CheckCircle, AlertCircle, User, Calendar, Link, Edit2, Trash2, Briefcase, Filter, Lock, CornerDownRight, Repeat,
+  Settings
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useDataMode, useLeads, useProjects, useTasks, useTeamMembers } from '../contexts/DataContext';
+import { useFocusRecord } from '../hooks/useFocusRecord';
+import { Task, TaskBoardColumn } from '../types/models';
+import ActivityFeed from '../components/ActivityFeed';
+import ConflictDialog from '../components/ConflictDialog';
+import RecurrenceEditor from '../components/RecurrenceEditor';
+import TaskBoardSettings from '../components/TaskBoardSettings';
+import TaskTimeEntries from '../components/TaskTimeEntries';
+import { taskAPI } from '../services/api';
+import { describeRecurrence } from '../utils/recurrence';
+import { isSameValue } from '../utils/merge';
+import { columnKeyOf, compareByRank, rankBetween, wipStateOf } from '../utils/taskBoard';
+import { useVersionConflict } from '../hooks/useVersionConflict';
+import { useTaskBoard } from '../hooks/useTaskBoard';
+import {
+  isBlockingMove,
+  openBlockersOf,
+  dependentsOf,
+  subtasksOf,
+  rollupOf,
+  dependencyChainOf,
+  createsCycle
+} from '../utils/taskDependencies';
 import './Tasks.css';
 
-interface Task {
-  id: number;
-  title: string;
-  description: string;
-  status: 'pending' | 'in-progress' | 'completed' | 'on-hold';
-  priority: 'low' | 'medium' | 'high';
-  assignee: string;
-  dueDate: string;
-  meetingLink?: string;
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface TeamMember {
-  id: number;
-  name: string;
-  role: string;
-  status: 'online' | 'offline' | 'away';
-}
+// かんばんの絞り込み（URLのパラメータ。案件・商談の画面からも開く）
+const FILTER_PARAMS = ['project', 'lead', 'client'] as const;
 
 const Tasks: React.FC = () => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const { can } = useAuth();
+  const { tasks, create: createTask, update: saveTask, remove: removeTask, reload: reloadTasks } = useTasks();
+  const { teamMembers } = useTeamMembers();
+  const { projects } = useProjects();
+  const { leads } = useLeads({ enabled: can('sales:view') });
+  const dataMode = useDataMode();
+  const { conflict, saveEdited, clearConflict } = useVersionConflict(saveTask);
+  const { board, saveBoard } = useTaskBoard();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const projectFilter = searchParams.get('project') || '';
+  const leadFilter = searchParams.get('lead') || '';
+  const clientFilter = searchParams.get('client') || '';
   const [showAddTask, setShowAddTask] = useState(false);
   const [showTaskDetail, setShowTaskDetail] = useState<Task | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  // 繰り返しタスクの編集を「この回のみ」と「この回以降のすべての回」のどちらに反映するか
+  const [editScope, setEditScope] = useState<'occurrence' | 'series'>('occurrence');
+  const [showBoardSettings, setShowBoardSettings] = useState(false);
+  // ドラッグ中のタスクと、ドロップする位置（列と、ドラッグ中のタスクを除いた列内の順番）
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ column: string; index: number } | null>(null);
   const [newTask, setNewTask] = useState<Partial<Task>>({
     status: 'pending',
     priority: 'medium',
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString()
   });
+  useFocusRecord(tasks, setShowTaskDetail);
 
-  useEffect(() => {
-    const savedTasks = LocalStorage.get<Task[]>(STORAGE_KEYS.TASKS_DATA);
-    const savedMembers = LocalStorage.get<TeamMember[]>(STORAGE_KEYS.TEAM_MEMBERS);
-    
-    if (savedTasks && savedTasks.length > 0) {
-      setTasks(savedTasks);
-    }
-    if (savedMembers && savedMembers.length > 0) {
-      setTeamMembers(savedMembers);
-    }
-  }, []);
+  const projectOf = (task: Partial<Task>) => projects.find(project => project.id === task.projectId);
+  const leadOf = (task: Partial<Task>) => leads.find(lead => lead.id === task.leadId);
+  const parentOf = (task: Task) => tasks.find(other => other.id === task.parentId);
+  const deliverableOf = (task: Partial<Task>) =>
+    projectOf(task)?.deliverables.find(deliverable => deliverable.id === task.deliverableId);
+
+  // クライアントは案件のクライアントと商談の会社名から選ぶ
+  const clients = Array.from(new Set([...projects.map(project => project.client), ...leads.map(lead => lead.company)]))
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b, 'ja'));
+
+  const isOnBoard = (task: Task) =>
+    (!projectFilter || task.projectId === projectFilter) &&
+    (!leadFilter || task.leadId === leadFilter) &&
+    (!clientFilter || projectOf(task)?.client === clientFilter || leadOf(task)?.company === clientFilter);
+  const boardTasks = tasks.filter(isOnBoard);
+  const isFiltered = !!(projectFilter || leadFilter || clientFilter);
+
+  const setFilter = (name: typeof FILTER_PARAMS[number], value: string) => {
+    setSearchParams(params => {
+      if (value) params.set(name, value);
+      else params.delete(name);
+      return params;
+    }, { replace: true });
+  };
+
+  const clearFilters = () => {
+    setSearchParams(params => {
+      FILTER_PARAMS.forEach(name => params.delete(name));
+      return params;
+    }, { replace: true });
+  };
+
+  // かんばんの列は管理者が追加した列を含む。ステータスの変更には標準の列を使う
+  const statusColumns = board.columns.filter(column => !column.custom);
+  const statusColumnOf = (status: Task['status']) => statusColumns.find(column => column.status === status)!;
+  const statusLabelOf = (status: Task['status']) => statusColumnOf(status)?.label;
+  const customColumnOf = (task: Task) => board.columns.find(column => column.custom && column.key === columnKeyOf(task, board));
 
-  const statusColumns = [
-    { key: 'pending', label: '未着手', color: '#9E9E9E' },
-    { key: 'in-progress', label: '進行中', color: '#FFC107' },
-    { key: 'on-hold', label: '保留', color: '#FF9800' },
-    { key: 'completed', label: '完了', color: '#4CAF50' }
-  ];
+  // 列のタスク（並び順の順）
+  const tasksInColumn = (column: TaskBoardColumn, list: Task[]) =>
+    list.filter(task => columnKeyOf(task, board) === column.key).sort(compareByRank);
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -65,77 +115,210 @@ const Tasks: React.FC = () => {
     }
   };
 
-  const moveTask = (taskId: number, newStatus: Task['status']) => {
-    const updatedTasks = tasks.map(task => 
-      task.id === taskId ? { ...task, status: newStatus, updatedAt: new Date().toISOString() } : task
-    );
-    setTasks(updatedTasks);
-    LocalStorage.set(STORAGE_KEYS.TASKS_DATA, updatedTasks);
-  };
 
-  const addTask = () => {
+  const addTask = async () => {
     if (newTask.title && newTask.assignee && newTask.dueDate) {
-      let updatedTasks;
-      
-      if (editingTask) {
-        // 編集モード
-        updatedTasks = tasks.map(task => 
-          task.id === editingTask.id 
-            ? {
-                ...editingTask,
-                title: newTask.title!,
-                description: newTask.description || '',
-                status: newTask.status as Task['status'],
-                priority: newTask.priority as Task['priority'],
-                assignee: newTask.assignee!,
-                dueDate: newTask.dueDate!,
-                meetingLink: newTask.meetingLink,
-                notes: newTask.notes,
-                updatedAt: new Date().toISOString()
-              }
-            : task
-        );
-        setEditingTask(null);
-      } else {
-        // 新規追加モード
-        const task: Task = {
-          id: Date.now(),
-          title: newTask.title!,
-          description: newTask.description || '',
-          status: newTask.status as Task['status'],
-          priority: newTask.priority as Task['priority'],
-          assignee: newTask.assignee!,
-          dueDate: newTask.dueDate!,
-          meetingLink: newTask.meetingLink,
-          notes: newTask.notes,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        };
-        updatedTasks = [...tasks, task];
+      // 新しいタスクは列の先頭に並べる
+      const column = statusColumnOf(newTask.status as Task['status']);
+      // 編集でステータスを変えて別の列に移る場合も上限を確認する（以降のすべての回の変更ではステータスは変わらない）
+      const isSeriesEdit = !!editingTask?.recurrence && editScope === 'series';
+      const targetColumn = editingTask
+        ? board.columns.find(({ key }) => key === columnKeyOf({ ...editingTask, status: newTask.status as Task['status'] }, board)) ?? column
+        : column;
+      const movesColumn = !editingTask || (!isSeriesEdit && columnKeyOf(editingTask, board) !== targetColumn.key);
+      if (movesColumn && !confirmWipLimit(targetColumn, editingTask ?? undefined)) return;
+      const taskData = {
+        title: newTask.title,
+        description: newTask.description || '',
+        status: newTask.status as Task['status'],
+        priority: newTask.priority as Task['priority'],
+        assignee: newTask.assignee,
+        dueDate: newTask.dueDate,
+        meetingLink: newTask.meetingLink,
+        notes: newTask.notes,
+        projectId: newTask.projectId || null,
+        deliverableId: newTask.projectId ? newTask.deliverableId ?? null : null,
+        // 商談は営業データを閲覧できるメンバーのみ変更できる
+        ...(can('sales:view') ? { leadId: newTask.leadId || null } : {}),
+        parentId: newTask.parentId || null,
+        blockedByIds: newTask.blockedByIds ?? [],
+        // 繰り返しはチームモードのみ。繰り返しタスクの規則は「この回以降のすべての回」で変更する
+        ...(dataMode === 'api' && !editingTask?.recurrence ? { recurrence: newTask.recurrence ?? null } : {}),
+        ...(editingTask ? {} : { rank: rankBetween(null, tasksInColumn(column, tasks)[0]?.rank) })
+      };
+
+      try {
+        if (editingTask && isSeriesEdit) {
+          await saveSeries(editingTask, taskData);
+        } else if (editingTask) {
+          // 編集モード（編集中に他のメンバーが更新していた場合は、競合を解決してから保存し直す）
+          if (!(await saveEdited(editingTask, taskData))) return;
+        } else {
+          // 新規追加モード
+          await createTask(taskData);
+        }
+      } catch (error: any) {
+        console.error('Failed to save task:', error);
+        if (error.response?.status === 409) {
+          alert('他のメンバーがこのタスクを更新しました。最新の内容を読み込んだので、もう一度編集してください');
+          reloadTasks();
+          closeTaskForm();
+          return;
+        }
+        alert(error.response?.data?.error || 'タスクの保存に失敗しました');
+        return;
+      }
+
+      closeTaskForm();
+    }
+  };
+
+  // 内容と繰り返しの規則はこの回以降の未完了の回に、期限・親タスク・依存タスクはこの回だけに反映する
+  const saveSeries = async (task: Task, taskData: Partial<Task>) => {
+    const { status, dueDate, parentId, blockedByIds, ...seriesData } = taskData;
+    await taskAPI.updateTaskSeries(task.id, { ...seriesData, recurrence: newTask.recurrence ?? null, version: task.version });
+    const occurrenceChanges = { dueDate, parentId, blockedByIds };
+    const changed = (Object.keys(occurrenceChanges) as (keyof typeof occurrenceChanges)[])
+      .some(field => !isSameValue(occurrenceChanges[field], task[field]));
+    if (changed) await saveTask(task.id, occurrenceChanges);
+    await reloadTasks();
+  };
+
+  // 親タスクの案件・商談・担当者を引き継いでサブタスクを追加する
+  const addSubtask = (parent: Task) => {
+    setNewTask({
+      ...newTask,
+      parentId: parent.id,
+      projectId: parent.projectId,
+      deliverableId: parent.deliverableId,
+      leadId: parent.leadId,
+      assignee: parent.assignee
+    });
+    setShowTaskDetail(null);
+    setShowAddTask(true);
+  };
+
+  const closeTaskForm = () => {
+    setShowAddTask(false);
+    setEditingTask(null);
+    setEditScope('occurrence');
+    setNewTask({ status: 'pending', priority: 'medium', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
+  };
+
+  // 競合を解決した内容を、最新の version で保存し直す
+  const resolveConflict = async (merged: Partial<Task>) => {
+    if (!conflict) return;
+    clearConflict();
+    try {
+      if (await saveEdited(conflict.theirs, merged)) closeTaskForm();
+    } catch (error) {
+      console.error('Failed to save task:', error);
+      alert('タスクの保存に失敗しました');
+    }
+  };
+
+  const confirmOverride = (titles: string[]) =>
+    window.confirm(`次の依存タスクが完了していません。\n${titles.map(title => `・${title}`).join('\n')}\n\nそれでもステータスを変更しますか？`);
+
+  // 列のタスクが上限に達している場合、warn は確認し、block は移動させない（続けてよい場合は true）
+  const confirmWipLimit = (column: TaskBoardColumn, task?: Task) => {
+    const state = wipStateOf(column, tasksInColumn(column, tasks).filter(other => other.id !== task?.id).length);
+    const message = `「${column.label}」のタスクは上限の${column.wipLimit}件に達しています。`;
+    if (state === 'block') {
+      alert(`${message}これ以上追加・移動できません`);
+      return false;
+    }
+    return state === 'ok' || window.confirm(`${message}それでも続けますか？`);
+  };
+
+  // 依存タスクが未完了の場合は、確認したうえで上書きして変更する（変更できた場合は true）
+  const changeStatus = async (task: Task, status: Task['status'], changes: Partial<Task> = {}, override = false): Promise<boolean> => {
+    const blockers = !override && isBlockingMove(task, status) ? openBlockersOf(task, tasks) : [];
+    if (blockers.length > 0) {
+      if (!confirmOverride(blockers.map(blocker => blocker.title))) return false;
+      override = true;
+    }
+    try {
+      // 上書きの指定はサーバーで確認するためのもので、LocalStorageには保存しない
+      await saveTask(task.id, { status, ...changes, ...(override && dataMode === 'api' ? { overrideBlockers: true } : {}) });
+      // 繰り返しタスクはサーバーで次の回を作成する
+      if (status === 'completed' && task.status !== 'completed' && task.recurrence) reloadTasks();
+      return true;
+    } catch (error: any) {
+      // 画面に反映される前に追加された依存タスクでサーバーに止められた場合は、確認してから上書きする
+      const serverBlockers: { title: string }[] | undefined =
+        error.response?.status === 422 ? error.response.data?.blockers : undefined;
+      if (!override && serverBlockers?.length) {
+        if (!confirmOverride(serverBlockers.map(blocker => blocker.title))) return false;
+        return changeStatus(task, status, changes, true);
       }
-      
-      setTasks(updatedTasks);
-      LocalStorage.set(STORAGE_KEYS.TASKS_DATA, updatedTasks);
-      setNewTask({ status: 'pending', priority: 'medium', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
-      setShowAddTask(false);
+      console.error('Failed to update task:', error);
+      alert(error.response?.data?.error || 'タスクの更新に失敗しました');
+      return false;
     }
   };
 
-  const updateTask = (taskId: number, updates: Partial<Task>) => {
-    const updatedTasks = tasks.map(task => 
-      task.id === taskId ? { ...task, ...updates, updatedAt: new Date().toISOString() } : task
-    );
-    setTasks(updatedTasks);
-    LocalStorage.set(STORAGE_KEYS.TASKS_DATA, updatedTasks);
+  // 列に移動する（追加した列ではステータスを列のステータスにする）。rank を省略した場合は並び順を変えない
+  const moveTask = async (task: Task, column: TaskBoardColumn, rank?: string) => {
+    if (columnKeyOf(task, board) !== column.key && !confirmWipLimit(column, task)) return false;
+    return changeStatus(task, column.status, { boardColumn: column.custom ? column.key : null, ...(rank ? { rank } : {}) });
   };
 
-  const deleteTask = (taskId: number) => {
+  // 並び順のないタスク（以前に作成したタスクなど）に、表示順のまま並び順を付ける
+  const assignMissingRanks = async (columnTasks: Task[]) => {
+    const ranked: Task[] = [];
+    for (const task of columnTasks) {
+      const rank = task.rank || rankBetween(ranked[ranked.length - 1]?.rank, null);
+      if (!task.rank) await saveTask(task.id, { rank });
+      ranked.push({ ...task, rank });
+    }
+    return ranked;
+  };
+
+  // ドロップした位置より上にあるカードの数（ドラッグ中のカードは数えない）
+  const dropIndexOf = (event: React.DragEvent<HTMLElement>) =>
+    Array.from(event.currentTarget.querySelectorAll<HTMLElement>('.task-card'))
+      .filter(card => card.dataset.recordId !== draggingId)
+      .filter(card => {
+        const rect = card.getBoundingClientRect();
+        return rect.top + rect.height / 2 < event.clientY;
+      }).length;
+
+  // 表示中の前後のタスクの間に並べる（絞り込みで非表示のタスクはどちらかの側に残る）
+  const dropTask = async (column: TaskBoardColumn, index: number) => {
+    const task = tasks.find(other => other.id === draggingId);
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!task) return;
+    try {
+      let columnTasks = tasksInColumn(column, tasks).filter(other => other.id !== task.id);
+      if (columnTasks.some(other => !other.rank)) columnTasks = await assignMissingRanks(columnTasks);
+      const visible = columnTasks.filter(isOnBoard);
+      const before = visible[index - 1]?.rank;
+      const after = visible[index]?.rank;
+      const isInPlace = columnKeyOf(task, board) === column.key && !!task.rank &&
+        (!before || before < task.rank) && (!after || task.rank < after);
+      if (!isInPlace) await moveTask(task, column, rankBetween(before, after));
+    } catch (error) {
+      console.error('Failed to reorder tasks:', error);
+      alert('タスクの並び替えに失敗しました');
+    }
+  };
+
+  const deleteTask = async (taskId: string) => {
     const task = tasks.find(t => t.id === taskId);
-    if (task && window.confirm(`「${task.title}」のタスクを削除してもよろしいですか？`)) {
-      const updatedTasks = tasks.filter(task => task.id !== taskId);
-      setTasks(updatedTasks);
-      LocalStorage.set(STORAGE_KEYS.TASKS_DATA, updatedTasks);
-      setShowTaskDetail(null);
+    // サーバー保存時はゴミ箱に移動する
+    const message = dataMode === 'api'
+      ? `「${task?.title}」のタスクをゴミ箱に移動してもよろしいですか？\nゴミ箱から復元できます。`
+      : `「${task?.title}」のタスクを削除してもよろしいですか？`;
+    if (task && window.confirm(message)) {
+      try {
+        await removeTask(taskId);
+        setShowTaskDetail(null);
+      } catch (error) {
+        console.error('Failed to delete task:', error);
+        alert('タスクの削除に失敗しました');
+      }
     }
   };
 
@@ -150,6 +333,12 @@ const Tasks: React.FC = () => {
       dueDate: task.dueDate,
       meetingLink: task.meetingLink,
       notes: task.notes,
+      projectId: task.projectId,
+      deliverableId: task.deliverableId,
+      leadId: task.leadId,
+      parentId: task.parentId,
+      blockedByIds: task.blockedByIds ?? [],
+      recurrence: task.recurrence,
       createdAt: task.createdAt,
       updatedAt: task.updatedAt
     });
@@ -160,10 +349,27 @@ const Tasks: React.FC = () => {
     <div className="tasks">
       <div className="tasks-header">
         <h1>タスク管理</h1>
-        <button className="add-task-btn" onClick={() => setShowAddTask(true)}>
-          <Plus size={20} />
-          新規タスク
-        </button>
+        <div className="tasks-header-actions">
+          {can('board:manage') && (
+            <button className="board-settings-btn" onClick={() => setShowBoardSettings(true)}>
+              <Settings size={18} />
+              列の設定
+            </button>
+          )}
+          {can('records:write') && (
+            <button
+              className="add-task-btn"
+              onClick={() => {
+                // 絞り込み中の案件・商談に関連付けて追加する
+                setNewTask({ ...newTask, projectId: projectFilter || undefined, leadId: leadFilter || undefined });
+                setShowAddTask(true);
+              }}
+            >
+              <Plus size={20} />
+              新規タスク
+            </button>
+          )}
+        </div>
       </div>
 
       <div className="task-stats">
@@ -233,81 +439,190 @@ const Tasks: React.FC = () => {
         </div>
       )}
 
-      <div className="kanban-board">
-        {statusColumns.map(column => (
-          <div key={column.key} className="kanban-column">
-            <div className="column-header" style={{ borderColor: column.color }}>
-              <h3>{column.label}</h3>
-              <span className="task-count">
-                {tasks.filter(t => t.status === column.key).length}
-              </span>
-            </div>
-            <div className="column-tasks">
-              {tasks
-                .filter(task => task.status === column.key)
-                .map(task => (
-                  <div key={task.id} className="task-card" onClick={() => setShowTaskDetail(task)}>
-                    <div className="task-priority" style={{ backgroundColor: getPriorityColor(task.priority) }}>
-                      {task.priority === 'high' ? '高' : task.priority === 'medium' ? '中' : '低'}
-                    </div>
-                    <h4>{task.title}</h4>
-                    <p className="task-description">{task.description}</p>
-                    <div className="task-meta">
-                      <div className="task-assignee">
-                        <User size={14} />
-                        <span>{task.assignee}</span>
-                      </div>
-                      <div className="task-due">
-                        <Calendar size={14} />
-                        <span>{task.dueDate}</span>
+      {(projects.length > 0 || leads.length > 0) && (
+        <div className="task-filters">
+          <Filter size={16} />
+          <select value={projectFilter} onChange={(e) => setFilter('project', e.target.value)}>
+            <option value="">すべての案件</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          {can('sales:view') && (
+            <select value={leadFilter} onChange={(e) => setFilter('lead', e.target.value)}>
+              <option value="">すべての商談</option>
+              {leads.map(lead => (
+                <option key={lead.id} value={lead.id}>{lead.company}</option>
+              ))}
+            </select>
+          )}
+          <select value={clientFilter} onChange={(e) => setFilter('client', e.target.value)}>
+            <option value="">すべてのクライアント</option>
+            {clients.map(client => (
+              <option key={client} value={client}>{client}</option>
+            ))}
+          </select>
+          {isFiltered && (
+            <>
+              <span className="task-filter-count">{boardTasks.length}件</span>
+              <button className="clear-filter-btn" onClick={clearFilters}>絞り込みを解除</button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="kanban-board" style={{ gridTemplateColumns: `repeat(${board.columns.length}, minmax(220px, 1fr))` }}>
+        {board.columns.map(column => {
+          const columnTasks = tasksInColumn(column, boardTasks);
+          const total = tasksInColumn(column, tasks).length;
+          // ドロップ位置の目印を表示するカード（末尾の場合は undefined）
+          const dropBefore = dropTarget?.column === column.key
+            ? columnTasks.filter(task => task.id !== draggingId)[dropTarget.index]
+            : undefined;
+          return (
+            <div
+              key={column.key}
+              className={`kanban-column ${dropTarget?.column === column.key ? 'drop-target' : ''}`}
+              onDragOver={(e) => {
+                if (!draggingId) return;
+                e.preventDefault();
+                setDropTarget({ column: column.key, index: dropIndexOf(e) });
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                dropTask(column, dropIndexOf(e));
+              }}
+            >
+              <div className="column-header" style={{ borderColor: column.color }}>
+                <h3>{column.label}</h3>
+                <span className="task-count">{columnTasks.length}</span>
+                {column.wipLimit && (
+                  <span
+                    className={`wip-limit ${total > column.wipLimit ? 'over' : total === column.wipLimit ? 'full' : ''}`}
+                    title={column.wipMode === 'block' ? '上限に達すると移動できません' : '上限を超える場合は確認します'}
+                  >
+                    {total}/{column.wipLimit}
+                  </span>
+                )}
+              </div>
+              <div className="column-tasks">
+                {columnTasks.map(task => (
+                  <React.Fragment key={task.id}>
+                    {dropBefore?.id === task.id && <div className="drop-indicator" />}
+                    <div
+                      className={`task-card ${draggingId === task.id ? 'dragging' : ''}`}
+                      data-record-id={task.id}
+                      draggable={can('records:write')}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', task.id);
+                        setDraggingId(task.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={() => setShowTaskDetail(task)}
+                    >
+                      <div className="task-priority" style={{ backgroundColor: getPriorityColor(task.priority) }}>
+                        {task.priority === 'high' ? '高' : task.priority === 'medium' ? '中' : '低'}
                       </div>
-                    </div>
-                    {task.meetingLink && (
-                      <div className="task-meeting-link">
-                        <Link size={14} />
-                        <a href={task.meetingLink} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
-                          会議リンク
-                        </a>
+                      {parentOf(task) && (
+                        <div className="task-parent">
+                          <CornerDownRight size={12} />
+                          <span>{parentOf(task)!.title}</span>
+                        </div>
+                      )}
+                      <h4>{task.title}</h4>
+                      <p className="task-description">{task.description}</p>
+                      {task.status !== 'completed' && openBlockersOf(task, tasks).length > 0 && (
+                        <div className="task-blocked" title={openBlockersOf(task, tasks).map(blocker => blocker.title).join('\n')}>
+                          <Lock size={12} />
+                          <span>依存タスク {openBlockersOf(task, tasks).length}件が未完了</span>
+                        </div>
+                      )}
+                      {rollupOf(task, tasks) && (
+                        <div className="subtask-rollup">
+                          <div className="subtask-rollup-bar">
+                            <div className="subtask-rollup-fill" style={{ width: `${rollupOf(task, tasks)!.percent}%` }} />
+                          </div>
+                          <span>サブタスク {rollupOf(task, tasks)!.completed}/{rollupOf(task, tasks)!.total}</span>
+                        </div>
+                      )}
+                      {(projectOf(task) || leadOf(task)) && (
+                        <div className="task-links">
+                          {projectOf(task) && (
+                            <span className="task-link-badge project">
+                              <Briefcase size={12} />
+                              {projectOf(task)!.name}{deliverableOf(task) && ` / ${deliverableOf(task)!.name}`}
+                            </span>
+                          )}
+                          {leadOf(task) && <span className="task-link-badge lead">{leadOf(task)!.company}</span>}
+                        </div>
+                      )}
+                      <div className="task-meta">
+                        <div className="task-assignee">
+                          <User size={14} />
+                          <span>{task.assignee}</span>
+                        </div>
+                        <div className="task-due">
+                          <Calendar size={14} />
+                          <span>{task.dueDate}</span>
+                        </div>
                       </div>
-                    )}
-                    <div className="task-actions" onClick={(e) => e.stopPropagation()}>
-                      {column.key !== 'pending' && (
-                        <button onClick={() => moveTask(task.id, 'pending')}>未着手へ</button>
+                      {task.recurrence && (
+                        <div className="task-recurrence">
+                          <Repeat size={12} />
+                          <span>{describeRecurrence(task.recurrence)}</span>
+                        </div>
                       )}
-                      {column.key !== 'in-progress' && (
-                        <button onClick={() => moveTask(task.id, 'in-progress')}>進行中へ</button>
+                      {task.meetingLink && (
+                        <div className="task-meeting-link">
+                          <Link size={14} />
+                          <a href={task.meetingLink} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+                            会議リンク
+                          </a>
+                        </div>
                       )}
-                      {column.key !== 'completed' && (
-                        <button onClick={() => moveTask(task.id, 'completed')}>完了へ</button>
+                      {can('records:write') && (
+                      <div className="task-actions" onClick={(e) => e.stopPropagation()}>
+                        {column.key !== 'pending' && (
+                          <button onClick={() => moveTask(task, statusColumnOf('pending'))}>未着手へ</button>
+                        )}
+                        {column.key !== 'in-progress' && (
+                          <button onClick={() => moveTask(task, statusColumnOf('in-progress'))}>進行中へ</button>
+                        )}
+                        {column.key !== 'completed' && (
+                          <button onClick={() => moveTask(task, statusColumnOf('completed'))}>完了へ</button>
+                        )}
+                        <button 
+                          className="edit-btn"
+                          onClick={() => editTask(task)}
+                          title="編集"
+                        >
+                          <Edit2 size={14} />
+                        </button>
+                        <button 
+                          className="delete-btn"
+                          onClick={() => deleteTask(task.id)}
+                          title="削除"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
                       )}
-                      <button 
-                        className="edit-btn"
-                        onClick={() => editTask(task)}
-                        title="編集"
-                      >
-                        <Edit2 size={14} />
-                      </button>
-                      <button 
-                        className="delete-btn"
-                        onClick={() => deleteTask(task.id)}
-                        title="削除"
-                      >
-                        <Trash2 size={14} />
-                      </button>
                     </div>
-                  </div>
+                  </React.Fragment>
                 ))}
+                {dropTarget?.column === column.key && !dropBefore && <div className="drop-indicator" />}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
 
       {showAddTask && (
-        <div className="modal-overlay" onClick={() => {
-          setShowAddTask(false);
-          setEditingTask(null);
-          setNewTask({ status: 'pending', priority: 'medium', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
-        }}>
+        <div className="modal-overlay" onClick={closeTaskForm}>
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <h2>{editingTask ? 'タスク編集' : '新規タスク追加'}</h2>
             <div className="form-group">
@@ -338,6 +653,89 @@ const Tasks: React.FC = () => {
                 ))}
               </select>
             </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>案件</label>
+                <select
+                  value={newTask.projectId || ''}
+                  onChange={(e) => setNewTask({ ...newTask, projectId: e.target.value || null, deliverableId: null })}
+                >
+                  <option value="">なし</option>
+                  {projects.map(project => (
+                    <option key={project.id} value={project.id}>{project.name}（{project.client}）</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>納品物</label>
+                <select
+                  value={newTask.deliverableId ?? ''}
+                  disabled={!projectOf(newTask)?.deliverables.length}
+                  onChange={(e) => setNewTask({ ...newTask, deliverableId: e.target.value ? Number(e.target.value) : null })}
+                >
+                  <option value="">なし</option>
+                  {projectOf(newTask)?.deliverables.map(deliverable => (
+                    <option key={deliverable.id} value={deliverable.id}>{deliverable.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {can('sales:view') && (
+              <div className="form-group">
+                <label>商談</label>
+                <select
+                  value={newTask.leadId || ''}
+                  onChange={(e) => setNewTask({ ...newTask, leadId: e.target.value || null })}
+                >
+                  <option value="">なし</option>
+                  {leads.map(lead => (
+                    <option key={lead.id} value={lead.id}>{lead.company}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="form-group">
+              <label>親タスク</label>
+              {editingTask && subtasksOf(editingTask, tasks).length > 0 ? (
+                <p className="form-note">サブタスクがあるため、他のタスクのサブタスクにはできません</p>
+              ) : (
+                <select
+                  value={newTask.parentId || ''}
+                  onChange={(e) => setNewTask({ ...newTask, parentId: e.target.value || null })}
+                >
+                  <option value="">なし</option>
+                  {tasks
+                    .filter(task => !task.parentId && task.id !== editingTask?.id)
+                    .map(task => (
+                      <option key={task.id} value={task.id}>{task.title}</option>
+                    ))}
+                </select>
+              )}
+            </div>
+            <div className="form-group">
+              <label>依存タスク（先に完了させるタスク）</label>
+              <div className="blocker-options">
+                {tasks
+                  .filter(task => task.id !== editingTask?.id && !createsCycle(editingTask?.id, task, tasks))
+                  .map(task => {
+                    const blockerIds = newTask.blockedByIds ?? [];
+                    return (
+                      <label key={task.id} className="blocker-option">
+                        <input
+                          type="checkbox"
+                          checked={blockerIds.includes(task.id)}
+                          onChange={(e) => setNewTask({
+                            ...newTask,
+                            blockedByIds: e.target.checked ? [...blockerIds, task.id] : blockerIds.filter(id => id !== task.id)
+                          })}
+                        />
+                        <span>{task.title}</span>
+                        <span className="blocker-option-status">{statusLabelOf(task.status)}</span>
+                      </label>
+                    );
+                  })}
+              </div>
+            </div>
             <div className="form-group">
               <label>会議リンク（Zoom、Teams等）</label>
               <input
@@ -377,12 +775,36 @@ const Tasks: React.FC = () => {
                 />
               </div>
             </div>
+            {dataMode === 'api' && (
+              <div className="form-group">
+                <label>繰り返し</label>
+                {editingTask?.recurrence && (
+                  <div className="edit-scope">
+                    <label>
+                      <input type="radio" checked={editScope === 'occurrence'} onChange={() => setEditScope('occurrence')} />
+                      この回のみ
+                    </label>
+                    <label>
+                      <input type="radio" checked={editScope === 'series'} onChange={() => setEditScope('series')} />
+                      この回以降のすべての回
+                    </label>
+                  </div>
+                )}
+                {editingTask?.recurrence && editScope === 'occurrence' ? (
+                  <p className="form-note">
+                    {describeRecurrence(editingTask.recurrence)}（繰り返しを変更する場合は「この回以降のすべての回」を選んでください）
+                  </p>
+                ) : (
+                  <RecurrenceEditor
+                    value={newTask.recurrence}
+                    dueDate={newTask.dueDate}
+                    onChange={(recurrence) => setNewTask({ ...newTask, recurrence })}
+                  />
+                )}
+              </div>
+            )}
             <div className="modal-actions">
-              <button className="cancel-btn" onClick={() => {
-                setShowAddTask(false);
-                setEditingTask(null);
-                setNewTask({ status: 'pending', priority: 'medium', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() });
-              }}>キャンセル</button>
+              <button className="cancel-btn" onClick={closeTaskForm}>キャンセル</button>
               <button className="save-btn" onClick={addTask}>
                 {editingTask ? 'タスクを更新' : 'タスクを追加'}
               </button>
@@ -411,8 +833,108 @@ const Tasks: React.FC = () => {
                     {statusColumns.find(col => col.key === showTaskDetail.status)?.label}
                   </span>
                 </p>
+                {customColumnOf(showTaskDetail) && (
+                  <p><strong>かんばんの列:</strong> {customColumnOf(showTaskDetail)!.label}</p>
+                )}
               </div>
               
+              {showTaskDetail.recurrence && (
+                <div className="detail-section">
+                  <h3>繰り返し</h3>
+                  <p><Repeat size={14} /> {describeRecurrence(showTaskDetail.recurrence)}</p>
+                  <p className="relation-caption">次の回は、この回を完了したとき、または期限の日になったときに作成されます</p>
+                </div>
+              )}
+
+              {!showTaskDetail.parentId && (rollupOf(showTaskDetail, tasks) || can('records:write')) && (
+                <div className="detail-section">
+                  <h3>
+                    サブタスク
+                    {rollupOf(showTaskDetail, tasks) && (
+                      <span className="subtask-summary">
+                        {rollupOf(showTaskDetail, tasks)!.completed}/{rollupOf(showTaskDetail, tasks)!.total}件完了（{rollupOf(showTaskDetail, tasks)!.percent}%）
+                      </span>
+                    )}
+                  </h3>
+                  <ul className="task-relation-list">
+                    {subtasksOf(showTaskDetail, tasks).map(subtask => (
+                      <li key={subtask.id} onClick={() => setShowTaskDetail(subtask)}>
+                        <span className={`relation-status ${subtask.status}`}>{statusLabelOf(subtask.status)}</span>
+                        {subtask.title}
+                      </li>
+                    ))}
+                  </ul>
+                  {can('records:write') && (
+                    <button className="add-subtask-btn" onClick={() => addSubtask(showTaskDetail)}>
+                      <Plus size={14} />
+                      サブタスクを追加
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {parentOf(showTaskDetail) && (
+                <div className="detail-section">
+                  <h3>親タスク</h3>
+                  <ul className="task-relation-list">
+                    <li onClick={() => setShowTaskDetail(parentOf(showTaskDetail)!)}>
+                      <span className={`relation-status ${parentOf(showTaskDetail)!.status}`}>
+                        {statusLabelOf(parentOf(showTaskDetail)!.status)}
+                      </span>
+                      {parentOf(showTaskDetail)!.title}
+                    </li>
+                  </ul>
+                </div>
+              )}
+
+              {(dependencyChainOf(showTaskDetail, tasks).length > 0 || dependentsOf(showTaskDetail, tasks).length > 0) && (
+                <div className="detail-section">
+                  <h3>依存関係</h3>
+                  {dependencyChainOf(showTaskDetail, tasks).length > 0 && (
+                    <>
+                      <p className="relation-caption">先に完了させるタスク</p>
+                      <ul className="task-relation-list">
+                        {dependencyChainOf(showTaskDetail, tasks).map(({ task, depth }) => (
+                          <li key={task.id} style={{ paddingLeft: depth * 20 }} onClick={() => setShowTaskDetail(task)}>
+                            {depth > 0 && <CornerDownRight size={12} />}
+                            <span className={`relation-status ${task.status}`}>{statusLabelOf(task.status)}</span>
+                            {task.title}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                  {dependentsOf(showTaskDetail, tasks).length > 0 && (
+                    <>
+                      <p className="relation-caption">このタスクの完了を待っているタスク</p>
+                      <ul className="task-relation-list">
+                        {dependentsOf(showTaskDetail, tasks).map(task => (
+                          <li key={task.id} onClick={() => setShowTaskDetail(task)}>
+                            <span className={`relation-status ${task.status}`}>{statusLabelOf(task.status)}</span>
+                            {task.title}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {(projectOf(showTaskDetail) || leadOf(showTaskDetail)) && (
+                <div className="detail-section">
+                  <h3>関連</h3>
+                  {projectOf(showTaskDetail) && (
+                    <p><strong>案件:</strong> {projectOf(showTaskDetail)!.name}（{projectOf(showTaskDetail)!.client}）</p>
+                  )}
+                  {deliverableOf(showTaskDetail) && (
+                    <p><strong>納品物:</strong> {deliverableOf(showTaskDetail)!.name}</p>
+                  )}
+                  {leadOf(showTaskDetail) && (
+                    <p><strong>商談:</strong> {leadOf(showTaskDetail)!.company}</p>
+                  )}
+                </div>
+              )}
+
               {showTaskDetail.meetingLink && (
                 <div className="detail-section">
                   <h3>会議情報</h3>
@@ -438,9 +960,11 @@ const Tasks: React.FC = () => {
                     <button
                       key={column.key}
                       className={`status-btn ${showTaskDetail.status === column.key ? 'active' : ''}`}
-                      onClick={() => {
-                        updateTask(showTaskDetail.id, { status: column.key as Task['status'] });
-                        setShowTaskDetail({ ...showTaskDetail, status: column.key as Task['status'] });
+                      disabled={!can('records:write')}
+                      onClick={async () => {
+                        if (await moveTask(showTaskDetail, column)) {
+                          setShowTaskDetail({ ...showTaskDetail, status: column.status, boardColumn: null });
+                        }
                       }}
                     >
                       {column.label}
@@ -448,23 +972,57 @@ const Tasks: React.FC = () => {
                   ))}
                 </div>
               </div>
+
+              {dataMode === 'api' && (
+                <div className="detail-section">
+                  <h3>作業時間</h3>
+                  <TaskTimeEntries task={showTaskDetail} />
+                </div>
+              )}
+
+              {dataMode === 'api' && (
+                <div className="detail-section">
+                  <h3>変更履歴</h3>
+                  <ActivityFeed entityType="tasks" entityId={showTaskDetail.id} pageSize={10} />
+                </div>
+              )}
             </div>
             <div className="modal-actions">
-              <button 
-                className="edit-btn"
-                onClick={() => {
-                  editTask(showTaskDetail);
-                  setShowTaskDetail(null);
-                }}
-              >
-                編集
-              </button>
-              <button className="delete-btn" onClick={() => deleteTask(showTaskDetail.id)}>削除</button>
+              {can('records:write') && (
+                <>
+                  <button 
+                    className="edit-btn"
+                    onClick={() => {
+                      editTask(showTaskDetail);
+                      setShowTaskDetail(null);
+                    }}
+                  >
+                    編集
+                  </button>
+                  <button className="delete-btn" onClick={() => deleteTask(showTaskDetail.id)}>削除</button>
+                </>
+              )}
               <button className="cancel-btn" onClick={() => setShowTaskDetail(null)}>閉じる</button>
             </div>
           </div>
         </div>
       )}
+
+      {showBoardSettings && (
+        <TaskBoardSettings board={board} onSave={saveBoard} onClose={() => setShowBoardSettings(false)} />
+      )}
+
+      {conflict && (
+        <ConflictDialog
+          conflict={conflict}
+          onResolve={resolveConflict}
+          onDiscard={() => {
+            clearConflict();
+            closeTaskForm();
+          }}
+          onCancel={clearConflict}
+        />
+      )}
     </div>
   );
 };
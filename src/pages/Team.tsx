@@ -0,0 +1,484 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, X, Trash2, UserPlus, Crown } from 'lucide-react';
+import { teamAPI } from '../services/api';
+import { useAuth, TeamRole, ROLE_LABELS } from '../contexts/AuthContext';
+import DataMigration from '../components/DataMigration';
+import AuthEventLog from '../components/AuthEventLog';
+import './Team.css';
+
+interface TeamInfo {
+  id: string;
+  name: string;
+  ownerId?: string | null;
+  createdAt: string;
+  _count?: { members: number };
+}
+
+interface PendingRequest {
+  id: string;
+  status: string;
+  createdAt: string;
+  team: { name: string };
+}
+
+interface TeamMember {
+  id: string;
+  email: string;
+  name?: string | null;
+  role: TeamRole;
+  // 時間単価（円。売上を編集できるユーザーにのみ返される）
+  hourlyRate?: number | null;
+  createdAt: string;
+  isOwner: boolean;
+}
+
+interface Invitation {
+  id: string;
+  token: string;
+  email?: string | null;
+  expiresAt: string;
+  maxUses?: number | null;
+  useCount: number;
+  role: TeamRole;
+  createdAt: string;
+}
+
+interface JoinRequest {
+  id: string;
+  message?: string | null;
+  createdAt: string;
+  user: { id: string; name?: string | null; email: string; emailVerifiedAt: string | null };
+  invitation?: { role: TeamRole } | null;
+}
+
+const inviteLinkOf = (token: string) => `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
+
+// 招待リンクをそのまま貼り付けた場合もトークン部分を取り出す
+const extractInviteToken = (value: string) => {
+  const trimmed = value.trim();
+  try {
+    return new URL(trimmed).searchParams.get('invite') || trimmed;
+  } catch {
+    return trimmed;
+  }
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('ja-JP');
+
+const Team: React.FC = () => {
+  const { user, refreshUser, can } = useAuth();
+  const [team, setTeam] = useState<TeamInfo | null>(null);
+  const [pendingRequests, setPendingRequests] = useState<PendingRequest[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [teamName, setTeamName] = useState('');
+  const [newInvitation, setNewInvitation] = useState<{ email: string; expiresInDays: number; maxUses: string; role: TeamRole }>({
+    email: '', expiresInDays: 7, maxUses: '', role: 'member'
+  });
+  const [joinLink, setJoinLink] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const canManageMembers = can('members:manage');
+  const isOwner = user?.role === 'owner';
+
+  useEffect(() => {
+    const loadTeam = async () => {
+      try {
+        const [teamData, memberData] = await Promise.all([teamAPI.getTeam(), teamAPI.getMembers()]);
+        setTeam(teamData.team);
+        setTeamName(teamData.team?.name || '');
+        setPendingRequests(teamData.pendingRequests);
+        setMembers(memberData);
+
+        if (canManageMembers) {
+          const [invitationData, requestData] = await Promise.all([teamAPI.getInvitations(), teamAPI.getJoinRequests()]);
+          setInvitations(invitationData);
+          setJoinRequests(requestData);
+        }
+      } catch (error) {
+        console.error('Failed to load team:', error);
+      }
+    };
+    loadTeam();
+  }, [canManageMembers, reloadKey]);
+
+  const reload = () => setReloadKey(key => key + 1);
+
+  const saveTeamName = async () => {
+    if (!teamName.trim() || teamName === team?.name) return;
+    try {
+      await teamAPI.updateTeam({ name: teamName });
+      await refreshUser();
+      reload();
+    } catch (error) {
+      console.error('Failed to update team:', error);
+      alert('チーム名の変更に失敗しました');
+    }
+  };
+
+  const createInvitation = async () => {
+    try {
+      const invitation: Invitation = await teamAPI.createInvitation({
+        email: newInvitation.email || undefined,
+        expiresInDays: newInvitation.expiresInDays,
+        maxUses: newInvitation.maxUses ? parseInt(newInvitation.maxUses) : undefined,
+        role: newInvitation.role
+      });
+      setInvitations([invitation, ...invitations]);
+      setNewInvitation({ email: '', expiresInDays: 7, maxUses: '', role: 'member' });
+      copyInviteLink(invitation);
+    } catch (error) {
+      console.error('Failed to create invitation:', error);
+      alert('招待リンクの作成に失敗しました');
+    }
+  };
+
+  const copyInviteLink = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(inviteLinkOf(invitation.token));
+      setCopiedId(invitation.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy invitation link:', error);
+      window.prompt('招待リンクをコピーしてください', inviteLinkOf(invitation.token));
+    }
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    if (!window.confirm('この招待リンクを無効にしてもよろしいですか？')) return;
+    try {
+      await teamAPI.revokeInvitation(invitationId);
+      setInvitations(invitations.filter(i => i.id !== invitationId));
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error);
+      alert('招待リンクの無効化に失敗しました');
+    }
+  };
+
+  const reviewJoinRequest = async (request: JoinRequest, approve: boolean) => {
+    const userName = request.user.name || request.user.email;
+    if (!approve && !window.confirm(`${userName}さんの参加申請を却下してもよろしいですか？`)) return;
+    try {
+      if (approve) {
+        await teamAPI.approveJoinRequest(request.id);
+      } else {
+        await teamAPI.rejectJoinRequest(request.id);
+      }
+      reload();
+    } catch (error: any) {
+      console.error('Failed to review join request:', error);
+      alert(error.response?.data?.error || '参加申請の処理に失敗しました');
+    }
+  };
+
+  // オーナーと自分自身は変更できず、管理者を変更できるのはオーナーのみ
+  const canManage = (member: TeamMember) =>
+    canManageMembers && !member.isOwner && member.id !== user?.id && (member.role !== 'admin' || isOwner);
+
+  const changeRole = async (member: TeamMember, role: TeamRole) => {
+    try {
+      const updated: TeamMember = await teamAPI.updateMemberRole(member.id, role);
+      setMembers(members.map(m => m.id === member.id ? { ...m, role: updated.role } : m));
+    } catch (error) {
+      console.error('Failed to update member role:', error);
+      alert('ロールの変更に失敗しました');
+    }
+  };
+
+  const changeHourlyRate = async (member: TeamMember, value: string) => {
+    const hourlyRate = value.trim() === '' ? null : Number(value);
+    if (hourlyRate === (member.hourlyRate ?? null)) return;
+    try {
+      const updated = await teamAPI.updateMemberRate(member.id, hourlyRate);
+      setMembers(members.map(m => m.id === member.id ? { ...m, hourlyRate: updated.hourlyRate } : m));
+    } catch (error: any) {
+      console.error('Failed to update member rate:', error);
+      alert(error.response?.data?.error || '時間単価の変更に失敗しました');
+    }
+  };
+
+  const removeMember = async (member: TeamMember) => {
+    if (!window.confirm(`${member.name || member.email}さんをチームから外してもよろしいですか？`)) return;
+    try {
+      await teamAPI.removeMember(member.id);
+      setMembers(members.filter(m => m.id !== member.id));
+    } catch (error) {
+      console.error('Failed to remove member:', error);
+      alert('メンバーの除外に失敗しました');
+    }
+  };
+
+  const requestToJoin = async () => {
+    const token = extractInviteToken(joinLink);
+    if (!token) return;
+    try {
+      await teamAPI.joinTeam(token);
+      setJoinLink('');
+      reload();
+    } catch (error: any) {
+      console.error('Failed to join team:', error);
+      alert(error.response?.data?.error || '参加申請に失敗しました');
+    }
+  };
+
+  return (
+    <div className="team-settings">
+      <div className="team-header">
+        <div>
+          <h1>⚙️ チーム設定</h1>
+          <p className="team-subtitle">メンバーの招待と参加申請の管理</p>
+        </div>
+      </div>
+
+      {pendingRequests.length > 0 && (
+        <div className="team-section pending-notice">
+          {pendingRequests.map(request => (
+            <p key={request.id}>
+              「{request.team.name}」への参加申請を送信済みです（{formatDate(request.createdAt)}）。オーナーの承認をお待ちください。
+            </p>
+          ))}
+        </div>
+      )}
+
+      {team ? (
+        <div className="team-section">
+          <h3>チーム情報</h3>
+          {can('team:manage') ? (
+            <div className="team-name-form">
+              <input type="text" value={teamName} onChange={(e) => setTeamName(e.target.value)} />
+              <button className="save-btn" onClick={saveTeamName} disabled={!teamName.trim() || teamName === team.name}>
+                チーム名を変更
+              </button>
+            </div>
+          ) : (
+            <p className="team-name">{team.name}</p>
+          )}
+          <p className="team-meta">メンバー {team._count?.members ?? members.length}名 / 作成日 {formatDate(team.createdAt)}</p>
+        </div>
+      ) : (
+        <div className="team-section">
+          <h3>チームに参加</h3>
+          <p className="team-meta">チームオーナーから受け取った招待リンクを貼り付けて参加申請してください</p>
+          <div className="team-name-form">
+            <input
+              type="text"
+              value={joinLink}
+              onChange={(e) => setJoinLink(e.target.value)}
+              placeholder="https://.../?invite=..."
+            />
+            <button className="save-btn" onClick={requestToJoin} disabled={!joinLink.trim()}>参加申請</button>
+          </div>
+        </div>
+      )}
+
+      {team && (
+        <div className="team-section">
+          <h3>メンバー ({members.length}名)</h3>
+          <table className="team-table">
+            <thead>
+              <tr>
+                <th>名前</th>
+                <th>メールアドレス</th>
+                <th>ロール</th>
+                {can('revenue:edit') && <th>時間単価</th>}
+                <th>登録日</th>
+                {canManageMembers && <th>アクション</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <tr key={member.id}>
+                  <td>
+                    {member.name || '-'}
+                    {member.isOwner && <span className="owner-badge"><Crown size={12} /> オーナー</span>}
+                  </td>
+                  <td>{member.email}</td>
+                  <td>
+                    {canManage(member) ? (
+                      <select
+                        className="role-select"
+                        value={member.role}
+                        onChange={(e) => changeRole(member, e.target.value as TeamRole)}
+                      >
+                        {isOwner && <option value="admin">{ROLE_LABELS.admin}</option>}
+                        <option value="member">{ROLE_LABELS.member}</option>
+                        <option value="viewer">{ROLE_LABELS.viewer}</option>
+                      </select>
+                    ) : (
+                      ROLE_LABELS[member.role]
+                    )}
+                  </td>
+                  {can('revenue:edit') && (
+                    <td>
+                      <input
+                        key={member.hourlyRate ?? ''}
+                        type="number"
+                        className="rate-input"
+                        min={0}
+                        defaultValue={member.hourlyRate ?? ''}
+                        placeholder="未設定"
+                        onBlur={(e) => changeHourlyRate(member, e.target.value)}
+                      />
+                      円
+                    </td>
+                  )}
+                  <td>{formatDate(member.createdAt)}</td>
+                  {canManageMembers && (
+                    <td>
+                      {canManage(member) && (
+                        <button className="delete-btn" onClick={() => removeMember(member)} title="チームから外す">
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canManageMembers && (
+        <div className="team-section">
+          <h3>参加申請 ({joinRequests.length}件)</h3>
+          {joinRequests.length === 0 ? (
+            <p className="no-data">承認待ちの参加申請はありません</p>
+          ) : (
+            <ul className="join-request-list">
+              {joinRequests.map(request => (
+                <li key={request.id}>
+                  <div>
+                    <strong>{request.user.name || request.user.email}</strong>
+                    <span className="team-meta">
+                      {' '}{request.user.email} / {formatDate(request.createdAt)} / {ROLE_LABELS[request.invitation?.role || 'member']}として参加
+                    </span>
+                    {!request.user.emailVerifiedAt && (
+                      <span className="unverified-badge" title="メールアドレスの確認が済むと承認できます">メール未確認</span>
+                    )}
+                    {request.message && <p className="join-request-message">{request.message}</p>}
+                  </div>
+                  <div className="join-request-actions">
+                    <button
+                      className="save-btn"
+                      onClick={() => reviewJoinRequest(request, true)}
+                      disabled={!request.user.emailVerifiedAt}
+                    >
+                      <Check size={14} /> 承認
+                    </button>
+                    <button className="cancel-btn" onClick={() => reviewJoinRequest(request, false)}>
+                      <X size={14} /> 却下
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {canManageMembers && (
+        <div className="team-section">
+          <h3>招待リンク</h3>
+          <div className="invitation-form">
+            <div className="form-group">
+              <label>メールアドレス（任意）</label>
+              <input
+                type="email"
+                value={newInvitation.email}
+                onChange={(e) => setNewInvitation({ ...newInvitation, email: e.target.value })}
+                placeholder="指定すると、このアドレスのユーザーのみ利用できます"
+              />
+            </div>
+            <div className="form-group">
+              <label>ロール</label>
+              <select
+                value={newInvitation.role}
+                onChange={(e) => setNewInvitation({ ...newInvitation, role: e.target.value as TeamRole })}
+              >
+                {isOwner && <option value="admin">{ROLE_LABELS.admin}</option>}
+                <option value="member">{ROLE_LABELS.member}</option>
+                <option value="viewer">{ROLE_LABELS.viewer}</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>有効期限</label>
+              <select
+                value={newInvitation.expiresInDays}
+                onChange={(e) => setNewInvitation({ ...newInvitation, expiresInDays: parseInt(e.target.value) })}
+              >
+                <option value={1}>1日</option>
+                <option value={3}>3日</option>
+                <option value={7}>7日</option>
+                <option value={14}>14日</option>
+                <option value={30}>30日</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label>利用回数の上限（任意）</label>
+              <input
+                type="number"
+                min={1}
+                value={newInvitation.maxUses}
+                onChange={(e) => setNewInvitation({ ...newInvitation, maxUses: e.target.value })}
+              />
+            </div>
+            <button className="add-invitation-btn" onClick={createInvitation}>
+              <UserPlus size={16} />
+              招待リンクを作成
+            </button>
+          </div>
+
+          {invitations.length === 0 ? (
+            <p className="no-data">有効な招待リンクはありません</p>
+          ) : (
+            <table className="team-table">
+              <thead>
+                <tr>
+                  <th>宛先</th>
+                  <th>ロール</th>
+                  <th>有効期限</th>
+                  <th>利用回数</th>
+                  <th>アクション</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invitations.map(invitation => (
+                  <tr key={invitation.id}>
+                    <td>{invitation.email || '指定なし'}</td>
+                    <td>{ROLE_LABELS[invitation.role]}</td>
+                    <td>{new Date(invitation.expiresAt).toLocaleString('ja-JP')}</td>
+                    <td>{invitation.useCount}{invitation.maxUses ? ` / ${invitation.maxUses}` : ''}</td>
+                    <td>
+                      <div className="action-buttons">
+                        <button className="edit-btn" onClick={() => copyInviteLink(invitation)} title="リンクをコピー">
+                          {copiedId === invitation.id ? <Check size={16} /> : <Copy size={16} />}
+                        </button>
+                        <button className="delete-btn" onClick={() => revokeInvitation(invitation.id)} title="無効にする">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {canManageMembers && (
+        <div className="team-section">
+          <h3>ログイン履歴</h3>
+          <AuthEventLog />
+        </div>
+      )}
+
+      {team && can('records:write') && can('sales:view') && <DataMigration />}
+    </div>
+  );
+};
+
+export default Team;
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, Square } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useDataMode, useProjects, useTeamMembers } from '../contexts/DataContext';
+import { useRunningTimer } from '../hooks/useRunningTimer';
+import { timeEntryAPI } from '../services/api';
+import { TimeEntry } from '../types/models';
+import { DataExporter } from '../utils/export';
+import {
+  addDays,
+  formatMinutes,
+  minutesByProjectOf,
+  minutesOf,
+  timesheetRowsOf,
+  toDateString,
+  totalMinutesOf,
+  weekDatesOf
+} from '../utils/timeTracking';
+import './Timesheets.css';
+
+const WEEKDAYS = ['月', '火', '水', '木', '金', '土', '日'];
+
+const formatDay = (value: string) => {
+  const [, month, day] = value.split('-').map(Number);
+  return `${month}/${day}`;
+};
+
+const Timesheets: React.FC = () => {
+  const { user, can } = useAuth();
+  const dataMode = useDataMode();
+  const { teamMembers } = useTeamMembers();
+  const { projects } = useProjects();
+  const { timer, now, stop } = useRunningTimer();
+  const [weekOf, setWeekOf] = useState(() => toDateString(new Date()));
+  // '' は全員分（メンバーを管理できるユーザーのみ）
+  const [memberId, setMemberId] = useState(() => user?.id ?? '');
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const dates = useMemo(() => weekDatesOf(weekOf), [weekOf]);
+  const today = toDateString(new Date());
+
+  useEffect(() => {
+    if (dataMode !== 'api') return;
+    let cancelled = false;
+    setIsLoading(true);
+    timeEntryAPI.getEntries({ from: dates[0], to: dates[6], userId: memberId || undefined })
+      .then(result => {
+        if (!cancelled) setEntries(result.items);
+      })
+      .catch(error => console.error('Failed to load timesheet:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [dataMode, dates, memberId, reloadKey]);
+
+  const rows = useMemo(() => timesheetRowsOf(entries), [entries]);
+  const projectTotals = useMemo(() =>
+    Array.from(minutesByProjectOf(entries).entries())
+      .map(([projectId, minutes]) => ({
+        projectId,
+        name: projectId ? projects.find(p => p.id === projectId)?.name ?? '（削除された案件）' : '案件なし',
+        minutes
+      }))
+      .sort((a, b) => b.minutes - a.minutes),
+  [entries, projects]);
+
+  const minutesOnDate = (date: string) => entries.filter(entry => entry.date === date).reduce((sum, entry) => sum + entry.minutes, 0);
+
+  const stopTimer = async () => {
+    try {
+      await stop();
+      setReloadKey(key => key + 1);
+    } catch (error: any) {
+      console.error('Failed to stop timer:', error);
+      alert(error.response?.data?.error || 'タイマーの停止に失敗しました');
+    }
+  };
+
+  const exportTimesheet = (format: 'csv' | 'xlsx') => {
+    const data = DataExporter.prepareTimesheetForExport(entries.filter(entry => entry.minutes > 0), projects);
+    if (data.length === 0) {
+      alert('書き出す作業時間がありません');
+      return;
+    }
+    const filename = `タイムシート_${dates[0]}_${dates[6]}`;
+    if (format === 'csv') DataExporter.exportToCSV(data, `${filename}.csv`);
+    else DataExporter.exportToExcel(data, `${filename}.xlsx`, 'タイムシート');
+  };
+
+  if (dataMode !== 'api') {
+    return (
+      <div className="timesheets">
+        <h1>工数管理</h1>
+        <p className="timesheet-notice">作業時間の記録はチームのデータを使っている場合のみ利用できます。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="timesheets">
+      <div className="timesheet-header">
+        <h1>工数管理</h1>
+        <div className="timesheet-export">
+          <button onClick={() => exportTimesheet('csv')}><Download size={14} /> CSV</button>
+          <button onClick={() => exportTimesheet('xlsx')}><Download size={14} /> Excel</button>
+        </div>
+      </div>
+
+      {timer && (
+        <div className="running-timer">
+          <span>計測中: {timer.task.title}</span>
+          <strong>{formatMinutes(minutesOf(timer, now))}</strong>
+          <button onClick={stopTimer}><Square size={14} /> 停止</button>
+        </div>
+      )}
+
+      <div className="timesheet-filters">
+        <div className="week-nav">
+          <button title="前の週" onClick={() => setWeekOf(addDays(dates[0], -7))}><ChevronLeft size={16} /></button>
+          <span>{dates[0]} 〜 {dates[6]}</span>
+          <button title="次の週" onClick={() => setWeekOf(addDays(dates[0], 7))}><ChevronRight size={16} /></button>
+          <button onClick={() => setWeekOf(today)}>今週</button>
+        </div>
+        {can('members:manage') && (
+          <select value={memberId} onChange={(e) => setMemberId(e.target.value)}>
+            <option value="">メンバー: 全員</option>
+            {teamMembers.map(member => (
+              <option key={member.id} value={member.id}>{member.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="timesheet-grid">
+        {isLoading ? (
+          <p className="timesheet-empty">読み込み中...</p>
+        ) : rows.length === 0 ? (
+          <p className="timesheet-empty">この週の作業時間はありません</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>タスク</th>
+                {!memberId && <th>メンバー</th>}
+                {dates.map((date, i) => (
+                  <th key={date} className={`day ${date === today ? 'today' : ''}`}>
+                    {formatDay(date)}（{WEEKDAYS[i]}）
+                  </th>
+                ))}
+                <th className="day">合計</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key}>
+                  <td className="timesheet-task">{row.task.title}</td>
+                  {!memberId && <td>{row.user.name}</td>}
+                  {dates.map(date => (
+                    <td key={date} className={`day ${date === today ? 'today' : ''}`}>
+                      {row.minutesByDate[date] ? formatMinutes(row.minutesByDate[date]) : ''}
+                    </td>
+                  ))}
+                  <td className="day total">{formatMinutes(row.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={memberId ? 1 : 2}>合計</td>
+                {dates.map(date => (
+                  <td key={date} className={`day ${date === today ? 'today' : ''}`}>{formatMinutes(minutesOnDate(date))}</td>
+                ))}
+                <td className="day total">{formatMinutes(totalMinutesOf(entries))}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+
+      {projectTotals.length > 0 && (
+        <div className="timesheet-projects">
+          <h2>案件別の作業時間</h2>
+          <ul>
+            {projectTotals.map(total => (
+              <li key={total.projectId}>
+                <span>{total.name}</span>
+                <strong>{formatMinutes(total.minutes)}</strong>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Timesheets;
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { trashAPI, TrashItem, TrashType } from '../services/api';
+import { useAuth, Permission } from '../contexts/AuthContext';
+import { useDataMode } from '../contexts/DataContext';
+import './Trash.css';
+
+// 種類ごとの表示名と、復元・完全削除に必要な権限（削除と同じ）
+const TRASH_TYPES: Record<TrashType, { label: string; permissions: Permission[] }> = {
+  tasks: { label: 'タスク', permissions: ['records:write'] },
+  projects: { label: '案件', permissions: ['projects:delete'] },
+  leads: { label: '商談', permissions: ['sales:view', 'records:write'] },
+  documents: { label: 'ドキュメント', permissions: ['records:write'] },
+  salesEmails: { label: '営業メール', permissions: ['sales:view', 'records:write'] },
+  serviceMaterials: { label: 'サービス資料', permissions: ['records:write'] }
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('ja-JP', { year: 'numeric', month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const Trash: React.FC = () => {
+  const { can } = useAuth();
+  const dataMode = useDataMode();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TrashType | 'all'>('all');
+  const [deletedByFilter, setDeletedByFilter] = useState('all');
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (dataMode !== 'api') return;
+    const loadTrash = async () => {
+      try {
+        const data = await trashAPI.getTrash();
+        setItems(data.items);
+        setRetentionDays(data.retentionDays);
+      } catch (error) {
+        console.error('Failed to load trash:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadTrash();
+  }, [dataMode]);
+
+  // 削除した人の一覧（絞り込み用）
+  const deleters = useMemo(() => {
+    const names = new Map<string, string>();
+    items.forEach(item => names.set(item.deletedBy.id ?? '', item.deletedBy.name));
+    return Array.from(names.entries());
+  }, [items]);
+
+  const countsByType = useMemo(() => {
+    const counts: Partial<Record<TrashType, number>> = {};
+    items.forEach(item => {
+      counts[item.type] = (counts[item.type] ?? 0) + 1;
+    });
+    return counts;
+  }, [items]);
+
+  const visibleItems = items.filter(item =>
+    (typeFilter === 'all' || item.type === typeFilter) &&
+    (deletedByFilter === 'all' || (item.deletedBy.id ?? '') === deletedByFilter)
+  );
+
+  const canManage = (item: TrashItem) => TRASH_TYPES[item.type].permissions.every(permission => can(permission));
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      await trashAPI.restore(item.type, item.id);
+      setItems(items.filter(i => !(i.type === item.type && i.id === item.id)));
+    } catch (error) {
+      console.error('Failed to restore item:', error);
+      alert('データの復元に失敗しました');
+    }
+  };
+
+  const purgeItem = async (item: TrashItem) => {
+    if (!window.confirm(`「${item.title}」を完全に削除してもよろしいですか？\nこの操作は取り消せません。`)) return;
+    try {
+      await trashAPI.purge(item.type, item.id);
+      setItems(items.filter(i => !(i.type === item.type && i.id === item.id)));
+    } catch (error) {
+      console.error('Failed to purge item:', error);
+      alert('データの完全削除に失敗しました');
+    }
+  };
+
+  if (dataMode !== 'api') {
+    return (
+      <div className="trash">
+        <h1>ゴミ箱</h1>
+        <p className="trash-notice">ブラウザに保存しているデータは、削除すると元に戻せません。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="trash">
+      <div className="trash-header">
+        <h1>ゴミ箱</h1>
+        {retentionDays !== null && (
+          <p className="trash-subtitle">削除したデータは{retentionDays}日間保管され、その後自動的に完全に削除されます</p>
+        )}
+      </div>
+
+      <div className="trash-filters">
+        <div className="trash-type-tabs">
+          <button className={typeFilter === 'all' ? 'active' : ''} onClick={() => setTypeFilter('all')}>
+            すべて ({items.length})
+          </button>
+          {(Object.keys(TRASH_TYPES) as TrashType[])
+            .filter(type => countsByType[type])
+            .map(type => (
+              <button key={type} className={typeFilter === type ? 'active' : ''} onClick={() => setTypeFilter(type)}>
+                {TRASH_TYPES[type].label} ({countsByType[type]})
+              </button>
+            ))}
+        </div>
+        <select value={deletedByFilter} onChange={(e) => setDeletedByFilter(e.target.value)}>
+          <option value="all">削除した人: すべて</option>
+          {deleters.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="trash-list">
+        {isLoading ? (
+          <p className="trash-empty">読み込み中...</p>
+        ) : visibleItems.length === 0 ? (
+          <p className="trash-empty">ゴミ箱は空です</p>
+        ) : (
+          <table>
+            <thead>
+              <tr>
+                <th>名前</th>
+                <th>種類</th>
+                <th>削除した人</th>
+                <th>削除日時</th>
+                <th>完全削除の予定日</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.map(item => (
+                <tr key={`${item.type}:${item.id}`}>
+                  <td className="trash-title">{item.title || '（名前なし）'}</td>
+                  <td><span className="trash-type-badge">{TRASH_TYPES[item.type].label}</span></td>
+                  <td>{item.deletedBy.name}</td>
+                  <td>{formatDateTime(item.deletedAt)}</td>
+                  <td>{new Date(item.purgeAt).toLocaleDateString('ja-JP')}</td>
+                  <td className="trash-actions">
+                    {canManage(item) && (
+                      <>
+                        <button className="restore-btn" onClick={() => restoreItem(item)}>
+                          <RotateCcw size={14} /> 復元
+                        </button>
+                        <button className="purge-btn" onClick={() => purgeItem(item)}>
+                          <Trash2 size={14} /> 完全に削除
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
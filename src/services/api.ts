@@ -1,6 +1,7 @@
 import axios from 'axios';
+import { TaskBoard, TimeEntry } from '../types/models';
 
-const API_BASE_URL = process.env.NODE_ENV === 'production' 
+export const API_BASE_URL = process.env.NODE_ENV === 'production' 
   ? process.env.REACT_APP_API_URL || 'https://your-api-domain.com'
   : 'http://localhost:5001';
 
@@ -27,25 +28,88 @@ api.interceptors.request.use(
   }
 );
 
+// ログインの有効期限が切れたとき（リフレッシュトークンでも更新できなかったとき）の通知先
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const onSessionExpired = (handler: (() => void) | null) => {
+  sessionExpiredHandler = handler;
+};
+
+export const clearStoredSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+};
+
+// 同時に複数のリクエストが401になっても、トークンの更新は1回だけ行う
+let refreshing: Promise<string> | null = null;
+
+const requestNewTokens = async (staleToken?: string | null): Promise<string> => {
+  // 待っている間に別のタブが更新済みであれば、そのトークンを使う
+  const storedToken = localStorage.getItem('token');
+  if (staleToken !== undefined && storedToken && storedToken !== staleToken) return storedToken;
+
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) throw new Error('No refresh token');
+  const response = await axios.post(`${API_BASE_URL}/api/auth/refresh`, { refreshToken }, { timeout: 10000 });
+  localStorage.setItem('token', response.data.token);
+  localStorage.setItem('refreshToken', response.data.refreshToken);
+  localStorage.setItem('user', JSON.stringify(response.data.user));
+  return response.data.token as string;
+};
+
+// staleToken は401になったリクエストで使ったアクセストークン
+// 同じブラウザの複数のタブが同時に更新しないよう、Web Locks API が使える場合はタブ間でも1回ずつ行う
+export const refreshAccessToken = (staleToken?: string | null): Promise<string> => {
+  if (!refreshing) {
+    const locks = typeof navigator !== 'undefined' ? navigator.locks : undefined;
+    const request = async () => (locks
+      ? await locks.request('auth-refresh', () => requestNewTokens(staleToken))
+      : requestNewTokens(staleToken));
+    refreshing = request().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+};
+
+// リフレッシュトークンが無効になった（サーバーが401を返した）場合のみログアウトする
+// 通信エラーやタイムアウトの場合はログイン状態を保ったまま、リクエストを失敗させる
+export const isSessionExpiredError = (error: any) =>
+  error?.message === 'No refresh token' || error?.response?.status === 401;
+
 // レスポンスインターセプター（エラーハンドリング）
+// アクセストークンの期限が切れた場合は、リフレッシュトークンで更新してからリクエストをやり直す
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error) => {
-    if (error.response?.status === 401) {
-      // 認証エラーの場合、ローカルストレージをクリアしてログイン画面にリダイレクト
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      window.location.href = '/';
+  async (error) => {
+    const original = error.config;
+    const isAuthRequest = /\/api\/auth\/(login|register|refresh|logout|forgot-password|reset-password|verify-email)$/.test(original?.url ?? '');
+    if (error.response?.status !== 401 || !original || original._retry || isAuthRequest) {
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
+
+    original._retry = true;
+    const staleToken = String(original.headers?.Authorization ?? '').replace(/^Bearer /, '') || null;
+    let token: string;
+    try {
+      token = await refreshAccessToken(staleToken);
+    } catch (refreshError) {
+      if (!isSessionExpiredError(refreshError)) return Promise.reject(refreshError);
+      clearStoredSession();
+      sessionExpiredHandler?.();
+      return Promise.reject(error);
+    }
+    original.headers.Authorization = `Bearer ${token}`;
+    return api(original);
   }
 );
 
 // 認証API
 export const authAPI = {
-  register: async (userData: { email: string; password: string; name?: string; teamName?: string }) => {
+  register: async (userData: { email: string; password: string; name?: string; teamName?: string; inviteToken?: string }) => {
     const response = await api.post('/api/auth/register', userData);
     return response.data;
   },
@@ -54,17 +118,257 @@ export const authAPI = {
     const response = await api.post('/api/auth/login', credentials);
     return response.data;
   },
+
+  me: async () => {
+    const response = await api.get('/api/auth/me');
+    return response.data;
+  },
+
+  getPasswordPolicy: async (): Promise<PasswordPolicy> => {
+    const response = await api.get('/api/auth/password-policy');
+    return response.data;
+  },
+
+  forgotPassword: async (email: string) => {
+    const response = await api.post('/api/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  resetPassword: async (data: { token: string; password: string }) => {
+    const response = await api.post('/api/auth/reset-password', data);
+    return response.data;
+  },
+
+  verifyEmail: async (token: string) => {
+    const response = await api.post('/api/auth/verify-email', { token });
+    return response.data;
+  },
+
+  resendVerification: async () => {
+    const response = await api.post('/api/auth/verify-email/resend');
+    return response.data;
+  },
+
+  logout: async (refreshToken: string) => {
+    await api.post('/api/auth/logout', { refreshToken });
+  },
+
+  logoutAll: async () => {
+    await api.post('/api/auth/logout-all');
+  },
+
+  getSessions: async (): Promise<LoginSession[]> => {
+    const response = await api.get('/api/auth/sessions');
+    return response.data;
+  },
+
+  revokeSession: async (id: string) => {
+    await api.delete(`/api/auth/sessions/${id}`);
+  },
+
+  changePassword: async (data: { currentPassword: string; newPassword: string }) => {
+    const response = await api.put('/api/auth/password', data);
+    return response.data;
+  },
+};
+
+// パスワードの条件（description は画面に表示する説明）
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  description: string;
+}
+
+// ログイン中の端末
+export interface LoginSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// チームAPI
+export const teamAPI = {
+  getTeam: async () => {
+    const response = await api.get('/api/team');
+    return response.data;
+  },
+
+  updateTeam: async (teamData: { name: string }) => {
+    const response = await api.put('/api/team', teamData);
+    return response.data;
+  },
+
+  getTaskBoard: async (): Promise<TaskBoard> => {
+    const response = await api.get('/api/team/task-board');
+    return response.data;
+  },
+
+  updateTaskBoard: async (board: TaskBoard): Promise<TaskBoard> => {
+    const response = await api.put('/api/team/task-board', board);
+    return response.data;
+  },
+
+  getMembers: async () => {
+    const response = await api.get('/api/team/members');
+    return response.data;
+  },
+
+  updateMemberRole: async (id: string, role: string) => {
+    const response = await api.put(`/api/team/members/${id}/role`, { role });
+    return response.data;
+  },
+
+  updateMemberRate: async (id: string, hourlyRate: number | null): Promise<{ id: string; hourlyRate: number | null }> => {
+    const response = await api.put(`/api/team/members/${id}/rate`, { hourlyRate });
+    return response.data;
+  },
+
+  removeMember: async (id: string) => {
+    const response = await api.delete(`/api/team/members/${id}`);
+    return response.data;
+  },
+
+  getInvitations: async () => {
+    const response = await api.get('/api/team/invitations');
+    return response.data;
+  },
+
+  createInvitation: async (invitationData: { email?: string; expiresInDays?: number; maxUses?: number; role?: string }) => {
+    const response = await api.post('/api/team/invitations', invitationData);
+    return response.data;
+  },
+
+  revokeInvitation: async (id: string) => {
+    const response = await api.delete(`/api/team/invitations/${id}`);
+    return response.data;
+  },
+
+  getInvitation: async (token: string) => {
+    const response = await api.get(`/api/invitations/${encodeURIComponent(token)}`);
+    return response.data;
+  },
+
+  joinTeam: async (token: string) => {
+    const response = await api.post('/api/team/join', { token });
+    return response.data;
+  },
+
+  getJoinRequests: async () => {
+    const response = await api.get('/api/team/join-requests');
+    return response.data;
+  },
+
+  approveJoinRequest: async (id: string) => {
+    const response = await api.post(`/api/team/join-requests/${id}/approve`);
+    return response.data;
+  },
+
+  rejectJoinRequest: async (id: string) => {
+    const response = await api.post(`/api/team/join-requests/${id}/reject`);
+    return response.data;
+  },
+
+  // 絞り込み: type, userId, from, to（q はメールアドレス・IPアドレスの検索）
+  getAuthEvents: async (params: ListParams = {}): Promise<Page<AuthEvent>> => {
+    const response = await api.get('/api/team/auth-events', { params });
+    return response.data;
+  },
+};
+
+// 認証の監査ログ（ログインの成否・ロック・パスワード変更など）
+export type AuthEventType =
+  | 'login_succeeded'
+  | 'login_failed'
+  | 'login_throttled'
+  | 'login_locked'
+  | 'rate_limited'
+  | 'registered'
+  | 'password_changed'
+  | 'password_reset_requested'
+  | 'password_reset'
+  | 'email_verified'
+  | 'logged_out'
+  | 'logged_out_everywhere'
+  | 'refresh_token_reused';
+
+export interface AuthEvent {
+  id: string;
+  type: AuthEventType;
+  email: string;
+  reason: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  userId: string | null;
+  createdAt: string;
+}
+
+// 一覧APIのページング・並び替え・絞り込み
+export interface ListParams {
+  limit?: number;
+  cursor?: string;
+  sort?: string;
+  order?: 'asc' | 'desc';
+  q?: string;
+  // 絞り込み（例: status=pending,in-progress / dueDateFrom=2024-04-01 / valueMin=100000）
+  [filter: string]: string | number | boolean | undefined;
+}
+
+export interface PageInfo {
+  limit: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  sort: string;
+  order: 'asc' | 'desc';
+}
+
+export interface Page<T = any> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+// 一覧APIの1ページあたりの上限件数
+export const MAX_PAGE_SIZE = 200;
+
+// 全件を扱う画面向けに、最後のページまで順に取得する
+export const fetchAllPages = async <T = any>(
+  getPage: (params: ListParams) => Promise<Page<T>>,
+  params: ListParams = {}
+): Promise<T[]> => {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getPage({ ...params, limit: MAX_PAGE_SIZE, cursor });
+    items.push(...page.items);
+    cursor = page.pageInfo.nextCursor ?? undefined;
+  } while (cursor);
+  return items;
 };
 
+// 作成APIのオプション
+// idempotencyKey: 再送しても重複して作成されないよう、作成ごとのキーを Idempotency-Key ヘッダーで送る
+export interface MutationOptions {
+  idempotencyKey?: string;
+}
+
+const mutationConfig = ({ idempotencyKey }: MutationOptions = {}) =>
+  idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : {};
+
 // タスクAPI
 export const taskAPI = {
-  getTasks: async () => {
-    const response = await api.get('/api/tasks');
+  getTasks: async (params: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/tasks', { params });
     return response.data;
   },
 
-  createTask: async (taskData: any) => {
-    const response = await api.post('/api/tasks', taskData);
+  createTask: async (taskData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/tasks', taskData, mutationConfig(options));
     return response.data;
   },
 
@@ -73,21 +377,79 @@ export const taskAPI = {
     return response.data;
   },
 
+  // 繰り返しタスクのこの回以降の未完了の回をまとめて変更する
+  updateTaskSeries: async (id: string, taskData: any): Promise<{ items: any[] }> => {
+    const response = await api.put(`/api/tasks/${id}/series`, taskData);
+    return response.data;
+  },
+
   deleteTask: async (id: string) => {
     const response = await api.delete(`/api/tasks/${id}`);
     return response.data;
   },
 };
 
+// 作業時間API（チームモードのみ）
+export interface TimeEntryQuery {
+  taskId?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+export const timeEntryAPI = {
+  getEntries: async (params: TimeEntryQuery): Promise<{ items: TimeEntry[] }> => {
+    const response = await api.get('/api/time-entries', { params });
+    return response.data;
+  },
+
+  // laborCost（人件費）は売上を編集できる場合のみ
+  getProjectTotals: async (): Promise<{ projectId: string; minutes: number; laborCost?: number }[]> => {
+    const response = await api.get('/api/time-entries/projects');
+    return response.data;
+  },
+
+  getTimer: async (): Promise<{ timer: TimeEntry | null }> => {
+    const response = await api.get('/api/time-entries/timer');
+    return response.data;
+  },
+
+  // date は今日の日付（作業日として記録する）
+  startTimer: async (taskId: string, date: string, options?: MutationOptions): Promise<{ timer: TimeEntry; stopped: TimeEntry | null }> => {
+    const response = await api.post(`/api/tasks/${taskId}/timer`, { date }, mutationConfig(options));
+    return response.data;
+  },
+
+  stopTimer: async (): Promise<TimeEntry> => {
+    const response = await api.post('/api/time-entries/timer/stop');
+    return response.data;
+  },
+
+  createEntry: async (taskId: string, data: { date: string; minutes: number; note?: string }, options?: MutationOptions): Promise<TimeEntry> => {
+    const response = await api.post(`/api/tasks/${taskId}/time-entries`, data, mutationConfig(options));
+    return response.data;
+  },
+
+  updateEntry: async (id: string, data: Partial<Pick<TimeEntry, 'date' | 'minutes' | 'note'>>): Promise<TimeEntry> => {
+    const response = await api.put(`/api/time-entries/${id}`, data);
+    return response.data;
+  },
+
+  deleteEntry: async (id: string) => {
+    const response = await api.delete(`/api/time-entries/${id}`);
+    return response.data;
+  },
+};
+
 // プロジェクトAPI
 export const projectAPI = {
-  getProjects: async () => {
-    const response = await api.get('/api/projects');
+  getProjects: async (params: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/projects', { params });
     return response.data;
   },
 
-  createProject: async (projectData: any) => {
-    const response = await api.post('/api/projects', projectData);
+  createProject: async (projectData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/projects', projectData, mutationConfig(options));
     return response.data;
   },
 
@@ -104,13 +466,13 @@ export const projectAPI = {
 
 // リードAPI
 export const leadAPI = {
-  getLeads: async () => {
-    const response = await api.get('/api/leads');
+  getLeads: async (params: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/leads', { params });
     return response.data;
   },
 
-  createLead: async (leadData: any) => {
-    const response = await api.post('/api/leads', leadData);
+  createLead: async (leadData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/leads', leadData, mutationConfig(options));
     return response.data;
   },
 
@@ -125,6 +487,252 @@ export const leadAPI = {
   },
 };
 
+// ドキュメントAPI
+export const documentAPI = {
+  getDocuments: async (params: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/documents', { params });
+    return response.data;
+  },
+
+  createDocument: async (documentData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/documents', documentData, mutationConfig(options));
+    return response.data;
+  },
+
+  updateDocument: async (id: string, documentData: any) => {
+    const response = await api.put(`/api/documents/${id}`, documentData);
+    return response.data;
+  },
+
+  deleteDocument: async (id: string) => {
+    const response = await api.delete(`/api/documents/${id}`);
+    return response.data;
+  },
+
+  addComment: async (id: string, text: string, options?: MutationOptions) => {
+    const response = await api.post(`/api/documents/${id}/comments`, { text }, mutationConfig(options));
+    return response.data;
+  },
+};
+
+// 議事録API
+export const meetingMinutesAPI = {
+  getMeetingMinutes: async (params: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/meeting-minutes', { params });
+    return response.data;
+  },
+
+  createMeetingMinutes: async (minutesData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/meeting-minutes', minutesData, mutationConfig(options));
+    return response.data;
+  },
+
+  updateMeetingMinutes: async (id: string, minutesData: any) => {
+    const response = await api.put(`/api/meeting-minutes/${id}`, minutesData);
+    return response.data;
+  },
+
+  deleteMeetingMinutes: async (id: string) => {
+    const response = await api.delete(`/api/meeting-minutes/${id}`);
+    return response.data;
+  },
+};
+
+// 営業メールAPI
+export interface SalesEmailFilters extends ListParams {
+  client?: string;
+  emailType?: string;
+  status?: string;
+  tag?: string;
+  from?: string;
+  to?: string;
+  q?: string;
+}
+
+export const salesEmailAPI = {
+  getSalesEmails: async (filters: SalesEmailFilters = {}): Promise<Page> => {
+    const response = await api.get('/api/sales-emails', { params: filters });
+    return response.data;
+  },
+
+  createSalesEmail: async (emailData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/sales-emails', emailData, mutationConfig(options));
+    return response.data;
+  },
+
+  updateSalesEmail: async (id: string, emailData: any) => {
+    const response = await api.put(`/api/sales-emails/${id}`, emailData);
+    return response.data;
+  },
+
+  deleteSalesEmail: async (id: string) => {
+    const response = await api.delete(`/api/sales-emails/${id}`);
+    return response.data;
+  },
+};
+
+// サービス資料API
+export const serviceMaterialAPI = {
+  getServiceMaterials: async (params: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/service-materials', { params });
+    return response.data;
+  },
+
+  createServiceMaterial: async (materialData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/service-materials', materialData, mutationConfig(options));
+    return response.data;
+  },
+
+  updateServiceMaterial: async (id: string, materialData: any) => {
+    const response = await api.put(`/api/service-materials/${id}`, materialData);
+    return response.data;
+  },
+
+  deleteServiceMaterial: async (id: string) => {
+    const response = await api.delete(`/api/service-materials/${id}`);
+    return response.data;
+  },
+
+  uploadFile: async (id: string, file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await api.post(`/api/service-materials/${id}/file`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 0,
+    });
+    return response.data;
+  },
+
+  downloadFile: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/api/service-materials/${id}/file`, {
+      responseType: 'blob',
+      timeout: 0,
+    });
+    return response.data;
+  },
+};
+
+// 全文検索API
+export type SearchResultType = 'tasks' | 'projects' | 'leads' | 'meetingMinutes' | 'salesEmails' | 'serviceMaterials';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  snippet: string;
+  score: number;
+  updatedAt: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  results: SearchResult[];
+}
+
+export const searchAPI = {
+  search: async (q: string, params: { types?: string; limit?: number } = {}): Promise<SearchResponse> => {
+    const response = await api.get('/api/search', { params: { q, ...params } });
+    return response.data;
+  },
+};
+
+// 顧客API
+export const customerAPI = {
+  getCustomers: async (filters: ListParams = {}): Promise<Page> => {
+    const response = await api.get('/api/customers', { params: filters });
+    return response.data;
+  },
+
+  getCustomer: async (id: string) => {
+    const response = await api.get(`/api/customers/${id}`);
+    return response.data;
+  },
+
+  createCustomer: async (customerData: any, options?: MutationOptions) => {
+    const response = await api.post('/api/customers', customerData, mutationConfig(options));
+    return response.data;
+  },
+
+  updateCustomer: async (id: string, customerData: any) => {
+    const response = await api.put(`/api/customers/${id}`, customerData);
+    return response.data;
+  },
+
+  deleteCustomer: async (id: string) => {
+    const response = await api.delete(`/api/customers/${id}`);
+    return response.data;
+  },
+};
+
+// LocalStorageからの移行API
+export const importAPI = {
+  // 件数が多いと時間がかかるため、通常より長いタイムアウトにする
+  importLocalData: async (data: any, onConflict: 'skip' | 'create' = 'skip', options?: MutationOptions) => {
+    const response = await api.post('/api/import', { data, onConflict }, { ...mutationConfig(options), timeout: 120000 });
+    return response.data;
+  },
+};
+
+// 変更履歴API
+export type ActivityEntityType = SearchResultType | 'documents' | 'customers' | 'dataImports';
+
+export interface ActivityEntry {
+  id: string;
+  // deleted はゴミ箱への移動、purged は完全削除
+  action: 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+  entityType: ActivityEntityType;
+  entityId: string;
+  entityLabel: string;
+  // 項目ごとの変更前後の値
+  changes: Record<string, { before: unknown; after: unknown }>;
+  actorName: string;
+  userId: string | null;
+  createdAt: string;
+}
+
+export const activityAPI = {
+  // 絞り込み: entityType, entityId, action, userId, from, to
+  getActivity: async (params: ListParams = {}): Promise<Page<ActivityEntry>> => {
+    const response = await api.get('/api/activity', { params });
+    return response.data;
+  },
+};
+
+// ゴミ箱API
+export type TrashType = 'tasks' | 'projects' | 'leads' | 'documents' | 'salesEmails' | 'serviceMaterials';
+
+export interface TrashItem {
+  type: TrashType;
+  id: string;
+  title: string;
+  deletedAt: string;
+  deletedBy: { id: string | null; name: string };
+  // この日時を過ぎると完全に削除される
+  purgeAt: string;
+}
+
+export interface TrashResponse {
+  retentionDays: number;
+  items: TrashItem[];
+}
+
+export const trashAPI = {
+  getTrash: async (params: { type?: TrashType; deletedBy?: string } = {}): Promise<TrashResponse> => {
+    const response = await api.get('/api/trash', { params });
+    return response.data;
+  },
+
+  restore: async (type: TrashType, id: string) => {
+    const response = await api.post(`/api/trash/${type}/${id}/restore`);
+    return response.data;
+  },
+
+  purge: async (type: TrashType, id: string) => {
+    await api.delete(`/api/trash/${type}/${id}`);
+  },
+};
+
 // ヘルスチェック
 export const healthCheck = async () => {
   const response = await api.get('/api/health');
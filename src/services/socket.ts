@@ -1,50 +1,75 @@
 import { io, Socket } from 'socket.io-client';
-import { LocalStorage } from '../utils/storage';
+import { API_BASE_URL, refreshAccessToken } from './api';
 
-const SOCKET_URL = process.env.REACT_APP_SOCKET_URL || 'http://localhost:3001';
+// Socket.IOはAPIサーバーと同じポートで待ち受けている
+const SOCKET_URL = process.env.REACT_APP_SOCKET_URL || API_BASE_URL;
+
+export type RealtimeDataType = 'tasks' | 'projects' | 'leads' | 'documents';
+
+export interface DataUpdatedEvent {
+  dataType: RealtimeDataType;
+  action: 'created' | 'updated';
+  data: any;
+  userId: string;
+}
+
+export interface DataDeletedEvent {
+  dataType: RealtimeDataType;
+  id: string;
+  userId: string;
+}
 
 class SocketService {
   private socket: Socket | null = null;
   private listeners: Map<string, Function[]> = new Map();
+  // 認証エラーでトークンを更新したあと、まだ接続できていない間は true（更新を繰り返さないため）
+  private authRetried = false;
 
-  connect(teamId: string) {
+  // 所属チームのルームはサーバー側でトークンから決まる
+  // 再接続のたびに最新のアクセストークンを送る（トークンは定期的に更新されるため）
+  connect() {
     if (this.socket) {
       this.disconnect();
     }
 
     this.socket = io(SOCKET_URL, {
       transports: ['websocket'],
+      auth: (callback) => callback({ token: localStorage.getItem('token') }),
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 1000,
     });
 
     this.socket.on('connect', () => {
+      this.authRetried = false;
       console.log('Connected to server');
-      if (teamId) {
-        this.joinTeam(teamId);
-      }
     });
 
     this.socket.on('disconnect', () => {
       console.log('Disconnected from server');
     });
 
-    // Handle data updates
-    this.socket.on('data-updated', (data: any) => {
+    // アクセストークンの期限切れで拒否された場合は、トークンを更新してから接続し直す
+    // （サーバーに拒否された場合、Socket.IOは自動では再接続しない）
+    this.socket.on('connect_error', (error: Error) => {
+      console.error('Socket connection error:', error.message);
+      if (error.message !== 'unauthorized' || this.authRetried) return;
+      this.authRetried = true;
+      const socket = this.socket;
+      refreshAccessToken(localStorage.getItem('token'))
+        .then(() => {
+          if (this.socket === socket) socket?.connect();
+        })
+        .catch(refreshError => console.error('Failed to refresh token for socket:', refreshError));
+    });
+
+    // チームメンバーがREST APIで変更したデータの通知
+    this.socket.on('data-updated', (data: DataUpdatedEvent) => {
       this.emit('dataUpdated', data);
-      // Update local storage
-      if (data.dataType && data.data) {
-        LocalStorage.set(`TEAM_${data.dataType}`, data.data);
-      }
     });
 
-    this.socket.on('data-deleted', (data: any) => {
+    this.socket.on('data-deleted', (data: DataDeletedEvent) => {
       this.emit('dataDeleted', data);
-      // Remove from local storage
-      if (data.dataType) {
-        LocalStorage.remove(`TEAM_${data.dataType}`);
-      }
     });
 
     return this.socket;
@@ -57,22 +82,6 @@ class SocketService {
     }
   }
 
-  joinTeam(teamId: string) {
-    if (this.socket) {
-      this.socket.emit('join-team', teamId);
-    }
-  }
-
-  sendDataUpdate(teamId: string, dataType: string, data: any) {
-    if (this.socket) {
-      this.socket.emit('data-update', {
-        teamId,
-        dataType,
-        data
-      });
-    }
-  }
-
   on(event: string, callback: Function) {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, []);
@@ -102,4 +111,4 @@ class SocketService {
   }
 }
 
-export default new SocketService();
\ No newline at end of file
+export default new SocketService();
@@ -0,0 +1,201 @@
+// 画面で共有するデータの型
+// IDはサーバーのID（cuid）またはLocalStorageで採番したIDの文字列、日付は日付入力欄と同じ YYYY-MM-DD 形式
+
+export type Priority = 'low' | 'medium' | 'high';
+
+// 繰り返しの規則（サーバーの server/recurrence.ts と同じ形）
+export interface TaskRecurrence {
+  freq: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  // weekly: 曜日（0=日曜〜6=土曜）
+  weekdays?: number[];
+  // monthly: 日付、または第n曜日（-1は最終）
+  monthDay?: number;
+  nth?: number;
+  weekday?: number;
+  // 最初の回の期限（サーバーで設定する）
+  start?: string;
+  until?: string;
+  count?: number;
+  // RRULE で指定した場合の元の文字列
+  rrule?: string;
+}
+
+// かんばんの列（サーバーの server/taskBoard.ts と同じ形）
+// 追加した列（custom）はステータスに対応づける。wipLimit は列に置けるタスクの件数の上限
+export interface TaskBoardColumn {
+  key: string;
+  label: string;
+  color: string;
+  status: Task['status'];
+  custom?: boolean;
+  wipLimit?: number;
+  // warn: 確認したうえで移動できる、block: 上限に達している間は移動できない
+  wipMode?: 'warn' | 'block';
+}
+
+export interface TaskBoard {
+  columns: TaskBoardColumn[];
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string;
+  status: 'pending' | 'in-progress' | 'completed' | 'on-hold';
+  priority: Priority;
+  assignee: string;
+  dueDate: string;
+  meetingLink?: string;
+  notes?: string;
+  // 関連する案件・案件の納品物・商談（解除する場合は null を送る）
+  projectId?: string | null;
+  deliverableId?: number | null;
+  leadId?: string | null;
+  // 親タスク（サブタスクは1階層のみ）と、このタスクより先に完了させるタスク
+  parentId?: string | null;
+  blockedByIds?: string[];
+  // 依存タスクが未完了でも進行中・完了にする場合に更新と一緒に送る（保存はしない）
+  overrideBlockers?: boolean;
+  // 繰り返しの規則と、繰り返しの最初の回のID（チームモードのみ）
+  recurrence?: TaskRecurrence | null;
+  seriesId?: string | null;
+  // かんばんの追加した列と、列内の並び順（文字列として比較する）
+  boardColumn?: string | null;
+  rank?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // サーバーで更新のたびに増える番号（チームモードのみ。同時編集の検出に使う）
+  version?: number;
+}
+
+// タスクの作業時間（チームモードのみ）。endedAt が null でstartedAt がある間は計測中のタイマー
+export interface TimeEntry {
+  id: string;
+  date: string;
+  minutes: number;
+  startedAt?: string | null;
+  endedAt?: string | null;
+  note?: string | null;
+  taskId: string;
+  userId: string;
+  task: { id: string; title: string; projectId?: string | null };
+  user: { id: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Deliverable {
+  id: number;
+  name: string;
+  description: string;
+  dueDate: string;
+  status: 'pending' | 'in-progress' | 'completed' | 'review';
+  assignee: string;
+}
+
+export type ServiceCategory = 'advertising' | 'lp' | 'design' | 'video' | 'development' | 'consulting' | 'other';
+
+// 案件の経費（外注費・広告費・ツール代など）
+export interface ProjectExpense {
+  id: number;
+  category: 'outsourcing' | 'advertising' | 'tools' | 'other';
+  description: string;
+  amount: number;
+  date?: string | null;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string;
+  client: string;
+  status: 'planning' | 'in-progress' | 'review' | 'completed' | 'on-hold';
+  isActive: boolean;
+  priority: Priority;
+  startDate: string;
+  endDate: string;
+  budget: number;
+  actualRevenue?: number;
+  teamMembers: string[];
+  progress: number;
+  deliverables: Deliverable[];
+  serviceCategory?: ServiceCategory | null;
+  expenses?: ProjectExpense[];
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+  // 完了日時（ISO形式。月別の売上集計に使う）
+  completedDate?: string;
+  version?: number;
+}
+
+export interface LeadService {
+  id: number;
+  name: string;
+  category: ServiceCategory;
+  description: string;
+  price: number;
+  status: 'proposed' | 'accepted' | 'rejected' | 'in-progress' | 'completed';
+  deliveryTime?: string;
+}
+
+export interface Lead {
+  id: string;
+  company: string;
+  contact: string;
+  contactEmail: string;
+  contactPhone: string;
+  companyUrl: string;
+  status: string;
+  value: number;
+  probability: number;
+  nextAction: string;
+  lastContact: string;
+  meetingDate?: string;
+  meetingLink?: string;
+  services: LeadService[];
+  notes: string;
+  createdAt: string;
+  version?: number;
+}
+
+// 担当者の選択肢などに使うメンバー（チームモードではチームのユーザー、ローカルモードでは手入力のメンバー）
+export interface TeamMember {
+  id: string;
+  name: string;
+  role: string;
+  status?: 'online' | 'offline' | 'away';
+  avatar?: string;
+}
+
+// ダッシュボードで手入力する月別の売上（完了した案件がない場合のグラフに使う）
+export interface SalesRecord {
+  id: string;
+  month: string;
+  sales: number;
+  target: number;
+  // 粗利（案件データから生成した場合のみ）
+  profit?: number;
+}
+
+// ダッシュボードで登録する会議の予定
+export interface Meeting {
+  id: string;
+  title: string;
+  date: string;
+  time: string;
+  link?: string;
+  attendees: string[];
+  status: 'scheduled' | 'completed' | 'cancelled';
+}
+
+// ダッシュボードの「最近のアクティビティ」（この端末で行った操作）
+export interface DashboardActivity {
+  id: string;
+  type: 'task' | 'document' | 'meeting' | 'sales';
+  title: string;
+  user: string;
+  timestamp: string;
+  description?: string;
+}
@@ -1,3 +1,5 @@
+import { XLSX_MIME_TYPE, buildXlsx } from './xlsx';
+
 export class DataExporter {
   static downloadCSV(data: any[], filename: string = 'export.csv'): void {
     this.exportToCSV(data, filename);
@@ -76,9 +78,23 @@ export class DataExporter {
     document.body.removeChild(link);
   }
 
-  static exportToExcel(data: any[], filename: string = 'export.xlsx'): void {
-    console.warn('Excel export requires additional libraries like xlsx or exceljs');
-    this.exportToCSV(data, filename.replace('.xlsx', '.csv'));
+  static exportToExcel(data: any[], filename: string = 'export.xlsx', sheetName?: string): void {
+    if (!data || data.length === 0) {
+      console.warn('No data to export');
+      return;
+    }
+
+    const blob = new Blob([buildXlsx(data, sheetName).buffer as ArrayBuffer], { type: XLSX_MIME_TYPE });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
   }
 
   static formatDataForExport(data: any[], columns?: string[]): any[] {
@@ -167,6 +183,23 @@ export class DataExporter {
     }));
   }
 
+  // 作業時間（1件1行）。時間は給与計算・請求に使うため小数の時間と分の両方を出力する
+  static prepareTimesheetForExport(entries: any[], projects: any[] = []): any[] {
+    return entries.map(entry => {
+      const project = projects.find(p => p.id === entry.task?.projectId);
+      return {
+        '作業日': entry.date,
+        'メンバー': entry.user?.name || '',
+        '案件': project?.name || '',
+        'クライアント': project?.client || '',
+        'タスク': entry.task?.title || '',
+        '作業時間（時間）': Math.round((entry.minutes / 60) * 100) / 100,
+        '作業時間（分）': entry.minutes,
+        'メモ': entry.note || ''
+      };
+    });
+  }
+
   static importFromCSV(file: File): Promise<any[]> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -0,0 +1,78 @@
+// 項目名と値の表示（アクティビティと同時編集の競合の表示で共有する）
+
+// 項目名の表示名（ない場合は項目名をそのまま表示する）
+export const FIELD_LABELS: Record<string, string> = {
+  title: 'タイトル',
+  name: '名前',
+  subject: '件名',
+  description: '説明',
+  content: '内容',
+  status: 'ステータス',
+  priority: '優先度',
+  assignee: '担当者',
+  dueDate: '期限',
+  startDate: '開始日',
+  endDate: '終了日',
+  date: '日付',
+  client: 'クライアント',
+  company: '会社名',
+  contact: '担当者',
+  contactPerson: '担当者',
+  contactEmail: 'メールアドレス',
+  contactPhone: '電話番号',
+  companyUrl: '会社URL',
+  email: 'メールアドレス',
+  phone: '電話番号',
+  budget: '予算',
+  actualRevenue: '売上実績',
+  contractAmount: '契約金額',
+  value: '見込み金額',
+  probability: '確度',
+  progress: '進捗',
+  nextAction: '次のアクション',
+  lastContact: '最終接触日',
+  meetingDate: '商談日',
+  meetingLink: 'ミーティングURL',
+  deliverables: '成果物',
+  serviceCategory: 'サービス区分',
+  expenses: '経費',
+  services: 'サービス',
+  teamMembers: 'メンバー',
+  attendees: '参加者',
+  agenda: '議題',
+  decisions: '決定事項',
+  actionItems: 'アクションアイテム',
+  category: 'カテゴリ',
+  tags: 'タグ',
+  notes: 'メモ',
+  customerId: '顧客',
+  projectId: '案件',
+  deliverableId: '納品物',
+  leadId: '商談',
+  parentId: '親タスク',
+  blockedByIds: '依存タスク',
+  recurrence: '繰り返し',
+  boardColumn: 'かんばんの列',
+  fileName: 'ファイル',
+  comment: 'コメント'
+};
+
+const MAX_VALUE_LENGTH = 40;
+
+// 値の表示（長い文字列は省略する）
+export const formatFieldValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '（なし）';
+  if (typeof value === 'boolean') return value ? 'はい' : 'いいえ';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '（なし）';
+    return value.every(item => typeof item === 'string') ? value.join('、') : `${value.length}件`;
+  }
+  if (typeof value === 'object') return '（変更あり）';
+
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(text)) {
+    return new Date(text).toLocaleDateString('ja-JP');
+  }
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
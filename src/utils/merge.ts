@@ -0,0 +1,45 @@
+// 同時編集の競合の解決（3者マージ）
+// base は編集を始めたときの内容、mine は保存しようとした内容、theirs はサーバーの最新の内容
+
+export interface VersionConflict<T> {
+  base: T;
+  mine: Partial<T>;
+  theirs: T;
+}
+
+export interface MergeResult<T> {
+  // 自動で決まった内容（競合した項目は自分の値）
+  merged: Partial<T>;
+  // 両方が異なる値に変更した項目（どちらを残すか選んでもらう）
+  conflicts: string[];
+  // 他のメンバーだけが変更した項目（最新の値を残す）
+  theirChanges: string[];
+}
+
+// 空文字・null・undefined は同じ「未入力」として比べる
+const normalize = (value: unknown) => (value === '' || value === null || value === undefined ? null : value);
+
+export const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+export const mergeChanges = <T>({ base, mine, theirs }: VersionConflict<T>): MergeResult<T> => {
+  const merged: Partial<T> = {};
+  const conflicts: string[] = [];
+  const theirChanges: string[] = [];
+
+  (Object.keys(mine) as (keyof T & string)[]).forEach(field => {
+    if (field === 'version') return;
+    const changedByMe = !isSameValue(mine[field], base[field]);
+    const changedByThem = !isSameValue(theirs[field], base[field]);
+
+    if (!changedByMe) {
+      merged[field] = theirs[field];
+      if (changedByThem) theirChanges.push(field);
+    } else {
+      merged[field] = mine[field];
+      if (changedByThem && !isSameValue(mine[field], theirs[field])) conflicts.push(field);
+    }
+  });
+
+  return { merged, conflicts, theirChanges };
+};
@@ -0,0 +1,262 @@
+import { LocalStorage, STORAGE_KEYS } from './storage';
+
+// LocalStorageに保存していたデータをサーバーへ移行する
+// LocalStorage.backup() の内容をキーごとにサーバーのエンティティへ変換し、/api/import にまとめて送る
+// 元のIDは「キー:ID」の形で legacyId として送り、レコード間の参照もこの形で表す
+
+export type ImportEntity =
+  | 'tasks'
+  | 'projects'
+  | 'leads'
+  | 'salesEmails'
+  | 'serviceMaterials'
+  | 'meetingMinutes'
+  | 'documents';
+
+export interface ImportRecord {
+  legacyId: string;
+  [field: string]: unknown;
+}
+
+export type ImportPayload = Partial<Record<ImportEntity, ImportRecord[]>>;
+
+export interface ImportIssue {
+  entity: ImportEntity;
+  legacyId: string;
+  label: string;
+}
+
+export interface ImportReport {
+  importId: string;
+  created: Record<ImportEntity, number>;
+  createdComments: number;
+  idMap: Record<ImportEntity, Record<string, string>>;
+  duplicates: (ImportIssue & { existingId: string })[];
+  conflicts: (ImportIssue & { existingId: string; fields: string[]; created: boolean })[];
+  errors: (ImportIssue & { message: string })[];
+  warnings: string[];
+}
+
+export interface MigrationStatus {
+  importId: string;
+  migratedAt: string;
+  keys: string[];
+}
+
+export const ENTITY_LABELS: Record<ImportEntity, string> = {
+  tasks: 'タスク',
+  projects: '案件',
+  leads: '商談',
+  salesEmails: '営業メール',
+  serviceMaterials: 'サービス資料',
+  meetingMinutes: '議事録',
+  documents: 'ドキュメント'
+};
+
+// サーバーに対応するデータがないため移行しないキー（チームメンバーはユーザー登録・招待で管理する）
+export const UNSUPPORTED_KEYS = [
+  STORAGE_KEYS.SALES_DATA,
+  STORAGE_KEYS.REVENUE_DATA,
+  STORAGE_KEYS.TEAM_MEMBERS,
+  STORAGE_KEYS.ACTIVITIES,
+  STORAGE_KEYS.ACTIVITY_LOG
+];
+
+const legacyIdOf = (key: string, id: unknown) => `${key}:${id}`;
+
+const asArray = (value: unknown): any[] => (Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : []);
+
+const toTask = (task: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.TASKS_DATA, task.id),
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  assignee: task.assignee,
+  dueDate: task.dueDate,
+  meetingLink: task.meetingLink,
+  notes: task.notes,
+  createdAt: task.createdAt
+});
+
+const toProject = (project: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.PROJECTS_DATA, project.id),
+  name: project.name,
+  description: project.description,
+  client: project.client,
+  status: project.status,
+  isActive: project.isActive,
+  priority: project.priority,
+  startDate: project.startDate,
+  endDate: project.endDate,
+  budget: project.budget,
+  actualRevenue: project.actualRevenue,
+  teamMembers: project.teamMembers,
+  progress: project.progress,
+  deliverables: project.deliverables,
+  notes: project.notes,
+  completedDate: project.completedDate,
+  createdAt: project.createdAt
+});
+
+const toLead = (lead: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.LEADS_DATA, lead.id),
+  company: lead.company,
+  contact: lead.contact,
+  contactEmail: lead.contactEmail,
+  contactPhone: lead.contactPhone,
+  companyUrl: lead.companyUrl,
+  status: lead.status,
+  value: lead.value,
+  probability: lead.probability,
+  nextAction: lead.nextAction,
+  lastContact: lead.lastContact,
+  meetingDate: lead.meetingDate,
+  meetingLink: lead.meetingLink,
+  services: lead.services,
+  notes: lead.notes,
+  createdAt: lead.createdAt
+});
+
+const toSalesEmail = (email: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.SALES_EMAILS, email.id),
+  subject: email.subject,
+  content: email.content,
+  client: email.client,
+  contactPerson: email.contactPerson,
+  emailType: email.emailType,
+  sentDate: email.sentDate,
+  receivedDate: email.receivedDate,
+  status: email.status,
+  attachments: email.attachments,
+  tags: email.tags,
+  notes: email.notes,
+  createdAt: email.createdAt
+});
+
+// ファイルはdata URLのまま送り、サーバー側でストレージに保存する（fileSizeは表示用の文字列だったため送らない）
+const toServiceMaterial = (material: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.SERVICE_MATERIALS, material.id),
+  title: material.title,
+  description: material.description,
+  category: material.category,
+  serviceCategory: material.serviceCategory,
+  fileType: material.fileType,
+  fileName: material.fileName,
+  fileData: material.fileData,
+  uploadedBy: material.uploadedBy,
+  price: material.price,
+  deliveryTime: material.deliveryTime,
+  version: material.version,
+  isPublic: material.isPublic,
+  downloadCount: material.downloadCount,
+  tags: material.tags,
+  notes: material.notes,
+  createdAt: material.createdAt
+});
+
+const toMeetingMinutes = (minutes: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.MEETING_MINUTES, minutes.id),
+  title: minutes.title,
+  date: minutes.date,
+  time: minutes.time,
+  attendees: minutes.attendees,
+  meetingLink: minutes.meetingLink,
+  meetingType: minutes.meetingType,
+  agenda: minutes.agenda,
+  decisions: minutes.decisions,
+  actionItems: minutes.actionItems,
+  notes: minutes.notes,
+  status: minutes.status
+});
+
+// ダッシュボードの会議予定は議事録（予定）として取り込む
+const toScheduledMeeting = (meeting: any): ImportRecord => ({
+  legacyId: legacyIdOf(STORAGE_KEYS.MEETINGS, meeting.id),
+  title: meeting.title,
+  date: meeting.date,
+  time: meeting.time,
+  attendees: meeting.attendees,
+  meetingLink: meeting.link,
+  status: meeting.status
+});
+
+// 旧データの議事録ドキュメントは「{会議名}_議事録」という名前で議事録と対応していた
+const toDocument = (doc: any, minutes: any[]): ImportRecord => {
+  const isMinutes = doc.type === '議事録';
+  const source = isMinutes ? minutes.find(m => `${m.title}_議事録` === doc.name) : undefined;
+  return {
+    legacyId: legacyIdOf(STORAGE_KEYS.DOCUMENTS_DATA, doc.id),
+    minutesLegacyId: source ? legacyIdOf(STORAGE_KEYS.MEETING_MINUTES, source.id) : undefined,
+    title: doc.name,
+    type: isMinutes ? 'meeting' : 'other',
+    category: doc.category,
+    attendees: doc.attendees,
+    date: doc.meetingDate || doc.uploadDate,
+    status: 'published',
+    tags: doc.type && !isMinutes ? [doc.type] : [],
+    createdAt: doc.uploadDate,
+    comments: asArray(doc.comments).map(comment => ({
+      legacyId: legacyIdOf('comments', comment.id),
+      text: comment.text,
+      author: comment.author,
+      createdAt: comment.timestamp
+    }))
+  };
+};
+
+export interface MigrationPlan {
+  payload: ImportPayload;
+  counts: Partial<Record<ImportEntity, number>>;
+  // 移行するキー（移行後に移行済みとして記録する）
+  keys: string[];
+  // データはあるが移行の対象外のキー
+  unsupportedKeys: string[];
+}
+
+// backupのうち、まだ移行していないキーを変換する
+export const buildMigrationPlan = (backup: Record<string, any>, migratedKeys: string[] = []): MigrationPlan => {
+  const pending = (key: string) => !migratedKeys.includes(key) && asArray(backup[key]).length > 0;
+  const payload: ImportPayload = {};
+  const keys: string[] = [];
+  const add = (entity: ImportEntity, key: string, records: ImportRecord[]) => {
+    if (!pending(key)) return;
+    payload[entity] = [...(payload[entity] ?? []), ...records];
+    keys.push(key);
+  };
+
+  add('tasks', STORAGE_KEYS.TASKS_DATA, asArray(backup[STORAGE_KEYS.TASKS_DATA]).map(toTask));
+  add('projects', STORAGE_KEYS.PROJECTS_DATA, asArray(backup[STORAGE_KEYS.PROJECTS_DATA]).map(toProject));
+  add('leads', STORAGE_KEYS.LEADS_DATA, asArray(backup[STORAGE_KEYS.LEADS_DATA]).map(toLead));
+  add('salesEmails', STORAGE_KEYS.SALES_EMAILS, asArray(backup[STORAGE_KEYS.SALES_EMAILS]).map(toSalesEmail));
+  add('serviceMaterials', STORAGE_KEYS.SERVICE_MATERIALS, asArray(backup[STORAGE_KEYS.SERVICE_MATERIALS]).map(toServiceMaterial));
+  add('meetingMinutes', STORAGE_KEYS.MEETING_MINUTES, asArray(backup[STORAGE_KEYS.MEETING_MINUTES]).map(toMeetingMinutes));
+  add('meetingMinutes', STORAGE_KEYS.MEETINGS, asArray(backup[STORAGE_KEYS.MEETINGS]).map(toScheduledMeeting));
+  const minutes = asArray(backup[STORAGE_KEYS.MEETING_MINUTES]);
+  add('documents', STORAGE_KEYS.DOCUMENTS_DATA, asArray(backup[STORAGE_KEYS.DOCUMENTS_DATA]).map(doc => toDocument(doc, minutes)));
+
+  const counts: MigrationPlan['counts'] = {};
+  for (const [entity, records] of Object.entries(payload) as [ImportEntity, ImportRecord[]][]) {
+    counts[entity] = records.length;
+  }
+
+  return {
+    payload,
+    counts,
+    keys,
+    unsupportedKeys: UNSUPPORTED_KEYS.filter(key => asArray(backup[key]).length > 0)
+  };
+};
+
+export const getMigrationStatus = (): MigrationStatus[] =>
+  LocalStorage.get<MigrationStatus[]>(STORAGE_KEYS.DATA_MIGRATION) ?? [];
+
+export const getMigratedKeys = (): string[] => getMigrationStatus().flatMap(status => status.keys);
+
+// 元のデータは残したまま、移行済みのキーとして記録する
+export const markMigrated = (keys: string[], importId: string, now: Date = new Date()): void => {
+  LocalStorage.set(STORAGE_KEYS.DATA_MIGRATION, [
+    ...getMigrationStatus(),
+    { importId, migratedAt: now.toISOString(), keys }
+  ]);
+};
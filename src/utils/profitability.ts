@@ -0,0 +1,91 @@
+import { Project, ProjectExpense, ServiceCategory } from '../types/models';
+
+// 案件の収益性（粗利 = 売上 − 経費 − 人件費）
+// 売上は実収益（未入力の場合は予算）。人件費はサーバーが作業時間とメンバーの時間単価から計算した値（チームモードのみ）
+
+export const SERVICE_CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  advertising: '広告運用',
+  lp: 'LP制作',
+  design: 'デザイン',
+  video: '動画編集',
+  development: '開発',
+  consulting: 'コンサルティング',
+  other: 'その他'
+};
+
+export const EXPENSE_CATEGORY_LABELS: Record<ProjectExpense['category'], string> = {
+  outsourcing: '外注費',
+  advertising: '広告費',
+  tools: 'ツール代',
+  other: 'その他'
+};
+
+export const revenueOf = (project: Project) => project.actualRevenue || project.budget;
+
+export const expensesTotalOf = (project: Project) => (project.expenses ?? []).reduce((sum, expense) => sum + expense.amount, 0);
+
+export interface Profitability {
+  revenue: number;
+  expenses: number;
+  laborCost: number;
+  grossProfit: number;
+  // 粗利率（売上が0の場合は null）
+  margin: number | null;
+}
+
+const profitabilityFrom = (revenue: number, expenses: number, laborCost: number): Profitability => {
+  const grossProfit = revenue - expenses - laborCost;
+  return { revenue, expenses, laborCost, grossProfit, margin: revenue > 0 ? grossProfit / revenue : null };
+};
+
+// laborCosts は案件IDごとの人件費
+export const profitabilityOf = (project: Project, laborCosts: Record<string, number> = {}): Profitability =>
+  profitabilityFrom(revenueOf(project), expensesTotalOf(project), laborCosts[project.id] ?? 0);
+
+export type ProfitabilityGroupBy = 'project' | 'client' | 'serviceCategory';
+
+export interface ProfitabilityRow extends Profitability {
+  key: string;
+  label: string;
+  projectCount: number;
+}
+
+const groupOf = (project: Project, groupBy: ProfitabilityGroupBy) => {
+  switch (groupBy) {
+    case 'project': return { key: project.id, label: project.name };
+    case 'client': return { key: project.client, label: project.client || '（クライアント未入力）' };
+    case 'serviceCategory': {
+      const category = project.serviceCategory;
+      return { key: category ?? '', label: category ? SERVICE_CATEGORY_LABELS[category] : '（区分未設定）' };
+    }
+  }
+};
+
+// 案件・クライアント・サービス区分ごとの収益性（粗利の大きい順）
+export const profitabilityRowsOf = (
+  projects: Project[],
+  laborCosts: Record<string, number>,
+  groupBy: ProfitabilityGroupBy
+): ProfitabilityRow[] => {
+  const groups = new Map<string, { label: string; revenue: number; expenses: number; laborCost: number; projectCount: number }>();
+  for (const project of projects) {
+    const { key, label } = groupOf(project, groupBy);
+    const { revenue, expenses, laborCost } = profitabilityOf(project, laborCosts);
+    const group = groups.get(key) ?? { label, revenue: 0, expenses: 0, laborCost: 0, projectCount: 0 };
+    groups.set(key, {
+      label,
+      revenue: group.revenue + revenue,
+      expenses: group.expenses + expenses,
+      laborCost: group.laborCost + laborCost,
+      projectCount: group.projectCount + 1
+    });
+  }
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    label: group.label,
+    projectCount: group.projectCount,
+    ...profitabilityFrom(group.revenue, group.expenses, group.laborCost)
+  })).sort((a, b) => b.grossProfit - a.grossProfit);
+};
+
+export const formatMargin = (margin: number | null) => (margin === null ? '-' : `${(margin * 100).toFixed(1)}%`);
@@ -0,0 +1,40 @@
+import { TaskRecurrence } from '../types/models';
+
+// 繰り返しの規則の表示
+
+export const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+const nthLabel = (nth: number) => (nth === -1 ? '最終' : `第${nth}`);
+
+const intervalLabel = (rule: TaskRecurrence, unit: string, every: string) =>
+  rule.interval > 1 ? `${rule.interval}${unit}ごと` : every;
+
+// 例: 「毎週 月・水」「2か月ごと 第2火曜日」「毎月 25日（2025-03-31まで）」
+export const describeRecurrence = (rule: TaskRecurrence): string => {
+  let text: string;
+  switch (rule.freq) {
+    case 'daily':
+      text = intervalLabel(rule, '日', '毎日');
+      break;
+    case 'weekly': {
+      const weekdays = (rule.weekdays ?? []).map(day => WEEKDAY_LABELS[day]).join('・');
+      text = `${intervalLabel(rule, '週間', '毎週')}${weekdays ? ` ${weekdays}` : ''}`;
+      break;
+    }
+    case 'monthly': {
+      const day = rule.nth !== undefined && rule.weekday !== undefined
+        ? `${nthLabel(rule.nth)}${WEEKDAY_LABELS[rule.weekday]}曜日`
+        : rule.monthDay !== undefined ? `${rule.monthDay}日` : '';
+      text = `${intervalLabel(rule, 'か月', '毎月')}${day ? ` ${day}` : ''}`;
+      break;
+    }
+    case 'yearly':
+      text = intervalLabel(rule, '年', '毎年');
+      break;
+    default:
+      text = '繰り返し';
+  }
+  if (rule.until) text += `（${rule.until}まで）`;
+  if (rule.count) text += `（${rule.count}回）`;
+  return text;
+};
@@ -16,7 +16,10 @@ export const STORAGE_KEYS = {
   MEETING_MINUTES: 'meetingMinutes',
   ACTIVITIES: 'activities',
   ACTIVITY_LOG: 'activityLog',
-  PROJECT_DELIVERABLES: 'projectDeliverables'
+  PROJECT_DELIVERABLES: 'projectDeliverables',
+  DATA_MIGRATION: 'dataMigration',
+  SYNC_QUEUE: 'syncQueue',
+  TASK_BOARD: 'taskBoard'
 };
 
 export class LocalStorage {
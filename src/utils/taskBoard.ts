@@ -0,0 +1,53 @@
+import { Task, TaskBoard, TaskBoardColumn } from '../types/models';
+
+// かんばんの列と並び順（サーバーの server/taskBoard.ts と同じ規則）
+
+export const DEFAULT_TASK_COLUMNS: TaskBoardColumn[] = [
+  { key: 'pending', label: '未着手', color: '#9E9E9E', status: 'pending' },
+  { key: 'in-progress', label: '進行中', color: '#FFC107', status: 'in-progress' },
+  { key: 'on-hold', label: '保留', color: '#FF9800', status: 'on-hold' },
+  { key: 'completed', label: '完了', color: '#4CAF50', status: 'completed' }
+];
+
+export const DEFAULT_TASK_BOARD: TaskBoard = { columns: DEFAULT_TASK_COLUMNS };
+
+export const CUSTOM_COLUMN_COLOR = '#607D8B';
+
+export const newColumnKey = () => `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// タスクの列（追加した列が削除された・ステータスが列と合わない場合はステータスの列）
+export const columnKeyOf = (task: Pick<Task, 'status' | 'boardColumn'>, board: TaskBoard): string => {
+  const column = task.boardColumn ? board.columns.find(({ key }) => key === task.boardColumn) : undefined;
+  return column && column.status === task.status ? column.key : task.status;
+};
+
+// 並び順のあるタスクを先に、並び順のないタスク（以前に作成したタスクなど）は作成順に並べる
+export const compareByRank = (a: Task, b: Task): number => {
+  if (a.rank && b.rank) return a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0;
+  if (a.rank || b.rank) return a.rank ? -1 : 1;
+  return a.createdAt.localeCompare(b.createdAt);
+};
+
+const RANK_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// before と after の間に並ぶ並び順（省略した側は端）。末尾が 0 にならないため、どの2つの間にも必ず値を作れる
+export const rankBetween = (before?: string | null, after?: string | null): string => {
+  let rank = '';
+  // after と先頭が同じ間は after より小さくなるように選ぶ
+  let boundedAbove = !!after;
+  for (let i = 0; ; i++) {
+    const low = before && i < before.length ? RANK_DIGITS.indexOf(before[i]) : 0;
+    const high = boundedAbove && after && i < after.length ? RANK_DIGITS.indexOf(after[i]) : RANK_DIGITS.length;
+    if (high - low > 1) return rank + RANK_DIGITS[Math.floor((low + high) / 2)];
+    rank += RANK_DIGITS[low];
+    if (low < high) boundedAbove = false;
+  }
+};
+
+export type WipState = 'ok' | 'warn' | 'block';
+
+// 列に1件移動したときの状態（count は移動先の列にある他のタスクの件数）
+export const wipStateOf = (column: TaskBoardColumn, count: number): WipState => {
+  if (!column.wipLimit || count < column.wipLimit) return 'ok';
+  return column.wipMode === 'block' ? 'block' : 'warn';
+};
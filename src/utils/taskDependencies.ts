@@ -0,0 +1,68 @@
+import { Task } from '../types/models';
+
+// サブタスクとタスクの依存関係（サーバーの server/taskDependencies.ts と同じ規則）
+// 依存タスクが完了するまでは進行中・完了にしない（確認したうえで上書きできる）
+
+export const BLOCKED_STATUSES: Task['status'][] = ['in-progress', 'completed'];
+
+export const isBlockingMove = (task: Task, status: Task['status']) =>
+  task.status !== status && BLOCKED_STATUSES.includes(status);
+
+const byId = (tasks: Task[]) => new Map(tasks.map(task => [task.id, task]));
+
+// 未完了の依存タスク（ゴミ箱に移動したタスクは一覧にないため数えない）
+export const openBlockersOf = (task: Pick<Task, 'blockedByIds'>, tasks: Task[]): Task[] => {
+  const tasksById = byId(tasks);
+  return (task.blockedByIds ?? [])
+    .map(id => tasksById.get(id))
+    .filter((blocker): blocker is Task => !!blocker && blocker.status !== 'completed');
+};
+
+// このタスクの完了を待っているタスク
+export const dependentsOf = (task: Task, tasks: Task[]): Task[] =>
+  tasks.filter(other => other.blockedByIds?.includes(task.id));
+
+export const subtasksOf = (task: Task, tasks: Task[]): Task[] =>
+  tasks.filter(other => other.parentId === task.id);
+
+export interface SubtaskRollup {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+// サブタスクの完了状況（サブタスクがない場合はnull）
+export const rollupOf = (task: Task, tasks: Task[]): SubtaskRollup | null => {
+  const subtasks = subtasksOf(task, tasks);
+  if (subtasks.length === 0) return null;
+  const completed = subtasks.filter(subtask => subtask.status === 'completed').length;
+  return { completed, total: subtasks.length, percent: Math.round((completed / subtasks.length) * 100) };
+};
+
+export interface DependencyStep {
+  task: Task;
+  // 0 は直接の依存タスク
+  depth: number;
+}
+
+// 依存タスクをさかのぼった一覧（深さ優先。一度表示したタスクはたどらない）
+export const dependencyChainOf = (task: Task, tasks: Task[]): DependencyStep[] => {
+  const tasksById = byId(tasks);
+  const visited = new Set([task.id]);
+  const steps: DependencyStep[] = [];
+  const visit = (current: Task, depth: number) => {
+    (current.blockedByIds ?? []).forEach(id => {
+      const blocker = tasksById.get(id);
+      if (!blocker || visited.has(id)) return;
+      visited.add(id);
+      steps.push({ task: blocker, depth });
+      visit(blocker, depth + 1);
+    });
+  };
+  visit(task, 0);
+  return steps;
+};
+
+// 依存先に指定すると循環するタスク（自分自身と、自分の完了を待っているタスク）
+export const createsCycle = (taskId: string | undefined, blocker: Task, tasks: Task[]): boolean =>
+  !!taskId && (blocker.id === taskId || dependencyChainOf(blocker, tasks).some(step => step.task.id === taskId));
@@ -0,0 +1,83 @@
+import { TimeEntry } from '../types/models';
+
+// 作業時間の表示とタイムシートの集計
+// 作業日は画面の日付（ローカル時刻の YYYY-MM-DD）
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const fromDateString = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (value: string, days: number) => {
+  const date = fromDateString(value);
+  date.setDate(date.getDate() + days);
+  return toDateString(date);
+};
+
+// value を含む週の日付（月曜始まり）
+export const weekDatesOf = (value: string): string[] => {
+  const monday = addDays(value, -((fromDateString(value).getDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+};
+
+// 例: 90 → 「1:30」
+export const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}:${pad(minutes % 60)}`;
+
+// 「1:30」（時間:分）、「1.5」（時間）、「90m」（分）を分にする。読めない・0分の場合は null
+export const parseDuration = (text: string): number | null => {
+  const value = text.trim();
+  const clock = /^(\d+):([0-5]\d)$/.exec(value);
+  const minutes = clock
+    ? Number(clock[1]) * 60 + Number(clock[2])
+    : /^\d+m$/i.test(value)
+      ? Number(value.slice(0, -1))
+      : /^\d+(\.\d+)?$/.test(value)
+        ? Math.round(Number(value) * 60)
+        : 0;
+  return minutes > 0 ? minutes : null;
+};
+
+export const isRunning = (entry: TimeEntry) => !!entry.startedAt && !entry.endedAt;
+
+// 計測中のタイマーは経過時間（分）
+export const minutesOf = (entry: TimeEntry, now: Date = new Date()) =>
+  isRunning(entry) ? Math.max(0, Math.floor((now.getTime() - new Date(entry.startedAt!).getTime()) / 60000)) : entry.minutes;
+
+export const totalMinutesOf = (entries: TimeEntry[]) => entries.reduce((sum, entry) => sum + entry.minutes, 0);
+
+export interface TimesheetRow {
+  key: string;
+  task: TimeEntry['task'];
+  user: TimeEntry['user'];
+  minutesByDate: Record<string, number>;
+  total: number;
+}
+
+// メンバーとタスクの組み合わせごとに、日別の作業時間を集計する
+export const timesheetRowsOf = (entries: TimeEntry[]): TimesheetRow[] => {
+  const rows = new Map<string, TimesheetRow>();
+  for (const entry of entries) {
+    const key = `${entry.userId}:${entry.taskId}`;
+    const row = rows.get(key) ?? { key, task: entry.task, user: entry.user, minutesByDate: {}, total: 0 };
+    row.minutesByDate[entry.date] = (row.minutesByDate[entry.date] ?? 0) + entry.minutes;
+    row.total += entry.minutes;
+    rows.set(key, row);
+  }
+  return Array.from(rows.values()).sort((a, b) =>
+    a.user.name.localeCompare(b.user.name, 'ja') || a.task.title.localeCompare(b.task.title, 'ja')
+  );
+};
+
+// 案件ごとの作業時間（案件に関連付けていないタスクの作業時間は '' にまとめる）
+export const minutesByProjectOf = (entries: TimeEntry[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const entry of entries) {
+    const projectId = entry.task.projectId ?? '';
+    totals.set(projectId, (totals.get(projectId) ?? 0) + entry.minutes);
+  }
+  return totals;
+};
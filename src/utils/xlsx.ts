@@ -0,0 +1,153 @@
+// 表形式のデータを Excel（.xlsx）のブックにする
+// ライブラリを使わず、シート1枚のブックを無圧縮のZIPに格納する（数値は数値のセル、それ以外はインライン文字列）
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const utf8Of = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(0xf0 | (code >> 18), 0x80 | ((code >> 12) & 0x3f), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32Of = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const concat = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+};
+
+// ZIPのヘッダー（リトルエンディアン。[値, バイト数] の並び）
+const header = (fields: [number, 2 | 4][]): Uint8Array => {
+  const view = new DataView(new ArrayBuffer(fields.reduce((sum, [, size]) => sum + size, 0)));
+  let offset = 0;
+  for (const [value, size] of fields) {
+    if (size === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += size;
+  }
+  return new Uint8Array(view.buffer);
+};
+
+// 更新日時は固定（1980-01-01）、ファイル名はUTF-8
+const DOS_DATE = 0x21;
+const UTF8_FLAG = 0x0800;
+
+const zip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = utf8Of(file.name);
+    const crc = crc32Of(file.data);
+    const size = file.data.length;
+    chunks.push(
+      header([[0x04034b50, 4], [20, 2], [UTF8_FLAG, 2], [0, 2], [0, 2], [DOS_DATE, 2], [crc, 4], [size, 4], [size, 4], [name.length, 2], [0, 2]]),
+      name,
+      file.data
+    );
+    directory.push(
+      header([
+        [0x02014b50, 4], [20, 2], [20, 2], [UTF8_FLAG, 2], [0, 2], [0, 2], [DOS_DATE, 2], [crc, 4], [size, 4], [size, 4],
+        [name.length, 2], [0, 2], [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]
+      ]),
+      name
+    );
+    offset += 30 + name.length + size;
+  }
+  const directorySize = directory.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = header([[0x06054b50, 4], [0, 2], [0, 2], [files.length, 2], [files.length, 2], [directorySize, 4], [offset, 4], [0, 2]]);
+  return concat([...chunks, ...directory, end]);
+};
+
+// XMLに書けない制御文字（タブ・改行以外）は除く
+const isXmlChar = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+  Array.from(value).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 → A、26 → AA
+const columnNameOf = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const cellOf = (value: unknown, ref: string) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+// シート名に使えない文字を除き、31文字までにする
+const sheetNameOf = (name: string) => name.replace(/[[\]:*?/\\]/g, '').slice(0, 31) || 'Sheet1';
+
+// 1行目は data の最初の要素の項目名
+export const buildXlsx = (data: Record<string, unknown>[], sheetName = 'Sheet1'): Uint8Array => {
+  const headers = Object.keys(data[0] ?? {});
+  const rows = [headers, ...data.map(row => headers.map(name => row[name]))]
+    .map((values, row) => `<row r="${row + 1}">${values.map((value, column) => cellOf(value, `${columnNameOf(column)}${row + 1}`)).join('')}</row>`)
+    .join('');
+
+  const files = {
+    '[Content_Types].xml':
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      `</Types>`,
+    '_rels/.rels':
+      `<Relationships xmlns="${RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`,
+    'xl/workbook.xml':
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP}">` +
+      `<sheets><sheet name="${escapeXml(sheetNameOf(sheetName))}" sheetId="1" r:id="rId1"/></sheets>` +
+      `</workbook>`,
+    'xl/_rels/workbook.xml.rels':
+      `<Relationships xmlns="${RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `</Relationships>`,
+    'xl/worksheets/sheet1.xml': `<worksheet xmlns="${MAIN_NS}"><sheetData>${rows}</sheetData></worksheet>`
+  };
+  return zip(Object.entries(files).map(([name, xml]) => ({ name, data: utf8Of(XML_HEADER + xml) })));
+};